@@ -61,6 +61,33 @@ try {
       updatedAt INTEGER
     );
 
+    CREATE TABLE IF NOT EXISTS blobs (
+      sha256 TEXT PRIMARY KEY,
+      storageKey TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      refCount INTEGER NOT NULL DEFAULT 0,
+      encryptionKeyId TEXT,
+      wrappedKey TEXT,
+      iv TEXT,
+      authTag TEXT,
+      createdAt INTEGER NOT NULL,
+      updatedAt INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS folders (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      parentId TEXT,
+      name TEXT NOT NULL,
+      createdAt INTEGER NOT NULL,
+      updatedAt INTEGER NOT NULL,
+      FOREIGN KEY (userId) REFERENCES user (id) ON DELETE CASCADE,
+      FOREIGN KEY (parentId) REFERENCES folders (id) ON DELETE CASCADE
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS folders_parent_name
+      ON folders (userId, coalesce(parentId, ''), name COLLATE NOCASE);
+
     CREATE TABLE IF NOT EXISTS files (
       id TEXT PRIMARY KEY,
       filename TEXT NOT NULL,
@@ -72,10 +99,210 @@ try {
       uploadedBy TEXT,
       url TEXT,
       thumbnailUrl TEXT,
+      thumbnailBlobHash TEXT,
+      blobHash TEXT,
+      deletedAt INTEGER,
+      currentVersion INTEGER NOT NULL DEFAULT 1,
+      scanStatus TEXT NOT NULL DEFAULT 'pending',
+      scanResult TEXT,
+      scannedAt INTEGER,
+      imageMetadata TEXT,
+      ocrText TEXT,
+      ocrConfidence REAL,
+      ocrCompletedAt INTEGER,
+      folderId TEXT,
+      createdAt INTEGER NOT NULL,
+      updatedAt INTEGER NOT NULL,
+      FOREIGN KEY (uploadedBy) REFERENCES user (id) ON DELETE CASCADE,
+      FOREIGN KEY (thumbnailBlobHash) REFERENCES blobs (sha256),
+      FOREIGN KEY (blobHash) REFERENCES blobs (sha256),
+      FOREIGN KEY (folderId) REFERENCES folders (id) ON DELETE SET NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS fileVersions (
+      id TEXT PRIMARY KEY,
+      fileId TEXT NOT NULL,
+      versionNumber INTEGER NOT NULL,
+      filename TEXT NOT NULL,
+      originalName TEXT NOT NULL,
+      fileSize INTEGER NOT NULL,
+      fileType TEXT NOT NULL,
+      mimeType TEXT NOT NULL,
+      blobHash TEXT,
+      uploadedBy TEXT,
+      scanStatus TEXT NOT NULL DEFAULT 'pending',
+      scannedAt INTEGER,
+      imageMetadata TEXT,
+      createdAt INTEGER NOT NULL,
+      FOREIGN KEY (fileId) REFERENCES files (id) ON DELETE CASCADE,
+      FOREIGN KEY (blobHash) REFERENCES blobs (sha256),
+      FOREIGN KEY (uploadedBy) REFERENCES user (id) ON DELETE SET NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS fileVersions_fileId_versionNumber
+      ON fileVersions (fileId, versionNumber);
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS fileSearch USING fts5(
+      fileId UNINDEXED,
+      content,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS files_delete_fileSearch AFTER DELETE ON files
+    BEGIN
+      DELETE FROM fileSearch WHERE fileId = old.id;
+    END;
+
+    CREATE TABLE IF NOT EXISTS tags (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      name TEXT NOT NULL,
+      createdAt INTEGER NOT NULL,
+      updatedAt INTEGER NOT NULL,
+      FOREIGN KEY (userId) REFERENCES user (id) ON DELETE CASCADE
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS tags_userId_name
+      ON tags (userId, name COLLATE NOCASE);
+
+    CREATE TABLE IF NOT EXISTS fileTags (
+      fileId TEXT NOT NULL,
+      tagId TEXT NOT NULL,
+      autoApplied INTEGER NOT NULL DEFAULT 0,
+      ruleId TEXT,
+      createdAt INTEGER NOT NULL,
+      PRIMARY KEY (fileId, tagId),
+      FOREIGN KEY (fileId) REFERENCES files (id) ON DELETE CASCADE,
+      FOREIGN KEY (tagId) REFERENCES tags (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS fileTags_tagId ON fileTags (tagId);
+
+    CREATE TABLE IF NOT EXISTS tagRules (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      tagId TEXT NOT NULL,
+      condition TEXT NOT NULL,
+      field TEXT,
+      pattern TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
       createdAt INTEGER NOT NULL,
       updatedAt INTEGER NOT NULL,
-      FOREIGN KEY (uploadedBy) REFERENCES user (id) ON DELETE CASCADE
+      FOREIGN KEY (userId) REFERENCES user (id) ON DELETE CASCADE,
+      FOREIGN KEY (tagId) REFERENCES tags (id) ON DELETE CASCADE
     );
+
+    CREATE TABLE IF NOT EXISTS autoTagRejections (
+      fileId TEXT NOT NULL,
+      tagId TEXT NOT NULL,
+      createdAt INTEGER NOT NULL,
+      PRIMARY KEY (fileId, tagId),
+      FOREIGN KEY (fileId) REFERENCES files (id) ON DELETE CASCADE,
+      FOREIGN KEY (tagId) REFERENCES tags (id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS sharedFiles (
+      id TEXT PRIMARY KEY,
+      fileId TEXT NOT NULL,
+      shareCode TEXT NOT NULL UNIQUE,
+      sharedBy TEXT NOT NULL,
+      permissions TEXT NOT NULL DEFAULT 'both',
+      maxDownloads INTEGER,
+      pinnedVersion INTEGER,
+      downloadCount INTEGER NOT NULL DEFAULT 0,
+      viewCount INTEGER NOT NULL DEFAULT 0,
+      expiresAt INTEGER NOT NULL,
+      isActive INTEGER NOT NULL DEFAULT 1,
+      createdAt INTEGER NOT NULL,
+      updatedAt INTEGER NOT NULL,
+      FOREIGN KEY (fileId) REFERENCES files (id) ON DELETE CASCADE,
+      FOREIGN KEY (sharedBy) REFERENCES user (id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS shareAccessLog (
+      id TEXT PRIMARY KEY,
+      sharedFileId TEXT NOT NULL,
+      accessType TEXT NOT NULL,
+      ipAddress TEXT,
+      userAgent TEXT,
+      referrer TEXT,
+      accessedAt INTEGER NOT NULL,
+      FOREIGN KEY (sharedFileId) REFERENCES sharedFiles (id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS uploadSessions (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      originalName TEXT NOT NULL,
+      mimeType TEXT NOT NULL,
+      uploadLength INTEGER NOT NULL,
+      uploadOffset INTEGER NOT NULL DEFAULT 0,
+      tempPath TEXT NOT NULL,
+      fileId TEXT,
+      folderId TEXT,
+      expiresAt INTEGER NOT NULL,
+      createdAt INTEGER NOT NULL,
+      updatedAt INTEGER NOT NULL,
+      FOREIGN KEY (userId) REFERENCES user (id) ON DELETE CASCADE,
+      FOREIGN KEY (fileId) REFERENCES files (id) ON DELETE SET NULL,
+      FOREIGN KEY (folderId) REFERENCES folders (id) ON DELETE SET NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS notifications (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      type TEXT NOT NULL,
+      title TEXT NOT NULL,
+      message TEXT NOT NULL,
+      fileId TEXT,
+      readAt INTEGER,
+      createdAt INTEGER NOT NULL,
+      FOREIGN KEY (userId) REFERENCES user (id) ON DELETE CASCADE,
+      FOREIGN KEY (fileId) REFERENCES files (id) ON DELETE SET NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS userSettings (
+      userId TEXT PRIMARY KEY,
+      exifStripping TEXT NOT NULL DEFAULT 'location',
+      stripStoredExif INTEGER NOT NULL DEFAULT 0,
+      builtInTagRules INTEGER NOT NULL DEFAULT 1,
+      updatedAt INTEGER NOT NULL,
+      FOREIGN KEY (userId) REFERENCES user (id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS storageUsage (
+      userId TEXT PRIMARY KEY,
+      plan TEXT NOT NULL DEFAULT 'starter',
+      usedBytes INTEGER NOT NULL DEFAULT 0,
+      updatedAt INTEGER NOT NULL,
+      FOREIGN KEY (userId) REFERENCES user (id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS storageReconciliationRuns (
+      id TEXT PRIMARY KEY,
+      trigger TEXT NOT NULL,
+      triggeredBy TEXT,
+      dryRun INTEGER NOT NULL DEFAULT 0,
+      status TEXT NOT NULL DEFAULT 'running',
+      summary TEXT,
+      report TEXT,
+      error TEXT,
+      startedAt INTEGER NOT NULL,
+      finishedAt INTEGER,
+      FOREIGN KEY (triggeredBy) REFERENCES user (id) ON DELETE SET NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS searchHistory (
+      userId TEXT NOT NULL,
+      query TEXT NOT NULL,
+      searchCount INTEGER NOT NULL DEFAULT 1,
+      lastSearchedAt INTEGER NOT NULL,
+      PRIMARY KEY (userId, query),
+      FOREIGN KEY (userId) REFERENCES user (id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS searchHistory_userId_lastSearchedAt
+      ON searchHistory (userId, lastSearchedAt);
   `;
 
   // Execute the SQL commands
@@ -1,10 +1,10 @@
 import type { NextConfig } from "next";
+import { MAX_FILE_SIZE, MULTIPART_OVERHEAD_ALLOWANCE } from "./src/types/file";
 
 const nextConfig: NextConfig = {
   /* config options here */
-  experimental: {
-    serverComponentsExternalPackages: [],
-  },
+  // Loaded from node_modules at runtime: the OCR engine starts its worker from its own files
+  serverExternalPackages: ["tesseract.js"],
   // Configure API routes with security and size limits
   async headers() {
     return [
@@ -31,13 +31,13 @@ const nextConfig: NextConfig = {
       },
     ];
   },
-  // Set server-side limits
+  // Set server-side limits (shared with validateUploadSize and the upload pipeline)
   serverRuntimeConfig: {
-    maxFileSize: 2 * 1024 * 1024, // 10MB
+    maxFileSize: MAX_FILE_SIZE,
   },
   api: {
     bodyParser: {
-      sizeLimit: "2mb",
+      sizeLimit: MAX_FILE_SIZE + MULTIPART_OVERHEAD_ALLOWANCE,
     },
   },
 };
@@ -0,0 +1,63 @@
+const net = require("net");
+
+// Minimal stand-in for clamd, for trying out virus scanning without installing ClamAV.
+// Speaks enough of the protocol for the app's scanner: zINSTREAM followed by
+// length-prefixed chunks and a zero-length terminator. Content containing the
+// EICAR test string is reported as infected, everything else as clean.
+//
+// Usage: node scripts/fake-clamd.js [port]
+// Then start the app with CLAMD_HOST=127.0.0.1 (and CLAMD_PORT if not 3310).
+
+const port = Number(process.argv[2]) || 3310;
+const EICAR = "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*";
+const COMMAND = "zINSTREAM\0";
+
+const server = net.createServer((socket) => {
+  let buffer = Buffer.alloc(0);
+  let commandSeen = false;
+  const content = [];
+
+  const reply = (message) => {
+    socket.end(`${message}\0`);
+  };
+
+  socket.on("data", (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    if (!commandSeen) {
+      if (buffer.length < COMMAND.length) return;
+      if (buffer.subarray(0, COMMAND.length).toString() !== COMMAND) {
+        reply("UNKNOWN COMMAND");
+        return;
+      }
+      commandSeen = true;
+      buffer = buffer.subarray(COMMAND.length);
+    }
+
+    while (buffer.length >= 4) {
+      const length = buffer.readUInt32BE(0);
+
+      if (length === 0) {
+        const scanned = Buffer.concat(content).toString("latin1");
+        const infected = scanned.includes(EICAR);
+        console.log(
+          `Scanned ${scanned.length} bytes: ${infected ? "Eicar-Signature FOUND" : "OK"}`,
+        );
+        reply(infected ? "stream: Eicar-Signature FOUND" : "stream: OK");
+        return;
+      }
+
+      if (buffer.length < 4 + length) return;
+      content.push(buffer.subarray(4, 4 + length));
+      buffer = buffer.subarray(4 + length);
+    }
+  });
+
+  socket.on("error", (error) => {
+    console.error("Connection error:", error.message);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Fake clamd listening on port ${port}`);
+});
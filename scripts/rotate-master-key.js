@@ -0,0 +1,173 @@
+const Database = require("better-sqlite3");
+const crypto = require("crypto");
+const path = require("path");
+const { loadEnvConfig } = require("@next/env");
+
+// Re-wraps every blob's data key with the active master key.
+// File contents are never read or rewritten, only the wrapped keys in the blobs table.
+//
+// Rotation procedure:
+//   1. Generate a new key:            openssl rand -base64 32
+//   2. Move the current key to STORAGE_PREVIOUS_MASTER_KEYS="<oldId>:<oldKey>"
+//   3. Set STORAGE_MASTER_KEY / STORAGE_MASTER_KEY_ID to the new key and restart the app
+//   4. Run:                           npm run storage:rotate-key
+//   5. Remove the old key from STORAGE_PREVIOUS_MASTER_KEYS
+//
+// Usage: node scripts/rotate-master-key.js [--dry-run]
+
+const projectDir = path.join(__dirname, "..");
+loadEnvConfig(projectDir);
+
+// Must match src/utils/encryption.ts
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const DEVELOPMENT_KEY_ID = "development";
+
+function parseMasterKey(keyId, value) {
+  const key = Buffer.from(value.trim(), "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(
+      `Master key "${keyId}" must be ${KEY_LENGTH} bytes, base64 encoded`,
+    );
+  }
+  return key;
+}
+
+function loadMasterKeyring(env) {
+  const keys = new Map();
+
+  for (const entry of (env.STORAGE_PREVIOUS_MASTER_KEYS || "").split(",")) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf(":");
+    if (separator <= 0) {
+      throw new Error(
+        'STORAGE_PREVIOUS_MASTER_KEYS entries must look like "keyId:base64key"',
+      );
+    }
+    const keyId = entry.slice(0, separator).trim();
+    keys.set(keyId, parseMasterKey(keyId, entry.slice(separator + 1)));
+  }
+
+  if (env.NODE_ENV !== "production") {
+    const secret = env.BETTER_AUTH_SECRET || "fallback-secret-key";
+    keys.set(
+      DEVELOPMENT_KEY_ID,
+      crypto.createHash("sha256").update(`storage-master-key:${secret}`).digest(),
+    );
+  }
+
+  if (!env.STORAGE_MASTER_KEY) {
+    throw new Error("STORAGE_MASTER_KEY must be set to the new master key");
+  }
+
+  const activeKeyId = env.STORAGE_MASTER_KEY_ID || "primary";
+  keys.set(activeKeyId, parseMasterKey(activeKeyId, env.STORAGE_MASTER_KEY));
+  return { activeKeyId, keys };
+}
+
+function unwrapDataKey(wrappedKey, masterKey) {
+  const data = Buffer.from(wrappedKey, "base64");
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    masterKey,
+    data.subarray(0, IV_LENGTH),
+  );
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+    decipher.final(),
+  ]);
+}
+
+function wrapDataKey(dataKey, masterKey) {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, masterKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+const dryRun = process.argv.includes("--dry-run");
+
+console.log(`🔑 Rotating storage master key${dryRun ? " (dry run)" : ""}...`);
+
+try {
+  const keyring = loadMasterKeyring(process.env);
+  const activeKey = keyring.keys.get(keyring.activeKeyId);
+
+  const db = new Database(path.join(projectDir, "sqlite.db"));
+  db.pragma("journal_mode = WAL");
+
+  const pending = db
+    .prepare(
+      `SELECT sha256, encryptionKeyId, wrappedKey FROM blobs
+       WHERE wrappedKey IS NOT NULL AND encryptionKeyId != ?`,
+    )
+    .all(keyring.activeKeyId);
+
+  console.log(
+    `📦 ${pending.length} blob(s) not yet wrapped with "${keyring.activeKeyId}"`,
+  );
+
+  // Fail before changing anything if a required old key is missing
+  const missingKeyIds = [
+    ...new Set(
+      pending
+        .map((blob) => blob.encryptionKeyId)
+        .filter((keyId) => !keyring.keys.has(keyId)),
+    ),
+  ];
+  if (missingKeyIds.length > 0) {
+    throw new Error(
+      `Add these keys to STORAGE_PREVIOUS_MASTER_KEYS first: ${missingKeyIds.join(", ")}`,
+    );
+  }
+
+  const update = db.prepare(
+    `UPDATE blobs SET wrappedKey = ?, encryptionKeyId = ?, updatedAt = ?
+     WHERE sha256 = ? AND encryptionKeyId = ?`,
+  );
+
+  const rotate = db.transaction((blobs) => {
+    const now = Date.now();
+    for (const blob of blobs) {
+      const dataKey = unwrapDataKey(
+        blob.wrappedKey,
+        keyring.keys.get(blob.encryptionKeyId),
+      );
+      update.run(
+        wrapDataKey(dataKey, activeKey),
+        keyring.activeKeyId,
+        Math.floor(now / 1000),
+        blob.sha256,
+        blob.encryptionKeyId,
+      );
+    }
+  });
+
+  if (!dryRun) {
+    rotate(pending);
+  }
+
+  const counts = db
+    .prepare(
+      `SELECT encryptionKeyId, COUNT(*) AS count FROM blobs
+       WHERE wrappedKey IS NOT NULL GROUP BY encryptionKeyId`,
+    )
+    .all();
+
+  console.log(
+    dryRun
+      ? "✅ Dry run complete, no changes were made"
+      : `✅ Re-wrapped ${pending.length} data key(s)`,
+  );
+  for (const { encryptionKeyId, count } of counts) {
+    console.log(`   ${encryptionKeyId}: ${count} blob(s)`);
+  }
+
+  db.close();
+} catch (error) {
+  console.error("❌ Master key rotation failed:", error.message);
+  process.exit(1);
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Header from "@/components/Header";
+import { useRouter } from "next/navigation";
+import { useSession } from "@/app/auth/client";
+import type {
+  ReconciliationReport,
+  ReconciliationSummary,
+} from "@/utils/storageReconciler";
+
+interface ReconciliationRun {
+  id: string;
+  trigger: "scheduled" | "manual";
+  dryRun: boolean;
+  status: "running" | "completed" | "failed";
+  summary: ReconciliationSummary | null;
+  report: ReconciliationReport | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+const statusStyles: Record<ReconciliationRun["status"], string> = {
+  running: "bg-blue-500/20 text-blue-200 border-blue-400/30",
+  completed: "bg-green-500/20 text-green-200 border-green-400/30",
+  failed: "bg-red-500/20 text-red-200 border-red-400/30",
+};
+
+export default function StorageAdminPage() {
+  const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+  const [running, setRunning] = useState(false);
+  const [gracePeriodHours, setGracePeriodHours] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [forbidden, setForbidden] = useState(false);
+  const [error, setError] = useState("");
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const { data: session, isPending } = useSession();
+  const router = useRouter();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isPending && !session) {
+      router.push("/login");
+    }
+  }, [session, isPending, router]);
+
+  const loadRuns = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/storage/reconcile");
+      if (response.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error("Failed to load reconciliation runs");
+      }
+
+      const data = await response.json();
+      setRuns(data.runs);
+      setRunning(data.running);
+      setGracePeriodHours(data.gracePeriodHours);
+      setError("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load reconciliation runs");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session) loadRuns();
+  }, [session, loadRuns]);
+
+  // Poll while a run is in progress
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(loadRuns, 3000);
+    return () => clearInterval(interval);
+  }, [running, loadRuns]);
+
+  const startRun = async (dryRun: boolean) => {
+    try {
+      const response = await fetch(
+        `/api/admin/storage/reconcile${dryRun ? "?dryRun=true" : ""}`,
+        { method: "POST" },
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start reconciliation");
+      }
+      setRunning(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start reconciliation");
+    }
+  };
+
+  if (isPending || (session && loading)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      <Header currentPage="Storage" />
+
+      <div className="max-w-6xl mx-auto p-6 relative z-10">
+        {forbidden ? (
+          <div className="bg-white/10 backdrop-blur-sm rounded-lg border border-white/20 p-6 text-center">
+            <h2 className="text-lg font-semibold text-white">Admins only</h2>
+            <p className="mt-2 text-sm text-gray-300">
+              Your account does not have access to storage maintenance.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h1 className="text-2xl font-bold text-white">Storage reconciliation</h1>
+                {gracePeriodHours !== null && (
+                  <p className="text-sm text-gray-300">
+                    Orphans older than {gracePeriodHours}h are deleted
+                  </p>
+                )}
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => startRun(true)}
+                  disabled={running}
+                  className="bg-white/10 border border-white/20 text-white px-4 py-2 rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+                >
+                  Dry run
+                </button>
+                <button
+                  onClick={() => startRun(false)}
+                  disabled={running}
+                  className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-4 py-2 rounded-lg transition-all duration-300 font-medium disabled:opacity-50"
+                >
+                  {running ? "Running..." : "Run now"}
+                </button>
+              </div>
+            </div>
+
+            {error && (
+              <div className="mb-6 bg-red-900/50 backdrop-blur-sm border border-red-500/50 rounded-lg p-4 text-sm text-red-200">
+                {error}
+              </div>
+            )}
+
+            {runs.length === 0 ? (
+              <p className="text-gray-300">No reconciliation runs yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {runs.map((run) => (
+                  <div
+                    key={run.id}
+                    className="bg-white/10 backdrop-blur-sm rounded-lg border border-white/20 p-4"
+                  >
+                    <button
+                      onClick={() =>
+                        setExpandedRunId(expandedRunId === run.id ? null : run.id)
+                      }
+                      className="w-full flex items-center justify-between text-left"
+                    >
+                      <div>
+                        <p className="text-sm font-medium text-white">
+                          {new Date(run.startedAt).toLocaleString()}
+                          <span className="ml-2 text-gray-400">
+                            {run.trigger}
+                            {run.dryRun && " · dry run"}
+                          </span>
+                        </p>
+                        {run.summary && (
+                          <p className="text-xs text-gray-300 mt-1">
+                            {run.summary.scannedObjects} scanned ·{" "}
+                            {run.summary.orphanedObjects} orphaned (
+                            {formatBytes(run.summary.orphanedBytes)}) ·{" "}
+                            {run.summary.missingObjects} missing ·{" "}
+                            {run.summary.deletedObjects} deleted (
+                            {formatBytes(run.summary.deletedBytes)})
+                          </p>
+                        )}
+                        {run.error && (
+                          <p className="text-xs text-red-300 mt-1">{run.error}</p>
+                        )}
+                      </div>
+                      <span
+                        className={`text-xs px-2 py-1 rounded border ${statusStyles[run.status]}`}
+                      >
+                        {run.status}
+                      </span>
+                    </button>
+
+                    {expandedRunId === run.id && run.report && (
+                      <div className="mt-4 space-y-3 text-xs text-gray-300">
+                        {run.report.missingObjects.length > 0 && (
+                          <div>
+                            <h3 className="font-semibold text-red-200">Missing objects</h3>
+                            <ul className="mt-1 space-y-1 font-mono">
+                              {run.report.missingObjects.map((item) => (
+                                <li key={item.key}>
+                                  {item.key} (files: {item.fileIds.join(", ")})
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        {run.report.orphanedObjects.length > 0 && (
+                          <div>
+                            <h3 className="font-semibold text-white">Orphaned objects</h3>
+                            <ul className="mt-1 space-y-1 font-mono">
+                              {run.report.orphanedObjects.map((item) => (
+                                <li key={item.key}>
+                                  {item.key} · {formatBytes(item.size)} · {item.action}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        {run.report.refCountCorrections.length > 0 && (
+                          <div>
+                            <h3 className="font-semibold text-white">
+                              Reference count corrections
+                            </h3>
+                            <ul className="mt-1 space-y-1 font-mono">
+                              {run.report.refCountCorrections.map((item) => (
+                                <li key={item.sha256}>
+                                  {item.sha256.slice(0, 12)}: {item.from} → {item.to}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        {run.report.errors.length > 0 && (
+                          <div>
+                            <h3 className="font-semibold text-red-200">Errors</h3>
+                            <ul className="mt-1 space-y-1">
+                              {run.report.errors.map((message, index) => (
+                                <li key={index}>{message}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAdmin } from "@/app/auth/middleware";
+import { StorageReconciliationRun } from "@/app/auth/schema";
+import { fileActivityLogger } from "@/utils/logging";
+import {
+  getRecentReconciliationRuns,
+  isReconciliationRunning,
+  reconcileStorage,
+  ReconciliationInProgressError,
+  STORAGE_GC_GRACE_PERIOD_MS,
+} from "@/utils/storageReconciler";
+
+const ENDPOINT = "/api/admin/storage/reconcile";
+
+function serializeRun(run: StorageReconciliationRun) {
+  return {
+    ...run,
+    summary: run.summary ? JSON.parse(run.summary) : null,
+    report: run.report ? JSON.parse(run.report) : null,
+  };
+}
+
+// GET /api/admin/storage/reconcile - Recent reconciliation runs and their reports
+export const GET = withAdmin(async (request: NextRequest, session) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "10"), 50);
+
+    const runs = await getRecentReconciliationRuns(limit);
+
+    return NextResponse.json({
+      success: true,
+      running: isReconciliationRunning(),
+      gracePeriodHours: STORAGE_GC_GRACE_PERIOD_MS / (60 * 60 * 1000),
+      runs: runs.map(serializeRun),
+    });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "StorageAdminAPI",
+      "GET",
+      ENDPOINT,
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to load reconciliation runs:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load reconciliation runs" },
+      { status: 500 },
+    );
+  }
+});
+
+// POST /api/admin/storage/reconcile - Start a reconciliation run (?dryRun=true to only report)
+export const POST = withAdmin(async (request: NextRequest, session) => {
+  const { searchParams } = new URL(request.url);
+  const dryRun = searchParams.get("dryRun") === "true";
+
+  if (isReconciliationRunning()) {
+    return NextResponse.json(
+      { success: false, error: new ReconciliationInProgressError().message },
+      { status: 409 },
+    );
+  }
+
+  // Runs can take a while on large buckets, so respond right away and let
+  // the client poll GET for the result
+  reconcileStorage({ dryRun, trigger: "manual", triggeredBy: session.user.id }).catch(
+    (error) => {
+      console.error("Storage reconciliation failed:", error);
+    },
+  );
+
+  fileActivityLogger.logApiResponse("StorageAdminAPI", "POST", ENDPOINT, 202, {
+    userId: session.user.id,
+    details: {
+      dryRun,
+      timestamp: new Date().toISOString(),
+    },
+  });
+
+  return NextResponse.json({ success: true, running: true, dryRun }, { status: 202 });
+});
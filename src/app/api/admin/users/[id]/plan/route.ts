@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { user } from "@/app/auth/schema";
+import { withAdmin } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import {
+  isStoragePlan,
+  setStoragePlan,
+  STORAGE_PLANS,
+  toStorageUsageSummary,
+} from "@/utils/storageQuota";
+
+// PUT /api/admin/users/[id]/plan - Move a user to another storage plan
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAdmin(async (req: NextRequest, session) => {
+    const userId = params.id;
+    const endpoint = `/api/admin/users/${userId}/plan`;
+
+    try {
+      const body = await request.json().catch(() => null);
+      const plan = body?.plan;
+
+      if (!isStoragePlan(plan)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Plan must be one of: ${Object.keys(STORAGE_PLANS).join(", ")}`,
+          },
+          { status: 400 },
+        );
+      }
+
+      const [target] = await db
+        .select({ id: user.id })
+        .from(user)
+        .where(eq(user.id, userId))
+        .limit(1);
+
+      if (!target) {
+        return NextResponse.json(
+          { success: false, error: "User not found" },
+          { status: 404 },
+        );
+      }
+
+      const usage = await setStoragePlan(userId, plan);
+
+      fileActivityLogger.logApiResponse("StorageAdminAPI", "PUT", endpoint, 200, {
+        userId: session.user.id,
+        details: {
+          targetUserId: userId,
+          plan,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        usage: toStorageUsageSummary(usage),
+      });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "StorageAdminAPI",
+        "PUT",
+        endpoint,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            targetUserId: userId,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Failed to change storage plan:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to change storage plan" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
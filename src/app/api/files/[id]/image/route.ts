@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files } from "@/app/auth/schema";
+import { withAuth } from "@/app/auth/middleware";
+import { getUserContentHeaders } from "@/utils/contentHeaders";
+import {
+  getDerivativeKey,
+  getImageDerivative,
+  parseImageTransform,
+  supportsImageTransform,
+} from "@/utils/imageDerivatives";
+import { fileActivityLogger } from "@/utils/logging";
+import { StorageObjectNotFoundError } from "@/utils/storage";
+import { getScanBlock } from "@/utils/virusScanner";
+
+// GET /api/files/[id]/image - Resized and converted copy of an image file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const requestStartTime = Date.now();
+    const fileId = params.id;
+    const url = `/api/files/${fileId}/image`;
+
+    fileActivityLogger.logApiRequest("FileImageAPI", "GET", url, {
+      userId: session.user?.id,
+      fileId,
+      details: {
+        query: req.nextUrl.search,
+        userAgent: req.headers.get("user-agent"),
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    const respondWithError = (status: number, error: string, details = {}) => {
+      fileActivityLogger.logApiResponse("FileImageAPI", "GET", url, status, {
+        userId: session.user?.id,
+        fileId,
+        details: {
+          error,
+          ...details,
+          duration: Date.now() - requestStartTime,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({ success: false, error }, { status });
+    };
+
+    try {
+      const parsed = parseImageTransform(req.nextUrl.searchParams);
+      if (!parsed.success) {
+        return respondWithError(400, parsed.error);
+      }
+      const { transform } = parsed;
+
+      // Same checks as downloading the original
+      const [file] = await db
+        .select()
+        .from(files)
+        .where(
+          and(
+            eq(files.id, fileId),
+            eq(files.uploadedBy, session.user.id),
+            isNull(files.deletedAt),
+          ),
+        )
+        .limit(1);
+
+      if (!file) {
+        return respondWithError(404, "File not found");
+      }
+
+      const scanBlock = getScanBlock(file.scanStatus);
+      if (scanBlock) {
+        return respondWithError(scanBlock.status, scanBlock.error, {
+          scanStatus: file.scanStatus,
+        });
+      }
+
+      if (!supportsImageTransform(file.mimeType)) {
+        return respondWithError(415, "This file type cannot be transformed", {
+          mimeType: file.mimeType,
+        });
+      }
+
+      const mimeType = `image/${transform.format}`;
+      const baseName = file.originalName.replace(/\.[^.]*$/, "") || "image";
+      const headers: Record<string, string> = {
+        ...getUserContentHeaders(mimeType, `${baseName}.${transform.format}`, "inline"),
+        ETag: `"${getDerivativeKey(file, transform)}"`,
+        // The URL stays the same across versions, so browsers revalidate against the ETag
+        "Cache-Control": "private, no-cache",
+      };
+
+      if (req.headers.get("if-none-match") === headers.ETag) {
+        return new Response(null, { status: 304, headers });
+      }
+
+      let derivative;
+      try {
+        derivative = await getImageDerivative(file, transform);
+      } catch (error) {
+        if (error instanceof StorageObjectNotFoundError) {
+          return respondWithError(404, "File not found in storage");
+        }
+        // sharp rejects content it can't decode
+        console.error("Image transformation failed:", error);
+        return respondWithError(422, "Image could not be processed");
+      }
+
+      fileActivityLogger.logApiResponse("FileImageAPI", "GET", url, 200, {
+        userId: session.user.id,
+        fileId: file.id,
+        fileName: file.originalName,
+        details: {
+          ...transform,
+          size: derivative.content.length,
+          success: true,
+          duration: Date.now() - requestStartTime,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return new Response(new Uint8Array(derivative.content), {
+        headers: {
+          ...headers,
+          "Content-Length": derivative.content.length.toString(),
+        },
+      });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "FileImageAPI",
+        "GET",
+        url,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          fileId,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined,
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Image transformation error:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to transform image" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/app/auth/db";
 import { files } from "@/app/auth/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNull } from "drizzle-orm";
 import { withAuth } from "@/app/auth/middleware";
 import { FileItem } from "@/types/file";
 import { fileActivityLogger } from "@/utils/logging";
+import { toFileItem } from "@/utils/fileUtils";
+import { withTags } from "@/utils/tags";
+import { getPurgeDate, moveToTrash } from "@/utils/trash";
 
 // GET /api/files/[id] - Get a single file by ID
 export async function GET(
@@ -44,7 +47,13 @@ export async function GET(
       const [file] = await db
         .select()
         .from(files)
-        .where(and(eq(files.id, fileId), eq(files.uploadedBy, session.user.id)))
+        .where(
+          and(
+            eq(files.id, fileId),
+            eq(files.uploadedBy, session.user.id),
+            isNull(files.deletedAt),
+          ),
+        )
         .limit(1);
 
       if (!file) {
@@ -70,18 +79,7 @@ export async function GET(
         );
       }
 
-      const fileItem: FileItem = {
-        id: file.id,
-        filename: file.filename,
-        originalName: file.originalName,
-        fileSize: file.fileSize,
-        fileType: file.fileType,
-        mimeType: file.mimeType,
-        uploadDate: file.uploadDate,
-        uploadedBy: file.uploadedBy,
-        url: file.url,
-        thumbnailUrl: file.thumbnailUrl,
-      };
+      const [fileItem]: FileItem[] = await withTags([toFileItem(file)]);
 
       const requestDuration = Date.now() - requestStartTime;
 
@@ -142,7 +140,7 @@ export async function GET(
   })(request);
 }
 
-// DELETE /api/files/[id] - Delete a single file by ID
+// DELETE /api/files/[id] - Move a single file to the trash
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } },
@@ -176,12 +174,9 @@ export async function DELETE(
         );
       }
 
-      // Get file from database first, only if owned by user
-      const [file] = await db
-        .select()
-        .from(files)
-        .where(and(eq(files.id, fileId), eq(files.uploadedBy, session.user.id)))
-        .limit(1);
+      // Move the file to the trash, only if owned by user. Its content is
+      // kept until the trash is emptied or the retention period passes.
+      const file = await moveToTrash(fileId, session.user.id);
 
       if (!file) {
         fileActivityLogger.logApiResponse(
@@ -206,16 +201,6 @@ export async function DELETE(
         );
       }
 
-      // Delete file from database
-      await db
-        .delete(files)
-        .where(
-          and(eq(files.id, fileId), eq(files.uploadedBy, session.user.id)),
-        );
-
-      // Delete physical file (optional - import deleteFile if needed)
-      // await deleteFile(file.filename);
-
       const requestDuration = Date.now() - requestStartTime;
 
       // Log successful file deletion
@@ -233,6 +218,7 @@ export async function DELETE(
             originalName: file.originalName,
             filename: file.filename,
             fileSize: file.fileSize,
+            trashed: true,
             success: true,
             duration: requestDuration,
             timestamp: new Date().toISOString(),
@@ -242,7 +228,8 @@ export async function DELETE(
 
       return NextResponse.json({
         success: true,
-        message: "File deleted successfully",
+        message: "File moved to trash",
+        purgeAt: getPurgeDate(file.deletedAt!),
       });
     } catch (error) {
       const requestDuration = Date.now() - requestStartTime;
@@ -6,11 +6,13 @@ import { randomUUID } from "crypto";
 import { withAuth } from "@/app/auth/middleware";
 import { generateShareCode, createShareableLink } from "@/utils/urlSigning";
 import { fileActivityLogger } from "@/utils/logging";
+import { currentVersionOf, getFileVersion } from "@/utils/fileVersions";
 
 interface ShareFileRequest {
   permissions?: 'view' | 'download' | 'both';
   expiresIn?: number; // hours
   maxDownloads?: number;
+  version?: number; // pin the share to this version instead of following the current one
 }
 
 interface ShareFileResponse {
@@ -21,6 +23,7 @@ interface ShareFileResponse {
     expiresAt: string;
     permissions: string;
     maxDownloads?: number;
+    pinnedVersion?: number;
   };
   error?: string;
 }
@@ -45,7 +48,7 @@ export const POST = withAuth(async (request: NextRequest, session: any) => {
   try {
     // Parse request body
     const body: ShareFileRequest = await request.json().catch(() => ({}));
-    const { permissions = 'both', expiresIn = 24, maxDownloads } = body;
+    const { permissions = 'both', expiresIn = 24, maxDownloads, version } = body;
 
     // Validate input
     if (!['view', 'download', 'both'].includes(permissions)) {
@@ -156,6 +159,71 @@ export const POST = withAuth(async (request: NextRequest, session: any) => {
       );
     }
 
+    if (file.deletedAt) {
+      const requestDuration = Date.now() - requestStartTime;
+
+      fileActivityLogger.logApiResponse("FileShare", "POST", `/api/files/${fileId}/share`, 409, {
+        userId: session.user.id,
+        fileId,
+        details: {
+          error: "File is in the trash",
+          duration: requestDuration,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json(
+        { success: false, error: "Restore this file from the trash before sharing it" } as ShareFileResponse,
+        { status: 409 }
+      );
+    }
+
+    if (version !== undefined && !(Number.isInteger(version) && await getFileVersion(file, version))) {
+      const requestDuration = Date.now() - requestStartTime;
+
+      fileActivityLogger.logApiResponse("FileShare", "POST", `/api/files/${fileId}/share`, 400, {
+        userId: session.user.id,
+        fileId,
+        details: {
+          error: "Invalid version",
+          validationType: "version",
+          version,
+          duration: requestDuration,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json(
+        { success: false, error: "Version not found" } as ShareFileResponse,
+        { status: 400 }
+      );
+    }
+
+    // Files still being scanned can be shared, the link works once they are clean
+    const sharedContent = version !== undefined
+      ? await getFileVersion(file, version)
+      : currentVersionOf(file);
+
+    if (sharedContent?.scanStatus === "infected") {
+      const requestDuration = Date.now() - requestStartTime;
+
+      fileActivityLogger.logApiResponse("FileShare", "POST", `/api/files/${fileId}/share`, 409, {
+        userId: session.user.id,
+        fileId,
+        details: {
+          error: "File is quarantined",
+          version,
+          duration: requestDuration,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json(
+        { success: false, error: "Quarantined files cannot be shared" } as ShareFileResponse,
+        { status: 409 }
+      );
+    }
+
     // Generate share code and create shareable link
     const shareCode = generateShareCode();
     const now = new Date();
@@ -169,6 +237,7 @@ export const POST = withAuth(async (request: NextRequest, session: any) => {
       sharedBy: session.user.id,
       permissions,
       maxDownloads,
+      pinnedVersion: version ?? null,
       downloadCount: 0,
       viewCount: 0,
       expiresAt,
@@ -206,6 +275,7 @@ export const POST = withAuth(async (request: NextRequest, session: any) => {
         permissions,
         expiresIn,
         maxDownloads,
+        pinnedVersion: version,
         expiresAt: expiresAt.toISOString(),
         success: true,
         duration: requestDuration,
@@ -236,6 +306,7 @@ export const POST = withAuth(async (request: NextRequest, session: any) => {
         expiresAt: expiresAt.toISOString(),
         permissions,
         maxDownloads,
+        pinnedVersion: version,
       },
     } as ShareFileResponse);
 
@@ -348,6 +419,7 @@ export const GET = withAuth(async (request: NextRequest, session: any) => {
         url: `${baseUrl}/share/${share.shareCode}`,
         permissions: share.permissions,
         maxDownloads: share.maxDownloads,
+        pinnedVersion: share.pinnedVersion ?? undefined,
         downloadCount: share.downloadCount,
         viewCount: share.viewCount,
         expiresAt: share.expiresAt.toISOString(),
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files } from "@/app/auth/schema";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import { getFileTags } from "@/utils/tags";
+import { rejectAutoTag } from "@/utils/autoTagging";
+
+// POST /api/files/[id]/tags/[tagId]/reject - Remove a tag a rule applied to the file, and don't apply it again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; tagId: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const { id: fileId, tagId } = params;
+    const endpoint = `/api/files/${fileId}/tags/${tagId}/reject`;
+
+    try {
+      const [file] = await db
+        .select({ id: files.id })
+        .from(files)
+        .where(and(eq(files.id, fileId), eq(files.uploadedBy, session.user.id)))
+        .limit(1);
+
+      if (!file) {
+        return NextResponse.json(
+          { success: false, error: "File not found" },
+          { status: 404 },
+        );
+      }
+
+      if (!(await rejectAutoTag(session.user.id, file.id, tagId))) {
+        return NextResponse.json(
+          { success: false, error: "The file has no automatically applied tag with this ID" },
+          { status: 404 },
+        );
+      }
+
+      const tags = (await getFileTags([file.id])).get(file.id) ?? [];
+
+      fileActivityLogger.logApiResponse("FileTagsAPI", "POST", endpoint, 200, {
+        userId: session.user.id,
+        fileId,
+        details: {
+          tagId,
+          tags: tags.map((tag) => tag.name),
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({ success: true, tags });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "FileTagsAPI",
+        "POST",
+        endpoint,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          fileId,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Failed to reject tag:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to reject tag" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
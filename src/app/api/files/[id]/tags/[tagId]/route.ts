@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files } from "@/app/auth/schema";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import { getFileTags, removeTagsFromFiles } from "@/utils/tags";
+
+// DELETE /api/files/[id]/tags/[tagId] - Take a tag off a file
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; tagId: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const { id: fileId, tagId } = params;
+    const endpoint = `/api/files/${fileId}/tags/${tagId}`;
+
+    try {
+      const [file] = await db
+        .select({ id: files.id })
+        .from(files)
+        .where(and(eq(files.id, fileId), eq(files.uploadedBy, session.user.id)))
+        .limit(1);
+
+      if (!file) {
+        return NextResponse.json(
+          { success: false, error: "File not found" },
+          { status: 404 },
+        );
+      }
+
+      const removedCount = await removeTagsFromFiles(session.user.id, [file.id], [tagId]);
+      const tags = (await getFileTags([file.id])).get(file.id) ?? [];
+
+      fileActivityLogger.logApiResponse("FileTagsAPI", "DELETE", endpoint, 200, {
+        userId: session.user.id,
+        fileId,
+        details: {
+          removedCount,
+          tags: tags.map((tag) => tag.name),
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({ success: true, tags });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "FileTagsAPI",
+        "DELETE",
+        endpoint,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          fileId,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Failed to untag file:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to untag file" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files } from "@/app/auth/schema";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import {
+  MAX_BULK_TAG_ITEMS,
+  MAX_TAG_NAME_LENGTH,
+  TagNameConflictError,
+  addTagsToFiles,
+  findOrCreateTag,
+  getFileTags,
+  isIdList,
+  normalizeTagName,
+} from "@/utils/tags";
+
+// POST /api/files/[id]/tags - Tag a file ({ tagIds } and/or { names }; missing names are created)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const fileId = params.id;
+    const endpoint = `/api/files/${fileId}/tags`;
+
+    try {
+      const body = await request.json().catch(() => null);
+      const tagIds: unknown = body?.tagIds ?? [];
+      const rawNames: unknown = body?.names ?? [];
+      const names = Array.isArray(rawNames) ? rawNames.map(normalizeTagName) : null;
+
+      if (
+        !(Array.isArray(tagIds) && (tagIds.length === 0 || isIdList(tagIds))) ||
+        !names ||
+        names.length > MAX_BULK_TAG_ITEMS ||
+        names.some((name) => name === null) ||
+        tagIds.length + names.length === 0
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Provide tagIds (tag IDs) or names (of 1 to ${MAX_TAG_NAME_LENGTH} characters) to add`,
+          },
+          { status: 400 },
+        );
+      }
+
+      const [file] = await db
+        .select({ id: files.id })
+        .from(files)
+        .where(
+          and(
+            eq(files.id, fileId),
+            eq(files.uploadedBy, session.user.id),
+            isNull(files.deletedAt),
+          ),
+        )
+        .limit(1);
+
+      if (!file) {
+        return NextResponse.json(
+          { success: false, error: "File not found" },
+          { status: 404 },
+        );
+      }
+
+      const namedTags = [];
+      for (const name of names as string[]) {
+        namedTags.push(await findOrCreateTag(session.user.id, name));
+      }
+
+      const addedCount = await addTagsToFiles(session.user.id, [file.id], [
+        ...(tagIds as string[]),
+        ...namedTags.map((tag) => tag.id),
+      ]);
+      const tags = (await getFileTags([file.id])).get(file.id) ?? [];
+
+      fileActivityLogger.logApiResponse("FileTagsAPI", "POST", endpoint, 200, {
+        userId: session.user.id,
+        fileId,
+        details: {
+          addedCount,
+          tags: tags.map((tag) => tag.name),
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({ success: true, tags });
+    } catch (error) {
+      if (error instanceof TagNameConflictError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 409 },
+        );
+      }
+
+      fileActivityLogger.logApiError(
+        "FileTagsAPI",
+        "POST",
+        endpoint,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          fileId,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Failed to tag file:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to tag file" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files } from "@/app/auth/schema";
+import { withAuth } from "@/app/auth/middleware";
+import { openFileContent } from "@/utils/blobStore";
+import { getUserContentHeaders } from "@/utils/contentHeaders";
+import { fileActivityLogger } from "@/utils/logging";
+import { StorageObjectNotFoundError, toWebStream } from "@/utils/storage";
+import { THUMBNAIL_MIME_TYPE } from "@/utils/thumbnails";
+import { getScanBlock } from "@/utils/virusScanner";
+
+// GET /api/files/[id]/thumbnail - Thumbnail of a file's current content
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const fileId = params.id;
+
+    try {
+      const [file] = await db
+        .select()
+        .from(files)
+        .where(
+          and(
+            eq(files.id, fileId),
+            eq(files.uploadedBy, session.user.id),
+            isNull(files.deletedAt),
+          ),
+        )
+        .limit(1);
+
+      if (!file || !file.thumbnailBlobHash) {
+        return NextResponse.json(
+          { success: false, error: file ? "Thumbnail not available" : "File not found" },
+          { status: 404 },
+        );
+      }
+
+      const scanBlock = getScanBlock(file.scanStatus);
+      if (scanBlock) {
+        return NextResponse.json(
+          { success: false, error: scanBlock.error },
+          { status: scanBlock.status },
+        );
+      }
+
+      let content;
+      try {
+        content = await openFileContent({
+          filename: file.filename,
+          blobHash: file.thumbnailBlobHash,
+        });
+      } catch (error) {
+        if (error instanceof StorageObjectNotFoundError) {
+          return NextResponse.json(
+            { success: false, error: "Thumbnail not found in storage" },
+            { status: 404 },
+          );
+        }
+        throw error;
+      }
+
+      return new Response(toWebStream(content.stream), {
+        headers: {
+          ...getUserContentHeaders(THUMBNAIL_MIME_TYPE, "thumbnail.webp", "inline"),
+          "Content-Length": content.size.toString(),
+          // thumbnailUrl changes with the thumbnail, so a cached one is never stale
+          "Cache-Control": "private, max-age=31536000, immutable",
+        },
+      });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "FileThumbnailAPI",
+        "GET",
+        `/api/files/${fileId}/thumbnail`,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          fileId,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Thumbnail serving error:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to load thumbnail" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files } from "@/app/auth/schema";
+import { withAuth } from "@/app/auth/middleware";
+import { toFileItem } from "@/utils/fileUtils";
+import {
+  FileVersionConflictError,
+  restoreFileVersion,
+} from "@/utils/fileVersions";
+import { fileActivityLogger } from "@/utils/logging";
+
+// POST /api/files/[id]/versions/[version]/restore - Make an earlier version current again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; version: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const requestStartTime = Date.now();
+    const fileId = params.id;
+    const versionNumber = Number(params.version);
+    const endpoint = `/api/files/${fileId}/versions/${params.version}/restore`;
+
+    fileActivityLogger.logApiRequest("FileVersionsAPI", "POST", endpoint, {
+      userId: session.user?.id,
+      fileId,
+      details: {
+        userAgent: request.headers.get("user-agent"),
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    try {
+      if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+        return NextResponse.json(
+          { success: false, error: "Invalid version number" },
+          { status: 400 },
+        );
+      }
+
+      const [file] = await db
+        .select()
+        .from(files)
+        .where(
+          and(
+            eq(files.id, fileId),
+            eq(files.uploadedBy, session.user.id),
+            isNull(files.deletedAt),
+          ),
+        )
+        .limit(1);
+
+      if (!file) {
+        fileActivityLogger.logApiResponse("FileVersionsAPI", "POST", endpoint, 404, {
+          userId: session.user.id,
+          fileId,
+          details: {
+            error: "File not found",
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        });
+
+        return NextResponse.json(
+          { success: false, error: "File not found" },
+          { status: 404 },
+        );
+      }
+
+      if (versionNumber === file.currentVersion) {
+        return NextResponse.json(
+          { success: false, error: "This is already the current version" },
+          { status: 409 },
+        );
+      }
+
+      // Restoring adds a new version with the old content, so nothing is lost
+      const restoredFile = await restoreFileVersion(file, versionNumber);
+
+      if (!restoredFile) {
+        fileActivityLogger.logApiResponse("FileVersionsAPI", "POST", endpoint, 404, {
+          userId: session.user.id,
+          fileId,
+          details: {
+            error: "Version not found",
+            versionNumber,
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        });
+
+        return NextResponse.json(
+          { success: false, error: "Version not found" },
+          { status: 404 },
+        );
+      }
+
+      fileActivityLogger.logApiResponse("FileVersionsAPI", "POST", endpoint, 200, {
+        userId: session.user.id,
+        fileId,
+        fileName: restoredFile.originalName,
+        details: {
+          restoredVersion: versionNumber,
+          newVersion: restoredFile.currentVersion,
+          success: true,
+          duration: Date.now() - requestStartTime,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({ success: true, file: toFileItem(restoredFile) });
+    } catch (error) {
+      if (error instanceof FileVersionConflictError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 409 },
+        );
+      }
+
+      fileActivityLogger.logApiError(
+        "FileVersionsAPI",
+        "POST",
+        endpoint,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          fileId,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("File version restore error:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to restore file version" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
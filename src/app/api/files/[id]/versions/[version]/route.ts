@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files } from "@/app/auth/schema";
+import { withAuth } from "@/app/auth/middleware";
+import { openFileContent } from "@/utils/blobStore";
+import { getFileVersion } from "@/utils/fileVersions";
+import { fileActivityLogger } from "@/utils/logging";
+import { toWebStream } from "@/utils/storage";
+import { getScanBlock } from "@/utils/virusScanner";
+import { getUserContentHeaders } from "@/utils/contentHeaders";
+
+// GET /api/files/[id]/versions/[version] - Download a specific version of a file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; version: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const requestStartTime = Date.now();
+    const fileId = params.id;
+    const versionNumber = Number(params.version);
+    const endpoint = `/api/files/${fileId}/versions/${params.version}`;
+
+    fileActivityLogger.logApiRequest("FileVersionsAPI", "GET", endpoint, {
+      userId: session.user?.id,
+      fileId,
+      details: {
+        userAgent: request.headers.get("user-agent"),
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    try {
+      if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+        return NextResponse.json(
+          { success: false, error: "Invalid version number" },
+          { status: 400 },
+        );
+      }
+
+      const [file] = await db
+        .select()
+        .from(files)
+        .where(
+          and(
+            eq(files.id, fileId),
+            eq(files.uploadedBy, session.user.id),
+            isNull(files.deletedAt),
+          ),
+        )
+        .limit(1);
+
+      const version = file ? await getFileVersion(file, versionNumber) : null;
+
+      if (!version) {
+        fileActivityLogger.logApiResponse("FileVersionsAPI", "GET", endpoint, 404, {
+          userId: session.user.id,
+          fileId,
+          details: {
+            error: file ? "Version not found" : "File not found",
+            versionNumber,
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        });
+
+        return NextResponse.json(
+          { success: false, error: file ? "Version not found" : "File not found" },
+          { status: 404 },
+        );
+      }
+
+      const scanBlock = getScanBlock(version.scanStatus);
+      if (scanBlock) {
+        fileActivityLogger.logApiResponse("FileVersionsAPI", "GET", endpoint, scanBlock.status, {
+          userId: session.user.id,
+          fileId,
+          details: {
+            error: scanBlock.error,
+            versionNumber,
+            scanStatus: version.scanStatus,
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        });
+
+        return NextResponse.json(
+          { success: false, error: scanBlock.error },
+          { status: scanBlock.status },
+        );
+      }
+
+      try {
+        const { stream, size } = await openFileContent(version);
+
+        const headers = new Headers(
+          getUserContentHeaders(version.mimeType, version.originalName),
+        );
+        headers.set("Content-Length", size.toString());
+
+        fileActivityLogger.logApiResponse("FileVersionsAPI", "GET", endpoint, 200, {
+          userId: session.user.id,
+          fileId,
+          fileName: version.originalName,
+          fileSize: version.fileSize,
+          details: {
+            versionNumber,
+            originalName: version.originalName,
+            fileSize: version.fileSize,
+            success: true,
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        });
+
+        return new Response(toWebStream(stream), { headers });
+      } catch (error) {
+        console.error("Error reading file version:", error);
+        return NextResponse.json(
+          { success: false, error: "File not found in storage" },
+          { status: 404 },
+        );
+      }
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "FileVersionsAPI",
+        "GET",
+        endpoint,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          fileId,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("File version download error:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to download file version" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
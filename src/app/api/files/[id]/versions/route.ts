@@ -0,0 +1,348 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq, isNull } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files } from "@/app/auth/schema";
+import { withAuth } from "@/app/auth/middleware";
+import { FileUploadResponse } from "@/types/file";
+import { toFileItem } from "@/utils/fileUtils";
+import {
+  FileVersionConflictError,
+  getFileVersions,
+  toFileVersionItem,
+} from "@/utils/fileVersions";
+import { fileActivityLogger } from "@/utils/logging";
+import { getClientIdentifier, uploadRateLimit } from "@/utils/rateLimit";
+import { finalizeVersionUpload } from "@/utils/uploadFinalizer";
+import {
+  discardTempFile,
+  receiveMultipartUpload,
+  ReceivedUpload,
+  UploadTooLargeError,
+} from "@/utils/uploadPipeline";
+
+// GET /api/files/[id]/versions - List every version of a file, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const requestStartTime = Date.now();
+    const fileId = params.id;
+
+    fileActivityLogger.logApiRequest(
+      "FileVersionsAPI",
+      "GET",
+      `/api/files/${fileId}/versions`,
+      {
+        userId: session.user?.id,
+        fileId,
+        details: {
+          userAgent: request.headers.get("user-agent"),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    try {
+      const [file] = await db
+        .select()
+        .from(files)
+        .where(
+          and(
+            eq(files.id, fileId),
+            eq(files.uploadedBy, session.user.id),
+            isNull(files.deletedAt),
+          ),
+        )
+        .limit(1);
+
+      if (!file) {
+        fileActivityLogger.logApiResponse(
+          "FileVersionsAPI",
+          "GET",
+          `/api/files/${fileId}/versions`,
+          404,
+          {
+            userId: session.user.id,
+            fileId,
+            details: {
+              error: "File not found",
+              duration: Date.now() - requestStartTime,
+              timestamp: new Date().toISOString(),
+            },
+          },
+        );
+
+        return NextResponse.json(
+          { success: false, error: "File not found" },
+          { status: 404 },
+        );
+      }
+
+      const versions = await getFileVersions(file);
+
+      fileActivityLogger.logApiResponse(
+        "FileVersionsAPI",
+        "GET",
+        `/api/files/${fileId}/versions`,
+        200,
+        {
+          userId: session.user.id,
+          fileId,
+          details: {
+            versionCount: versions.length,
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      return NextResponse.json({
+        success: true,
+        currentVersion: file.currentVersion,
+        versions: versions.map((version) =>
+          toFileVersionItem(version, file.currentVersion),
+        ),
+      });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "FileVersionsAPI",
+        "GET",
+        `/api/files/${fileId}/versions`,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          fileId,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("File versions fetch error:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to fetch file versions" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
+
+// POST /api/files/[id]/versions - Upload new content for an existing file
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const requestStartTime = Date.now();
+    const fileId = params.id;
+    const endpoint = `/api/files/${fileId}/versions`;
+
+    fileActivityLogger.logApiRequest("FileVersionsAPI", "POST", endpoint, {
+      userId: session.user?.id,
+      fileId,
+      details: {
+        userAgent: request.headers.get("user-agent"),
+        origin: request.headers.get("origin"),
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    let upload: ReceivedUpload | null = null;
+
+    try {
+      const identifier = getClientIdentifier(request, session.user?.id);
+      const rateLimitResult = uploadRateLimit.check(identifier);
+
+      if (!rateLimitResult.allowed) {
+        const resetTime = new Date(rateLimitResult.resetTime).toISOString();
+
+        fileActivityLogger.logApiResponse("FileVersionsAPI", "POST", endpoint, 429, {
+          userId: session.user?.id,
+          fileId,
+          details: {
+            error: "Rate limit exceeded",
+            resetTime,
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        });
+
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Rate limit exceeded. Try again after ${resetTime}`,
+          } as FileUploadResponse,
+          {
+            status: 429,
+            headers: uploadRateLimit.getHeaders(rateLimitResult),
+          },
+        );
+      }
+
+      // Check the file before accepting the body
+      const [file] = await db
+        .select()
+        .from(files)
+        .where(
+          and(
+            eq(files.id, fileId),
+            eq(files.uploadedBy, session.user.id),
+            isNull(files.deletedAt),
+          ),
+        )
+        .limit(1);
+
+      if (!file) {
+        fileActivityLogger.logApiResponse("FileVersionsAPI", "POST", endpoint, 404, {
+          userId: session.user.id,
+          fileId,
+          details: {
+            error: "File not found",
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        });
+
+        return NextResponse.json(
+          { success: false, error: "File not found" } as FileUploadResponse,
+          { status: 404 },
+        );
+      }
+
+      try {
+        ({ upload } = await receiveMultipartUpload(request));
+      } catch (receiveError) {
+        if (receiveError instanceof UploadTooLargeError) {
+          fileActivityLogger.logApiResponse("FileVersionsAPI", "POST", endpoint, 413, {
+            userId: session.user.id,
+            fileId,
+            details: {
+              error: receiveError.message,
+              validationType: "size",
+              duration: Date.now() - requestStartTime,
+              timestamp: new Date().toISOString(),
+            },
+          });
+
+          return NextResponse.json(
+            { success: false, error: receiveError.message } as FileUploadResponse,
+            { status: 413 },
+          );
+        }
+        throw receiveError;
+      }
+
+      if (!upload) {
+        fileActivityLogger.logApiResponse("FileVersionsAPI", "POST", endpoint, 400, {
+          userId: session.user.id,
+          fileId,
+          details: {
+            error: "No file provided",
+            validationType: "file_presence",
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        });
+
+        return NextResponse.json(
+          { success: false, error: "No file provided" } as FileUploadResponse,
+          { status: 400 },
+        );
+      }
+
+      const result = await finalizeVersionUpload(upload, file);
+      upload = null;
+
+      if (!result.success) {
+        const status = result.error.type === "quota" ? 507 : 400;
+
+        fileActivityLogger.logApiResponse("FileVersionsAPI", "POST", endpoint, status, {
+          userId: session.user.id,
+          fileId,
+          details: {
+            error: result.error.message,
+            validationType: result.error.type,
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        });
+
+        return NextResponse.json(
+          { success: false, error: result.error.message } as FileUploadResponse,
+          { status },
+        );
+      }
+
+      const updatedFile = result.file;
+
+      fileActivityLogger.logApiResponse("FileVersionsAPI", "POST", endpoint, 200, {
+        userId: session.user.id,
+        fileId,
+        fileName: updatedFile.originalName,
+        fileSize: updatedFile.fileSize,
+        details: {
+          version: updatedFile.currentVersion,
+          previousVersion: file.currentVersion,
+          originalName: updatedFile.originalName,
+          fileSize: updatedFile.fileSize,
+          mimeType: updatedFile.mimeType,
+          success: true,
+          duration: Date.now() - requestStartTime,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json(
+        { success: true, file: toFileItem(updatedFile) } as FileUploadResponse,
+        { headers: uploadRateLimit.getHeaders(rateLimitResult) },
+      );
+    } catch (error) {
+      if (upload) {
+        await discardTempFile(upload.tempPath);
+      }
+
+      if (error instanceof FileVersionConflictError) {
+        fileActivityLogger.logApiResponse("FileVersionsAPI", "POST", endpoint, 409, {
+          userId: session.user.id,
+          fileId,
+          details: {
+            error: error.message,
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        });
+
+        return NextResponse.json(
+          { success: false, error: error.message } as FileUploadResponse,
+          { status: 409 },
+        );
+      }
+
+      fileActivityLogger.logApiError(
+        "FileVersionsAPI",
+        "POST",
+        endpoint,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          fileId,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            stack: error instanceof Error ? error.stack : undefined,
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("File version upload error:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to upload new version" } as FileUploadResponse,
+        { status: 500 },
+      );
+    }
+  })(request);
+}
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/app/auth/db";
 import { files } from "@/app/auth/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNull } from "drizzle-orm";
 import { withAuth } from "@/app/auth/middleware";
 import { fileActivityLogger } from "@/utils/logging";
-import { createReadStream } from "fs";
-import { stat } from "fs/promises";
-import path from "path";
+import { toWebStream } from "@/utils/storage";
+import { openFileContent } from "@/utils/blobStore";
+import { getScanBlock } from "@/utils/virusScanner";
+import { getUserContentHeaders } from "@/utils/contentHeaders";
 
 // GET /api/files/download/[id] - Download a single file by ID
 export async function GET(
@@ -48,7 +49,11 @@ export async function GET(
           .select()
           .from(files)
           .where(
-            and(eq(files.id, fileId), eq(files.uploadedBy, session.user.id)),
+            and(
+              eq(files.id, fileId),
+              eq(files.uploadedBy, session.user.id),
+              isNull(files.deletedAt),
+            ),
           )
           .limit(1);
 
@@ -75,22 +80,38 @@ export async function GET(
           );
         }
 
-        const filePath = path.join(process.cwd(), "uploads", file.filename);
+        const scanBlock = getScanBlock(file.scanStatus);
+        if (scanBlock) {
+          fileActivityLogger.logApiResponse(
+            "FileDownloadAPI",
+            "GET",
+            `/api/files/download/${fileId}`,
+            scanBlock.status,
+            {
+              userId: session.user?.id,
+              fileId: fileId,
+              details: {
+                error: scanBlock.error,
+                scanStatus: file.scanStatus,
+                duration: Date.now() - requestStartTime,
+                timestamp: new Date().toISOString(),
+              },
+            },
+          );
+
+          return NextResponse.json(
+            { success: false, error: scanBlock.error },
+            { status: scanBlock.status },
+          );
+        }
 
         try {
-          const stats = await stat(filePath);
-          const fileStream = createReadStream(filePath);
+          const { stream: fileStream, size } = await openFileContent(file);
 
-          const headers = new Headers();
-          headers.set(
-            "Content-Type",
-            file.mimeType || "application/octet-stream",
-          );
-          headers.set("Content-Length", stats.size.toString());
-          headers.set(
-            "Content-Disposition",
-            `attachment; filename="${encodeURIComponent(file.originalName)}"`,
+          const headers = new Headers(
+            getUserContentHeaders(file.mimeType, file.originalName),
           );
+          headers.set("Content-Length", size.toString());
 
           // Log successful file download
           fileActivityLogger.logApiResponse(
@@ -114,11 +135,11 @@ export async function GET(
             },
           );
 
-          return new Response(fileStream as ReadableStream, { headers });
+          return new Response(toWebStream(fileStream), { headers });
         } catch (error) {
           console.error("Error reading file:", error);
           return NextResponse.json(
-            { success: false, error: "File not found on disk" },
+            { success: false, error: "File not found in storage" },
             { status: 404 },
           );
         }
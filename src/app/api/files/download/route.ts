@@ -1,22 +1,61 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/app/auth/db";
-import { files } from "@/app/auth/schema";
-import { eq, and, inArray } from "drizzle-orm";
 import { withAuth } from "@/app/auth/middleware";
 import { fileActivityLogger } from "@/utils/logging";
+import { getUserContentHeaders } from "@/utils/contentHeaders";
+import { toWebStream } from "@/utils/storage";
+import { getFolder } from "@/utils/folders";
+import {
+  createZipStream,
+  getFolderZipEntries,
+  getSelectedZipEntries,
+  MAX_ZIP_FILE_COUNT,
+  toZipPathSegment,
+  ZipEntry,
+} from "@/utils/zipArchive";
 
-// POST /api/files/download - Get download URLs for multiple files
+// What to download, from a JSON body or a form posted by the browser to download it directly
+async function readDownloadRequest(
+  request: NextRequest,
+): Promise<{ fileIds: unknown; folderId: unknown }> {
+  if (request.headers.get("content-type")?.includes("application/json")) {
+    const body = await request.json().catch(() => null);
+    return { fileIds: body?.fileIds, folderId: body?.folderId };
+  }
+
+  const form = await request.formData().catch(() => null);
+  const fileIds = form?.getAll("fileIds") ?? [];
+  return {
+    fileIds: fileIds.length > 0 ? fileIds : undefined,
+    folderId: form?.get("folderId") ?? undefined,
+  };
+}
+
+// POST /api/files/download - Download several files, or a folder with its subfolders, as a ZIP
+// ({ fileIds: [...] } or { folderId }), streamed while it is created
 export const POST = withAuth(
   async (request: NextRequest, session: { user: { id: string } }) => {
     const requestStartTime = Date.now();
 
     try {
-      const body = await request.json();
-      const { fileIds } = body;
+      const { fileIds, folderId } = await readDownloadRequest(request);
+
+      const validFileIds =
+        Array.isArray(fileIds) &&
+        fileIds.length > 0 &&
+        fileIds.every((id) => typeof id === "string");
+      if (!validFileIds && (typeof folderId !== "string" || !folderId)) {
+        return NextResponse.json(
+          { success: false, error: "File IDs or a folder ID are required" },
+          { status: 400 },
+        );
+      }
 
-      if (!fileIds || !Array.isArray(fileIds) || fileIds.length === 0) {
+      if (validFileIds && fileIds.length > MAX_ZIP_FILE_COUNT) {
         return NextResponse.json(
-          { success: false, error: "File IDs are required" },
+          {
+            success: false,
+            error: `At most ${MAX_ZIP_FILE_COUNT} files can be downloaded at once`,
+          },
           { status: 400 },
         );
       }
@@ -28,29 +67,36 @@ export const POST = withAuth(
         "/api/files/download",
         {
           userId: session.user?.id,
-          fileId: fileIds[0], // Use first file ID for logging
           details: {
             userAgent: request.headers.get("user-agent"),
             origin: request.headers.get("origin"),
             timestamp: new Date().toISOString(),
-            fileIds: fileIds,
-            count: fileIds.length,
+            fileIds: validFileIds ? fileIds : undefined,
+            folderId: validFileIds ? undefined : folderId,
+            count: validFileIds ? fileIds.length : undefined,
           },
         },
       );
 
-      // Get files from database, only if owned by user
-      const userFiles = await db
-        .select()
-        .from(files)
-        .where(
-          and(
-            inArray(files.id, fileIds),
-            eq(files.uploadedBy, session.user.id),
-          ),
-        );
+      let entries: ZipEntry[];
+      let archiveName: string;
 
-      if (userFiles.length === 0) {
+      if (validFileIds) {
+        entries = await getSelectedZipEntries(session.user.id, fileIds as string[]);
+        archiveName = "files.zip";
+      } else {
+        const folder = await getFolder(session.user.id, folderId as string);
+        if (!folder) {
+          return NextResponse.json(
+            { success: false, error: "Folder not found" },
+            { status: 404 },
+          );
+        }
+        entries = await getFolderZipEntries(session.user.id, folder.id);
+        archiveName = `${toZipPathSegment(folder.name)}.zip`;
+      }
+
+      if (entries.length === 0) {
         fileActivityLogger.logApiResponse(
           "FileDownloadAPI",
           "POST",
@@ -58,14 +104,13 @@ export const POST = withAuth(
           404,
           {
             userId: session.user?.id,
-            fileId: fileIds[0], // Use first file ID for logging
             details: {
               error: "No files found or access denied",
-              requestedCount: fileIds.length,
+              requestedCount: validFileIds ? fileIds.length : undefined,
+              folderId: validFileIds ? undefined : folderId,
               foundCount: 0,
               duration: Date.now() - requestStartTime,
               timestamp: new Date().toISOString(),
-              fileIds: fileIds,
             },
           },
         );
@@ -76,16 +121,17 @@ export const POST = withAuth(
         );
       }
 
-      // Return download URLs for each file
-      const downloadUrls = userFiles.map((file) => ({
-        id: file.id,
-        filename: file.originalName,
-        downloadUrl: `/api/files/download/${file.id}`,
-        fileSize: file.fileSize,
-        mimeType: file.mimeType,
-      }));
+      if (entries.length > MAX_ZIP_FILE_COUNT) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `The folder has more than ${MAX_ZIP_FILE_COUNT} files, too many to download at once`,
+          },
+          { status: 400 },
+        );
+      }
 
-      // Log successful batch download preparation
+      // Log the start of the download; the archive is created while it is sent
       fileActivityLogger.logApiResponse(
         "FileDownloadAPI",
         "POST",
@@ -93,26 +139,25 @@ export const POST = withAuth(
         200,
         {
           userId: session.user.id,
-          fileId: userFiles[0].id, // Use first file ID for logging
           details: {
-            type: "batch-download-urls",
-            fileCount: userFiles.length,
-            files: userFiles.map((f) => ({
-              id: f.id,
-              name: f.originalName,
-              size: f.fileSize,
-            })),
+            type: "zip-download",
+            fileCount: entries.length,
+            totalSize: entries.reduce((total, { file }) => total + file.fileSize, 0),
+            folderId: validFileIds ? undefined : folderId,
             success: true,
             duration: Date.now() - requestStartTime,
             timestamp: new Date().toISOString(),
-            fileIds: userFiles.map((f) => f.id),
+            fileIds: entries.map(({ file }) => file.id),
           },
         },
       );
 
-      return NextResponse.json({
-        success: true,
-        files: downloadUrls,
+      // No Content-Length: the size is only known once the archive is complete
+      return new Response(toWebStream(createZipStream(entries, session.user.id)), {
+        headers: {
+          ...getUserContentHeaders("application/zip", archiveName),
+          "Cache-Control": "no-store",
+        },
       });
     } catch (error) {
       const requestDuration = Date.now() - requestStartTime;
@@ -134,9 +179,9 @@ export const POST = withAuth(
         },
       );
 
-      console.error("Batch download error:", error);
+      console.error("ZIP download error:", error);
       return NextResponse.json(
-        { success: false, error: "Failed to prepare downloads" },
+        { success: false, error: "Failed to prepare the download" },
         { status: 500 },
       );
     }
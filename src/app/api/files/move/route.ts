@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import { MAX_MOVE_FILE_COUNT, getFolder, moveFilesToFolder } from "@/utils/folders";
+
+// POST /api/files/move - Move files into a folder ({ fileIds, folderId }; folderId null for the top level)
+export const POST = withAuth(async (request: NextRequest, session) => {
+  try {
+    const body = await request.json().catch(() => null);
+    const fileIds: unknown = body?.fileIds;
+    const folderId: unknown = body?.folderId;
+
+    if (
+      !Array.isArray(fileIds) ||
+      fileIds.length === 0 ||
+      fileIds.length > MAX_MOVE_FILE_COUNT ||
+      !fileIds.every((id) => typeof id === "string") ||
+      (folderId !== null && typeof folderId !== "string")
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Provide fileIds (1 to ${MAX_MOVE_FILE_COUNT} file IDs) and a folderId, or null for the top level`,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (folderId && !(await getFolder(session.user.id, folderId))) {
+      return NextResponse.json(
+        { success: false, error: "Folder not found" },
+        { status: 404 },
+      );
+    }
+
+    const movedCount = await moveFilesToFolder(session.user.id, fileIds, folderId);
+
+    fileActivityLogger.logApiResponse("FilesAPI", "POST", "/api/files/move", 200, {
+      userId: session.user.id,
+      details: {
+        folderId,
+        requestedCount: fileIds.length,
+        movedCount,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json({ success: true, movedCount });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "FilesAPI",
+      "POST",
+      "/api/files/move",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to move files:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to move files" },
+      { status: 500 },
+    );
+  }
+});
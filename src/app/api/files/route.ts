@@ -1,23 +1,115 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/app/auth/db";
-import { files } from "@/app/auth/schema";
-import { randomUUID } from "crypto";
 import {
-  validateFileStream,
-  saveFile,
-  generateUniqueFilename,
-  getFileUrl,
-  getFileTypeCategory,
-} from "@/utils/fileUtils";
-import { FileUploadResponse, FileListResponse } from "@/types/file";
-import { count, desc, eq, like } from "drizzle-orm";
+  discardTempFile,
+  receiveMultipartUpload,
+  ReceivedUpload,
+  UploadTooLargeError,
+} from "@/utils/uploadPipeline";
+import { finalizeUpload } from "@/utils/uploadFinalizer";
+import { toFileItem } from "@/utils/fileUtils";
+import {
+  FileItem,
+  FileUploadResponse,
+  FileListResponse,
+  FileSortField,
+  MAX_FILE_SIZE,
+  MAX_ZIP_UPLOAD_SIZE,
+  RateLimitInfo,
+  SortOrder,
+  ZipUploadResponse,
+} from "@/types/file";
 import { withAuth } from "@/app/auth/middleware";
 import { uploadRateLimit, apiRateLimit, getClientIdentifier } from "@/utils/rateLimit";
 import { fileActivityLogger } from "@/utils/logging";
+import { withTags } from "@/utils/tags";
+import { getFolder } from "@/utils/folders";
+import { InvalidCursorError, MAX_TIME_ZONE_OFFSET, queryUserFiles } from "@/utils/fileQuery";
+import { InvalidSearchQueryError } from "@/utils/searchQuery";
+import { recordSearchQuery } from "@/utils/searchSuggestions";
+import {
+  extractZipUpload,
+  InvalidZipError,
+  isZipUpload,
+  ZipLimitError,
+} from "@/utils/zipExtraction";
+
+const SORT_FIELDS: FileSortField[] = ["relevance", "name", "date", "size", "type"];
+
+/**
+ * Extracts an uploaded ZIP into the folder and reports what happened to each entry
+ */
+async function respondWithExtractedZip(
+  upload: ReceivedUpload,
+  userId: string,
+  folderId: string | null,
+  requestStartTime: number,
+  rateLimit: RateLimitInfo,
+  rateLimitHeaders: Record<string, string>,
+): Promise<NextResponse> {
+  if (!isZipUpload(upload)) {
+    await discardTempFile(upload.tempPath);
+    return NextResponse.json(
+      { success: false, error: "Only ZIP archives can be extracted" } as ZipUploadResponse,
+      { status: 400 },
+    );
+  }
+
+  try {
+    const entries = await extractZipUpload(upload, userId, folderId);
+    const createdCount = entries.filter((entry) => entry.status === "created").length;
+    const failedCount = entries.filter((entry) => entry.status === "failed").length;
+
+    fileActivityLogger.logApiResponse("FilesAPI", "POST", "/api/files", 200, {
+      userId,
+      fileName: upload.originalName,
+      fileSize: upload.size,
+      details: {
+        type: "zip-extraction",
+        archiveName: upload.originalName,
+        archiveSize: upload.size,
+        entryCount: entries.length,
+        createdCount,
+        failedCount,
+        folderId,
+        success: true,
+        duration: Date.now() - requestStartTime,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json(
+      { success: true, entries, createdCount, failedCount, rateLimit } as ZipUploadResponse,
+      { headers: rateLimitHeaders },
+    );
+  } catch (error) {
+    if (!(error instanceof InvalidZipError || error instanceof ZipLimitError)) throw error;
+
+    // 413 for archives over the zip bomb limits, 400 for archives that can't be read
+    const status = error instanceof ZipLimitError ? 413 : 400;
+    fileActivityLogger.logApiResponse("FilesAPI", "POST", "/api/files", status, {
+      userId,
+      fileName: upload.originalName,
+      details: {
+        error: error.message,
+        validationType: "zip",
+        archiveName: upload.originalName,
+        archiveSize: upload.size,
+        duration: Date.now() - requestStartTime,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json(
+      { success: false, error: error.message } as ZipUploadResponse,
+      { status },
+    );
+  }
+}
 
-// POST /api/files - Upload a new file
+// POST /api/files - Upload a new file, or with ?extract=true a ZIP archive whose files are extracted
 export const POST = withAuth(async (request: NextRequest, session: any) => {
   const requestStartTime = Date.now();
+  const extract = new URL(request.url).searchParams.get("extract") === "true";
 
   // Log API request
   fileActivityLogger.logApiRequest("FilesAPI", "POST", "/api/files", {
@@ -67,10 +159,36 @@ export const POST = withAuth(async (request: NextRequest, session: any) => {
       );
     }
 
-    const formData = await request.formData();
-    const uploadedFile = formData.get("file") as File;
+    // Stream the multipart body straight to a temp file (counted and hashed)
+    let upload: ReceivedUpload | null;
+    let fields: Record<string, string>;
+    try {
+      ({ upload, fields } = await receiveMultipartUpload(
+        request,
+        "file",
+        extract ? MAX_ZIP_UPLOAD_SIZE : MAX_FILE_SIZE,
+      ));
+    } catch (receiveError) {
+      if (receiveError instanceof UploadTooLargeError) {
+        fileActivityLogger.logApiResponse("FilesAPI", "POST", "/api/files", 413, {
+          userId: session.user?.id,
+          details: {
+            error: receiveError.message,
+            validationType: "size",
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        });
 
-    if (!uploadedFile) {
+        return NextResponse.json(
+          { success: false, error: receiveError.message } as FileUploadResponse,
+          { status: 413 }, // 413 Payload Too Large for size-related errors
+        );
+      }
+      throw receiveError;
+    }
+
+    if (!upload) {
       const requestDuration = Date.now() - requestStartTime;
 
       // Log validation error
@@ -90,94 +208,90 @@ export const POST = withAuth(async (request: NextRequest, session: any) => {
       );
     }
 
-    // Validate the file with stream validation to prevent spoofing
-    const validationError = await validateFileStream(uploadedFile);
     // Log file upload attempt details
     fileActivityLogger.logApiRequest("FilesAPI", "POST", "/api/files", {
       userId: session.user?.id,
-      fileName: uploadedFile.name,
-      fileSize: uploadedFile.size,
-      fileType: uploadedFile.type,
+      fileName: upload.originalName,
+      fileSize: upload.size,
+      fileType: upload.declaredMimeType,
       details: {
-        fileName: uploadedFile.name,
-        fileSize: uploadedFile.size,
-        fileType: uploadedFile.type,
+        fileName: upload.originalName,
+        fileSize: upload.size,
+        fileType: upload.declaredMimeType,
         uploadStartTime: Date.now(),
         timestamp: new Date().toISOString(),
       },
     });
-    if (validationError) {
-      const requestDuration = Date.now() - requestStartTime;
 
-      // Log validation error
-      fileActivityLogger.logApiResponse("FilesAPI", "POST", "/api/files", 400, {
+    // Uploads go to the top level unless the form names one of the user's folders
+    const folderId = fields.folderId || null;
+    if (folderId && !(await getFolder(session.user.id, folderId))) {
+      await discardTempFile(upload.tempPath);
+
+      fileActivityLogger.logApiResponse("FilesAPI", "POST", "/api/files", 404, {
         userId: session.user?.id,
-        fileName: uploadedFile.name,
         details: {
-          error: validationError.message,
-          validationType: validationError.type,
-          fileName: uploadedFile.name,
-          fileSize: uploadedFile.size,
-          fileType: uploadedFile.type,
-          duration: requestDuration,
+          error: "Folder not found",
+          folderId,
+          duration: Date.now() - requestStartTime,
           timestamp: new Date().toISOString(),
         },
       });
 
       return NextResponse.json(
+        { success: false, error: "Folder not found" } as FileUploadResponse,
+        { status: 404 },
+      );
+    }
+
+    if (extract) {
+      return await respondWithExtractedZip(
+        upload,
+        session.user.id,
+        folderId,
+        requestStartTime,
         {
-          success: false,
-          error: validationError.message,
-        } as FileUploadResponse,
-        { status: 400 },
+          remaining: rateLimitResult.remaining,
+          resetTime: rateLimitResult.resetTime,
+          total: rateLimitResult.total,
+        },
+        uploadRateLimit.getHeaders(rateLimitResult),
       );
     }
 
-    // Generate unique filename
-    const filename = generateUniqueFilename(uploadedFile.name);
+    // Validate the received bytes, move them into storage and create the record
+    const result = await finalizeUpload(upload, session.user.id, folderId);
+    if (!result.success) {
+      const validationError = result.error;
+      const requestDuration = Date.now() - requestStartTime;
+      // 507 Insufficient Storage when the user is out of quota
+      const status = validationError.type === "quota" ? 507 : 400;
+
+      // Log validation error
+      fileActivityLogger.logApiResponse("FilesAPI", "POST", "/api/files", status, {
+        userId: session.user?.id,
+        fileName: upload.originalName,
+        details: {
+          error: validationError.message,
+          validationType: validationError.type,
+          fileName: upload.originalName,
+          fileSize: upload.size,
+          fileType: upload.declaredMimeType,
+          duration: requestDuration,
+          timestamp: new Date().toISOString(),
+        },
+      });
 
-    // Save file to disk with additional stream validation
-    try {
-      await saveFile(uploadedFile, filename);
-    } catch (saveError) {
-      // If save fails due to size validation, return specific error
-      const errorMessage =
-        saveError instanceof Error ? saveError.message : "Failed to save file";
       return NextResponse.json(
         {
           success: false,
-          error: errorMessage.includes("size")
-            ? errorMessage
-            : "File upload failed due to validation error",
+          error: validationError.message,
         } as FileUploadResponse,
-        { status: 413 }, // 413 Payload Too Large for size-related errors
+        { status },
       );
     }
 
-    // Get file URL
-    const url = getFileUrl(filename);
-
-    // Create file record in database
-    const now = new Date();
-    const fileRecord = {
-      id: randomUUID(),
-      filename,
-      originalName: uploadedFile.name,
-      fileSize: uploadedFile.size,
-      fileType: getFileTypeCategory(uploadedFile.type),
-      mimeType: uploadedFile.type,
-      uploadDate: now,
-      url,
-      createdAt: now,
-      updatedAt: now,
-      uploadedBy: session.user.id,
-    };
-
-    const [insertedFile] = await db
-      .insert(files)
-      .values(fileRecord)
-      .returning();
-
+    const insertedFile = result.file;
     const requestDuration = Date.now() - requestStartTime;
 
     // Log successful file upload
@@ -203,18 +317,7 @@ export const POST = withAuth(async (request: NextRequest, session: any) => {
     return NextResponse.json(
       {
         success: true,
-        file: {
-          id: insertedFile.id,
-          filename: insertedFile.filename,
-          originalName: insertedFile.originalName,
-          fileSize: insertedFile.fileSize,
-          fileType: insertedFile.fileType,
-          mimeType: insertedFile.mimeType,
-          uploadDate: insertedFile.uploadDate,
-          uploadedBy: insertedFile.uploadedBy,
-          url: insertedFile.url,
-          thumbnailUrl: insertedFile.thumbnailUrl,
-        },
+        file: toFileItem(insertedFile),
         rateLimit: {
           remaining: rateLimitResult.remaining,
           resetTime: rateLimitResult.resetTime,
@@ -253,13 +356,21 @@ export const POST = withAuth(async (request: NextRequest, session: any) => {
   }
 });
 
-// GET /api/files - Get user's files with optional search
+// GET /api/files - Get user's files with optional search, filters and sorting, a page at a time
 export const GET = withAuth(async (request: NextRequest, session: any) => {
   const requestStartTime = Date.now();
   const url = new URL(request.url);
-  const limit = parseInt(url.searchParams.get("limit") || "50");
-  const offset = parseInt(url.searchParams.get("offset") || "0");
+  const limit = parseInt(url.searchParams.get("limit") || "") || undefined;
+  const cursor = url.searchParams.get("cursor") || null;
+  const sortParam = url.searchParams.get("sort") as FileSortField | null;
+  const orderParam = url.searchParams.get("order") as SortOrder | null;
   const search = url.searchParams.get("search")?.trim();
+  const tag = url.searchParams.get("tag")?.trim() || undefined;
+  // "root" for files at the top level. Searches include the folder's subfolders.
+  const folderId = url.searchParams.get("folderId") || undefined;
+  // Minutes behind UTC, as Date.getTimezoneOffset returns, for the days in date filters
+  const tzOffsetParam = url.searchParams.get("tzOffset");
+  const timeZoneOffset = tzOffsetParam ? Number(tzOffsetParam) : 0;
 
   // Check rate limit for API requests (especially search)
   const identifier = getClientIdentifier(request, session.user?.id);
@@ -286,70 +397,81 @@ export const GET = withAuth(async (request: NextRequest, session: any) => {
     userId: session.user?.id,
     details: {
       limit,
-      offset,
+      cursor,
+      sort: sortParam,
+      order: orderParam,
       search: search || null,
+      tag: tag || null,
+      folderId: folderId || null,
+      tzOffset: tzOffsetParam,
       userAgent: request.headers.get("user-agent"),
       origin: request.headers.get("origin"),
       timestamp: new Date().toISOString(),
     },
   });
 
+  if (
+    (sortParam && !SORT_FIELDS.includes(sortParam)) ||
+    (orderParam && orderParam !== "asc" && orderParam !== "desc")
+  ) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid sort or order",
+        files: [],
+        total: 0,
+      } as FileListResponse,
+      { status: 400 },
+    );
+  }
+
+  if (!Number.isInteger(timeZoneOffset) || Math.abs(timeZoneOffset) > MAX_TIME_ZONE_OFFSET) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid tzOffset",
+        files: [],
+        total: 0,
+      } as FileListResponse,
+      { status: 400 },
+    );
+  }
+
   try {
-    // Build query with search conditions if provided
-    let userFiles;
-    let totalCountResult;
-
-    if (search) {
-      const searchPattern = `%${search}%`;
-      
-      // Get files with search filter (filename only)
-      userFiles = await db
-        .select()
-        .from(files)
-        .where(eq(files.uploadedBy, session.user.id))
-        .where(like(files.originalName, searchPattern))
-        .limit(limit)
-        .offset(offset)
-        .orderBy(desc(files.uploadDate));
-
-      // Get total count with search filter (filename only)
-      totalCountResult = await db
-        .select({ count: count() })
-        .from(files)
-        .where(eq(files.uploadedBy, session.user.id))
-        .where(like(files.originalName, searchPattern));
-    } else {
-      // Get files without search filter
-      userFiles = await db
-        .select()
-        .from(files)
-        .where(eq(files.uploadedBy, session.user.id))
-        .limit(limit)
-        .offset(offset)
-        .orderBy(desc(files.uploadDate));
-
-      // Get total count without search filter
-      totalCountResult = await db
-        .select({ count: count() })
-        .from(files)
-        .where(eq(files.uploadedBy, session.user.id));
+    if (folderId && folderId !== "root" && !(await getFolder(session.user.id, folderId))) {
+      return NextResponse.json(
+        { success: false, error: "Folder not found", files: [], total: 0 } as FileListResponse,
+        { status: 404 },
+      );
+    }
+
+    // Always scoped to the user's files; searches are ranked by content matches unless sorted
+    const result = await queryUserFiles(session.user.id, {
+      search,
+      tag,
+      folderId,
+      sort: sortParam || undefined,
+      order: orderParam || undefined,
+      cursor,
+      limit,
+      timeZoneOffset,
+    });
+    let fileList: FileItem[] = result.files;
+    const totalFiles = result.total;
+
+    // The first page of a search that found something is remembered for suggestions
+    if (search && !cursor) {
+      fileActivityLogger.logSearchQuery("FilesAPI", search, totalFiles, {
+        userId: session.user.id,
+      });
+      if (totalFiles > 0) {
+        recordSearchQuery(session.user.id, search);
+      }
     }
 
-    const fileList = userFiles.map((fileRecord) => ({
-      id: fileRecord.id,
-      filename: fileRecord.filename,
-      originalName: fileRecord.originalName,
-      fileSize: fileRecord.fileSize,
-      fileType: fileRecord.fileType,
-      mimeType: fileRecord.mimeType,
-      uploadDate: fileRecord.uploadDate,
-      uploadedBy: fileRecord.uploadedBy,
-      url: fileRecord.url,
-      thumbnailUrl: fileRecord.thumbnailUrl,
-    }));
+    fileList = await withTags(fileList);
 
     const requestDuration = Date.now() - requestStartTime;
-    const totalFiles = totalCountResult[0]?.count || 0;
 
     // Log successful files fetch
     fileActivityLogger.logApiResponse("FilesAPI", "GET", "/api/files", 200, {
@@ -358,8 +480,11 @@ export const GET = withAuth(async (request: NextRequest, session: any) => {
         filesReturned: fileList.length,
         totalFiles: totalFiles,
         limit,
-        offset,
+        cursor,
+        hasNextPage: !!result.nextCursor,
         search: search || null,
+        tag: tag || null,
+        folderId: folderId || null,
         isSearchQuery: !!search,
         success: true,
         duration: requestDuration,
@@ -371,6 +496,7 @@ export const GET = withAuth(async (request: NextRequest, session: any) => {
       success: true,
       files: fileList,
       total: totalFiles,
+      nextCursor: result.nextCursor,
       search: search || null,
     } as FileListResponse, {
       headers: apiRateLimit.getHeaders(rateLimitResult),
@@ -378,6 +504,24 @@ export const GET = withAuth(async (request: NextRequest, session: any) => {
   } catch (error) {
     const requestDuration = Date.now() - requestStartTime;
 
+    if (error instanceof InvalidSearchQueryError || error instanceof InvalidCursorError) {
+      fileActivityLogger.logApiResponse("FilesAPI", "GET", "/api/files", 400, {
+        userId: session.user?.id,
+        details: {
+          error: error.message,
+          search: search || null,
+          cursor,
+          duration: requestDuration,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json(
+        { success: false, error: error.message, files: [], total: 0 } as FileListResponse,
+        { status: 400 },
+      );
+    }
+
     // Log API error
     fileActivityLogger.logApiError(
       "FilesAPI",
@@ -390,7 +534,7 @@ export const GET = withAuth(async (request: NextRequest, session: any) => {
           error: error instanceof Error ? error.message : String(error),
           stack: error instanceof Error ? error.stack : undefined,
           limit,
-          offset,
+          cursor,
           search: search || null,
           duration: requestDuration,
           timestamp: new Date().toISOString(),
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { SearchSuggestionsResponse } from "@/types/file";
+import { apiRateLimit, getClientIdentifier } from "@/utils/rateLimit";
+import { fileActivityLogger } from "@/utils/logging";
+import { getSearchSuggestions } from "@/utils/searchSuggestions";
+
+// Longer input isn't completed
+const MAX_QUERY_LENGTH = 200;
+
+// GET /api/files/suggest?q= - Suggestions for a search being typed: filter keywords,
+// recent searches and file names starting with it
+export const GET = withAuth(async (request: NextRequest, session) => {
+  const url = new URL(request.url);
+  const query = url.searchParams.get("q") || "";
+
+  // Called while typing, so limited like the file list it completes
+  const identifier = getClientIdentifier(request, session.user?.id);
+  const rateLimitResult = apiRateLimit.check(identifier);
+
+  if (!rateLimitResult.allowed) {
+    const resetTime = new Date(rateLimitResult.resetTime).toISOString();
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Too many requests. Try again after ${resetTime}`,
+        suggestions: [],
+      } as SearchSuggestionsResponse,
+      {
+        status: 429,
+        headers: apiRateLimit.getHeaders(rateLimitResult),
+      },
+    );
+  }
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json(
+      { success: true, suggestions: [] } as SearchSuggestionsResponse,
+      { headers: apiRateLimit.getHeaders(rateLimitResult) },
+    );
+  }
+
+  try {
+    const suggestions = await getSearchSuggestions(session.user.id, query);
+
+    return NextResponse.json(
+      { success: true, suggestions } as SearchSuggestionsResponse,
+      { headers: apiRateLimit.getHeaders(rateLimitResult) },
+    );
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "FilesAPI",
+      "GET",
+      "/api/files/suggest",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          query,
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to load search suggestions:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to load suggestions",
+        suggestions: [],
+      } as SearchSuggestionsResponse,
+      { status: 500 },
+    );
+  }
+});
@@ -0,0 +1,289 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { withAuth } from "@/app/auth/middleware";
+import { UploadSession } from "@/app/auth/schema";
+import { fileActivityLogger } from "@/utils/logging";
+import {
+  completeUploadSession,
+  deleteUploadSession,
+  getUploadSession,
+  isSupportedTusVersion,
+  lockUpload,
+  parseOffsetHeader,
+  recordUploadProgress,
+  TUS_ENDPOINT,
+  tusCapabilityHeaders,
+  tusHeaders,
+  unlockUpload,
+} from "@/utils/tusUpload";
+import { finalizeUpload } from "@/utils/uploadFinalizer";
+import {
+  appendStreamToTempFile,
+  getTempFileSize,
+  hashTempFile,
+  UploadTooLargeError,
+} from "@/utils/uploadPipeline";
+
+/**
+ * The number of bytes received so far. The temp file is the source of truth,
+ * since a chunk may have been partly written before the connection dropped.
+ */
+async function currentOffset(uploadSession: UploadSession): Promise<number> {
+  if (uploadSession.fileId) return uploadSession.uploadLength;
+  return getTempFileSize(uploadSession.tempPath);
+}
+
+function progressHeaders(
+  uploadSession: UploadSession,
+  uploadOffset: number,
+  expiresAt: Date = uploadSession.expiresAt,
+  fileId: string | null = uploadSession.fileId,
+): Record<string, string> {
+  return tusHeaders({
+    "Upload-Offset": uploadOffset.toString(),
+    "Upload-Length": uploadSession.uploadLength.toString(),
+    "Upload-Expires": expiresAt.toUTCString(),
+    // Not part of tus: lets the client fetch the files record it produced
+    ...(fileId ? { "X-File-Id": fileId } : {}),
+  });
+}
+
+// OPTIONS /api/files/tus/[id] - Advertise tus protocol support
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: tusCapabilityHeaders() });
+}
+
+// HEAD /api/files/tus/[id] - Get the current offset of an upload
+export async function HEAD(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    if (!isSupportedTusVersion(request)) {
+      return new NextResponse(null, { status: 412, headers: tusCapabilityHeaders() });
+    }
+
+    const uploadSession = await getUploadSession(params.id, session.user.id);
+    if (!uploadSession) {
+      return new NextResponse(null, { status: 404, headers: tusHeaders() });
+    }
+
+    return new NextResponse(null, {
+      status: 200,
+      headers: progressHeaders(uploadSession, await currentOffset(uploadSession)),
+    });
+  })(request);
+}
+
+// PATCH /api/files/tus/[id] - Append a chunk at the given offset
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const requestStartTime = Date.now();
+    const uploadId = params.id;
+    const endpoint = `${TUS_ENDPOINT}/${uploadId}`;
+
+    const reject = (status: number, error: string, headers = tusHeaders()) => {
+      fileActivityLogger.logApiResponse("TusUploadAPI", "PATCH", endpoint, status, {
+        userId: session.user?.id,
+        details: {
+          error,
+          duration: Date.now() - requestStartTime,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({ success: false, error }, { status, headers });
+    };
+
+    if (!isSupportedTusVersion(request)) {
+      return reject(412, "Unsupported tus protocol version", tusCapabilityHeaders());
+    }
+
+    if (request.headers.get("content-type") !== "application/offset+octet-stream") {
+      return reject(415, "Content-Type must be application/offset+octet-stream");
+    }
+
+    const requestOffset = parseOffsetHeader(request.headers.get("upload-offset"));
+    if (requestOffset === null) {
+      return reject(400, "Missing or invalid Upload-Offset header");
+    }
+
+    if (!lockUpload(uploadId)) {
+      return reject(423, "Upload is already receiving data");
+    }
+
+    try {
+      const uploadSession = await getUploadSession(uploadId, session.user.id);
+      if (!uploadSession) {
+        return reject(404, "Upload not found or expired");
+      }
+
+      const offset = await currentOffset(uploadSession);
+      if (requestOffset !== offset) {
+        return reject(
+          409,
+          `Upload-Offset ${requestOffset} does not match current offset ${offset}`,
+          progressHeaders(uploadSession, offset),
+        );
+      }
+
+      if (uploadSession.fileId) {
+        return new NextResponse(null, {
+          status: 204,
+          headers: progressHeaders(uploadSession, offset),
+        });
+      }
+
+      // Append the chunk, never accepting more than the declared length
+      let appendError: unknown = null;
+      if (request.body) {
+        try {
+          await appendStreamToTempFile(
+            uploadSession.tempPath,
+            Readable.fromWeb(request.body as NodeReadableStream),
+            uploadSession.uploadLength - offset,
+          );
+        } catch (error) {
+          appendError = error;
+        }
+      }
+
+      // Whatever made it to disk counts, even if the connection dropped mid-chunk
+      const newOffset = await getTempFileSize(uploadSession.tempPath);
+      const expiresAt = await recordUploadProgress(uploadId, newOffset);
+
+      if (appendError instanceof UploadTooLargeError) {
+        return reject(
+          413,
+          "Chunk exceeds the declared Upload-Length",
+          progressHeaders(uploadSession, newOffset, expiresAt),
+        );
+      }
+      if (appendError) {
+        throw appendError;
+      }
+
+      if (newOffset < uploadSession.uploadLength) {
+        return new NextResponse(null, {
+          status: 204,
+          headers: progressHeaders(uploadSession, newOffset, expiresAt),
+        });
+      }
+
+      // Final chunk received: validate and create the files record
+      const result = await finalizeUpload(
+        {
+          tempPath: uploadSession.tempPath,
+          originalName: uploadSession.originalName,
+          declaredMimeType: uploadSession.mimeType,
+          size: newOffset,
+          sha256: await hashTempFile(uploadSession.tempPath),
+        },
+        session.user.id,
+        uploadSession.folderId,
+      );
+
+      if (!result.success) {
+        await deleteUploadSession(uploadSession);
+        return reject(result.error.type === "quota" ? 507 : 400, result.error.message);
+      }
+
+      const insertedFile = result.file;
+      await completeUploadSession(uploadId, insertedFile.id);
+
+      fileActivityLogger.logApiResponse("TusUploadAPI", "PATCH", endpoint, 204, {
+        userId: session.user.id,
+        fileId: insertedFile.id,
+        fileName: insertedFile.originalName,
+        fileSize: insertedFile.fileSize,
+        fileType: insertedFile.fileType,
+        details: {
+          uploadId,
+          fileId: insertedFile.id,
+          filename: insertedFile.filename,
+          mimeType: insertedFile.mimeType,
+          success: true,
+          duration: Date.now() - requestStartTime,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return new NextResponse(null, {
+        status: 204,
+        headers: progressHeaders(uploadSession, newOffset, expiresAt, insertedFile.id),
+      });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "TusUploadAPI",
+        "PATCH",
+        endpoint,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Resumable upload error:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to store upload chunk" },
+        { status: 500, headers: tusHeaders() },
+      );
+    } finally {
+      unlockUpload(uploadId);
+    }
+  })(request);
+}
+
+// DELETE /api/files/tus/[id] - Terminate an upload and discard its data
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    if (!isSupportedTusVersion(request)) {
+      return new NextResponse(null, { status: 412, headers: tusCapabilityHeaders() });
+    }
+
+    const uploadSession = await getUploadSession(params.id, session.user.id);
+    if (!uploadSession) {
+      return new NextResponse(null, { status: 404, headers: tusHeaders() });
+    }
+
+    if (!lockUpload(uploadSession.id)) {
+      return new NextResponse(null, { status: 423, headers: tusHeaders() });
+    }
+
+    try {
+      await deleteUploadSession(uploadSession);
+    } finally {
+      unlockUpload(uploadSession.id);
+    }
+
+    fileActivityLogger.logApiResponse(
+      "TusUploadAPI",
+      "DELETE",
+      `${TUS_ENDPOINT}/${uploadSession.id}`,
+      204,
+      {
+        userId: session.user.id,
+        details: {
+          uploadId: uploadSession.id,
+          uploadOffset: uploadSession.uploadOffset,
+          uploadLength: uploadSession.uploadLength,
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    return new NextResponse(null, { status: 204, headers: tusHeaders() });
+  })(request);
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { MAX_FILE_SIZE } from "@/types/file";
+import { formatFileSize, validateFile } from "@/utils/fileUtils";
+import { fileActivityLogger } from "@/utils/logging";
+import { getClientIdentifier, uploadRateLimit } from "@/utils/rateLimit";
+import { checkStorageQuota } from "@/utils/storageQuota";
+import { getFolder } from "@/utils/folders";
+import {
+  createUploadSession,
+  isSupportedTusVersion,
+  parseOffsetHeader,
+  parseUploadMetadata,
+  TUS_ENDPOINT,
+  tusCapabilityHeaders,
+  tusHeaders,
+} from "@/utils/tusUpload";
+
+// OPTIONS /api/files/tus - Advertise tus protocol support
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: tusCapabilityHeaders() });
+}
+
+// POST /api/files/tus - Create a resumable upload
+export const POST = withAuth(async (request: NextRequest, session) => {
+  const requestStartTime = Date.now();
+
+  fileActivityLogger.logApiRequest("TusUploadAPI", "POST", TUS_ENDPOINT, {
+    userId: session.user?.id,
+    details: {
+      uploadLength: request.headers.get("upload-length"),
+      userAgent: request.headers.get("user-agent"),
+      timestamp: new Date().toISOString(),
+    },
+  });
+
+  const reject = (status: number, error: string, headers = {}) => {
+    fileActivityLogger.logApiResponse("TusUploadAPI", "POST", TUS_ENDPOINT, status, {
+      userId: session.user?.id,
+      details: {
+        error,
+        duration: Date.now() - requestStartTime,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json(
+      { success: false, error },
+      { status, headers: tusHeaders(headers) },
+    );
+  };
+
+  try {
+    if (!isSupportedTusVersion(request)) {
+      return reject(412, "Unsupported tus protocol version", {
+        "Tus-Version": tusCapabilityHeaders()["Tus-Version"],
+      });
+    }
+
+    // Creating an upload counts against the upload rate limit, chunks do not
+    const identifier = getClientIdentifier(request, session.user?.id);
+    const rateLimitResult = uploadRateLimit.check(identifier);
+
+    if (!rateLimitResult.allowed) {
+      const resetTime = new Date(rateLimitResult.resetTime).toISOString();
+      return reject(
+        429,
+        `Rate limit exceeded. Try again after ${resetTime}`,
+        uploadRateLimit.getHeaders(rateLimitResult),
+      );
+    }
+
+    // Deferred lengths are not supported, the size must be known up front
+    const uploadLength = parseOffsetHeader(request.headers.get("upload-length"));
+    if (uploadLength === null) {
+      return reject(400, "Missing or invalid Upload-Length header");
+    }
+
+    if (uploadLength > MAX_FILE_SIZE) {
+      return reject(
+        413,
+        `File size exceeds maximum allowed (${formatFileSize(MAX_FILE_SIZE)})`,
+      );
+    }
+
+    const metadata = parseUploadMetadata(request.headers.get("upload-metadata"));
+    const originalName = metadata.filename;
+    const mimeType = metadata.filetype || "application/octet-stream";
+    const folderId = metadata.folderId || null;
+
+    if (!originalName) {
+      return reject(400, "Upload-Metadata must include a filename");
+    }
+
+    // Reject unsupported files before any bytes are sent; the received
+    // bytes are validated again when the upload completes
+    const validationError = validateFile({
+      name: originalName,
+      size: uploadLength,
+      type: mimeType,
+    });
+    if (validationError) {
+      return reject(400, validationError.message);
+    }
+
+    if (folderId && !(await getFolder(session.user.id, folderId))) {
+      return reject(404, "Folder not found");
+    }
+
+    // Content the user already stores would not count, but its hash is not known yet
+    const quotaError = await checkStorageQuota(session.user.id, {
+      originalName,
+      size: uploadLength,
+    });
+    if (quotaError) {
+      return reject(507, quotaError.message);
+    }
+
+    const uploadSession = await createUploadSession({
+      userId: session.user.id,
+      originalName,
+      mimeType,
+      uploadLength,
+      folderId,
+    });
+
+    fileActivityLogger.logApiResponse("TusUploadAPI", "POST", TUS_ENDPOINT, 201, {
+      userId: session.user.id,
+      fileName: originalName,
+      fileSize: uploadLength,
+      fileType: mimeType,
+      details: {
+        uploadId: uploadSession.id,
+        expiresAt: uploadSession.expiresAt.toISOString(),
+        duration: Date.now() - requestStartTime,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return new NextResponse(null, {
+      status: 201,
+      headers: tusHeaders({
+        Location: `${TUS_ENDPOINT}/${uploadSession.id}`,
+        "Upload-Expires": uploadSession.expiresAt.toUTCString(),
+        ...uploadRateLimit.getHeaders(rateLimitResult),
+      }),
+    });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "TusUploadAPI",
+      "POST",
+      TUS_ENDPOINT,
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          duration: Date.now() - requestStartTime,
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Resumable upload creation error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create upload" },
+      { status: 500, headers: tusHeaders() },
+    );
+  }
+});
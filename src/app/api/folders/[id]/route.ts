@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import {
+  MAX_FOLDER_NAME_LENGTH,
+  FolderNameConflictError,
+  InvalidFolderMoveError,
+  deleteFolder,
+  getFolder,
+  getFolderContentCounts,
+  getFolderPath,
+  normalizeFolderName,
+  toFolderItem,
+  updateFolder,
+} from "@/utils/folders";
+
+// GET /api/folders/[id] - A folder, with the folders above it for breadcrumbs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const folderId = params.id;
+
+    try {
+      const path = await getFolderPath(session.user.id, folderId);
+      const folder = path[path.length - 1];
+
+      if (!folder) {
+        return NextResponse.json(
+          { success: false, error: "Folder not found" },
+          { status: 404 },
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        folder: toFolderItem(folder),
+        path: path.map(toFolderItem),
+      });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "FoldersAPI",
+        "GET",
+        `/api/folders/${folderId}`,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Failed to load folder:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to load folder" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
+
+// PATCH /api/folders/[id] - Rename and/or move a folder ({ name?, parentId? }; parentId null for the top level)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const folderId = params.id;
+
+    try {
+      const body = await request.json().catch(() => null);
+      const name = body?.name !== undefined ? normalizeFolderName(body.name) : undefined;
+      const parentId: unknown = body?.parentId;
+
+      if (
+        name === null ||
+        (parentId !== undefined && parentId !== null && typeof parentId !== "string") ||
+        (name === undefined && parentId === undefined)
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Provide a name (1 to ${MAX_FOLDER_NAME_LENGTH} characters without slashes) and/or a parentId`,
+          },
+          { status: 400 },
+        );
+      }
+
+      if (parentId && !(await getFolder(session.user.id, parentId))) {
+        return NextResponse.json(
+          { success: false, error: "Destination folder not found" },
+          { status: 404 },
+        );
+      }
+
+      const folder = await updateFolder(session.user.id, folderId, {
+        name,
+        parentId: parentId as string | null | undefined,
+      });
+      if (!folder) {
+        return NextResponse.json(
+          { success: false, error: "Folder not found" },
+          { status: 404 },
+        );
+      }
+
+      fileActivityLogger.logApiResponse("FoldersAPI", "PATCH", `/api/folders/${folderId}`, 200, {
+        userId: session.user.id,
+        details: {
+          renamed: name !== undefined,
+          parentId: folder.parentId,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({ success: true, folder: toFolderItem(folder) });
+    } catch (error) {
+      if (error instanceof FolderNameConflictError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 409 },
+        );
+      }
+      if (error instanceof InvalidFolderMoveError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 400 },
+        );
+      }
+
+      fileActivityLogger.logApiError(
+        "FoldersAPI",
+        "PATCH",
+        `/api/folders/${folderId}`,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Failed to update folder:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to update folder" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
+
+// DELETE /api/folders/[id] - Delete a folder. Folders that aren't empty need ?recursive=true,
+// which deletes their subfolders and moves all their files to the trash.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const folderId = params.id;
+    const recursive = new URL(request.url).searchParams.get("recursive") === "true";
+
+    try {
+      if (!(await getFolder(session.user.id, folderId))) {
+        return NextResponse.json(
+          { success: false, error: "Folder not found" },
+          { status: 404 },
+        );
+      }
+
+      // Say what would be lost, so the client can ask for confirmation
+      const { folderCount, fileCount } = await getFolderContentCounts(folderId);
+      if (!recursive && folderCount + fileCount > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "The folder isn't empty. Delete it with recursive=true to move its files to the trash.",
+            folderCount,
+            fileCount,
+          },
+          { status: 409 },
+        );
+      }
+
+      const trashedCount = await deleteFolder(session.user.id, folderId);
+
+      fileActivityLogger.logApiResponse("FoldersAPI", "DELETE", `/api/folders/${folderId}`, 200, {
+        userId: session.user.id,
+        details: {
+          folderCount,
+          trashedCount,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({ success: true, folderCount, trashedCount });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "FoldersAPI",
+        "DELETE",
+        `/api/folders/${folderId}`,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          details: {
+            recursive,
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Failed to delete folder:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to delete folder" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
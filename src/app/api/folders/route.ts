@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import {
+  MAX_FOLDER_NAME_LENGTH,
+  FolderNameConflictError,
+  createFolder,
+  getFolder,
+  getSubfolders,
+  normalizeFolderName,
+  toFolderItem,
+} from "@/utils/folders";
+
+// GET /api/folders - The folders inside parentId, or the top-level folders without it
+export const GET = withAuth(async (request: NextRequest, session) => {
+  const parentId = new URL(request.url).searchParams.get("parentId") || null;
+
+  try {
+    if (parentId && !(await getFolder(session.user.id, parentId))) {
+      return NextResponse.json(
+        { success: false, error: "Folder not found" },
+        { status: 404 },
+      );
+    }
+
+    const folders = await getSubfolders(session.user.id, parentId);
+
+    return NextResponse.json({ success: true, folders: folders.map(toFolderItem) });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "FoldersAPI",
+      "GET",
+      "/api/folders",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          parentId,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to load folders:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load folders" },
+      { status: 500 },
+    );
+  }
+});
+
+// POST /api/folders - Create a folder ({ name, parentId? }; top level without parentId)
+export const POST = withAuth(async (request: NextRequest, session) => {
+  try {
+    const body = await request.json().catch(() => null);
+    const name = normalizeFolderName(body?.name);
+    const parentId: unknown = body?.parentId ?? null;
+
+    if (!name || (parentId !== null && typeof parentId !== "string")) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `name must be 1 to ${MAX_FOLDER_NAME_LENGTH} characters without slashes`,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (parentId && !(await getFolder(session.user.id, parentId))) {
+      return NextResponse.json(
+        { success: false, error: "Parent folder not found" },
+        { status: 404 },
+      );
+    }
+
+    const folder = await createFolder(session.user.id, name, parentId);
+
+    fileActivityLogger.logApiResponse("FoldersAPI", "POST", "/api/folders", 201, {
+      userId: session.user.id,
+      details: {
+        folderId: folder.id,
+        parentId,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json(
+      { success: true, folder: toFolderItem(folder) },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof FolderNameConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 },
+      );
+    }
+
+    fileActivityLogger.logApiError(
+      "FoldersAPI",
+      "POST",
+      "/api/folders",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to create folder:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create folder" },
+      { status: 500 },
+    );
+  }
+});
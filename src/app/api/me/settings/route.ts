@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { UserSettingsSummary } from "@/types/file";
+import { fileActivityLogger } from "@/utils/logging";
+import {
+  EXIF_STRIPPING_OPTIONS,
+  getUserSettings,
+  isExifStripping,
+  toUserSettingsSummary,
+  updateUserSettings,
+} from "@/utils/userSettings";
+
+// GET /api/me/settings - The current user's settings
+export const GET = withAuth(async (request: NextRequest, session) => {
+  try {
+    const settings = await getUserSettings(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      settings: toUserSettingsSummary(settings),
+    });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "SettingsAPI",
+      "GET",
+      "/api/me/settings",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to load settings:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load settings" },
+      { status: 500 },
+    );
+  }
+});
+
+// PUT /api/me/settings - Change some of the current user's settings
+export const PUT = withAuth(async (request: NextRequest, session) => {
+  try {
+    const body = await request.json().catch(() => null);
+    const changes: Partial<UserSettingsSummary> = {};
+
+    if (body?.exifStripping !== undefined) {
+      if (!isExifStripping(body.exifStripping)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `exifStripping must be one of: ${EXIF_STRIPPING_OPTIONS.join(", ")}`,
+          },
+          { status: 400 },
+        );
+      }
+      changes.exifStripping = body.exifStripping;
+    }
+
+    if (body?.stripStoredExif !== undefined) {
+      if (typeof body.stripStoredExif !== "boolean") {
+        return NextResponse.json(
+          { success: false, error: "stripStoredExif must be a boolean" },
+          { status: 400 },
+        );
+      }
+      changes.stripStoredExif = body.stripStoredExif;
+    }
+
+    if (body?.builtInTagRules !== undefined) {
+      if (typeof body.builtInTagRules !== "boolean") {
+        return NextResponse.json(
+          { success: false, error: "builtInTagRules must be a boolean" },
+          { status: 400 },
+        );
+      }
+      changes.builtInTagRules = body.builtInTagRules;
+    }
+
+    const settings = await updateUserSettings(session.user.id, changes);
+
+    fileActivityLogger.logApiResponse("SettingsAPI", "PUT", "/api/me/settings", 200, {
+      userId: session.user.id,
+      details: {
+        ...changes,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      settings: toUserSettingsSummary(settings),
+    });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "SettingsAPI",
+      "PUT",
+      "/api/me/settings",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to save settings:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to save settings" },
+      { status: 500 },
+    );
+  }
+});
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import { getStorageUsage, toStorageUsageSummary } from "@/utils/storageQuota";
+
+// GET /api/me/usage - Storage used by the current user and their plan's quota
+export const GET = withAuth(async (request: NextRequest, session) => {
+  try {
+    const usage = await getStorageUsage(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      usage: toStorageUsageSummary(usage),
+    });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "UsageAPI",
+      "GET",
+      "/api/me/usage",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to load storage usage:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load storage usage" },
+      { status: 500 },
+    );
+  }
+});
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import { markNotificationsRead } from "@/utils/notifications";
+
+// POST /api/notifications/read - Mark notifications as read ({ ids } or all)
+export const POST = withAuth(async (request: NextRequest, session) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const ids = body?.ids;
+
+    if (
+      ids !== undefined &&
+      !(Array.isArray(ids) && ids.every((id: unknown) => typeof id === "string"))
+    ) {
+      return NextResponse.json(
+        { success: false, error: "ids must be an array of notification IDs" },
+        { status: 400 },
+      );
+    }
+
+    const markedCount = await markNotificationsRead(session.user.id, ids);
+
+    return NextResponse.json({ success: true, markedCount });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "NotificationsAPI",
+      "POST",
+      "/api/notifications/read",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to mark notifications as read:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to mark notifications as read" },
+      { status: 500 },
+    );
+  }
+});
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import { getNotifications } from "@/utils/notifications";
+
+// GET /api/notifications - The current user's recent notifications and unread count
+export const GET = withAuth(async (request: NextRequest, session) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100);
+
+    const { notifications, unreadCount } = await getNotifications(
+      session.user.id,
+      limit,
+    );
+
+    return NextResponse.json({ success: true, notifications, unreadCount });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "NotificationsAPI",
+      "GET",
+      "/api/notifications",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to load notifications:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load notifications" },
+      { status: 500 },
+    );
+  }
+});
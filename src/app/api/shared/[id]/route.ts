@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/app/auth/db";
 import { files, sharedFiles, shareAccessLog } from "@/app/auth/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNull } from "drizzle-orm";
 import { randomUUID } from "crypto";
 import { verifyPresignedUrl } from "@/utils/urlSigning";
 import { fileActivityLogger } from "@/utils/logging";
-import path from "path";
-import fs from "fs/promises";
+import { toWebStream } from "@/utils/storage";
+import { openFileContent } from "@/utils/blobStore";
+import { currentVersionOf, getFileVersion } from "@/utils/fileVersions";
+import { getScanBlock } from "@/utils/virusScanner";
+import { getUserContentHeaders } from "@/utils/contentHeaders";
+import { prepareSharedImage, supportsImageMetadata } from "@/utils/imageMetadata";
+import { getUserSettings } from "@/utils/userSettings";
 
 interface SharedFileResponse {
   success: boolean;
@@ -19,6 +24,7 @@ interface SharedFileResponse {
     mimeType: string;
     downloadUrl?: string;
     viewUrl?: string;
+    version?: number;
   };
   shareInfo?: {
     permissions: string;
@@ -265,11 +271,11 @@ export async function GET(
       fileId = shareRecord.fileId; // Update fileId to actual file ID
     }
 
-    // Get the file information
+    // Get the file information. Shares of trashed files stop working until the file is restored.
     const [file] = await db
       .select()
       .from(files)
-      .where(eq(files.id, fileId))
+      .where(and(eq(files.id, fileId), isNull(files.deletedAt)))
       .limit(1);
 
     if (!file) {
@@ -292,6 +298,55 @@ export async function GET(
       );
     }
 
+    // Shares pinned to a version keep serving it after newer versions are uploaded
+    const content = sharedFile?.pinnedVersion && accessMethod === 'share_code'
+      ? await getFileVersion(file, sharedFile.pinnedVersion)
+      : currentVersionOf(file);
+
+    if (!content) {
+      const requestDuration = Date.now() - requestStartTime;
+
+      fileActivityLogger.logApiResponse("SharedFile", "GET", `/api/shared/${params.id}`, 404, {
+        details: {
+          error: "Pinned version not found",
+          accessMethod,
+          fileId,
+          pinnedVersion: sharedFile?.pinnedVersion,
+          ipAddress,
+          duration: requestDuration,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json(
+        { success: false, error: "File not found" } as SharedFileResponse,
+        { status: 404 }
+      );
+    }
+
+    // Shared links only serve content that passed the virus scan
+    const scanBlock = getScanBlock(content.scanStatus);
+    if (scanBlock) {
+      const requestDuration = Date.now() - requestStartTime;
+
+      fileActivityLogger.logApiResponse("SharedFile", "GET", `/api/shared/${params.id}`, scanBlock.status, {
+        details: {
+          error: scanBlock.error,
+          accessMethod,
+          fileId,
+          scanStatus: content.scanStatus,
+          ipAddress,
+          duration: requestDuration,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json(
+        { success: false, error: scanBlock.error } as SharedFileResponse,
+        { status: scanBlock.status }
+      );
+    }
+
     // Log access attempt
     if (sharedFile) {
       try {
@@ -332,8 +387,16 @@ export async function GET(
     // Handle file download
     if (action === 'download') {
       try {
-        const filePath = path.join(process.cwd(), 'uploads', file.filename);
-        const fileBuffer = await fs.readFile(filePath);
+        const { stream: fileStream } = await openFileContent(content);
+
+        // Images lose the EXIF data their owner doesn't want to share
+        const stripping = file.uploadedBy && supportsImageMetadata(content.mimeType)
+          ? (await getUserSettings(file.uploadedBy)).exifStripping
+          : "none";
+        const body = stripping === "none"
+          ? toWebStream(fileStream)
+          : new Uint8Array(await prepareSharedImage(fileStream, content.mimeType, stripping));
+        const contentLength = body instanceof Uint8Array ? body.length : content.fileSize;
 
         const requestDuration = Date.now() - requestStartTime;
 
@@ -342,8 +405,9 @@ export async function GET(
             action: 'download',
             accessMethod,
             fileId: file.id,
-            fileName: file.originalName,
-            fileSize: file.fileSize,
+            fileName: content.originalName,
+            fileSize: contentLength,
+            exifStripping: stripping,
             ipAddress,
             duration: requestDuration,
             timestamp: new Date().toISOString(),
@@ -356,19 +420,18 @@ export async function GET(
           fileId: file.id,
           details: {
             accessMethod,
-            fileName: file.originalName,
-            fileSize: file.fileSize,
+            fileName: content.originalName,
+            fileSize: content.fileSize,
             ipAddress,
             userAgent,
             timestamp: new Date().toISOString(),
           },
         });
 
-        return new NextResponse(fileBuffer, {
+        return new NextResponse(body, {
           headers: {
-            'Content-Type': file.mimeType,
-            'Content-Disposition': `attachment; filename="${encodeURIComponent(file.originalName)}"`,
-            'Content-Length': file.fileSize.toString(),
+            ...getUserContentHeaders(content.mimeType, content.originalName),
+            'Content-Length': contentLength.toString(),
             'Cache-Control': 'no-cache, no-store, must-revalidate',
             'Pragma': 'no-cache',
             'Expires': '0',
@@ -386,7 +449,7 @@ export async function GET(
             details: {
               action: 'download',
               fileId: file.id,
-              fileName: file.originalName,
+              fileName: content.originalName,
               error: error instanceof Error ? error.message : String(error),
               ipAddress,
               duration: requestDuration,
@@ -410,8 +473,8 @@ export async function GET(
         action: 'view',
         accessMethod,
         fileId: file.id,
-        fileName: file.originalName,
-        fileSize: file.fileSize,
+        fileName: content.originalName,
+        fileSize: content.fileSize,
         ipAddress,
         duration: requestDuration,
         timestamp: new Date().toISOString(),
@@ -424,8 +487,8 @@ export async function GET(
       fileId: file.id,
       details: {
         accessMethod,
-        fileName: file.originalName,
-        fileSize: file.fileSize,
+        fileName: content.originalName,
+        fileSize: content.fileSize,
         ipAddress,
         userAgent,
         timestamp: new Date().toISOString(),
@@ -438,13 +501,14 @@ export async function GET(
       success: true,
       file: {
         id: file.id,
-        filename: file.filename,
-        originalName: file.originalName,
-        fileSize: file.fileSize,
-        fileType: file.fileType,
-        mimeType: file.mimeType,
+        filename: content.filename,
+        originalName: content.originalName,
+        fileSize: content.fileSize,
+        fileType: content.fileType,
+        mimeType: content.mimeType,
         downloadUrl: `${baseUrl}/api/shared/${params.id}?action=download${token ? `&token=${token}&signature=${signature}` : ''}`,
-        viewUrl: file.url,
+        viewUrl: content.versionNumber === file.currentVersion ? file.url ?? undefined : undefined,
+        version: content.versionNumber,
       },
       shareInfo: sharedFile ? {
         permissions: sharedFile.permissions,
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import { MAX_TAG_NAME_LENGTH, normalizeTagName } from "@/utils/tags";
+import {
+  deleteTagRule,
+  getTagRule,
+  updateTagRule,
+  validateTagRule,
+} from "@/utils/autoTagging";
+
+// PATCH /api/tag-rules/[id] - Change a rule (any of { tagName, condition, field, pattern, enabled })
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const ruleId = params.id;
+
+    try {
+      const body = await request.json().catch(() => null);
+      const existing = await getTagRule(session.user.id, ruleId);
+
+      if (!existing) {
+        return NextResponse.json(
+          { success: false, error: "Tag rule not found" },
+          { status: 404 },
+        );
+      }
+
+      const changes = { ...existing, ...body };
+      // Switching an exif rule to another condition drops its field
+      if (body?.condition !== undefined && body.condition !== "exif" && body.field === undefined) {
+        delete changes.field;
+      }
+      const tagName = normalizeTagName(changes.tagName);
+      const validationError = tagName
+        ? validateTagRule(changes)
+        : `tagName must be between 1 and ${MAX_TAG_NAME_LENGTH} characters`;
+
+      if (validationError || typeof changes.enabled !== "boolean") {
+        return NextResponse.json(
+          { success: false, error: validationError ?? "enabled must be a boolean" },
+          { status: 400 },
+        );
+      }
+
+      const rule = await updateTagRule(session.user.id, ruleId, { ...changes, tagName });
+      if (!rule) {
+        return NextResponse.json(
+          { success: false, error: "Tag rule not found" },
+          { status: 404 },
+        );
+      }
+
+      fileActivityLogger.logApiResponse("TagRulesAPI", "PATCH", `/api/tag-rules/${ruleId}`, 200, {
+        userId: session.user.id,
+        details: {
+          tagName: rule.tagName,
+          condition: rule.condition,
+          enabled: rule.enabled,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({ success: true, rule });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "TagRulesAPI",
+        "PATCH",
+        `/api/tag-rules/${ruleId}`,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Failed to update tag rule:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to update tag rule" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
+
+// DELETE /api/tag-rules/[id] - Delete a rule; tags it applied stay on their files
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const ruleId = params.id;
+
+    try {
+      if (!(await deleteTagRule(session.user.id, ruleId))) {
+        return NextResponse.json(
+          { success: false, error: "Tag rule not found" },
+          { status: 404 },
+        );
+      }
+
+      fileActivityLogger.logApiResponse("TagRulesAPI", "DELETE", `/api/tag-rules/${ruleId}`, 200, {
+        userId: session.user.id,
+        details: {
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "TagRulesAPI",
+        "DELETE",
+        `/api/tag-rules/${ruleId}`,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Failed to delete tag rule:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to delete tag rule" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
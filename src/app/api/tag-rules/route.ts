@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import { MAX_TAG_NAME_LENGTH, normalizeTagName } from "@/utils/tags";
+import { createTagRule, getTagRules, validateTagRule } from "@/utils/autoTagging";
+import { TagRuleCondition } from "@/types/file";
+
+// GET /api/tag-rules - The current user's automatic tagging rules, followed by the built-in ones
+export const GET = withAuth(async (request: NextRequest, session) => {
+  try {
+    const rules = await getTagRules(session.user.id);
+
+    return NextResponse.json({ success: true, rules });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "TagRulesAPI",
+      "GET",
+      "/api/tag-rules",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to load tag rules:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load tag rules" },
+      { status: 500 },
+    );
+  }
+});
+
+// POST /api/tag-rules - Create a rule ({ tagName, condition, field?, pattern, enabled? })
+export const POST = withAuth(async (request: NextRequest, session) => {
+  try {
+    const body = await request.json().catch(() => null);
+    const tagName = normalizeTagName(body?.tagName);
+    const validationError = tagName
+      ? validateTagRule({ condition: body.condition, field: body.field, pattern: body.pattern })
+      : `tagName must be between 1 and ${MAX_TAG_NAME_LENGTH} characters`;
+
+    if (validationError || (body.enabled !== undefined && typeof body.enabled !== "boolean")) {
+      return NextResponse.json(
+        { success: false, error: validationError ?? "enabled must be a boolean" },
+        { status: 400 },
+      );
+    }
+
+    const rule = await createTagRule(session.user.id, {
+      tagName: tagName as string,
+      condition: body.condition as TagRuleCondition,
+      field: body.field,
+      pattern: body.pattern,
+      enabled: body.enabled ?? true,
+    });
+
+    fileActivityLogger.logApiResponse("TagRulesAPI", "POST", "/api/tag-rules", 201, {
+      userId: session.user.id,
+      details: {
+        ruleId: rule.id,
+        tagName: rule.tagName,
+        condition: rule.condition,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json({ success: true, rule }, { status: 201 });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "TagRulesAPI",
+      "POST",
+      "/api/tag-rules",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to create tag rule:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create tag rule" },
+      { status: 500 },
+    );
+  }
+});
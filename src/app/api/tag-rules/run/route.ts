@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import { AutoTaggingInProgressError, rerunAutoTagging } from "@/utils/autoTagging";
+
+// POST /api/tag-rules/run - Apply the current rules to all of the user's files
+export const POST = withAuth(async (request: NextRequest, session) => {
+  try {
+    const { fileCount, addedCount } = await rerunAutoTagging(session.user.id);
+
+    fileActivityLogger.logApiResponse("TagRulesAPI", "POST", "/api/tag-rules/run", 200, {
+      userId: session.user.id,
+      details: {
+        fileCount,
+        addedCount,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json({ success: true, fileCount, addedCount });
+  } catch (error) {
+    if (error instanceof AutoTaggingInProgressError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 },
+      );
+    }
+
+    fileActivityLogger.logApiError(
+      "TagRulesAPI",
+      "POST",
+      "/api/tag-rules/run",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to run tag rules:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to run tag rules" },
+      { status: 500 },
+    );
+  }
+});
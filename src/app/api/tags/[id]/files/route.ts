@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import {
+  MAX_BULK_TAG_ITEMS,
+  addTagsToFiles,
+  getTag,
+  isIdList,
+  removeTagsFromFiles,
+} from "@/utils/tags";
+
+/**
+ * Tags or untags many files at once. The request body is { fileIds }.
+ */
+function bulkTagHandler(method: "POST" | "DELETE", tagId: string) {
+  return withAuth(async (request: NextRequest, session) => {
+    const endpoint = `/api/tags/${tagId}/files`;
+
+    try {
+      const body = await request.json().catch(() => null);
+      const fileIds = body?.fileIds;
+
+      if (!isIdList(fileIds)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `fileIds must be an array of 1 to ${MAX_BULK_TAG_ITEMS} file IDs`,
+          },
+          { status: 400 },
+        );
+      }
+
+      if (!(await getTag(session.user.id, tagId))) {
+        return NextResponse.json(
+          { success: false, error: "Tag not found" },
+          { status: 404 },
+        );
+      }
+
+      const changedCount =
+        method === "POST"
+          ? await addTagsToFiles(session.user.id, fileIds, [tagId])
+          : await removeTagsFromFiles(session.user.id, fileIds, [tagId]);
+
+      fileActivityLogger.logApiResponse("TagsAPI", method, endpoint, 200, {
+        userId: session.user.id,
+        details: {
+          requestedCount: fileIds.length,
+          changedCount,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({ success: true, changedCount });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "TagsAPI",
+        method,
+        endpoint,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error(`Failed to ${method === "POST" ? "tag" : "untag"} files:`, error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Failed to ${method === "POST" ? "tag" : "untag"} files`,
+        },
+        { status: 500 },
+      );
+    }
+  });
+}
+
+// POST /api/tags/[id]/files - Put the tag on many files ({ fileIds })
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return bulkTagHandler("POST", params.id)(request);
+}
+
+// DELETE /api/tags/[id]/files - Take the tag off many files ({ fileIds })
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return bulkTagHandler("DELETE", params.id)(request);
+}
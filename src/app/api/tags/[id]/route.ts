@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import {
+  MAX_TAG_NAME_LENGTH,
+  TagNameConflictError,
+  deleteTag,
+  normalizeTagName,
+  renameTag,
+} from "@/utils/tags";
+
+// PATCH /api/tags/[id] - Rename a tag ({ name })
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const tagId = params.id;
+
+    try {
+      const body = await request.json().catch(() => null);
+      const name = normalizeTagName(body?.name);
+
+      if (!name) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `name must be between 1 and ${MAX_TAG_NAME_LENGTH} characters`,
+          },
+          { status: 400 },
+        );
+      }
+
+      const tag = await renameTag(session.user.id, tagId, name);
+      if (!tag) {
+        return NextResponse.json(
+          { success: false, error: "Tag not found" },
+          { status: 404 },
+        );
+      }
+
+      fileActivityLogger.logApiResponse("TagsAPI", "PATCH", `/api/tags/${tagId}`, 200, {
+        userId: session.user.id,
+        details: {
+          name: tag.name,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        tag: { id: tag.id, name: tag.name },
+      });
+    } catch (error) {
+      if (error instanceof TagNameConflictError) {
+        return NextResponse.json(
+          { success: false, error: error.message },
+          { status: 409 },
+        );
+      }
+
+      fileActivityLogger.logApiError(
+        "TagsAPI",
+        "PATCH",
+        `/api/tags/${tagId}`,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Failed to rename tag:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to rename tag" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
+
+// DELETE /api/tags/[id] - Delete a tag, removing it from all files
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const tagId = params.id;
+
+    try {
+      if (!(await deleteTag(session.user.id, tagId))) {
+        return NextResponse.json(
+          { success: false, error: "Tag not found" },
+          { status: 404 },
+        );
+      }
+
+      fileActivityLogger.logApiResponse("TagsAPI", "DELETE", `/api/tags/${tagId}`, 200, {
+        userId: session.user.id,
+        details: {
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "TagsAPI",
+        "DELETE",
+        `/api/tags/${tagId}`,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Failed to delete tag:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to delete tag" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
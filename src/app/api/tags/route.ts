@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import {
+  MAX_TAG_NAME_LENGTH,
+  TagNameConflictError,
+  createTag,
+  getUserTags,
+  normalizeTagName,
+} from "@/utils/tags";
+
+// GET /api/tags - The current user's tags, with how many files have each
+export const GET = withAuth(async (request: NextRequest, session) => {
+  try {
+    const tags = await getUserTags(session.user.id);
+
+    return NextResponse.json({ success: true, tags });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "TagsAPI",
+      "GET",
+      "/api/tags",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to load tags:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to load tags" },
+      { status: 500 },
+    );
+  }
+});
+
+// POST /api/tags - Create a tag ({ name })
+export const POST = withAuth(async (request: NextRequest, session) => {
+  try {
+    const body = await request.json().catch(() => null);
+    const name = normalizeTagName(body?.name);
+
+    if (!name) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `name must be between 1 and ${MAX_TAG_NAME_LENGTH} characters`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const tag = await createTag(session.user.id, name);
+
+    fileActivityLogger.logApiResponse("TagsAPI", "POST", "/api/tags", 201, {
+      userId: session.user.id,
+      details: {
+        tagId: tag.id,
+        name: tag.name,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        tag: { id: tag.id, name: tag.name, fileCount: 0, createdAt: tag.createdAt },
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    if (error instanceof TagNameConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 },
+      );
+    }
+
+    fileActivityLogger.logApiError(
+      "TagsAPI",
+      "POST",
+      "/api/tags",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Failed to create tag:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create tag" },
+      { status: 500 },
+    );
+  }
+});
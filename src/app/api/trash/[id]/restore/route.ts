@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { toFileItem } from "@/utils/fileUtils";
+import { fileActivityLogger } from "@/utils/logging";
+import { restoreFromTrash } from "@/utils/trash";
+
+// POST /api/trash/[id]/restore - Move a file out of the trash
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const requestStartTime = Date.now();
+    const fileId = params.id;
+
+    fileActivityLogger.logApiRequest(
+      "TrashAPI",
+      "POST",
+      `/api/trash/${fileId}/restore`,
+      {
+        userId: session.user?.id,
+        fileId,
+        details: {
+          userAgent: request.headers.get("user-agent"),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    try {
+      const file = await restoreFromTrash(fileId, session.user.id);
+
+      if (!file) {
+        fileActivityLogger.logApiResponse(
+          "TrashAPI",
+          "POST",
+          `/api/trash/${fileId}/restore`,
+          404,
+          {
+            userId: session.user.id,
+            fileId,
+            details: {
+              error: "File not found in trash",
+              duration: Date.now() - requestStartTime,
+              timestamp: new Date().toISOString(),
+            },
+          },
+        );
+
+        return NextResponse.json(
+          { success: false, error: "File not found in trash" },
+          { status: 404 },
+        );
+      }
+
+      fileActivityLogger.logApiResponse(
+        "TrashAPI",
+        "POST",
+        `/api/trash/${fileId}/restore`,
+        200,
+        {
+          userId: session.user.id,
+          fileId: file.id,
+          fileName: file.originalName,
+          details: {
+            originalName: file.originalName,
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      return NextResponse.json({ success: true, file: toFileItem(file) });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "TrashAPI",
+        "POST",
+        `/api/trash/${fileId}/restore`,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          fileId,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Restore error:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to restore file" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, eq, isNotNull } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files } from "@/app/auth/schema";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import { permanentlyDeleteFile } from "@/utils/trash";
+
+// DELETE /api/trash/[id] - Permanently delete a file from the trash
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  return withAuth(async (req: NextRequest, session) => {
+    const requestStartTime = Date.now();
+    const fileId = params.id;
+
+    fileActivityLogger.logApiRequest("TrashAPI", "DELETE", `/api/trash/${fileId}`, {
+      userId: session.user?.id,
+      fileId,
+      details: {
+        userAgent: request.headers.get("user-agent"),
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    try {
+      // Only files already in the user's trash can be deleted permanently
+      const [file] = await db
+        .select()
+        .from(files)
+        .where(
+          and(
+            eq(files.id, fileId),
+            eq(files.uploadedBy, session.user.id),
+            isNotNull(files.deletedAt),
+          ),
+        )
+        .limit(1);
+
+      if (!file || !(await permanentlyDeleteFile(file))) {
+        fileActivityLogger.logApiResponse(
+          "TrashAPI",
+          "DELETE",
+          `/api/trash/${fileId}`,
+          404,
+          {
+            userId: session.user.id,
+            fileId,
+            details: {
+              error: "File not found in trash",
+              duration: Date.now() - requestStartTime,
+              timestamp: new Date().toISOString(),
+            },
+          },
+        );
+
+        return NextResponse.json(
+          { success: false, error: "File not found in trash" },
+          { status: 404 },
+        );
+      }
+
+      fileActivityLogger.logApiResponse(
+        "TrashAPI",
+        "DELETE",
+        `/api/trash/${fileId}`,
+        200,
+        {
+          userId: session.user.id,
+          fileId: file.id,
+          fileName: file.originalName,
+          details: {
+            originalName: file.originalName,
+            fileSize: file.fileSize,
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: "File permanently deleted",
+      });
+    } catch (error) {
+      fileActivityLogger.logApiError(
+        "TrashAPI",
+        "DELETE",
+        `/api/trash/${fileId}`,
+        error instanceof Error ? error : String(error),
+        {
+          userId: session.user?.id,
+          fileId,
+          details: {
+            error: error instanceof Error ? error.message : String(error),
+            duration: Date.now() - requestStartTime,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      console.error("Permanent delete error:", error);
+      return NextResponse.json(
+        { success: false, error: "Failed to delete file" },
+        { status: 500 },
+      );
+    }
+  })(request);
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAuth } from "@/app/auth/middleware";
+import { fileActivityLogger } from "@/utils/logging";
+import {
+  emptyTrash,
+  getTrashedFiles,
+  toTrashItem,
+  TRASH_RETENTION_MS,
+} from "@/utils/trash";
+
+// GET /api/trash - List files in the user's trash
+export const GET = withAuth(async (request: NextRequest, session) => {
+  const requestStartTime = Date.now();
+
+  fileActivityLogger.logApiRequest("TrashAPI", "GET", "/api/trash", {
+    userId: session.user?.id,
+    details: {
+      userAgent: request.headers.get("user-agent"),
+      timestamp: new Date().toISOString(),
+    },
+  });
+
+  try {
+    const trashed = await getTrashedFiles(session.user.id);
+
+    fileActivityLogger.logApiResponse("TrashAPI", "GET", "/api/trash", 200, {
+      userId: session.user.id,
+      details: {
+        fileCount: trashed.length,
+        duration: Date.now() - requestStartTime,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      files: trashed.map(toTrashItem),
+      total: trashed.length,
+      retentionDays: TRASH_RETENTION_MS / (24 * 60 * 60 * 1000),
+    });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "TrashAPI",
+      "GET",
+      "/api/trash",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          duration: Date.now() - requestStartTime,
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Trash fetch error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch trash" },
+      { status: 500 },
+    );
+  }
+});
+
+// DELETE /api/trash - Permanently delete everything in the user's trash
+export const DELETE = withAuth(async (request: NextRequest, session) => {
+  const requestStartTime = Date.now();
+
+  fileActivityLogger.logApiRequest("TrashAPI", "DELETE", "/api/trash", {
+    userId: session.user?.id,
+    details: {
+      userAgent: request.headers.get("user-agent"),
+      timestamp: new Date().toISOString(),
+    },
+  });
+
+  try {
+    const deletedCount = await emptyTrash(session.user.id);
+
+    fileActivityLogger.logApiResponse("TrashAPI", "DELETE", "/api/trash", 200, {
+      userId: session.user.id,
+      details: {
+        deletedCount,
+        duration: Date.now() - requestStartTime,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json({ success: true, deletedCount });
+  } catch (error) {
+    fileActivityLogger.logApiError(
+      "TrashAPI",
+      "DELETE",
+      "/api/trash",
+      error instanceof Error ? error : String(error),
+      {
+        userId: session.user?.id,
+        details: {
+          error: error instanceof Error ? error.message : String(error),
+          duration: Date.now() - requestStartTime,
+          timestamp: new Date().toISOString(),
+        },
+      },
+    );
+
+    console.error("Empty trash error:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to empty trash" },
+      { status: 500 },
+    );
+  }
+});
@@ -3,6 +3,7 @@
 import { useSession, signOut } from "../client";
 import { fileActivityLogger } from "@/utils/logging";
 import { useEffect } from "react";
+import StorageMeter from "@/components/StorageMeter";
 
 export default function UserProfile() {
   const { data: session, isPending: isLoading } = useSession();
@@ -233,6 +234,10 @@ export default function UserProfile() {
         </div>
       </div>
 
+      <div className="hidden md:block">
+        <StorageMeter variant="light" />
+      </div>
+
       <button
         onClick={handleSignOut}
         className="text-sm text-gray-600 hover:text-gray-900 px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 transition-colors"
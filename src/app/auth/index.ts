@@ -10,7 +10,13 @@ export { db } from "./db";
 export * from "./schema";
 
 // Middleware and server utilities
-export { authMiddleware, getServerSession, withAuth } from "./middleware";
+export {
+  authMiddleware,
+  getServerSession,
+  isAdminEmail,
+  withAdmin,
+  withAuth,
+} from "./middleware";
 
 // Components
 export { default as LoginForm } from "./components/LoginForm";
@@ -312,3 +312,41 @@ export function withAuth(
     }
   };
 }
+
+/**
+ * Admins are configured with ADMIN_EMAILS, a comma-separated list of account emails
+ */
+export function isAdminEmail(email: string | null | undefined): boolean {
+  if (!email) return false;
+  const adminEmails = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return adminEmails.includes(email.toLowerCase());
+}
+
+// Helper function for protecting admin-only API routes
+export function withAdmin(handler: Parameters<typeof withAuth>[0]) {
+  return withAuth(async (request, session) => {
+    if (!isAdminEmail(session.user?.email)) {
+      fileActivityLogger.logApiResponse(
+        "APIAuth",
+        request.method,
+        new URL(request.url).pathname,
+        403,
+        {
+          userId: session.user?.id,
+          details: {
+            error: "Forbidden",
+            reason: "not_admin",
+            timestamp: new Date().toISOString(),
+          },
+        },
+      );
+
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return handler(request, session);
+  });
+}
@@ -2,8 +2,13 @@ import {
   sqliteTable,
   text,
   integer,
+  real,
   primaryKey,
+  index,
+  uniqueIndex,
+  AnySQLiteColumn,
 } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
 
 export const user = sqliteTable("user", {
   id: text("id").primaryKey(),
@@ -57,6 +62,48 @@ export const verification = sqliteTable("verification", {
   updatedAt: integer("updatedAt", { mode: "timestamp" }),
 });
 
+// Content-addressed file data, shared by every files row with the same SHA-256
+export const blobs = sqliteTable("blobs", {
+  sha256: text("sha256").primaryKey(),
+  storageKey: text("storageKey").notNull(),
+  size: integer("size").notNull(),
+  refCount: integer("refCount").notNull().default(0),
+  // Envelope encryption: the AES-256-GCM data key wrapped with master key encryptionKeyId.
+  // Null for blobs stored before encryption at rest, which are served as plaintext.
+  encryptionKeyId: text("encryptionKeyId"),
+  wrappedKey: text("wrappedKey"),
+  iv: text("iv"),
+  authTag: text("authTag"),
+  createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+  updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+});
+
+// Folders nest under a parent folder, or sit at the top level of the user's files
+export const folders = sqliteTable(
+  "folders",
+  {
+    id: text("id").primaryKey(),
+    userId: text("userId")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    // Null for top-level folders
+    parentId: text("parentId").references((): AnySQLiteColumn => folders.id, {
+      onDelete: "cascade",
+    }),
+    name: text("name").notNull(),
+    createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    // Sibling folders have distinct names, ignoring case
+    parentName: uniqueIndex("folders_parent_name").on(
+      table.userId,
+      sql`coalesce(parentId, '')`,
+      sql`name COLLATE NOCASE`,
+    ),
+  }),
+);
+
 export const files = sqliteTable("files", {
   id: text("id").primaryKey(),
   filename: text("filename").notNull(),
@@ -70,10 +117,157 @@ export const files = sqliteTable("files", {
   }),
   url: text("url"),
   thumbnailUrl: text("thumbnailUrl"),
+  // Thumbnail of the current content, generated once it is scanned clean
+  thumbnailBlobHash: text("thumbnailBlobHash").references(() => blobs.sha256),
+  // Null for files uploaded before content-addressed storage, which are stored under filename
+  blobHash: text("blobHash").references(() => blobs.sha256),
+  // Set while the file is in the trash
+  deletedAt: integer("deletedAt", { mode: "timestamp" }),
+  // Version number of the content above; earlier versions live in fileVersions
+  currentVersion: integer("currentVersion").notNull().default(1),
+  // Virus scan of the content above. Only clean files can be downloaded or shared;
+  // infected files are quarantined until the owner deletes them.
+  scanStatus: text("scanStatus", {
+    enum: ["pending", "clean", "infected", "error", "unscanned"],
+  })
+    .notNull()
+    .default("pending"),
+  // Signature name when infected, error message when the scan failed
+  scanResult: text("scanResult"),
+  scannedAt: integer("scannedAt", { mode: "timestamp" }),
+  // JSON encoded ImageMetadata of the content above, for JPEG and PNG images
+  imageMetadata: text("imageMetadata"),
+  // Text recognized in the image above once it is scanned clean, and the mean
+  // confidence of its words from 0 to 100. ocrCompletedAt is null until then.
+  ocrText: text("ocrText"),
+  ocrConfidence: real("ocrConfidence"),
+  ocrCompletedAt: integer("ocrCompletedAt", { mode: "timestamp" }),
+  // Null for files at the top level, including files whose folder was deleted while they were in the trash
+  folderId: text("folderId").references(() => folders.id, { onDelete: "set null" }),
+  createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+  updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+});
+
+// Earlier contents of a file. Each row holds its own reference to its blob,
+// the current content stays on the files row.
+export const fileVersions = sqliteTable(
+  "fileVersions",
+  {
+    id: text("id").primaryKey(),
+    fileId: text("fileId")
+      .notNull()
+      .references(() => files.id, { onDelete: "cascade" }),
+    versionNumber: integer("versionNumber").notNull(),
+    filename: text("filename").notNull(),
+    originalName: text("originalName").notNull(),
+    fileSize: integer("fileSize").notNull(),
+    fileType: text("fileType").notNull(),
+    mimeType: text("mimeType").notNull(),
+    blobHash: text("blobHash").references(() => blobs.sha256),
+    uploadedBy: text("uploadedBy").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    // Scan status the content had when it was replaced
+    scanStatus: text("scanStatus", {
+      enum: ["pending", "clean", "infected", "error", "unscanned"],
+    })
+      .notNull()
+      .default("pending"),
+    // When that status was recorded, for retrying failed scans
+    scannedAt: integer("scannedAt", { mode: "timestamp" }),
+    // JSON encoded ImageMetadata
+    imageMetadata: text("imageMetadata"),
+    // When this version was uploaded
+    createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    fileVersionNumber: uniqueIndex("fileVersions_fileId_versionNumber").on(
+      table.fileId,
+      table.versionNumber,
+    ),
+  }),
+);
+
+// Labels a user puts on their own files. Names are unique per user, ignoring case.
+export const tags = sqliteTable(
+  "tags",
+  {
+    id: text("id").primaryKey(),
+    userId: text("userId")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    userName: uniqueIndex("tags_userId_name").on(
+      table.userId,
+      sql`${table.name} COLLATE NOCASE`,
+    ),
+  }),
+);
+
+export const fileTags = sqliteTable(
+  "fileTags",
+  {
+    fileId: text("fileId")
+      .notNull()
+      .references(() => files.id, { onDelete: "cascade" }),
+    tagId: text("tagId")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+    // Set while a tag applied by a rule waits for the user to accept or reject it
+    autoApplied: integer("autoApplied", { mode: "boolean" }).notNull().default(false),
+    // Rule that applied the tag: a tagRules ID, or the ID of a built-in rule
+    ruleId: text("ruleId"),
+    createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.fileId, table.tagId] }),
+    tagFiles: index("fileTags_tagId").on(table.tagId),
+  }),
+);
+
+// Automatic tagging rules a user defined; built-in rules are defined in code
+export const tagRules = sqliteTable("tagRules", {
+  id: text("id").primaryKey(),
+  userId: text("userId")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  // Tag applied to files matching the rule
+  tagId: text("tagId")
+    .notNull()
+    .references(() => tags.id, { onDelete: "cascade" }),
+  condition: text("condition", {
+    enum: ["mimeType", "filename", "exif", "csvHeader", "keyword"],
+  }).notNull(),
+  // EXIF field the pattern is matched against, for exif conditions
+  field: text("field"),
+  // Wildcard pattern, or the words to look for in keyword conditions
+  pattern: text("pattern").notNull(),
+  enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
   createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
   updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
 });
 
+// Tags a user rejected after a rule applied them, so rules don't apply them again
+export const autoTagRejections = sqliteTable(
+  "autoTagRejections",
+  {
+    fileId: text("fileId")
+      .notNull()
+      .references(() => files.id, { onDelete: "cascade" }),
+    tagId: text("tagId")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+    createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.fileId, table.tagId] }),
+  }),
+);
+
 export const sharedFiles = sqliteTable("sharedFiles", {
   id: text("id").primaryKey(),
   fileId: text("fileId")
@@ -87,6 +281,8 @@ export const sharedFiles = sqliteTable("sharedFiles", {
     .notNull()
     .default("both"),
   maxDownloads: integer("maxDownloads"),
+  // Null follows the current version, otherwise the share keeps serving this version
+  pinnedVersion: integer("pinnedVersion"),
   downloadCount: integer("downloadCount").notNull().default(0),
   viewCount: integer("viewCount").notNull().default(0),
   expiresAt: integer("expiresAt", { mode: "timestamp" }).notNull(),
@@ -107,6 +303,112 @@ export const shareAccessLog = sqliteTable("shareAccessLog", {
   accessedAt: integer("accessedAt", { mode: "timestamp" }).notNull(),
 });
 
+export const uploadSessions = sqliteTable("uploadSessions", {
+  id: text("id").primaryKey(),
+  userId: text("userId")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  originalName: text("originalName").notNull(),
+  mimeType: text("mimeType").notNull(),
+  uploadLength: integer("uploadLength").notNull(),
+  uploadOffset: integer("uploadOffset").notNull().default(0),
+  tempPath: text("tempPath").notNull(),
+  fileId: text("fileId").references(() => files.id, { onDelete: "set null" }),
+  // Folder the file is created in once the upload completes
+  folderId: text("folderId").references(() => folders.id, { onDelete: "set null" }),
+  expiresAt: integer("expiresAt", { mode: "timestamp" }).notNull(),
+  createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+  updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+});
+
+// Storage plan and usage counter per user. usedBytes counts each distinct blob a user
+// references once, across current and earlier versions, including files in the trash.
+export const storageUsage = sqliteTable("storageUsage", {
+  userId: text("userId")
+    .primaryKey()
+    .references(() => user.id, { onDelete: "cascade" }),
+  plan: text("plan", { enum: ["starter", "professional", "enterprise"] })
+    .notNull()
+    .default("starter"),
+  usedBytes: integer("usedBytes").notNull().default(0),
+  updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+});
+
+// Per-user preferences, created with the defaults below on first access
+export const userSettings = sqliteTable("userSettings", {
+  userId: text("userId")
+    .primaryKey()
+    .references(() => user.id, { onDelete: "cascade" }),
+  // Which EXIF data is removed from images shared by link: "location" removes GPS coordinates
+  exifStripping: text("exifStripping", { enum: ["none", "location", "all"] })
+    .notNull()
+    .default("location"),
+  // Also remove it from the stored copy when uploading, instead of only from shared copies
+  stripStoredExif: integer("stripStoredExif", { mode: "boolean" })
+    .notNull()
+    .default(false),
+  // Whether the built-in automatic tagging rules apply to the user's files
+  builtInTagRules: integer("builtInTagRules", { mode: "boolean" })
+    .notNull()
+    .default(true),
+  updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+});
+
+// In-app notifications, such as an upload being quarantined
+export const notifications = sqliteTable("notifications", {
+  id: text("id").primaryKey(),
+  userId: text("userId")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  type: text("type", { enum: ["file_infected"] }).notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  fileId: text("fileId").references(() => files.id, { onDelete: "set null" }),
+  readAt: integer("readAt", { mode: "timestamp" }),
+  createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+});
+
+export const storageReconciliationRuns = sqliteTable(
+  "storageReconciliationRuns",
+  {
+    id: text("id").primaryKey(),
+    trigger: text("trigger", { enum: ["scheduled", "manual"] }).notNull(),
+    triggeredBy: text("triggeredBy").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    dryRun: integer("dryRun", { mode: "boolean" }).notNull().default(false),
+    status: text("status", { enum: ["running", "completed", "failed"] })
+      .notNull()
+      .default("running"),
+    // JSON encoded ReconciliationSummary / ReconciliationReport
+    summary: text("summary"),
+    report: text("report"),
+    error: text("error"),
+    startedAt: integer("startedAt", { mode: "timestamp" }).notNull(),
+    finishedAt: integer("finishedAt", { mode: "timestamp" }),
+  },
+);
+
+// Searches a user ran, most recent first, offered again as suggestions
+export const searchHistory = sqliteTable(
+  "searchHistory",
+  {
+    userId: text("userId")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    query: text("query").notNull(),
+    searchCount: integer("searchCount").notNull().default(1),
+    lastSearchedAt: integer("lastSearchedAt", { mode: "timestamp" }).notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.userId, table.query] }),
+    userRecent: index("searchHistory_userId_lastSearchedAt").on(
+      table.userId,
+      table.lastSearchedAt,
+    ),
+  }),
+);
+
 export type User = typeof user.$inferSelect;
 export type NewUser = typeof user.$inferInsert;
 export type Session = typeof session.$inferSelect;
@@ -115,9 +417,35 @@ export type Account = typeof account.$inferSelect;
 export type NewAccount = typeof account.$inferInsert;
 export type Verification = typeof verification.$inferSelect;
 export type NewVerification = typeof verification.$inferInsert;
+export type Blob = typeof blobs.$inferSelect;
+export type NewBlob = typeof blobs.$inferInsert;
+export type Folder = typeof folders.$inferSelect;
+export type NewFolder = typeof folders.$inferInsert;
 export type File = typeof files.$inferSelect;
 export type NewFile = typeof files.$inferInsert;
+export type FileVersion = typeof fileVersions.$inferSelect;
+export type NewFileVersion = typeof fileVersions.$inferInsert;
+export type Tag = typeof tags.$inferSelect;
+export type NewTag = typeof tags.$inferInsert;
+export type FileTag = typeof fileTags.$inferSelect;
+export type NewFileTag = typeof fileTags.$inferInsert;
+export type TagRule = typeof tagRules.$inferSelect;
+export type NewTagRule = typeof tagRules.$inferInsert;
 export type SharedFile = typeof sharedFiles.$inferSelect;
 export type NewSharedFile = typeof sharedFiles.$inferInsert;
 export type ShareAccessLog = typeof shareAccessLog.$inferSelect;
 export type NewShareAccessLog = typeof shareAccessLog.$inferInsert;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type NewUploadSession = typeof uploadSessions.$inferInsert;
+export type StorageUsage = typeof storageUsage.$inferSelect;
+export type NewStorageUsage = typeof storageUsage.$inferInsert;
+export type UserSettings = typeof userSettings.$inferSelect;
+export type NewUserSettings = typeof userSettings.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
+export type StorageReconciliationRun =
+  typeof storageReconciliationRuns.$inferSelect;
+export type NewStorageReconciliationRun =
+  typeof storageReconciliationRuns.$inferInsert;
+export type SearchHistoryEntry = typeof searchHistory.$inferSelect;
+export type NewSearchHistoryEntry = typeof searchHistory.$inferInsert;
@@ -1,22 +1,77 @@
 "use client";
 
-import React, { useState, useEffect, Suspense } from "react";
+import React, { useState, useEffect, useCallback, Suspense } from "react";
 import FileList from "@/components/FileList";
 import FileDownload from "@/components/FileDownload";
 import Header from "@/components/Header";
 import SearchBar from "@/components/SearchBar";
-import { FileItem } from "@/types/file";
+import TagSidebar from "@/components/TagSidebar";
+import TagRules from "@/components/TagRules";
+import FolderBreadcrumbs from "@/components/FolderBreadcrumbs";
+import FolderGrid from "@/components/FolderGrid";
+import {
+  FileItem,
+  FileSortField,
+  FolderItem,
+  SortOrder,
+  TagItem,
+  TagSummary,
+} from "@/types/file";
+import { DraggedItems } from "@/utils/folderDrag";
+import { parseSearchQuery } from "@/utils/searchQuery";
+import { downloadAsZip } from "@/utils/zipDownloadClient";
 import { useSession } from "@/app/auth/client";
-import { useRouter, useSearchParams } from "next/navigation";
+import { ReadonlyURLSearchParams, useRouter, useSearchParams } from "next/navigation";
+
+// API URL for a page of the files the page's URL asks for
+function getFilesApiUrl(searchParams: ReadonlyURLSearchParams, cursor?: string): string {
+  const params = new URLSearchParams();
+  const tagFilter = searchParams.get("tag");
+  for (const name of ["search", "tag", "sort", "order"]) {
+    const value = searchParams.get(name);
+    if (value) params.set(name, value);
+  }
+  // Tag filters show tagged files from all folders; searches include subfolders
+  if (!tagFilter) params.set("folderId", searchParams.get("folder") || "root");
+  if (cursor) params.set("cursor", cursor);
+  // Days in date filters, such as "yesterday", are days where the user is
+  params.set("tzOffset", String(new Date().getTimezoneOffset()));
+  return `/api/files?${params.toString()}`;
+}
+
+// Whether a search has words to rank by, rather than only filters
+function hasSearchText(search: string | null): boolean {
+  try {
+    return !!search && !!parseSearchQuery(search).text;
+  } catch {
+    return false;
+  }
+}
+
+// Converts date strings of files from the API to Date objects
+function parseFileDates(files: (FileItem & { uploadDate: string | Date })[]): FileItem[] {
+  return files.map((file) => ({ ...file, uploadDate: new Date(file.uploadDate) }));
+}
 
 function FilesPageContent() {
   const [files, setFiles] = useState<FileItem[]>([]);
+  const [totalFiles, setTotalFiles] = useState<number | undefined>(undefined);
+  // Cursor of the next page, null once all files are loaded
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>("");
   const [selectedFile, setSelectedFile] = useState<FileItem | null>(null);
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  // Bumped to load the files again, e.g. after rules changed their tags
+  const [filesVersion, setFilesVersion] = useState(0);
+  // Folders inside the current folder, and the current folder with the folders above it
+  const [folders, setFolders] = useState<FolderItem[]>([]);
+  const [folderPath, setFolderPath] = useState<FolderItem[]>([]);
   const { data: session, isPending } = useSession();
   const router = useRouter();
   const searchParams = useSearchParams();
+  const currentFolderId = searchParams.get("folder");
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -25,54 +80,94 @@ function FilesPageContent() {
     }
   }, [session, isPending, router]);
 
+  const loadTags = useCallback(async (): Promise<TagSummary[] | null> => {
+    try {
+      const response = await fetch("/api/tags");
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setTags(data.tags);
+        return data.tags;
+      }
+    } catch (err) {
+      console.error("Error loading tags:", err);
+    }
+    return null;
+  }, []);
+
+  useEffect(() => {
+    if (session) {
+      loadTags();
+    }
+  }, [session, loadTags]);
+
+  const loadFolders = useCallback(async () => {
+    try {
+      const query = currentFolderId ? `?parentId=${encodeURIComponent(currentFolderId)}` : "";
+      const [foldersResponse, pathResponse] = await Promise.all([
+        fetch(`/api/folders${query}`),
+        currentFolderId ? fetch(`/api/folders/${currentFolderId}`) : null,
+      ]);
+      const foldersData = await foldersResponse.json();
+      if (foldersResponse.ok && foldersData.success) {
+        setFolders(foldersData.folders);
+      }
+
+      const pathData = pathResponse ? await pathResponse.json() : { success: true, path: [] };
+      if (pathData.success) {
+        setFolderPath(pathData.path);
+      }
+    } catch (err) {
+      console.error("Error loading folders:", err);
+    }
+  }, [currentFolderId]);
+
+  useEffect(() => {
+    if (session) {
+      loadFolders();
+    }
+  }, [session, loadFolders]);
+
   useEffect(() => {
     const loadFiles = async () => {
       if (!session) return;
 
       try {
         setLoading(true);
-        const searchQuery = searchParams.get("search");
-        const url = searchQuery ? `/api/files?search=${encodeURIComponent(searchQuery)}` : "/api/files";
-        const response = await fetch(url);
+        const response = await fetch(getFilesApiUrl(searchParams));
 
         if (!response.ok) {
           if (response.status === 401) {
             router.push("/login");
             return;
           }
-          throw new Error("Failed to fetch files");
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || "Failed to fetch files");
         }
 
         const data = await response.json();
-
-        // Handle different response formats and convert dates
-        let filesArray: FileItem[] = [];
-        if (Array.isArray(data)) {
-          filesArray = data;
-        } else if (data && Array.isArray(data.files)) {
-          filesArray = data.files;
-        } else if (data && data.success && Array.isArray(data.files)) {
-          filesArray = data.files;
-        } else {
+        if (!data || !data.success || !Array.isArray(data.files)) {
           throw new Error("Invalid response format from API");
         }
 
-        // Convert date strings to Date objects
-        const processedFiles = filesArray.map(
-          (file: FileItem & { uploadDate: string | Date }) => ({
-            ...file,
-            uploadDate: new Date(file.uploadDate),
-          }),
-        );
-
+        const processedFiles = parseFileDates(data.files);
         setFiles(processedFiles);
+        setTotalFiles(data.total);
+        setNextCursor(data.nextCursor ?? null);
+        setError("");
 
-        // Check if we should auto-select a file based on URL parameter
+        // Check if we should auto-select a file based on URL parameter.
+        // It may be in another folder or on a later page, so it is fetched if not loaded.
         const fileId = searchParams.get("fileId");
         if (fileId) {
           const fileToSelect = processedFiles.find((f) => f.id === fileId);
           if (fileToSelect) {
             setSelectedFile(fileToSelect);
+          } else {
+            const fileResponse = await fetch(`/api/files/${fileId}`);
+            const fileData = await fileResponse.json();
+            if (fileResponse.ok && fileData.success) {
+              setSelectedFile(parseFileDates([fileData.file])[0]);
+            }
           }
         }
       } catch (err) {
@@ -86,7 +181,7 @@ function FilesPageContent() {
     if (session) {
       loadFiles();
     }
-  }, [session, router, searchParams]);
+  }, [session, router, searchParams, filesVersion]);
 
   // Show loading while checking authentication
   if (isPending) {
@@ -131,58 +226,29 @@ function FilesPageContent() {
     }
   };
 
-  const handleBatchDownload = async (fileIds: string[]) => {
-    try {
-      // Get download URLs from the API
-      const response = await fetch("/api/files/download", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ fileIds }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to prepare downloads");
-      }
-
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.error || "Failed to prepare downloads");
-      }
-
-      // Download each file individually
-      for (const file of data.files) {
-        // Create a temporary link and trigger download
-        const link = document.createElement("a");
-        link.href = file.downloadUrl;
-        link.download = file.filename;
-        link.style.display = "none";
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-
-        // Small delay between downloads to avoid overwhelming the browser
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
-    } catch (error) {
-      console.error("Batch download error:", error);
-      alert(
-        error instanceof Error ? error.message : "Failed to download files",
-      );
+  // Several files download as one ZIP, streamed by the browser straight to disk
+  const handleBatchDownload = (fileIds: string[]) => {
+    const file = files.find((item) => item.id === fileIds[0]);
+    if (fileIds.length === 1 && file) {
+      handleFileDownload(file);
+      return;
     }
+    downloadAsZip({ fileIds }, (message) => alert(message));
+  };
+
+  const handleFolderDownload = (folder: FolderItem) => {
+    downloadAsZip({ folderId: folder.id }, (message) => alert(message));
   };
 
   const handleFileDelete = async (fileId: string) => {
-    if (confirm("Are you sure you want to delete this file?")) {
+    if (confirm("Move this file to the trash? You can restore it from the Trash page.")) {
       try {
         const response = await fetch(`/api/files/${fileId}`, {
           method: "DELETE",
         });
 
         if (!response.ok) {
-          throw new Error("Failed to delete file");
+          throw new Error("Failed to move file to trash");
         }
 
         const data = await response.json();
@@ -197,6 +263,238 @@ function FilesPageContent() {
     }
   };
 
+  const handleFileUpdate = (updatedFile: FileItem) => {
+    setSelectedFile(updatedFile);
+    setFiles((prev) =>
+      prev.map((f) => (f.id === updatedFile.id ? updatedFile : f)),
+    );
+  };
+
+  const handleFileTagsChange = (fileId: string, fileTags: TagItem[]) => {
+    setFiles((prev) =>
+      prev.map((f) => (f.id === fileId ? { ...f, tags: fileTags } : f)),
+    );
+    loadTags();
+  };
+
+  const handleSelectedFileUpdate = (updatedFile: FileItem) => {
+    handleFileUpdate(updatedFile);
+    // Tags may have been added or removed, which changes the counts
+    loadTags();
+  };
+
+  const handleBatchTag = async (fileIds: string[], tagId: string) => {
+    try {
+      const response = await fetch(`/api/tags/${tagId}/files`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fileIds }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to tag files");
+      }
+
+      const tag = tags.find((t) => t.id === tagId);
+      if (tag) {
+        setFiles((prev) =>
+          prev.map((f) =>
+            fileIds.includes(f.id) && !f.tags?.some((t) => t.id === tagId)
+              ? {
+                  ...f,
+                  tags: [...(f.tags ?? []), { id: tag.id, name: tag.name }].sort((a, b) =>
+                    a.name.localeCompare(b.name),
+                  ),
+                }
+              : f,
+          ),
+        );
+      }
+      loadTags();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to tag files");
+    }
+  };
+
+  // After tags were renamed or deleted, show the new names on the loaded files
+  const handleTagsChange = async () => {
+    const updatedTags = await loadTags();
+    if (!updatedTags) return;
+
+    const tagsById = new Map(updatedTags.map((tag) => [tag.id, tag]));
+    const syncTags = (file: FileItem): FileItem => ({
+      ...file,
+      tags: file.tags?.flatMap((tag) => {
+        const updated = tagsById.get(tag.id);
+        return updated ? [{ ...tag, name: updated.name }] : [];
+      }),
+    });
+    setFiles((prev) => prev.map(syncTags));
+  };
+
+  const handleRulesRun = () => {
+    setFilesVersion((version) => version + 1);
+    loadTags();
+  };
+
+  const handleFolderNavigate = (folderId: string | null) => {
+    const newUrl = new URL(window.location.href);
+    newUrl.searchParams.delete("fileId");
+    newUrl.searchParams.delete("search");
+    if (folderId) {
+      newUrl.searchParams.set("folder", folderId);
+    } else {
+      newUrl.searchParams.delete("folder");
+    }
+    router.push(newUrl.pathname + newUrl.search);
+  };
+
+  const sendFolderRequest = async (url: string, init: RequestInit, fallbackError: string) => {
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || fallbackError);
+      }
+      return true;
+    } catch (err) {
+      alert(err instanceof Error ? err.message : fallbackError);
+      return false;
+    }
+  };
+
+  const handleCreateFolder = async (name: string) => {
+    const created = await sendFolderRequest(
+      "/api/folders",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, parentId: currentFolderId }),
+      },
+      "Failed to create folder",
+    );
+    if (created) loadFolders();
+    return created;
+  };
+
+  const handleRenameFolder = async (folder: FolderItem, name: string) => {
+    const renamed = await sendFolderRequest(
+      `/api/folders/${folder.id}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      },
+      "Failed to rename folder",
+    );
+    if (renamed) loadFolders();
+    return renamed;
+  };
+
+  const handleDeleteFolder = async (folder: FolderItem) => {
+    try {
+      let response = await fetch(`/api/folders/${folder.id}`, { method: "DELETE" });
+      let data = await response.json();
+
+      // Folders with content are only deleted once the user confirms
+      if (response.status === 409) {
+        const confirmed = confirm(
+          `Delete the folder "${folder.name}"? Its ${data.folderCount} subfolders will be deleted ` +
+            `and its ${data.fileCount} files moved to the trash.`,
+        );
+        if (!confirmed) return;
+
+        response = await fetch(`/api/folders/${folder.id}?recursive=true`, { method: "DELETE" });
+        data = await response.json();
+      }
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to delete folder");
+      }
+      loadFolders();
+      loadTags();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to delete folder");
+    }
+  };
+
+  // Files and folders dragged onto a folder, or onto a breadcrumb (null for the top level)
+  const handleMoveItems = async (folderId: string | null, items: DraggedItems) => {
+    if (items.fileIds.length > 0) {
+      await sendFolderRequest(
+        "/api/files/move",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ fileIds: items.fileIds, folderId }),
+        },
+        "Failed to move files",
+      );
+    }
+    for (const id of items.folderIds) {
+      await sendFolderRequest(
+        `/api/folders/${id}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ parentId: folderId }),
+        },
+        "Failed to move folder",
+      );
+    }
+    setFilesVersion((version) => version + 1);
+    loadFolders();
+  };
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    try {
+      setLoadingMore(true);
+      const response = await fetch(getFilesApiUrl(searchParams, nextCursor));
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to fetch files");
+      }
+
+      const loadedIds = new Set(files.map((file) => file.id));
+      setFiles((prev) => [
+        ...prev,
+        ...parseFileDates(data.files).filter((file) => !loadedIds.has(file.id)),
+      ]);
+      setTotalFiles(data.total);
+      setNextCursor(data.nextCursor ?? null);
+    } catch (err) {
+      console.error("Error loading more files:", err);
+      alert(err instanceof Error ? err.message : "Failed to fetch files");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Sorting is done by the server, so the sort is kept in the URL like the search
+  const handleSortChange = (field: FileSortField, order: SortOrder) => {
+    const newUrl = new URL(window.location.href);
+    newUrl.searchParams.delete("fileId");
+    newUrl.searchParams.set("sort", field);
+    newUrl.searchParams.set("order", order);
+    router.push(newUrl.pathname + newUrl.search);
+  };
+
+  const handleTagSelect = (tagName: string | null) => {
+    const newUrl = new URL(window.location.href);
+    newUrl.searchParams.delete("fileId");
+    if (tagName) {
+      newUrl.searchParams.set("tag", tagName);
+    } else {
+      newUrl.searchParams.delete("tag");
+    }
+    router.push(newUrl.pathname + newUrl.search);
+  };
+
+  // Uploads started from a folder go into it
+  const uploadHref = currentFolderId ? `/upload?folder=${currentFolderId}` : "/upload";
+
   const handleBackToList = () => {
     setSelectedFile(null);
     // Remove fileId parameter from URL
@@ -223,6 +521,8 @@ function FilesPageContent() {
             file={selectedFile}
             onDownload={handleFileDownload}
             onBack={handleBackToList}
+            onFileUpdate={handleSelectedFileUpdate}
+            availableTags={tags}
           />
         </div>
       </div>
@@ -238,31 +538,77 @@ function FilesPageContent() {
       <div className="absolute bottom-20 right-10 w-24 h-24 bg-purple-500/20 rounded-full blur-2xl animate-pulse delay-1000"></div>
 
       {/* Header */}
-      <Header currentPage="Files" showUploadButton={true} />
+      <Header currentPage="Files" showUploadButton={true} uploadHref={uploadHref} />
 
       {/* Main Content */}
       <div className="py-8 relative z-10">
         {/* Search Bar */}
         <div className="max-w-6xl mx-auto px-6 mb-6">
-          <SearchBar placeholder="Search by filename..." className="max-w-md mx-auto" />
+          <SearchBar placeholder="Search, e.g. budget type:text size:>1mb" className="max-w-md mx-auto" />
         </div>
         
-        <FileList
-          files={files}
-          loading={loading}
-          error={error}
-          onFileSelect={handleFileSelect}
-          onFileDelete={handleFileDelete}
-          onFileDownload={handleFileDownload}
-          onBatchDownload={handleBatchDownload}
-        />
+        <div className="max-w-7xl mx-auto px-6 flex flex-col lg:flex-row lg:items-start gap-6">
+          <div className="lg:w-60 lg:flex-shrink-0 lg:mt-6 space-y-6">
+            <TagSidebar
+              tags={tags}
+              activeTag={searchParams.get("tag")}
+              onSelect={handleTagSelect}
+              onTagsChange={handleTagsChange}
+            />
+            <TagRules onRulesRun={handleRulesRun} />
+          </div>
+          <div className="flex-1 min-w-0">
+            {!searchParams.get("tag") && (
+              <div className="max-w-6xl mx-auto px-6 pt-6 space-y-4">
+                <FolderBreadcrumbs
+                  path={folderPath}
+                  onNavigate={handleFolderNavigate}
+                  onDrop={handleMoveItems}
+                />
+                {!searchParams.get("search") && (
+                  <FolderGrid
+                    folders={folders}
+                    onOpen={(folder) => handleFolderNavigate(folder.id)}
+                    onCreate={handleCreateFolder}
+                    onRename={handleRenameFolder}
+                    onDelete={handleDeleteFolder}
+                    onDownload={handleFolderDownload}
+                    onDrop={handleMoveItems}
+                  />
+                )}
+              </div>
+            )}
+            <FileList
+              files={files}
+              loading={loading}
+              error={error}
+              onFileSelect={handleFileSelect}
+              onFileDelete={handleFileDelete}
+              onFileDownload={handleFileDownload}
+              onBatchDownload={handleBatchDownload}
+              isSearchResult={hasSearchText(searchParams.get("search"))}
+              availableTags={tags}
+              onFileTagsChange={handleFileTagsChange}
+              onBatchTag={handleBatchTag}
+              draggable={!searchParams.get("tag")}
+              emptyMessage={currentFolderId ? "This folder has no files" : undefined}
+              uploadHref={uploadHref}
+              sortBy={(searchParams.get("sort") as FileSortField) || undefined}
+              sortOrder={(searchParams.get("order") as SortOrder) || undefined}
+              onSortChange={handleSortChange}
+              total={totalFiles}
+              onLoadMore={nextCursor ? handleLoadMore : undefined}
+              loadingMore={loadingMore}
+            />
+          </div>
+        </div>
       </div>
 
       {/* Quick Actions Footer */}
       {!loading && files.length > 0 && (
         <div className="fixed bottom-6 right-6 z-20">
           <a
-            href="/upload"
+            href={uploadHref}
             className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-6 py-3 rounded-full shadow-2xl transition-all duration-300 transform hover:scale-105 font-medium inline-flex items-center backdrop-blur-sm"
           >
             <svg
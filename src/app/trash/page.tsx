@@ -0,0 +1,233 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Header from "@/components/Header";
+import { FileItem } from "@/types/file";
+import { useRouter } from "next/navigation";
+import { useSession } from "@/app/auth/client";
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+const daysUntil = (date: Date) =>
+  Math.max(0, Math.ceil((date.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+export default function TrashPage() {
+  const [files, setFiles] = useState<FileItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [busyFileId, setBusyFileId] = useState<string | null>(null);
+  const { data: session, isPending } = useSession();
+  const router = useRouter();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isPending && !session) {
+      router.push("/login");
+    }
+  }, [session, isPending, router]);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/trash");
+      if (!response.ok) {
+        if (response.status === 401) {
+          router.push("/login");
+          return;
+        }
+        throw new Error("Failed to load trash");
+      }
+
+      const data = await response.json();
+      setFiles(
+        data.files.map(
+          (file: FileItem & { deletedAt: string; purgeAt: string }) => ({
+            ...file,
+            uploadDate: new Date(file.uploadDate),
+            deletedAt: new Date(file.deletedAt),
+            purgeAt: new Date(file.purgeAt),
+          }),
+        ),
+      );
+      setRetentionDays(data.retentionDays);
+      setError("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load trash");
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    if (session) loadTrash();
+  }, [session, loadTrash]);
+
+  const handleRestore = async (fileId: string) => {
+    setBusyFileId(fileId);
+    try {
+      const response = await fetch(`/api/trash/${fileId}/restore`, {
+        method: "POST",
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to restore file");
+      }
+      setFiles((prev) => prev.filter((f) => f.id !== fileId));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to restore file");
+    } finally {
+      setBusyFileId(null);
+    }
+  };
+
+  const handlePermanentDelete = async (fileId: string) => {
+    if (!confirm("Permanently delete this file? This cannot be undone.")) {
+      return;
+    }
+
+    setBusyFileId(fileId);
+    try {
+      const response = await fetch(`/api/trash/${fileId}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to delete file");
+      }
+      setFiles((prev) => prev.filter((f) => f.id !== fileId));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to delete file");
+    } finally {
+      setBusyFileId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (
+      !confirm(
+        `Permanently delete all ${files.length} files in the trash? This cannot be undone.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/trash", { method: "DELETE" });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to empty trash");
+      }
+      await loadTrash();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to empty trash");
+    }
+  };
+
+  if (isPending) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
+      {/* Background decorative elements */}
+      <div className="absolute inset-0 bg-gradient-to-r from-blue-500/10 to-purple-600/10 blur-3xl"></div>
+
+      {/* Header */}
+      <Header currentPage="Trash" showUploadButton={false} />
+
+      <div className="max-w-6xl mx-auto p-6 relative z-10">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-white">Trash</h1>
+            {retentionDays !== null && (
+              <p className="text-sm text-gray-300">
+                Files are permanently deleted {retentionDays} days after being
+                moved to the trash. Shared links stop working until a file is
+                restored.
+              </p>
+            )}
+          </div>
+          {files.length > 0 && (
+            <button
+              onClick={handleEmptyTrash}
+              className="bg-red-800/50 text-red-200 px-4 py-2 rounded-lg hover:bg-red-700/50 transition-colors font-medium"
+            >
+              Empty trash
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-900/50 backdrop-blur-sm border border-red-500/50 rounded-lg p-4 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+          </div>
+        ) : files.length === 0 ? (
+          <div className="bg-white/10 backdrop-blur-sm rounded-lg border border-white/20 p-12 text-center">
+            <p className="text-gray-300">The trash is empty.</p>
+          </div>
+        ) : (
+          <div className="bg-white/10 backdrop-blur-sm rounded-lg border border-white/20 divide-y divide-white/10">
+            {files.map((file) => (
+              <div
+                key={file.id}
+                className="flex items-center justify-between p-4"
+              >
+                <div>
+                  <p className="text-sm font-medium text-white">
+                    {file.originalName}
+                  </p>
+                  <p className="text-xs text-gray-300">
+                    {formatFileSize(file.fileSize)} • Deleted{" "}
+                    {file.deletedAt?.toLocaleDateString()} •{" "}
+                    {file.purgeAt &&
+                      `Permanently deleted in ${daysUntil(file.purgeAt)} days`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => handleRestore(file.id)}
+                    disabled={busyFileId === file.id}
+                    className="text-sm bg-white/10 border border-white/20 text-white px-3 py-1 rounded hover:bg-white/20 transition-colors disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handlePermanentDelete(file.id)}
+                    disabled={busyFileId === file.id}
+                    className="text-sm bg-red-800/50 text-red-200 px-3 py-1 rounded hover:bg-red-700/50 transition-colors disabled:opacity-50"
+                  >
+                    Delete forever
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,22 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { Suspense, useEffect, useState } from "react";
 import FileUpload from "@/components/FileUpload";
 import Header from "@/components/Header";
-import { FileItem } from "@/types/file";
-import { useRouter } from "next/navigation";
+import PhotoPrivacySettings from "@/components/PhotoPrivacySettings";
+import { FileItem, FolderItem } from "@/types/file";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useSession } from "../auth/client";
 import Link from "next/link";
 
-export default function UploadPage() {
+function UploadPageContent() {
   const [uploadedFiles, setUploadedFiles] = useState<FileItem[]>([]);
   const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  // The folder files are uploaded into, with the folders above it
+  const [folderPath, setFolderPath] = useState<FolderItem[]>([]);
   const { data: session, isPending } = useSession();
   const router = useRouter();
+  const folderId = useSearchParams().get("folder");
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -21,6 +25,26 @@ export default function UploadPage() {
     }
   }, [session, isPending, router]);
 
+  useEffect(() => {
+    if (!session || !folderId) {
+      setFolderPath([]);
+      return;
+    }
+
+    const loadFolderPath = async () => {
+      try {
+        const response = await fetch(`/api/folders/${folderId}`);
+        const data = await response.json();
+        if (response.ok && data.success) {
+          setFolderPath(data.path);
+        }
+      } catch (err) {
+        console.error("Error loading folder:", err);
+      }
+    };
+    loadFolderPath();
+  }, [session, folderId]);
+
   // Show loading while checking authentication
   if (isPending) {
     return (
@@ -50,6 +74,8 @@ export default function UploadPage() {
     setUploadErrors([]);
   };
 
+  const filesHref = folderId ? `/files?folder=${folderId}` : "/files";
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
       {/* Background decorative elements */}
@@ -61,11 +87,22 @@ export default function UploadPage() {
 
       {/* Main Content */}
       <div className="py-8 relative z-10">
+        {folderId && (
+          <div className="max-w-4xl mx-auto px-6 text-sm text-gray-300">
+            Uploading to{" "}
+            <Link href={filesHref} className="text-blue-300 hover:text-blue-200 font-medium">
+              {folderPath.map((folder) => folder.name).join(" / ") || "folder"}
+            </Link>
+          </div>
+        )}
         <FileUpload
           onUploadComplete={handleUploadComplete}
           onUploadError={handleUploadError}
+          folderId={folderId ?? undefined}
         />
 
+        <PhotoPrivacySettings />
+
         {/* Upload Errors */}
         {uploadErrors.length > 0 && (
           <div className="max-w-4xl mx-auto p-6">
@@ -166,7 +203,7 @@ export default function UploadPage() {
                       in this session
                     </p>
                     <Link
-                      href="/files"
+                      href={filesHref}
                       className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-4 py-2 rounded-lg transition-all duration-300 transform hover:scale-105 font-medium"
                     >
                       View All Files
@@ -181,3 +218,20 @@ export default function UploadPage() {
     </div>
   );
 }
+
+export default function UploadPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+            <p className="mt-2 text-gray-300">Loading...</p>
+          </div>
+        </div>
+      }
+    >
+      <UploadPageContent />
+    </Suspense>
+  );
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { promises as fs } from "fs";
 import path from "path";
-import { UPLOAD_DIR } from "@/utils/fileUtils";
+import { StorageObjectNotFoundError, toWebStream } from "@/utils/storage";
+import { openFileContent } from "@/utils/blobStore";
 import { withAuth } from "@/app/auth/middleware";
 import { db } from "@/app/auth/db";
 import { files } from "@/app/auth/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNull } from "drizzle-orm";
+import { getScanBlock } from "@/utils/virusScanner";
+import { getUserContentHeaders } from "@/utils/contentHeaders";
 
 // GET /uploads/[filename] - Serve uploaded files
 export async function GET(
@@ -30,57 +32,43 @@ export async function GET(
     const [fileRecord] = await db
       .select()
       .from(files)
-      .where(and(eq(files.filename, sanitizedFilename), eq(files.uploadedBy, session.user.id)))
+      .where(
+        and(
+          eq(files.filename, sanitizedFilename),
+          eq(files.uploadedBy, session.user.id),
+          isNull(files.deletedAt),
+        ),
+      )
       .limit(1);
 
     if (!fileRecord) {
       return new NextResponse("File not found or access denied", { status: 404 });
     }
 
-    const filePath = path.join(UPLOAD_DIR, sanitizedFilename);
-
-    // Check if file exists
-    try {
-      await fs.access(filePath);
-    } catch {
-      return new NextResponse("File not found", { status: 404 });
+    const scanBlock = getScanBlock(fileRecord.scanStatus);
+    if (scanBlock) {
+      return new NextResponse(scanBlock.error, { status: scanBlock.status });
     }
 
-    // Read the file
-    const fileBuffer = await fs.readFile(filePath);
-
-    // Determine content type based on file extension
-    const ext = path.extname(filename).toLowerCase();
-    let contentType = "application/octet-stream";
-
-    const mimeTypes: Record<string, string> = {
-      ".jpg": "image/jpeg",
-      ".jpeg": "image/jpeg",
-      ".png": "image/png",
-      ".gif": "image/gif",
-      ".webp": "image/webp",
-      ".pdf": "application/pdf",
-      ".txt": "text/plain",
-      ".doc": "application/msword",
-      ".docx":
-        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-      ".xls": "application/vnd.ms-excel",
-      ".xlsx":
-        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-    };
-
-    if (mimeTypes[ext]) {
-      contentType = mimeTypes[ext];
+    // Stream the file's content from storage
+    let content;
+    try {
+      content = await openFileContent(fileRecord);
+    } catch (error) {
+      if (error instanceof StorageObjectNotFoundError) {
+        return new NextResponse("File not found", { status: 404 });
+      }
+      throw error;
     }
 
     // Create response with appropriate headers
-    const response = new NextResponse(fileBuffer, {
+    const response = new NextResponse(toWebStream(content.stream), {
       status: 200,
       headers: {
-        "Content-Type": contentType,
-        "Content-Length": fileBuffer.length.toString(),
+        // The stored type was detected from the content at upload, unlike the extension
+        ...getUserContentHeaders(fileRecord.mimeType, sanitizedFilename, "inline"),
+        "Content-Length": content.size.toString(),
         "Cache-Control": "public, max-age=31536000", // Cache for 1 year
-        "Content-Disposition": `inline; filename="${sanitizedFilename}"`,
       },
     });
 
@@ -1,27 +1,49 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from "react";
-import { FileItem } from "@/types/file";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import Image from "next/image";
+import {
+  AVAILABLE_SCAN_STATUSES,
+  FileItem,
+  FileVersionItem,
+  TagItem,
+} from "@/types/file";
 import { fileActivityLogger } from "@/utils/logging";
+import TagChips from "@/components/TagChips";
 
 interface FileDownloadProps {
   file: FileItem;
   onDownload?: (file: FileItem) => void;
   onBack?: () => void;
+  onFileUpdate?: (file: FileItem) => void;
+  // The user's tags, suggested when tagging the file
+  availableTags?: TagItem[];
 }
 
 export default function FileDownload({
   file,
   onDownload,
   onBack,
+  onFileUpdate,
+  availableTags,
 }: FileDownloadProps) {
   const [previewUrl, setPreviewUrl] = useState<string>("");
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
   const [previewError, setPreviewError] = useState<string>("");
   const [textContent, setTextContent] = useState<string>("");
+  const [versions, setVersions] = useState<FileVersionItem[]>([]);
+  const [isVersionsLoading, setIsVersionsLoading] = useState(false);
+  const [versionError, setVersionError] = useState<string>("");
+  const [isVersionBusy, setIsVersionBusy] = useState(false);
+  const [isOcrTextCopied, setIsOcrTextCopied] = useState(false);
+  const versionInputRef = useRef<HTMLInputElement>(null);
 
   const COMPONENT_NAME = "FileDownload";
 
+  // Files uploaded before scanning existed have no status and are treated as clean
+  const isScanBlocked =
+    !!file.scanStatus && !AVAILABLE_SCAN_STATUSES.includes(file.scanStatus);
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return "0 Bytes";
     const k = 1024;
@@ -131,6 +153,8 @@ export default function FileDownload({
   };
 
   const loadPreview = useCallback(async () => {
+    if (isScanBlocked) return;
+
     if (!canPreview(file.mimeType)) {
       fileActivityLogger.logFilePreview(COMPONENT_NAME, file, "not-supported");
       return;
@@ -181,14 +205,128 @@ export default function FileDownload({
     } finally {
       setIsPreviewLoading(false);
     }
-  }, [file, canPreview]);
+  }, [file, canPreview, isScanBlocked]);
 
   useEffect(() => {
     fileActivityLogger.logFileSelect(COMPONENT_NAME, file);
     loadPreview();
   }, [file, loadPreview]);
 
+  const loadVersions = useCallback(async () => {
+    setIsVersionsLoading(true);
+    setVersionError("");
+
+    try {
+      const response = await fetch(`/api/files/${file.id}/versions`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to load version history");
+      }
+
+      setVersions(data.versions);
+    } catch (error) {
+      console.error("Version history error:", error);
+      setVersionError(
+        error instanceof Error ? error.message : "Failed to load version history",
+      );
+    } finally {
+      setIsVersionsLoading(false);
+    }
+  }, [file.id]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [file.version, loadVersions]);
+
+  // Version uploads and restores both return the updated file record
+  const applyVersionChange = async (response: Response) => {
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || "Failed to update file");
+    }
+
+    onFileUpdate?.({
+      ...data.file,
+      uploadDate: new Date(data.file.uploadDate),
+      // Tags stay with the file across versions
+      tags: file.tags,
+    });
+    await loadVersions();
+  };
+
+  const handleCopyOcrText = async () => {
+    if (!file.ocrText) return;
+    try {
+      await navigator.clipboard.writeText(file.ocrText);
+      setIsOcrTextCopied(true);
+      setTimeout(() => setIsOcrTextCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy text:", error);
+    }
+  };
+
+  const handleVersionUpload = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+
+    setIsVersionBusy(true);
+    setVersionError("");
+
+    try {
+      const formData = new FormData();
+      formData.append("file", selected);
+
+      const response = await fetch(`/api/files/${file.id}/versions`, {
+        method: "POST",
+        body: formData,
+      });
+      await applyVersionChange(response);
+    } catch (error) {
+      console.error("Version upload error:", error);
+      setVersionError(
+        error instanceof Error ? error.message : "Failed to upload new version",
+      );
+    } finally {
+      setIsVersionBusy(false);
+    }
+  };
+
+  const handleVersionRestore = async (versionNumber: number) => {
+    if (
+      !confirm(
+        `Restore version ${versionNumber}? It will be added as a new version and the current content stays in the history.`,
+      )
+    ) {
+      return;
+    }
+
+    setIsVersionBusy(true);
+    setVersionError("");
+
+    try {
+      const response = await fetch(
+        `/api/files/${file.id}/versions/${versionNumber}/restore`,
+        { method: "POST" },
+      );
+      await applyVersionChange(response);
+    } catch (error) {
+      console.error("Version restore error:", error);
+      setVersionError(
+        error instanceof Error ? error.message : "Failed to restore version",
+      );
+    } finally {
+      setIsVersionBusy(false);
+    }
+  };
+
   const handleDownload = () => {
+    if (isScanBlocked) return;
+
     fileActivityLogger.logFileDownload(COMPONENT_NAME, file);
 
     const downloadStartTime = Date.now();
@@ -257,7 +395,21 @@ export default function FileDownload({
                   </svg>
                 </button>
               )}
-              <div className="flex-shrink-0">{getFileIcon(file.mimeType)}</div>
+              <div className="flex-shrink-0">
+                {file.thumbnailUrl && !isScanBlocked ? (
+                  // Unoptimized, so the browser fetches the thumbnail route itself, with the session cookie
+                  <Image
+                    src={file.thumbnailUrl}
+                    alt=""
+                    width={64}
+                    height={64}
+                    unoptimized
+                    className="w-16 h-16 rounded object-cover bg-white/5"
+                  />
+                ) : (
+                  getFileIcon(file.mimeType)
+                )}
+              </div>
               <div className="flex-1 min-w-0">
                 <h1
                   className="text-2xl font-semibold text-white truncate"
@@ -284,7 +436,8 @@ export default function FileDownload({
             <div className="flex items-center space-x-2 flex-shrink-0">
               <button
                 onClick={handleDownload}
-                className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-4 py-2 rounded-lg transition-all duration-300 transform hover:scale-105 font-medium inline-flex items-center"
+                disabled={isScanBlocked}
+                className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-4 py-2 rounded-lg transition-all duration-300 transform hover:scale-105 font-medium inline-flex items-center disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
               >
                 <svg
                   className="w-4 h-4 mr-2"
@@ -307,7 +460,33 @@ export default function FileDownload({
 
         {/* Preview Section */}
         <div className="p-6">
-          {canPreview(file.mimeType) ? (
+          {isScanBlocked ? (
+            file.scanStatus === "infected" ? (
+              <div className="bg-red-900/50 backdrop-blur-sm border border-red-500/50 rounded-lg p-4">
+                <h3 className="text-sm font-medium text-red-200">
+                  File quarantined
+                </h3>
+                <p className="text-sm text-red-300 mt-1">
+                  A virus was detected in this file
+                  {file.scanResult ? ` (${file.scanResult})` : ""}. It can no
+                  longer be previewed, downloaded or shared.
+                </p>
+              </div>
+            ) : (
+              <div className="bg-yellow-900/40 backdrop-blur-sm border border-yellow-500/50 rounded-lg p-4">
+                <h3 className="text-sm font-medium text-yellow-200">
+                  {file.scanStatus === "unscanned"
+                    ? "Not scanned for viruses"
+                    : "Virus scan in progress"}
+                </h3>
+                <p className="text-sm text-yellow-300 mt-1">
+                  {file.scanStatus === "unscanned"
+                    ? "This file was stored without a virus scan, and becomes available once it has been scanned."
+                    : "This file becomes available once it has been scanned. Refresh the page in a moment to check again."}
+                </p>
+              </div>
+            )
+          ) : canPreview(file.mimeType) ? (
             <div>
               <h2 className="text-lg font-medium text-white mb-4">Preview</h2>
 
@@ -466,8 +645,202 @@ export default function FileDownload({
               <dt className="font-medium text-gray-300">File ID</dt>
               <dd className="text-white font-mono text-xs">{file.id}</dd>
             </div>
+            {file.version && (
+              <div>
+                <dt className="font-medium text-gray-300">Version</dt>
+                <dd className="text-white">{file.version}</dd>
+              </div>
+            )}
+            <div className="sm:col-span-2 lg:col-span-4">
+              <dt className="font-medium text-gray-300 mb-1">Tags</dt>
+              <dd>
+                <TagChips
+                  fileId={file.id}
+                  tags={file.tags}
+                  availableTags={availableTags}
+                  onChange={(tags) => onFileUpdate?.({ ...file, tags })}
+                />
+              </dd>
+            </div>
           </dl>
         </div>
+
+        {/* Photo Details */}
+        {file.imageMetadata && (
+          <div className="px-6 py-4 bg-white/5 border-t border-white/20">
+            <h3 className="text-sm font-medium text-white mb-3">Photo Details</h3>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+              <div>
+                <dt className="font-medium text-gray-300">Dimensions</dt>
+                <dd className="text-white">
+                  {file.imageMetadata.width} × {file.imageMetadata.height}
+                </dd>
+              </div>
+              {(file.imageMetadata.cameraMake || file.imageMetadata.cameraModel) && (
+                <div>
+                  <dt className="font-medium text-gray-300">Camera</dt>
+                  <dd className="text-white">
+                    {[file.imageMetadata.cameraMake, file.imageMetadata.cameraModel]
+                      .filter(Boolean)
+                      .join(" ")}
+                  </dd>
+                </div>
+              )}
+              {file.imageMetadata.lensModel && (
+                <div>
+                  <dt className="font-medium text-gray-300">Lens</dt>
+                  <dd className="text-white">{file.imageMetadata.lensModel}</dd>
+                </div>
+              )}
+              {file.imageMetadata.takenAt && (
+                <div>
+                  <dt className="font-medium text-gray-300">Date Taken</dt>
+                  {/* Camera local time, so it is shown as recorded */}
+                  <dd className="text-white">
+                    {formatDate(new Date(file.imageMetadata.takenAt))}
+                  </dd>
+                </div>
+              )}
+              {file.imageMetadata.orientation && (
+                <div>
+                  <dt className="font-medium text-gray-300">Orientation</dt>
+                  <dd className="text-white">
+                    {file.imageMetadata.orientation === 1
+                      ? "Upright"
+                      : `Turned upright on upload (EXIF ${file.imageMetadata.orientation})`}
+                  </dd>
+                </div>
+              )}
+              {file.imageMetadata.location && (
+                <div>
+                  <dt className="font-medium text-gray-300">Location</dt>
+                  <dd className="text-white">
+                    <a
+                      href={`https://www.openstreetmap.org/?mlat=${file.imageMetadata.location.latitude}&mlon=${file.imageMetadata.location.longitude}#map=15/${file.imageMetadata.location.latitude}/${file.imageMetadata.location.longitude}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-300 hover:text-blue-200 underline"
+                    >
+                      {file.imageMetadata.location.latitude.toFixed(5)},{" "}
+                      {file.imageMetadata.location.longitude.toFixed(5)}
+                    </a>
+                  </dd>
+                </div>
+              )}
+            </dl>
+          </div>
+        )}
+
+        {/* Recognized Text */}
+        {file.ocrText && (
+          <div className="px-6 py-4 bg-white/5 border-t border-white/20">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-white">
+                Recognized Text
+                {file.ocrConfidence !== undefined && (
+                  <span className="ml-2 text-xs font-normal text-gray-300">
+                    {Math.round(file.ocrConfidence)}% confidence
+                  </span>
+                )}
+              </h3>
+              <button
+                onClick={handleCopyOcrText}
+                className="text-sm bg-white/10 hover:bg-white/20 text-white px-3 py-1.5 rounded-lg border border-white/20 transition-colors"
+              >
+                {isOcrTextCopied ? "Copied" : "Copy Text"}
+              </button>
+            </div>
+            <pre className="text-sm text-gray-200 whitespace-pre-wrap break-words max-h-64 overflow-auto bg-black/20 rounded-lg p-3">
+              {file.ocrText}
+            </pre>
+          </div>
+        )}
+
+        {/* Version History */}
+        <div className="px-6 py-4 bg-white/5 border-t border-white/20">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-medium text-white">Version History</h3>
+            <button
+              onClick={() => versionInputRef.current?.click()}
+              disabled={isVersionBusy}
+              className="text-sm bg-white/10 hover:bg-white/20 text-white px-3 py-1.5 rounded-lg border border-white/20 transition-colors disabled:opacity-50"
+            >
+              {isVersionBusy ? "Working..." : "Upload new version"}
+            </button>
+            <input
+              ref={versionInputRef}
+              type="file"
+              className="hidden"
+              onChange={handleVersionUpload}
+            />
+          </div>
+
+          {versionError && (
+            <p className="text-sm text-red-300 mb-3">{versionError}</p>
+          )}
+
+          {isVersionsLoading && versions.length === 0 ? (
+            <p className="text-sm text-gray-300">Loading versions...</p>
+          ) : (
+            <ul className="divide-y divide-white/10">
+              {versions.map((version) => (
+                <li
+                  key={version.versionNumber}
+                  className="py-2 flex items-center justify-between text-sm"
+                >
+                  <div className="min-w-0">
+                    <p className="text-white truncate" title={version.originalName}>
+                      v{version.versionNumber} &middot; {version.originalName}
+                      {version.isCurrent && (
+                        <span className="ml-2 text-xs text-green-300">
+                          Current
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-gray-400 text-xs">
+                      {formatFileSize(version.fileSize)} &middot;{" "}
+                      {formatDate(version.createdAt)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3 ml-4 shrink-0">
+                    {AVAILABLE_SCAN_STATUSES.includes(version.scanStatus) ? (
+                      <a
+                        href={`/api/files/${file.id}/versions/${version.versionNumber}`}
+                        download={version.originalName}
+                        className="text-blue-300 hover:text-blue-200"
+                      >
+                        Download
+                      </a>
+                    ) : (
+                      <span
+                        className={
+                          version.scanStatus === "infected"
+                            ? "text-red-300"
+                            : "text-yellow-300"
+                        }
+                      >
+                        {version.scanStatus === "infected"
+                          ? "Quarantined"
+                          : version.scanStatus === "unscanned"
+                            ? "Not scanned"
+                            : "Scanning"}
+                      </span>
+                    )}
+                    {!version.isCurrent && (
+                      <button
+                        onClick={() => handleVersionRestore(version.versionNumber)}
+                        disabled={isVersionBusy}
+                        className="text-purple-300 hover:text-purple-200 disabled:opacity-50"
+                      >
+                        Restore
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -1,8 +1,18 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { FileItem } from "@/types/file";
+import Image from "next/image";
+import {
+  AVAILABLE_SCAN_STATUSES,
+  FileItem,
+  FileSortField,
+  SortOrder,
+  TagItem,
+} from "@/types/file";
 import { fileActivityLogger } from "@/utils/logging";
+import TagChips from "@/components/TagChips";
+import { setDraggedItems } from "@/utils/folderDrag";
+import { downloadAsZip } from "@/utils/zipDownloadClient";
 
 interface FileListProps {
   files?: FileItem[];
@@ -12,6 +22,27 @@ interface FileListProps {
   onFileDelete?: (fileId: string) => void;
   onFileDownload?: (file: FileItem) => void;
   onBatchDownload?: (fileIds: string[]) => void;
+  // Files are search results, ranked by the server
+  isSearchResult?: boolean;
+  // The user's tags, for tagging files
+  availableTags?: TagItem[];
+  onFileTagsChange?: (fileId: string, tags: TagItem[]) => void;
+  onBatchTag?: (fileIds: string[], tagId: string) => void;
+  // Files can be dragged onto folders to move them
+  draggable?: boolean;
+  // Shown when there are no files, e.g. in an empty folder
+  emptyMessage?: string;
+  // Where the upload button of the empty state leads, e.g. with the current folder
+  uploadHref?: string;
+  // Files are sorted by the server; the list only shows and changes the sort
+  sortBy?: FileSortField;
+  sortOrder?: SortOrder;
+  onSortChange?: (field: FileSortField, order: SortOrder) => void;
+  // All matching files, of which the loaded ones are shown
+  total?: number;
+  // Loads the next page; absent once all files are loaded
+  onLoadMore?: () => void;
+  loadingMore?: boolean;
 }
 
 export default function FileList({
@@ -22,12 +53,21 @@ export default function FileList({
   onFileDelete,
   onFileDownload,
   onBatchDownload,
+  isSearchResult = false,
+  availableTags = [],
+  onFileTagsChange,
+  onBatchTag,
+  draggable = false,
+  emptyMessage = "No files uploaded yet",
+  uploadHref = "/upload",
+  sortBy = isSearchResult ? "relevance" : "date",
+  sortOrder = "desc",
+  onSortChange,
+  total,
+  onLoadMore,
+  loadingMore = false,
 }: FileListProps) {
   const [selectedFiles, setSelectedFiles] = useState<Set<string>>(new Set());
-  const [sortBy, setSortBy] = useState<"name" | "date" | "size" | "type">(
-    "date",
-  );
-  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
 
   const COMPONENT_NAME = "FileList";
 
@@ -123,32 +163,7 @@ export default function FileList({
     }
   };
 
-  const sortFiles = (files: FileItem[]) => {
-    if (!files || files.length === 0) return [];
-    return [...files].sort((a, b) => {
-      let comparison = 0;
-
-      switch (sortBy) {
-        case "name":
-          comparison = a.originalName.localeCompare(b.originalName);
-          break;
-        case "date":
-          comparison =
-            new Date(a.uploadDate).getTime() - new Date(b.uploadDate).getTime();
-          break;
-        case "size":
-          comparison = a.fileSize - b.fileSize;
-          break;
-        case "type":
-          comparison = a.mimeType.localeCompare(b.mimeType);
-          break;
-      }
-
-      return sortOrder === "asc" ? comparison : -comparison;
-    });
-  };
-
-  const handleSort = (field: "name" | "date" | "size" | "type") => {
+  const handleSort = (field: FileSortField) => {
     const newSortOrder =
       sortBy === field ? (sortOrder === "asc" ? "desc" : "asc") : "asc";
 
@@ -159,12 +174,7 @@ export default function FileList({
       files.length,
     );
 
-    if (sortBy === field) {
-      setSortOrder(newSortOrder);
-    } else {
-      setSortBy(field);
-      setSortOrder("asc");
-    }
+    onSortChange?.(field, newSortOrder);
   };
 
   const toggleFileSelection = (fileId: string) => {
@@ -208,43 +218,18 @@ export default function FileList({
         true,
       );
 
-      // Use the onBatchDownload prop if provided, otherwise use the built-in logic
+      // Use the onBatchDownload prop if provided; otherwise several files download as one ZIP
       if (onBatchDownload) {
         onBatchDownload(selectedFileIds);
+      } else if (selectedFileIds.length > 1) {
+        downloadAsZip({ fileIds: selectedFileIds }, (message) => alert(message));
       } else {
-        // Get download URLs from the API
-        const response = await fetch("/api/files/download", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ fileIds: selectedFileIds }),
-        });
-
-        if (!response.ok) {
-          throw new Error("Failed to prepare downloads");
-        }
-
-        const data = await response.json();
-
-        if (!data.success) {
-          throw new Error(data.error || "Failed to prepare downloads");
-        }
-
-        // Download each file individually
-        for (const file of data.files) {
-          // Create a temporary link and trigger download
-          const link = document.createElement("a");
-          link.href = file.downloadUrl;
-          link.download = file.filename;
-          link.style.display = "none";
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-
-          // Small delay between downloads to avoid overwhelming the browser
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
+        const link = document.createElement("a");
+        link.href = `/api/files/download/${selectedFileIds[0]}`;
+        link.style.display = "none";
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
       }
 
       // Clear selection after successful download
@@ -257,7 +242,6 @@ export default function FileList({
     }
   };
 
-  const sortedFiles = sortFiles(files);
 
   // Log component state changes
   useEffect(() => {
@@ -383,7 +367,7 @@ export default function FileList({
                 />
               </svg>
               <h3 className="mt-2 text-sm font-medium text-white">
-                No files uploaded yet
+                {emptyMessage}
               </h3>
               <p className="mt-1 text-sm text-gray-300">
                 Get started by uploading your first file.
@@ -392,7 +376,7 @@ export default function FileList({
                 <button
                   type="button"
                   className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-4 py-2 rounded-lg transition-all duration-300 transform hover:scale-105 font-medium inline-flex items-center"
-                  onClick={() => (window.location.href = "/upload")}
+                  onClick={() => (window.location.href = uploadHref)}
                 >
                   Upload Files
                 </button>
@@ -418,7 +402,9 @@ export default function FileList({
                 </div>
               )}
               <div className="text-sm text-gray-300">
-                {files.length} {files.length === 1 ? "file" : "files"}
+                {total !== undefined && total > files.length
+                  ? `${files.length} of ${total} files`
+                  : `${files.length} ${files.length === 1 ? "file" : "files"}`}
               </div>
             </div>
           </div>
@@ -431,6 +417,9 @@ export default function FileList({
                 Sort by:
               </span>
               {[
+                ...(isSearchResult
+                  ? [{ key: "relevance", label: "Relevance" }]
+                  : []),
                 { key: "name", label: "Name" },
                 { key: "date", label: "Date" },
                 { key: "size", label: "Size" },
@@ -438,9 +427,7 @@ export default function FileList({
               ].map(({ key, label }) => (
                 <button
                   key={key}
-                  onClick={() =>
-                    handleSort(key as "name" | "date" | "size" | "type")
-                  }
+                  onClick={() => handleSort(key as FileSortField)}
                   className={`text-sm px-3 py-1 rounded-md flex items-center space-x-1 ${
                     sortBy === key
                       ? "bg-gradient-to-r from-blue-500/20 to-purple-600/20 text-blue-300 border border-blue-400/30"
@@ -448,7 +435,7 @@ export default function FileList({
                   }`}
                 >
                   <span>{label}</span>
-                  {sortBy === key && (
+                  {sortBy === key && key !== "relevance" && (
                     <svg
                       className={`w-4 h-4 transform ${sortOrder === "desc" ? "rotate-180" : ""}`}
                       fill="currentColor"
@@ -475,6 +462,26 @@ export default function FileList({
                   ? "Deselect All"
                   : "Select All"}
               </button>
+              {selectedFiles.size > 0 && onBatchTag && availableTags.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => {
+                    if (e.target.value) {
+                      onBatchTag(Array.from(selectedFiles), e.target.value);
+                    }
+                  }}
+                  className="bg-white/10 border border-white/20 text-white text-sm rounded-lg px-3 py-2"
+                >
+                  <option value="" className="text-gray-900">
+                    Tag selected...
+                  </option>
+                  {availableTags.map((tag) => (
+                    <option key={tag.id} value={tag.id} className="text-gray-900">
+                      {tag.name}
+                    </option>
+                  ))}
+                </select>
+              )}
               {selectedFiles.size > 0 && (
                 <button
                   onClick={handleBatchDownload}
@@ -493,7 +500,11 @@ export default function FileList({
                       d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
                     />
                   </svg>
-                  <span>Download Selected ({selectedFiles.size})</span>
+                  <span>
+                    {selectedFiles.size > 1
+                      ? `Download as ZIP (${selectedFiles.size})`
+                      : "Download Selected (1)"}
+                  </span>
                 </button>
               )}
             </div>
@@ -501,9 +512,17 @@ export default function FileList({
 
           {/* Files Grid */}
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {sortedFiles.map((file) => (
+            {files.map((file) => (
               <div
                 key={file.id}
+                draggable={draggable}
+                onDragStart={(e) =>
+                  // Dragging a selected file moves the whole selection
+                  setDraggedItems(e, {
+                    fileIds: selectedFiles.has(file.id) ? Array.from(selectedFiles) : [file.id],
+                    folderIds: [],
+                  })
+                }
                 className={`border border-white/20 rounded-lg p-4 hover:shadow-md transition-all backdrop-blur-sm ${
                   selectedFiles.has(file.id)
                     ? "ring-2 ring-blue-400 bg-blue-500/20 border-blue-400/50"
@@ -544,7 +563,19 @@ export default function FileList({
                     </div>
                     {/* File Icon */}
                     <div className="flex-shrink-0">
-                      {getFileIcon(file.mimeType)}
+                      {file.thumbnailUrl ? (
+                        // Unoptimized, so the browser fetches the thumbnail route itself, with the session cookie
+                        <Image
+                          src={file.thumbnailUrl}
+                          alt=""
+                          width={40}
+                          height={40}
+                          unoptimized
+                          className="w-10 h-10 rounded object-cover bg-white/5"
+                        />
+                      ) : (
+                        getFileIcon(file.mimeType)
+                      )}
                     </div>
                     {/* File Info */}
                     <div
@@ -560,6 +591,22 @@ export default function FileList({
                       >
                         {file.originalName}
                       </h3>
+                      {file.searchSnippet && file.searchSnippet.length > 0 && (
+                        <p className="text-xs text-gray-300 mt-1 line-clamp-2 break-words">
+                          {file.searchSnippet.map((part, index) =>
+                            part.match ? (
+                              <mark
+                                key={index}
+                                className="bg-yellow-300/30 text-yellow-100 rounded px-0.5"
+                              >
+                                {part.text}
+                              </mark>
+                            ) : (
+                              <span key={index}>{part.text}</span>
+                            ),
+                          )}
+                        </p>
+                      )}
                       <p className="text-xs text-gray-300 mt-1">
                         {formatDate(file.uploadDate)}
                       </p>
@@ -568,7 +615,28 @@ export default function FileList({
                         <span className="capitalize">
                           {file.mimeType.split("/")[0]}
                         </span>
+                        {file.scanStatus === "infected" && (
+                          <span className="text-red-300">Quarantined</span>
+                        )}
+                        {(file.scanStatus === "pending" ||
+                          file.scanStatus === "error") && (
+                          <span className="text-yellow-300">Scanning</span>
+                        )}
+                        {file.scanStatus === "unscanned" &&
+                          !AVAILABLE_SCAN_STATUSES.includes("unscanned") && (
+                            <span className="text-yellow-300">Not scanned</span>
+                          )}
                       </div>
+                      {onFileTagsChange && (
+                        <div className="mt-2">
+                          <TagChips
+                            fileId={file.id}
+                            tags={file.tags}
+                            availableTags={availableTags}
+                            onChange={(tags) => onFileTagsChange(file.id, tags)}
+                          />
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -583,7 +651,11 @@ export default function FileList({
                         );
                         onFileDownload?.(file);
                       }}
-                      className="p-1 text-gray-400 hover:text-blue-400 rounded transition-colors"
+                      disabled={
+                        !!file.scanStatus &&
+                        !AVAILABLE_SCAN_STATUSES.includes(file.scanStatus)
+                      }
+                      className="p-1 text-gray-400 hover:text-blue-400 rounded transition-colors disabled:opacity-40 disabled:hover:text-gray-400"
                       title="Download"
                     >
                       <svg
@@ -612,7 +684,7 @@ export default function FileList({
                           onFileDelete(file.id);
                         }}
                         className="p-1 text-gray-400 hover:text-red-400 rounded transition-colors"
-                        title="Delete"
+                        title="Move to trash"
                       >
                         <svg
                           className="w-4 h-4"
@@ -634,6 +706,18 @@ export default function FileList({
               </div>
             ))}
           </div>
+
+          {onLoadMore && (
+            <div className="mt-6 text-center">
+              <button
+                onClick={onLoadMore}
+                disabled={loadingMore}
+                className="text-sm bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white border border-white/20 rounded-lg px-4 py-2 transition-colors"
+              >
+                {loadingMore ? "Loading..." : "Load more"}
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
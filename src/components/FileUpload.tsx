@@ -5,16 +5,24 @@ import {
   FileUploadProgress,
   FileValidationError,
   MAX_FILE_SIZE,
+  MAX_ZIP_UPLOAD_SIZE,
+  SUPPORTED_FILE_EXTENSIONS,
   SUPPORTED_FILE_TYPES,
+  SupportedFileType,
 } from "@/types/file";
 import { fileActivityLogger } from "@/utils/logging";
+import { resumableUpload } from "@/utils/tusClient";
+import { isZipFile, uploadZipForExtraction } from "@/utils/zipUploadClient";
 
 interface FileUploadProps {
+  // Folder files are uploaded to; the top level if absent
+  folderId?: string;
   onUploadComplete?: (file: unknown) => void;
   onUploadError?: (error: string) => void;
 }
 
 export default function FileUpload({
+  folderId,
   onUploadComplete,
   onUploadError,
 }: FileUploadProps) {
@@ -26,6 +34,8 @@ export default function FileUpload({
     FileValidationError[]
   >([]);
   const [isUploading, setIsUploading] = useState(false);
+  // ZIP archives are only accepted to be extracted into their files
+  const [extractZips, setExtractZips] = useState(true);
   const [rateLimitInfo, setRateLimitInfo] = useState<{
     remaining: number;
     resetTime: number;
@@ -34,7 +44,10 @@ export default function FileUpload({
 
   const COMPONENT_NAME = "FileUpload";
 
-  const validateFile = (file: File): FileValidationError | null => {
+  const validateFile = (
+    file: File,
+    extractZips: boolean,
+  ): FileValidationError | null => {
     fileActivityLogger.logPerformanceMetric(
       COMPONENT_NAME,
       "file-validation-start",
@@ -42,6 +55,30 @@ export default function FileUpload({
       "timestamp",
     );
 
+    if (isZipFile(file)) {
+      const message = !extractZips
+        ? 'ZIP archives can only be uploaded with "Extract ZIP archives" selected'
+        : file.size > MAX_ZIP_UPLOAD_SIZE
+          ? `ZIP archives must be less than ${Math.round(MAX_ZIP_UPLOAD_SIZE / (1024 * 1024))}MB`
+          : null;
+      if (!message) return null;
+
+      const error = {
+        type: !extractZips ? ("type" as const) : ("size" as const),
+        message,
+        filename: file.name,
+      };
+
+      fileActivityLogger.logValidationError(
+        COMPONENT_NAME,
+        file.name,
+        error.type,
+        error.message,
+      );
+
+      return error;
+    }
+
     // Check file size
     if (file.size > MAX_FILE_SIZE) {
       const error = {
@@ -83,6 +120,26 @@ export default function FileUpload({
       return error;
     }
 
+    // Check the extension matches the type; the server rejects mismatches too
+    const dotIndex = file.name.lastIndexOf(".");
+    const extension = dotIndex > 0 ? file.name.slice(dotIndex).toLowerCase() : "";
+    if (!SUPPORTED_FILE_EXTENSIONS[file.type as SupportedFileType].includes(extension)) {
+      const error = {
+        type: "type" as const,
+        message: `File extension "${extension || "(none)"}" does not match file type "${file.type}"`,
+        filename: file.name,
+      };
+
+      fileActivityLogger.logValidationError(
+        COMPONENT_NAME,
+        file.name,
+        "type",
+        error.message,
+      );
+
+      return error;
+    }
+
     fileActivityLogger.logPerformanceMetric(
       COMPONENT_NAME,
       "file-validation-success",
@@ -117,7 +174,7 @@ export default function FileUpload({
 
       // Validate all files
       fileArray.forEach((file) => {
-        const error = validateFile(file);
+        const error = validateFile(file, extractZips);
         if (error) {
           errors.push(error);
         } else {
@@ -136,6 +193,55 @@ export default function FileUpload({
 
       setIsUploading(true);
 
+      // Uploads a ZIP to be extracted; it counts as completed if any of its files were created
+      const uploadZip = async (file: File, uploadStartTime: number) => {
+        const result = await uploadZipForExtraction(file, {
+          folderId,
+          onProgress: (bytesSent, bytesTotal) => {
+            const percent =
+              bytesTotal > 0 ? Math.round((bytesSent / bytesTotal) * 100) : 0;
+
+            setUploadProgress((prev) =>
+              prev.map((p) =>
+                p.filename === file.name ? { ...p, progress: percent } : p,
+              ),
+            );
+          },
+        });
+
+        if (result.rateLimit) setRateLimitInfo(result.rateLimit);
+        if (!result.success || !result.entries) {
+          throw new Error(result.error || "Upload failed");
+        }
+
+        const createdCount = result.createdCount ?? 0;
+        setUploadProgress((prev) =>
+          prev.map((p) =>
+            p.filename === file.name
+              ? {
+                  ...p,
+                  status: createdCount > 0 ? "completed" : "error",
+                  progress: 100,
+                  entries: result.entries,
+                  error:
+                    createdCount > 0 ? undefined : "No files could be extracted",
+                }
+              : p,
+          ),
+        );
+
+        fileActivityLogger.logPerformanceMetric(
+          COMPONENT_NAME,
+          "zip-extraction-duration",
+          Date.now() - uploadStartTime,
+          "milliseconds",
+        );
+
+        for (const entry of result.entries) {
+          if (entry.file) onUploadComplete?.(entry.file);
+        }
+      };
+
       // Upload valid files
       for (const file of validFiles) {
         const uploadStartTime = Date.now();
@@ -152,42 +258,55 @@ export default function FileUpload({
           // Log progress update
           fileActivityLogger.logUploadProgress(COMPONENT_NAME, file.name, 0);
 
-          // Create FormData for API call
-          const formData = new FormData();
-          formData.append("file", file);
+          if (isZipFile(file)) {
+            await uploadZip(file, uploadStartTime);
+            continue;
+          }
 
-          // Update progress to show upload starting
-          setUploadProgress((prev) =>
-            prev.map((p) =>
-              p.filename === file.name ? { ...p, progress: 50 } : p,
-            ),
-          );
+          // Upload in resumable chunks; dropped connections are retried
+          // from the last offset the server confirmed
+          const fileId = await resumableUpload(file, {
+            folderId,
+            onProgress: (bytesSent, bytesTotal) => {
+              const percent =
+                bytesTotal > 0 ? Math.round((bytesSent / bytesTotal) * 100) : 0;
+
+              setUploadProgress((prev) =>
+                prev.map((p) =>
+                  p.filename === file.name
+                    ? { ...p, progress: percent, status: "uploading" }
+                    : p,
+                ),
+              );
 
-          fileActivityLogger.logUploadProgress(COMPONENT_NAME, file.name, 50);
+              fileActivityLogger.logUploadProgress(
+                COMPONENT_NAME,
+                file.name,
+                percent,
+              );
+            },
+            onRetry: (attempt, delay) => {
+              setUploadProgress((prev) =>
+                prev.map((p) =>
+                  p.filename === file.name ? { ...p, status: "retrying" } : p,
+                ),
+              );
 
-          // Call the actual API endpoint
-          const response = await fetch("/api/files", {
-            method: "POST",
-            body: formData,
+              fileActivityLogger.logPerformanceMetric(
+                COMPONENT_NAME,
+                "upload-retry-delay",
+                delay,
+                "milliseconds",
+              );
+            },
+            onRateLimit: setRateLimitInfo,
           });
 
+          // Fetch the created record so listeners get the same shape as before
+          const response = await fetch(`/api/files/${fileId}`);
           const result = await response.json();
 
-          // Update rate limit info
-          if (result.rateLimit) {
-            setRateLimitInfo(result.rateLimit);
-          }
-
           if (!response.ok || !result.success) {
-            // Handle rate limit specifically
-            if (response.status === 429) {
-              const resetDate = new Date(
-                result.rateLimit?.resetTime || Date.now() + 15 * 60 * 1000,
-              );
-              throw new Error(
-                `Rate limit exceeded. Try again after ${resetDate.toLocaleTimeString()}`,
-              );
-            }
             throw new Error(result.error || "Upload failed");
           }
 
@@ -228,7 +347,12 @@ export default function FileUpload({
           setUploadProgress((prev) =>
             prev.map((p) =>
               p.filename === file.name
-                ? { ...p, status: "error", error: "Upload failed" }
+                ? {
+                    ...p,
+                    status: "error",
+                    error:
+                      error instanceof Error ? error.message : "Upload failed",
+                  }
                 : p,
             ),
           );
@@ -246,7 +370,7 @@ export default function FileUpload({
 
       setIsUploading(false);
     },
-    [onUploadComplete, onUploadError],
+    [folderId, extractZips, onUploadComplete, onUploadError],
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -363,12 +487,24 @@ export default function FileUpload({
                 </p>
                 <p className="text-sm text-gray-300 mt-2">
                   Support for JPG, PNG, GIF, SVG, TXT, MD, CSV files up to{" "}
-                  {formatFileSize(MAX_FILE_SIZE)}
+                  {formatFileSize(MAX_FILE_SIZE)}, and ZIP archives of them up
+                  to {formatFileSize(MAX_ZIP_UPLOAD_SIZE)}
                 </p>
               </div>
             </div>
           </div>
 
+          <label className="mt-4 flex items-center space-x-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={extractZips}
+              onChange={(e) => setExtractZips(e.target.checked)}
+              disabled={isUploading}
+              className="rounded border-white/30 bg-white/10"
+            />
+            <span>Extract ZIP archives into folders</span>
+          </label>
+
           {/* Validation Errors */}
           {validationErrors.length > 0 && (
             <div className="mt-6 space-y-2">
@@ -460,7 +596,9 @@ export default function FileUpload({
                           </svg>
                         )}
                         <span className="text-sm text-gray-300">
-                          {progress.progress}%
+                          {progress.status === "retrying"
+                            ? `Reconnecting… ${progress.progress}%`
+                            : `${progress.progress}%`}
                         </span>
                       </div>
                     </div>
@@ -472,7 +610,9 @@ export default function FileUpload({
                             ? "bg-gradient-to-r from-green-400 to-green-500"
                             : progress.status === "error"
                               ? "bg-gradient-to-r from-red-400 to-red-500"
-                              : "bg-gradient-to-r from-blue-500 to-purple-600"
+                              : progress.status === "retrying"
+                                ? "bg-gradient-to-r from-yellow-400 to-yellow-500"
+                                : "bg-gradient-to-r from-blue-500 to-purple-600"
                         }`}
                         style={{ width: `${progress.progress}%` }}
                       />
@@ -483,6 +623,40 @@ export default function FileUpload({
                         {progress.error}
                       </p>
                     )}
+
+                    {/* What happened to each file in an extracted ZIP */}
+                    {progress.entries && (
+                      <div className="mt-2 text-sm">
+                        <p className="text-gray-300">
+                          Extracted{" "}
+                          {progress.entries.filter((e) => e.status === "created").length}{" "}
+                          of{" "}
+                          {progress.entries.filter((e) => e.status !== "skipped").length}{" "}
+                          files
+                        </p>
+                        {progress.entries.some((e) => e.status !== "created") && (
+                          <ul className="mt-1 max-h-40 overflow-y-auto space-y-1">
+                            {progress.entries
+                              .filter((e) => e.status !== "created")
+                              .map((entry) => (
+                                <li
+                                  key={entry.path}
+                                  className={
+                                    entry.status === "failed"
+                                      ? "text-red-300"
+                                      : "text-gray-400"
+                                  }
+                                >
+                                  <span className="font-mono break-all">
+                                    {entry.path}
+                                  </span>
+                                  : {entry.error}
+                                </li>
+                              ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
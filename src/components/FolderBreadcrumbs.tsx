@@ -0,0 +1,58 @@
+"use client";
+
+import React, { useState } from "react";
+import { FolderItem } from "@/types/file";
+import { DraggedItems, getDraggedItems, hasDraggedItems } from "@/utils/folderDrag";
+
+interface FolderBreadcrumbsProps {
+  // The current folder and the folders above it, top-level folder first
+  path: FolderItem[];
+  onNavigate: (folderId: string | null) => void;
+  // Called when files or folders are dropped on a folder above the current one
+  onDrop: (folderId: string | null, items: DraggedItems) => void;
+}
+
+export default function FolderBreadcrumbs({ path, onNavigate, onDrop }: FolderBreadcrumbsProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const crumbs = [{ id: null, name: "All files" }, ...path];
+
+  return (
+    <nav className="flex flex-wrap items-center text-sm text-gray-300" aria-label="Folder path">
+      {crumbs.map((crumb, index) => {
+        const isCurrent = index === crumbs.length - 1;
+        const key = crumb.id ?? "root";
+
+        return (
+          <React.Fragment key={key}>
+            {index > 0 && <span className="mx-2 text-gray-500">/</span>}
+            {isCurrent ? (
+              <span className="text-white font-medium truncate">{crumb.name}</span>
+            ) : (
+              <button
+                onClick={() => onNavigate(crumb.id)}
+                onDragOver={(e) => {
+                  if (!hasDraggedItems(e)) return;
+                  e.preventDefault();
+                  setDropTarget(key);
+                }}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setDropTarget(null);
+                  const items = getDraggedItems(e);
+                  if (items) onDrop(crumb.id, items);
+                }}
+                className={`truncate rounded px-1 hover:text-white hover:underline ${
+                  dropTarget === key ? "bg-blue-500/30 text-white" : ""
+                }`}
+              >
+                {crumb.name}
+              </button>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import React, { useState } from "react";
+import { FolderItem } from "@/types/file";
+import {
+  DraggedItems,
+  getDraggedItems,
+  hasDraggedItems,
+  setDraggedItems,
+} from "@/utils/folderDrag";
+
+interface FolderGridProps {
+  // Folders inside the current folder
+  folders: FolderItem[];
+  onOpen: (folder: FolderItem) => void;
+  onCreate: (name: string) => Promise<boolean>;
+  onRename: (folder: FolderItem, name: string) => Promise<boolean>;
+  onDelete: (folder: FolderItem) => void;
+  // Downloads the folder and its subfolders as a ZIP
+  onDownload: (folder: FolderItem) => void;
+  // Called when files or folders are dropped on a folder
+  onDrop: (folderId: string, items: DraggedItems) => void;
+}
+
+export default function FolderGrid({
+  folders,
+  onOpen,
+  onCreate,
+  onRename,
+  onDelete,
+  onDownload,
+  onDrop,
+}: FolderGridProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newFolderName, setNewFolderName] = useState("");
+  const [editingFolderId, setEditingFolderId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newFolderName.trim()) {
+      setIsCreating(false);
+      return;
+    }
+    if (await onCreate(newFolderName)) {
+      setNewFolderName("");
+      setIsCreating(false);
+    }
+  };
+
+  const handleRename = async (folder: FolderItem) => {
+    const name = editingName.trim();
+    setEditingFolderId(null);
+    if (name && name !== folder.name) {
+      await onRename(folder, name);
+    }
+  };
+
+  const inputClassName =
+    "w-full text-sm bg-white/10 border border-white/20 text-white placeholder-gray-400 rounded-md px-2 py-1 focus:outline-none focus:border-purple-400";
+
+  return (
+    <div className="grid gap-3 grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
+      {folders.map((folder) => (
+        <div
+          key={folder.id}
+          draggable={editingFolderId !== folder.id}
+          onDragStart={(e) => setDraggedItems(e, { fileIds: [], folderIds: [folder.id] })}
+          onDragOver={(e) => {
+            if (!hasDraggedItems(e)) return;
+            e.preventDefault();
+            setDropTargetId(folder.id);
+          }}
+          onDragLeave={() => setDropTargetId(null)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDropTargetId(null);
+            const items = getDraggedItems(e);
+            // A folder dropped on itself stays where it is
+            if (items && !items.folderIds.includes(folder.id)) onDrop(folder.id, items);
+          }}
+          onDoubleClick={() => onOpen(folder)}
+          className={`group flex items-center border rounded-lg px-3 py-2 cursor-pointer transition-all ${
+            dropTargetId === folder.id
+              ? "border-blue-400 bg-blue-500/20"
+              : "border-white/20 bg-white/5 hover:bg-white/10"
+          }`}
+        >
+          <svg className="w-6 h-6 mr-2 flex-shrink-0 text-yellow-400" fill="currentColor" viewBox="0 0 20 20">
+            <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
+          </svg>
+          {editingFolderId === folder.id ? (
+            <input
+              autoFocus
+              value={editingName}
+              onChange={(e) => setEditingName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleRename(folder);
+                if (e.key === "Escape") setEditingFolderId(null);
+              }}
+              onBlur={() => handleRename(folder)}
+              className={inputClassName}
+            />
+          ) : (
+            <>
+              <button
+                onClick={() => onOpen(folder)}
+                className="flex-1 min-w-0 text-left text-sm text-white truncate"
+                title={folder.name}
+              >
+                {folder.name}
+              </button>
+              <button
+                onClick={() => {
+                  setEditingFolderId(folder.id);
+                  setEditingName(folder.name);
+                }}
+                className="ml-1 p-1 text-gray-400 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Rename folder"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z"
+                  />
+                </svg>
+              </button>
+              <button
+                onClick={() => onDownload(folder)}
+                className="p-1 text-gray-400 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Download as ZIP"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+                  />
+                </svg>
+              </button>
+              <button
+                onClick={() => onDelete(folder)}
+                className="p-1 text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Delete folder"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </>
+          )}
+        </div>
+      ))}
+
+      {isCreating ? (
+        <form
+          onSubmit={handleCreate}
+          className="flex items-center border border-dashed border-white/30 rounded-lg px-3 py-2"
+        >
+          <input
+            autoFocus
+            value={newFolderName}
+            onChange={(e) => setNewFolderName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") {
+                setNewFolderName("");
+                setIsCreating(false);
+              }
+            }}
+            onBlur={() => {
+              if (!newFolderName.trim()) setIsCreating(false);
+            }}
+            placeholder="Folder name"
+            className={inputClassName}
+          />
+        </form>
+      ) : (
+        <button
+          onClick={() => setIsCreating(true)}
+          className="flex items-center justify-center border border-dashed border-white/30 rounded-lg px-3 py-2 text-sm text-gray-400 hover:text-white hover:border-white/50"
+        >
+          + New folder
+        </button>
+      )}
+    </div>
+  );
+}
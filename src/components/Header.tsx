@@ -4,13 +4,21 @@ import React from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { signOut, useSession } from "@/app/auth/client";
+import NotificationBell from "@/components/NotificationBell";
+import StorageMeter from "@/components/StorageMeter";
 
 interface HeaderProps {
   currentPage?: string;
   showUploadButton?: boolean;
+  // Where the upload button leads, e.g. to upload into the folder being viewed
+  uploadHref?: string;
 }
 
-export default function Header({ currentPage = "Files", showUploadButton = true }: HeaderProps) {
+export default function Header({
+  currentPage = "Files",
+  showUploadButton = true,
+  uploadHref = "/upload",
+}: HeaderProps) {
   const { data: session } = useSession();
   const router = useRouter();
 
@@ -50,7 +58,7 @@ export default function Header({ currentPage = "Files", showUploadButton = true
               </span>
             </Link>
             <nav className="flex items-center space-x-4 text-sm">
-              {currentPage === "Upload" ? (
+              {currentPage === "Upload" || currentPage === "Trash" ? (
                 <>
                   <Link
                     href="/files"
@@ -60,17 +68,37 @@ export default function Header({ currentPage = "Files", showUploadButton = true
                   </Link>
                   <span className="text-gray-500">/</span>
                   <span className="bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent font-medium">
-                    Upload
+                    {currentPage}
                   </span>
                 </>
               ) : (
-                <span className="bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent font-medium">
-                  {currentPage}
-                </span>
+                <>
+                  <span className="bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent font-medium">
+                    {currentPage}
+                  </span>
+                  {currentPage === "Files" && (
+                    <Link
+                      href="/trash"
+                      className="text-gray-300 hover:text-white transition-colors"
+                    >
+                      Trash
+                    </Link>
+                  )}
+                </>
               )}
             </nav>
           </div>
           <div className="flex items-center space-x-4">
+            {/* Storage usage */}
+            {session?.user && (
+              <div className="hidden md:block">
+                <StorageMeter />
+              </div>
+            )}
+
+            {/* Notifications */}
+            {session?.user && <NotificationBell />}
+
             {/* User info */}
             {session?.user && (
               <div className="flex items-center space-x-3">
@@ -93,7 +121,7 @@ export default function Header({ currentPage = "Files", showUploadButton = true
             {/* Upload button */}
             {showUploadButton && currentPage !== "Upload" && (
               <Link
-                href="/upload"
+                href={uploadHref}
                 className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white px-4 py-2 rounded-lg transition-all duration-300 transform hover:scale-105 font-medium inline-flex items-center"
               >
                 <svg
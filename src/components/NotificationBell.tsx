@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+
+interface NotificationItem {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  fileId: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export default function NotificationBell() {
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notifications");
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      }
+    } catch (error) {
+      console.error("Failed to load notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  const handleToggle = async () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+
+    // Opening the list counts as reading everything in it
+    if (opening && unreadCount > 0) {
+      try {
+        await fetch("/api/notifications/read", { method: "POST" });
+        setUnreadCount(0);
+      } catch (error) {
+        console.error("Failed to mark notifications as read:", error);
+      }
+    }
+  };
+
+  const formatDate = (date: string) => {
+    return new Intl.DateTimeFormat("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(date));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        className="relative text-gray-300 hover:text-white transition-colors p-2 rounded-lg hover:bg-white/10"
+        title="Notifications"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 bg-red-500 text-white text-xs font-bold rounded-full min-w-[1.25rem] h-5 px-1 flex items-center justify-center">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-slate-800 border border-white/20 rounded-lg shadow-xl z-20">
+          <div className="px-4 py-3 border-b border-white/10">
+            <h3 className="text-sm font-medium text-white">Notifications</h3>
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-400 text-center">
+              No notifications
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-white/10">
+              {notifications.map((notification) => (
+                <li key={notification.id} className="px-4 py-3">
+                  <p
+                    className={`text-sm font-medium ${
+                      notification.readAt ? "text-gray-300" : "text-white"
+                    }`}
+                  >
+                    {notification.title}
+                  </p>
+                  <p className="text-sm text-gray-400 mt-1">
+                    {notification.message}
+                  </p>
+                  <div className="flex items-center justify-between mt-1">
+                    <span className="text-xs text-gray-500">
+                      {formatDate(notification.createdAt)}
+                    </span>
+                    {notification.fileId && (
+                      <Link
+                        href={`/files?fileId=${notification.fileId}`}
+                        className="text-xs text-blue-300 hover:text-blue-200"
+                        onClick={() => setIsOpen(false)}
+                      >
+                        View file
+                      </Link>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ExifStripping, UserSettingsSummary } from "@/types/file";
+
+const STRIPPING_LABELS: Record<ExifStripping, string> = {
+  none: "Keep all photo metadata",
+  location: "Remove location (GPS)",
+  all: "Remove all EXIF metadata",
+};
+
+export default function PhotoPrivacySettings() {
+  const [settings, setSettings] = useState<UserSettingsSummary | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSettings = async () => {
+      try {
+        const response = await fetch("/api/me/settings");
+        const data = await response.json();
+        if (!cancelled && response.ok && data.success) {
+          setSettings(data.settings);
+        }
+      } catch (error) {
+        console.error("Failed to load settings:", error);
+      }
+    };
+
+    loadSettings();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const saveSettings = async (changes: Partial<UserSettingsSummary>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/me/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to save settings");
+      }
+      setSettings(data.settings);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-6">
+      <div className="bg-white/10 backdrop-blur-sm rounded-lg border border-white/20 p-4">
+        <h2 className="text-sm font-semibold text-white">Photo privacy</h2>
+        <p className="mt-1 text-xs text-gray-300">
+          Photos are turned upright when uploaded. Choose which EXIF metadata is removed
+          from JPEG and PNG images shared by link.
+        </p>
+        <div className="mt-3 flex flex-wrap items-center gap-4">
+          <select
+            value={settings.exifStripping}
+            disabled={saving}
+            onChange={(event) =>
+              saveSettings({ exifStripping: event.target.value as ExifStripping })
+            }
+            className="bg-white/10 border border-white/20 text-white text-sm rounded-lg px-3 py-2"
+          >
+            {(Object.keys(STRIPPING_LABELS) as ExifStripping[]).map((option) => (
+              <option key={option} value={option} className="text-gray-900">
+                {STRIPPING_LABELS[option]}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.stripStoredExif}
+              disabled={saving || settings.exifStripping === "none"}
+              onChange={(event) =>
+                saveSettings({ stripStoredExif: event.target.checked })
+              }
+            />
+            <span>Also remove it from my stored copies of new uploads</span>
+          </label>
+        </div>
+        {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+      </div>
+    </div>
+  );
+}
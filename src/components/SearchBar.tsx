@@ -1,75 +1,195 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
+import { getSearchChips, interpretSearch, SearchChip } from "@/utils/naturalSearch";
+import { formatSearchQuery } from "@/utils/searchQuery";
+import { SearchSuggestion, SearchSuggestionsResponse } from "@/types/file";
 
 interface SearchBarProps {
   placeholder?: string;
   className?: string;
 }
 
+// Files page URL for a search, staying within the selected tag or folder
+function getFilesUrl(search?: string): string {
+  const params = new URLSearchParams();
+  const current = new URLSearchParams(window.location.search);
+  const tag = current.get("tag");
+  const folder = current.get("folder");
+  if (search) params.set("search", search);
+  if (tag) params.set("tag", tag);
+  if (folder) params.set("folder", folder);
+  const query = params.toString();
+  return query ? `/files?${query}` : "/files";
+}
+
+const SUGGESTION_TYPE_LABELS: Record<SearchSuggestion["type"], string> = {
+  filter: "Filter",
+  recent: "Recent",
+  file: "File",
+};
+
 export default function SearchBar({
   placeholder = "Search by filename...",
   className = "",
 }: SearchBarProps) {
   const [query, setQuery] = useState("");
   const [loading, setLoading] = useState(false);
+  // Chip being edited, and its text
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editingToken, setEditingToken] = useState("");
+  // The structured search last put in the URL, so the URL doesn't replace what the user typed
+  const pushedSearch = useRef<string | null>(null);
+  // Suggestions for what is typed, shown while the input has focus
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const router = useRouter();
   const searchParams = useSearchParams();
 
-  // Initialize search query from URL params
+  // What the typed words were understood as: the structured search sent to the API and its chips
+  const interpretation = useMemo(() => {
+    try {
+      const parsed = interpretSearch(query);
+      return { search: formatSearchQuery(parsed), chips: getSearchChips(parsed), error: null };
+    } catch (error) {
+      return {
+        search: null,
+        chips: [] as SearchChip[],
+        error: error instanceof Error ? error.message : "Invalid search",
+      };
+    }
+  }, [query]);
+
+  // Initialize search query from URL params, e.g. when following a link
   useEffect(() => {
-    const searchQuery = searchParams.get("search");
-    if (searchQuery) {
+    const searchQuery = searchParams.get("search") || "";
+    if (searchQuery !== pushedSearch.current) {
+      pushedSearch.current = searchQuery;
       setQuery(searchQuery);
     }
   }, [searchParams]);
 
+  const pushSearch = (search: string) => {
+    pushedSearch.current = search;
+    router.push(getFilesUrl(search || undefined));
+  };
+
   // Debounced search using useEffect with cleanup
   useEffect(() => {
-    const timeoutId = setTimeout(() => {
-      if (query.trim()) {
-        setLoading(true);
+    const search = interpretation.search;
+    // Invalid filters are shown instead of searched for, and unchanged searches aren't repeated
+    if (search === null || search === (searchParams.get("search") || "")) return;
 
-        // Navigate to files page with search query
-        const params = new URLSearchParams();
-        params.set("search", query.trim());
+    const timeoutId = setTimeout(() => {
+      setLoading(true);
 
-        const url = `/files?${params.toString()}`;
-        router.push(url);
+      // Navigate to files page with the structured search
+      pushedSearch.current = search;
+      router.push(getFilesUrl(search || undefined));
 
-        setTimeout(() => setLoading(false), 200);
-      } else {
-        // If query is empty, navigate to files page without search params
-        router.push("/files");
-      }
+      setTimeout(() => setLoading(false), 200);
     }, 1000); // 1 second debounce delay
 
     // Cleanup function to cancel the timeout
     return () => clearTimeout(timeoutId);
-  }, [query, router]);
+  }, [interpretation.search, searchParams, router]);
+
+  // Suggestions follow the input after a short pause, ignoring answers to earlier input
+  useEffect(() => {
+    if (!showSuggestions) return;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/files/suggest?q=${encodeURIComponent(query)}`, {
+          signal: controller.signal,
+        });
+        const data: SearchSuggestionsResponse = await response.json();
+        if (response.ok && data.success) {
+          setSuggestions(data.suggestions);
+          setHighlightedIndex(-1);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Failed to load search suggestions:", error);
+        }
+      }
+    }, 200);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [query, showSuggestions]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newQuery = e.target.value;
     setQuery(newQuery);
+    setShowSuggestions(true);
+  };
+
+  // Files open directly; searches and filters replace the input, and filters keep the list open
+  const pickSuggestion = (suggestion: SearchSuggestion) => {
+    setHighlightedIndex(-1);
+    if (suggestion.type === "file" && suggestion.fileId) {
+      setShowSuggestions(false);
+      router.push(`/files?fileId=${encodeURIComponent(suggestion.fileId)}`);
+    } else if (suggestion.type === "recent") {
+      setShowSuggestions(false);
+      setQuery(suggestion.value);
+      pushSearch(suggestion.value);
+    } else {
+      setQuery(suggestion.value);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const visible = showSuggestions && suggestions.length > 0;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setShowSuggestions(true);
+      if (suggestions.length === 0) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlightedIndex((index) =>
+        index < 0 && step < 0
+          ? suggestions.length - 1
+          : (index + step + suggestions.length) % suggestions.length,
+      );
+    } else if (e.key === "Enter" && visible && highlightedIndex >= 0) {
+      e.preventDefault();
+      pickSuggestion(suggestions[highlightedIndex]);
+    } else if (e.key === "Escape" && visible) {
+      e.preventDefault();
+      setShowSuggestions(false);
+      setHighlightedIndex(-1);
+    }
   };
 
   const handleClear = () => {
     setQuery("");
-    router.push("/files");
+    pushSearch("");
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (query.trim()) {
-      const params = new URLSearchParams();
-      params.set("search", query.trim());
-      router.push(`/files?${params.toString()}`);
-    } else {
-      router.push("/files");
+    setShowSuggestions(false);
+    if (interpretation.search !== null) {
+      pushSearch(interpretation.search);
     }
   };
 
+  // Editing or removing a chip turns the search into its structured form
+  const replaceChip = (index: number, token: string | null) => {
+    const tokens = interpretation.chips.map((chip, chipIndex) =>
+      chipIndex === index ? token : chip.token,
+    );
+    setQuery(tokens.filter((value) => value && value.trim()).join(" "));
+    setEditingIndex(null);
+  };
+
   return (
     <div className={`relative ${className}`}>
       <form onSubmit={handleSubmit} className="relative">
@@ -97,6 +217,16 @@ export default function SearchBar({
             type="text"
             value={query}
             onChange={handleInputChange}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setShowSuggestions(true)}
+            onBlur={() => setShowSuggestions(false)}
+            role="combobox"
+            aria-expanded={showSuggestions && suggestions.length > 0}
+            aria-controls="search-suggestions"
+            aria-autocomplete="list"
+            aria-activedescendant={
+              highlightedIndex >= 0 ? `search-suggestion-${highlightedIndex}` : undefined
+            }
             placeholder={placeholder}
             className="block w-full pl-10 pr-10 py-2 border border-white/20 rounded-lg bg-white/10 backdrop-blur-sm text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
           />
@@ -117,6 +247,101 @@ export default function SearchBar({
           )}
         </div>
       </form>
+
+      {showSuggestions && suggestions.length > 0 && (
+        <ul
+          id="search-suggestions"
+          role="listbox"
+          className="absolute z-20 left-0 right-0 mt-1 bg-gray-900/95 border border-white/20 rounded-lg backdrop-blur-sm shadow-lg overflow-hidden"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.type}-${suggestion.fileId ?? suggestion.value}`}
+              id={`search-suggestion-${index}`}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              // Picking happens before the input loses focus and closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pickSuggestion(suggestion);
+              }}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              className={`flex items-center justify-between gap-3 px-3 py-2 text-sm cursor-pointer ${
+                index === highlightedIndex
+                  ? "bg-gradient-to-r from-blue-500/20 to-purple-600/20 text-white"
+                  : "text-gray-300"
+              }`}
+            >
+              <span className="truncate">
+                {suggestion.token ? (
+                  <>
+                    <span className="font-mono text-blue-200">{suggestion.token}</span>
+                    <span className="ml-2 text-gray-400">{suggestion.label}</span>
+                  </>
+                ) : (
+                  suggestion.label
+                )}
+              </span>
+              <span className="flex-shrink-0 text-xs text-gray-500">
+                {SUGGESTION_TYPE_LABELS[suggestion.type]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* How the search was understood, as chips that can be edited or removed */}
+      {interpretation.chips.some((chip) => !chip.isText) && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {interpretation.chips.map((chip, index) =>
+            editingIndex === index ? (
+              <input
+                key={index}
+                autoFocus
+                value={editingToken}
+                onChange={(e) => setEditingToken(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") replaceChip(index, editingToken);
+                  if (e.key === "Escape") setEditingIndex(null);
+                }}
+                onBlur={() => replaceChip(index, editingToken)}
+                className="text-xs bg-white/10 border border-purple-400 text-white rounded-full px-2.5 py-1 focus:outline-none"
+              />
+            ) : (
+              <span
+                key={index}
+                className={`inline-flex items-center text-xs rounded-full px-2.5 py-1 border ${
+                  chip.isText
+                    ? "bg-white/5 border-white/20 text-gray-300"
+                    : "bg-gradient-to-r from-blue-500/20 to-purple-600/20 border-blue-400/30 text-blue-200"
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingIndex(index);
+                    setEditingToken(chip.token);
+                  }}
+                  title={`${chip.token} (click to edit)`}
+                >
+                  {chip.label}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => replaceChip(index, null)}
+                  className="ml-1.5 text-gray-400 hover:text-white"
+                  title="Remove"
+                >
+                  &times;
+                </button>
+              </span>
+            ),
+          )}
+        </div>
+      )}
+      {interpretation.error && (
+        <p className="mt-2 text-xs text-red-300">{interpretation.error}</p>
+      )}
     </div>
   );
 }
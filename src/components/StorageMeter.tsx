@@ -0,0 +1,93 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { StorageUsageSummary } from "@/types/file";
+
+interface StorageMeterProps {
+  // "dark" for the glass header, "light" for the white navigation bar
+  variant?: "dark" | "light";
+}
+
+export default function StorageMeter({ variant = "dark" }: StorageMeterProps) {
+  const [usage, setUsage] = useState<StorageUsageSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadUsage = async () => {
+      try {
+        const response = await fetch("/api/me/usage");
+        const data = await response.json();
+        if (!cancelled && response.ok && data.success) {
+          setUsage(data.usage);
+        }
+      } catch (error) {
+        console.error("Failed to load storage usage:", error);
+      }
+    };
+
+    loadUsage();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!usage) {
+    return null;
+  }
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes === 0) return "0 Bytes";
+    const k = 1024;
+    const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+  };
+
+  const percent =
+    usage.quotaBytes === null
+      ? 0
+      : Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100);
+
+  const barColor =
+    percent >= 90
+      ? "bg-red-500"
+      : percent >= 75
+        ? "bg-yellow-500"
+        : "bg-gradient-to-r from-blue-500 to-purple-600";
+
+  const label =
+    usage.quotaBytes === null
+      ? `${formatFileSize(usage.usedBytes)} used`
+      : `${formatFileSize(usage.usedBytes)} of ${formatFileSize(usage.quotaBytes)}`;
+
+  return (
+    <div
+      className="w-44"
+      title={`${usage.planName} plan${
+        usage.availableBytes === null
+          ? ", unlimited storage"
+          : `, ${formatFileSize(usage.availableBytes)} available`
+      }`}
+    >
+      <div
+        className={`flex justify-between text-xs mb-1 ${
+          variant === "dark" ? "text-gray-300" : "text-gray-500"
+        }`}
+      >
+        <span className="truncate">{label}</span>
+        <span className="ml-2 shrink-0">{usage.planName}</span>
+      </div>
+      <div
+        className={`h-1.5 rounded-full overflow-hidden ${
+          variant === "dark" ? "bg-white/20" : "bg-gray-200"
+        }`}
+      >
+        <div
+          className={`h-full rounded-full ${barColor}`}
+          style={{ width: `${usage.quotaBytes === null ? 100 : percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useId, useState } from "react";
+import { TagItem } from "@/types/file";
+
+interface TagChipsProps {
+  fileId: string;
+  tags?: TagItem[];
+  // The user's tags, suggested while typing
+  availableTags?: TagItem[];
+  onChange?: (tags: TagItem[]) => void;
+}
+
+export default function TagChips({
+  fileId,
+  tags = [],
+  availableTags = [],
+  onChange,
+}: TagChipsProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newTagName, setNewTagName] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const suggestionsId = useId();
+
+  const updateTags = async (request: Promise<Response>, fallbackError: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await request;
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || fallbackError);
+      }
+      onChange?.(data.tags);
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : fallbackError);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const addTag = async () => {
+    const name = newTagName.trim();
+    if (!name) {
+      setIsAdding(false);
+      return;
+    }
+
+    const added = await updateTags(
+      fetch(`/api/files/${fileId}/tags`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ names: [name] }),
+      }),
+      "Failed to add tag",
+    );
+    if (added) {
+      setNewTagName("");
+      setIsAdding(false);
+    }
+  };
+
+  const removeTag = (tag: TagItem) =>
+    updateTags(
+      fetch(`/api/files/${fileId}/tags/${tag.id}`, { method: "DELETE" }),
+      "Failed to remove tag",
+    );
+
+  // Tags applied by a rule are accepted or rejected; rejected ones aren't applied again
+  const reviewTag = (tag: TagItem, action: "accept" | "reject") =>
+    updateTags(
+      fetch(`/api/files/${fileId}/tags/${tag.id}/${action}`, { method: "POST" }),
+      `Failed to ${action} tag`,
+    );
+
+  const suggestions = availableTags.filter(
+    (available) => !tags.some((tag) => tag.id === available.id),
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-1" onClick={(e) => e.stopPropagation()}>
+      {tags.map((tag) => (
+        <span
+          key={tag.id}
+          className={`inline-flex items-center text-xs rounded-full pl-2 pr-1 py-0.5 ${
+            tag.autoApplied
+              ? "bg-purple-500/10 text-purple-300 border border-dashed border-purple-400/50"
+              : "bg-purple-500/20 text-purple-200 border border-purple-400/30"
+          }`}
+          title={tag.autoApplied ? "Added automatically by a rule" : undefined}
+        >
+          {tag.name}
+          {tag.autoApplied && (
+            <button
+              onClick={() => reviewTag(tag, "accept")}
+              disabled={isBusy}
+              className="ml-1 w-4 h-4 rounded-full hover:bg-white/20 leading-none text-green-300"
+              title={`Keep tag ${tag.name}`}
+            >
+              &#10003;
+            </button>
+          )}
+          <button
+            onClick={() => (tag.autoApplied ? reviewTag(tag, "reject") : removeTag(tag))}
+            disabled={isBusy}
+            className="ml-1 w-4 h-4 rounded-full hover:bg-white/20 leading-none"
+            title={tag.autoApplied ? `Reject tag ${tag.name}` : `Remove tag ${tag.name}`}
+          >
+            &times;
+          </button>
+        </span>
+      ))}
+      {isAdding ? (
+        <>
+          <input
+            autoFocus
+            value={newTagName}
+            list={suggestionsId}
+            disabled={isBusy}
+            onChange={(e) => setNewTagName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addTag();
+              if (e.key === "Escape") {
+                setNewTagName("");
+                setIsAdding(false);
+              }
+            }}
+            onBlur={() => {
+              if (!newTagName.trim()) setIsAdding(false);
+            }}
+            placeholder="Tag name"
+            className="text-xs bg-white/10 border border-white/20 text-white rounded-full px-2 py-0.5 w-28 focus:outline-none focus:border-purple-400"
+          />
+          <datalist id={suggestionsId}>
+            {suggestions.map((tag) => (
+              <option key={tag.id} value={tag.name} />
+            ))}
+          </datalist>
+        </>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className="text-xs text-gray-400 hover:text-white border border-dashed border-white/20 rounded-full px-2 py-0.5"
+          title="Add tag"
+        >
+          + Tag
+        </button>
+      )}
+      {error && <span className="text-xs text-red-300">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { TagRuleCondition, TagRuleItem } from "@/types/file";
+
+interface TagRulesProps {
+  // Called after the rules were re-run, when tags on files may have changed
+  onRulesRun: () => void;
+}
+
+const CONDITION_LABELS: Record<TagRuleCondition, string> = {
+  mimeType: "File type",
+  filename: "File name",
+  exif: "EXIF",
+  csvHeader: "CSV column",
+  keyword: "Text contains",
+};
+
+const EXIF_FIELDS = ["cameraMake", "cameraModel", "lensModel", "takenAt", "location"];
+
+function describeRule(rule: TagRuleItem): string {
+  const condition = rule.field
+    ? `${CONDITION_LABELS[rule.condition]} ${rule.field}`
+    : CONDITION_LABELS[rule.condition];
+  return `${condition}: ${rule.pattern}`;
+}
+
+export default function TagRules({ onRulesRun }: TagRulesProps) {
+  const [rules, setRules] = useState<TagRuleItem[]>([]);
+  const [tagName, setTagName] = useState("");
+  const [condition, setCondition] = useState<TagRuleCondition>("filename");
+  const [field, setField] = useState(EXIF_FIELDS[0]);
+  const [pattern, setPattern] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/tag-rules");
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setRules(data.rules);
+      }
+    } catch (err) {
+      console.error("Error loading tag rules:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const sendRequest = async (url: string, init: RequestInit, fallbackError: string) => {
+    setIsBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || fallbackError);
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tagName.trim() || !pattern.trim()) return;
+
+    const data = await sendRequest(
+      "/api/tag-rules",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          tagName,
+          condition,
+          ...(condition === "exif" ? { field } : {}),
+          pattern,
+        }),
+      },
+      "Failed to create rule",
+    );
+    if (data) {
+      setTagName("");
+      setPattern("");
+      loadRules();
+    }
+  };
+
+  const handleToggle = async (rule: TagRuleItem) => {
+    const data = await sendRequest(
+      `/api/tag-rules/${rule.id}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !rule.enabled }),
+      },
+      "Failed to update rule",
+    );
+    if (data) loadRules();
+  };
+
+  const handleDelete = async (rule: TagRuleItem) => {
+    const data = await sendRequest(
+      `/api/tag-rules/${rule.id}`,
+      { method: "DELETE" },
+      "Failed to delete rule",
+    );
+    if (data) loadRules();
+  };
+
+  // Built-in rules are turned on and off together, in the user's settings
+  const handleBuiltInToggle = async (enabled: boolean) => {
+    const data = await sendRequest(
+      "/api/me/settings",
+      {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ builtInTagRules: enabled }),
+      },
+      "Failed to update settings",
+    );
+    if (data) loadRules();
+  };
+
+  const handleRun = async () => {
+    const data = await sendRequest(
+      "/api/tag-rules/run",
+      { method: "POST" },
+      "Failed to run rules",
+    );
+    if (data) {
+      setMessage(`Checked ${data.fileCount} files, added ${data.addedCount} tags`);
+      onRulesRun();
+    }
+  };
+
+  const userRules = rules.filter((rule) => !rule.builtIn);
+  const builtInRules = rules.filter((rule) => rule.builtIn);
+  const builtInEnabled = builtInRules.some((rule) => rule.enabled);
+
+  const inputClassName =
+    "w-full text-sm bg-white/10 border border-white/20 text-white placeholder-gray-400 rounded-md px-3 py-1.5 focus:outline-none focus:border-purple-400";
+
+  return (
+    <section className="bg-white/10 backdrop-blur-sm rounded-lg border border-white/20 p-4">
+      <h2 className="text-sm font-semibold text-white mb-3">Automatic Tagging</h2>
+
+      <ul className="space-y-1">
+        {userRules.map((rule) => (
+          <li key={rule.id} className="group flex items-center text-xs">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              disabled={isBusy}
+              onChange={() => handleToggle(rule)}
+              className="mr-2"
+              title={rule.enabled ? "Turn rule off" : "Turn rule on"}
+            />
+            <span className={`flex-1 min-w-0 truncate ${rule.enabled ? "text-gray-200" : "text-gray-500"}`}>
+              <span className="text-purple-300">{rule.tagName}</span> &larr; {describeRule(rule)}
+            </span>
+            <button
+              onClick={() => handleDelete(rule)}
+              disabled={isBusy}
+              className="p-1 text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Delete rule"
+            >
+              &times;
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <label className="flex items-center mt-3 text-xs text-gray-300">
+        <input
+          type="checkbox"
+          checked={builtInEnabled}
+          disabled={isBusy}
+          onChange={(e) => handleBuiltInToggle(e.target.checked)}
+          className="mr-2"
+        />
+        Use built-in rules
+      </label>
+      {builtInEnabled && (
+        <ul className="mt-1 ml-5 space-y-0.5">
+          {builtInRules.map((rule) => (
+            <li key={rule.id} className="text-xs text-gray-400 truncate">
+              <span className="text-purple-300">{rule.tagName}</span> &larr; {describeRule(rule)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="mt-4 space-y-2">
+        <input
+          value={tagName}
+          disabled={isBusy}
+          onChange={(e) => setTagName(e.target.value)}
+          placeholder="Tag"
+          className={inputClassName}
+        />
+        <select
+          value={condition}
+          disabled={isBusy}
+          onChange={(e) => setCondition(e.target.value as TagRuleCondition)}
+          className={inputClassName}
+        >
+          {(Object.keys(CONDITION_LABELS) as TagRuleCondition[]).map((value) => (
+            <option key={value} value={value} className="bg-slate-800">
+              {CONDITION_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        {condition === "exif" && (
+          <select
+            value={field}
+            disabled={isBusy}
+            onChange={(e) => setField(e.target.value)}
+            className={inputClassName}
+          >
+            {EXIF_FIELDS.map((value) => (
+              <option key={value} value={value} className="bg-slate-800">
+                {value}
+              </option>
+            ))}
+          </select>
+        )}
+        <input
+          value={pattern}
+          disabled={isBusy}
+          onChange={(e) => setPattern(e.target.value)}
+          placeholder={condition === "keyword" ? "Words" : "Pattern, e.g. *.pdf"}
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          disabled={isBusy || !tagName.trim() || !pattern.trim()}
+          className="w-full text-sm bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white rounded-md px-3 py-1.5"
+        >
+          Add rule
+        </button>
+      </form>
+
+      <button
+        onClick={handleRun}
+        disabled={isBusy}
+        className="mt-3 w-full text-sm bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 disabled:opacity-50 text-white rounded-md px-3 py-1.5"
+      >
+        {isBusy ? "Working..." : "Re-run on all files"}
+      </button>
+      {message && <p className="mt-2 text-xs text-green-300">{message}</p>}
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import React, { useState } from "react";
+import { TagSummary } from "@/types/file";
+
+interface TagSidebarProps {
+  tags: TagSummary[];
+  // Name of the tag files are filtered by
+  activeTag?: string | null;
+  onSelect: (tagName: string | null) => void;
+  // Called after tags were created, renamed or deleted
+  onTagsChange: () => void;
+}
+
+export default function TagSidebar({
+  tags,
+  activeTag,
+  onSelect,
+  onTagsChange,
+}: TagSidebarProps) {
+  const [newTagName, setNewTagName] = useState("");
+  const [editingTagId, setEditingTagId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sendTagRequest = async (
+    url: string,
+    init: RequestInit,
+    fallbackError: string,
+  ) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || fallbackError);
+      }
+      onTagsChange();
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : fallbackError);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTagName.trim()) return;
+
+    const created = await sendTagRequest(
+      "/api/tags",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newTagName }),
+      },
+      "Failed to create tag",
+    );
+    if (created) setNewTagName("");
+  };
+
+  const handleRename = async (tag: TagSummary) => {
+    const name = editingName.trim();
+    setEditingTagId(null);
+    if (!name || name === tag.name) return;
+
+    const renamed = await sendTagRequest(
+      `/api/tags/${tag.id}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      },
+      "Failed to rename tag",
+    );
+    // Keep the filter on the renamed tag
+    if (renamed && activeTag?.toLowerCase() === tag.name.toLowerCase()) {
+      onSelect(name);
+    }
+  };
+
+  const handleDelete = async (tag: TagSummary) => {
+    if (!confirm(`Delete the tag "${tag.name}"? It will be removed from ${tag.fileCount} files.`)) {
+      return;
+    }
+
+    const deleted = await sendTagRequest(
+      `/api/tags/${tag.id}`,
+      { method: "DELETE" },
+      "Failed to delete tag",
+    );
+    if (deleted && activeTag?.toLowerCase() === tag.name.toLowerCase()) {
+      onSelect(null);
+    }
+  };
+
+  const itemClassName = (isActive: boolean) =>
+    `flex-1 min-w-0 text-left text-sm px-3 py-1.5 rounded-md truncate ${
+      isActive
+        ? "bg-gradient-to-r from-blue-500/20 to-purple-600/20 text-blue-300 border border-blue-400/30"
+        : "text-gray-300 hover:text-white hover:bg-white/10"
+    }`;
+
+  return (
+    <aside className="bg-white/10 backdrop-blur-sm rounded-lg border border-white/20 p-4">
+      <h2 className="text-sm font-semibold text-white mb-3">Tags</h2>
+
+      <ul className="space-y-1">
+        <li className="flex">
+          <button onClick={() => onSelect(null)} className={itemClassName(!activeTag)}>
+            All files
+          </button>
+        </li>
+        {tags.map((tag) => (
+          <li key={tag.id} className="group flex items-center">
+            {editingTagId === tag.id ? (
+              <input
+                autoFocus
+                value={editingName}
+                disabled={isBusy}
+                onChange={(e) => setEditingName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleRename(tag);
+                  if (e.key === "Escape") setEditingTagId(null);
+                }}
+                onBlur={() => handleRename(tag)}
+                className="flex-1 min-w-0 text-sm bg-white/10 border border-white/20 text-white rounded-md px-3 py-1.5 focus:outline-none focus:border-purple-400"
+              />
+            ) : (
+              <>
+                <button
+                  onClick={() => onSelect(tag.name)}
+                  onDoubleClick={() => {
+                    setEditingTagId(tag.id);
+                    setEditingName(tag.name);
+                  }}
+                  className={itemClassName(
+                    activeTag?.toLowerCase() === tag.name.toLowerCase(),
+                  )}
+                  title="Double-click to rename"
+                >
+                  {tag.name}
+                  <span className="ml-2 text-xs text-gray-400">{tag.fileCount}</span>
+                </button>
+                <button
+                  onClick={() => {
+                    setEditingTagId(tag.id);
+                    setEditingName(tag.name);
+                  }}
+                  disabled={isBusy}
+                  className="ml-1 p-1 text-gray-400 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Rename tag"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z"
+                    />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => handleDelete(tag)}
+                  disabled={isBusy}
+                  className="p-1 text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Delete tag"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleCreate} className="mt-4">
+        <input
+          value={newTagName}
+          disabled={isBusy}
+          onChange={(e) => setNewTagName(e.target.value)}
+          placeholder="New tag"
+          className="w-full text-sm bg-white/10 border border-white/20 text-white placeholder-gray-400 rounded-md px-3 py-1.5 focus:outline-none focus:border-purple-400"
+        />
+      </form>
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </aside>
+  );
+}
@@ -0,0 +1,18 @@
+// Next.js calls register() once when the server starts
+export async function register() {
+  // Background jobs need Node APIs and the database, so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startStorageReconciler } = await import("@/utils/storageReconciler");
+    const { startTrashPurger } = await import("@/utils/trash");
+    const { startVirusScanner } = await import("@/utils/virusScanner");
+    const { startThumbnailGenerator } = await import("@/utils/thumbnails");
+    const { startSearchIndexer } = await import("@/utils/searchIndex");
+    const { startTextRecognizer } = await import("@/utils/ocr");
+    startStorageReconciler();
+    startTrashPurger();
+    startVirusScanner();
+    startThumbnailGenerator();
+    startSearchIndexer();
+    startTextRecognizer();
+  }
+}
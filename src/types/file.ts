@@ -9,6 +9,133 @@ export interface FileItem {
   uploadedBy?: string;
   url?: string;
   thumbnailUrl?: string;
+  // SHA-256 of the content, absent for files uploaded before content-addressed storage
+  sha256?: string;
+  // Set while the file is in the trash
+  deletedAt?: Date;
+  // When a trashed file will be permanently deleted
+  purgeAt?: Date;
+  // Number of the current version, starting at 1
+  version?: number;
+  // Only clean files can be downloaded or shared
+  scanStatus?: ScanStatus;
+  // Signature name when infected
+  scanResult?: string;
+  // Dimensions and EXIF details of JPEG and PNG images
+  imageMetadata?: ImageMetadata;
+  // Text recognized in images, once they are scanned clean
+  ocrText?: string;
+  // Mean confidence of the recognized words, from 0 to 100
+  ocrConfidence?: number;
+  // Where the content matched, in search results
+  searchSnippet?: SearchSnippetPart[];
+  // The owner's tags on the file, by name
+  tags?: TagItem[];
+  // Absent for files at the top level
+  folderId?: string;
+}
+
+export interface FolderItem {
+  id: string;
+  name: string;
+  // Null for top-level folders
+  parentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TagItem {
+  id: string;
+  name: string;
+  // Set while a tag applied by a rule waits for the user to accept or reject it
+  autoApplied?: boolean;
+}
+
+export type TagRuleCondition = "mimeType" | "filename" | "exif" | "csvHeader" | "keyword";
+
+export interface TagRuleItem {
+  id: string;
+  tagName: string;
+  condition: TagRuleCondition;
+  // EXIF field the pattern is matched against, for exif conditions
+  field?: string;
+  pattern: string;
+  enabled: boolean;
+  // Built-in rules can't be edited, only turned off as a whole in the settings
+  builtIn: boolean;
+}
+
+export interface TagSummary extends TagItem {
+  // Files with the tag, not counting files in the trash
+  fileCount: number;
+  createdAt: Date;
+}
+
+// A piece of a search snippet; match is true for the words that matched the search
+export interface SearchSnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface ImageMetadata {
+  // Of the stored image, which is always upright
+  width: number;
+  height: number;
+  cameraMake?: string;
+  cameraModel?: string;
+  lensModel?: string;
+  // Local time of the camera, as recorded: "2024-05-01T14:03:22"
+  takenAt?: string;
+  // EXIF orientation (1-8) the image was uploaded with, before it was turned upright
+  orientation?: number;
+  // Absent when it was never recorded or has been removed
+  location?: { latitude: number; longitude: number };
+}
+
+// EXIF data removed from images: "location" only removes GPS coordinates
+export type ExifStripping = "none" | "location" | "all";
+
+export interface UserSettingsSummary {
+  exifStripping: ExifStripping;
+  // Whether exifStripping also applies to the stored copy, not only to shared copies
+  stripStoredExif: boolean;
+  // Whether the built-in automatic tagging rules apply to new uploads
+  builtInTagRules: boolean;
+}
+
+// "unscanned" content was stored while no virus scanner was configured, and is scanned once one is
+export type ScanStatus = "pending" | "clean" | "infected" | "error" | "unscanned";
+
+// Whether unscanned content may be downloaded and shared, opted into with
+// NEXT_PUBLIC_ALLOW_UNSCANNED_DOWNLOADS=true for deployments without a virus scanner.
+// The NEXT_PUBLIC_ prefix makes the client show the same files as available.
+export const ALLOW_UNSCANNED_DOWNLOADS =
+  process.env.NEXT_PUBLIC_ALLOW_UNSCANNED_DOWNLOADS === "true";
+
+// Statuses of content that can be downloaded; the server blocks unscanned content once scanning is on
+export const AVAILABLE_SCAN_STATUSES: ScanStatus[] = ALLOW_UNSCANNED_DOWNLOADS
+  ? ["clean", "unscanned"]
+  : ["clean"];
+
+export interface FileVersionItem {
+  versionNumber: number;
+  originalName: string;
+  fileSize: number;
+  mimeType: string;
+  sha256?: string;
+  uploadedBy?: string;
+  scanStatus: ScanStatus;
+  createdAt: Date;
+  isCurrent: boolean;
+}
+
+export interface StorageUsageSummary {
+  plan: "starter" | "professional" | "enterprise";
+  planName: string;
+  usedBytes: number;
+  // null when the plan is unlimited
+  quotaBytes: number | null;
+  availableBytes: number | null;
 }
 
 export interface RateLimitInfo {
@@ -24,22 +151,89 @@ export interface FileUploadResponse {
   rateLimit?: RateLimitInfo;
 }
 
+// What happened to one entry of an extracted ZIP upload
+export interface ZipEntryResult {
+  // Path of the entry in the archive
+  path: string;
+  status: "created" | "failed" | "skipped";
+  file?: FileItem;
+  // Why the entry failed or was skipped
+  error?: string;
+}
+
+export interface ZipUploadResponse {
+  success: boolean;
+  entries?: ZipEntryResult[];
+  createdCount?: number;
+  failedCount?: number;
+  error?: string;
+  rateLimit?: RateLimitInfo;
+}
+
 export interface FileListResponse {
   success: boolean;
   files: FileItem[];
   total: number;
+  // Pass as cursor to get the next page; null on the last page
+  nextCursor?: string | null;
+  error?: string;
+}
+
+// Relevance only applies to searches for text
+export type FileSortField = "relevance" | "name" | "date" | "size" | "type";
+
+export type SortOrder = "asc" | "desc";
+
+// Structured filters of a search query, e.g. type:image size:>1mb before:2026-01-01
+export interface SearchFilters {
+  // Categories (image), MIME types (image/png, image/*) or extensions (png); any may match
+  types: string[];
+  // Inclusive size bounds in bytes
+  minSize?: number;
+  maxSize?: number;
+  // Dates as YYYY-MM-DD in the user's time zone; both exclude the day itself
+  before?: string;
+  after?: string;
+  // Parts of the file name; all must match
+  names: string[];
+  // Tag names; the file must have all of them
+  tags: string[];
+  // Only files the user created share links for
+  shared?: boolean;
+  // Only files the user created share links for between these days, YYYY-MM-DD; both include the day
+  sharedFrom?: string;
+  sharedUntil?: string;
+}
+
+// A completion offered while typing a search
+export interface SearchSuggestion {
+  type: "file" | "recent" | "filter";
+  // The search to use when picked; for files, their name
+  value: string;
+  label: string;
+  // For filters, the key:value it completes to
+  token?: string;
+  // For files, opened when picked
+  fileId?: string;
+}
+
+export interface SearchSuggestionsResponse {
+  success: boolean;
+  suggestions: SearchSuggestion[];
   error?: string;
 }
 
 export interface FileUploadProgress {
   filename: string;
   progress: number;
-  status: "uploading" | "completed" | "error";
+  status: "uploading" | "retrying" | "completed" | "error";
   error?: string;
+  // For extracted ZIP archives, what happened to each entry
+  entries?: ZipEntryResult[];
 }
 
 export type FileValidationError = {
-  type: "size" | "type" | "general";
+  type: "size" | "type" | "quota" | "general";
   message: string;
   filename: string;
 };
@@ -54,7 +248,16 @@ export type SupportedFileType =
   | "text/x-markdown"
   | "text/csv";
 
-export const MAX_FILE_SIZE = 2 * 1024 * 1024; // 10MB
+// Maximum upload size in bytes, configurable with NEXT_PUBLIC_MAX_FILE_SIZE_MB.
+// The NEXT_PUBLIC_ prefix makes the client-side checks use the same limit.
+export const MAX_FILE_SIZE =
+  (Number(process.env.NEXT_PUBLIC_MAX_FILE_SIZE_MB) || 10) * 1024 * 1024; // 10MB default
+// Largest ZIP archive accepted for extraction; each file in it is still limited to MAX_FILE_SIZE
+export const MAX_ZIP_UPLOAD_SIZE = 10 * MAX_FILE_SIZE;
+// Types browsers declare for ZIP archives
+export const ZIP_MIME_TYPES = ["application/zip", "application/x-zip-compressed"];
+// Allowance on top of MAX_FILE_SIZE for multipart boundaries and form fields
+export const MULTIPART_OVERHEAD_ALLOWANCE = 16 * 1024; // 16KB
 export const SUPPORTED_FILE_TYPES: SupportedFileType[] = [
   "image/jpeg",
   "image/png",
@@ -65,3 +268,15 @@ export const SUPPORTED_FILE_TYPES: SupportedFileType[] = [
   "text/x-markdown",
   "text/csv",
 ];
+
+// Extensions accepted for each supported type; a file's name must match its type
+export const SUPPORTED_FILE_EXTENSIONS: Record<SupportedFileType, string[]> = {
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/png": [".png"],
+  "image/gif": [".gif"],
+  "image/svg+xml": [".svg"],
+  "text/plain": [".txt"],
+  "text/markdown": [".md", ".markdown"],
+  "text/x-markdown": [".md", ".markdown"],
+  "text/csv": [".csv"],
+};
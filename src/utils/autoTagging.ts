@@ -0,0 +1,551 @@
+import { randomUUID } from "crypto";
+import { and, asc, eq, gt, inArray, isNull, notInArray } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import {
+  autoTagRejections,
+  files,
+  fileTags,
+  tagRules,
+  tags,
+  File,
+} from "@/app/auth/schema";
+import { TagRuleCondition, TagRuleItem } from "@/types/file";
+import { openFileContent, readStreamToBuffer } from "@/utils/blobStore";
+import { parseStoredImageMetadata } from "@/utils/imageMetadata";
+import { fileActivityLogger } from "@/utils/logging";
+import { fileContentMatches } from "@/utils/searchIndex";
+import { findOrCreateTag, getTag } from "@/utils/tags";
+import { getUserSettings } from "@/utils/userSettings";
+
+export const TAG_RULE_CONDITIONS: TagRuleCondition[] = [
+  "mimeType",
+  "filename",
+  "exif",
+  "csvHeader",
+  "keyword",
+];
+
+// ImageMetadata fields exif rules can match; location matches as "latitude,longitude"
+export const EXIF_RULE_FIELDS = ["cameraMake", "cameraModel", "lensModel", "takenAt", "location"];
+
+export const MAX_TAG_RULE_PATTERN_LENGTH = 200;
+
+// "*" wildcards a pattern may have, once repeated ones are collapsed
+export const MAX_TAG_RULE_WILDCARDS = 10;
+
+// Files a re-run tags per query, to keep memory bounded for large libraries
+const RERUN_BATCH_SIZE = 100;
+
+// Only the first line of a CSV file holds its headers
+const MAX_CSV_HEADER_BYTES = 64 * 1024;
+
+export class AutoTaggingInProgressError extends Error {
+  constructor() {
+    super("Automatic tagging is already running for your files");
+    this.name = "AutoTaggingInProgressError";
+  }
+}
+
+interface AutoTagRule {
+  id: string;
+  tagName: string;
+  condition: TagRuleCondition;
+  field: string | null;
+  pattern: string;
+}
+
+// Rules every user has unless they turn them off in their settings
+const BUILT_IN_TAG_RULES: AutoTagRule[] = [
+  { id: "builtin:photos", tagName: "Photos", condition: "exif", field: "cameraModel", pattern: "*" },
+  { id: "builtin:geotagged", tagName: "Geotagged", condition: "exif", field: "location", pattern: "*" },
+  { id: "builtin:screenshots", tagName: "Screenshots", condition: "filename", field: null, pattern: "screen*shot*" },
+  { id: "builtin:documents", tagName: "Documents", condition: "mimeType", field: null, pattern: "application/pdf" },
+  { id: "builtin:spreadsheets", tagName: "Spreadsheets", condition: "mimeType", field: null, pattern: "text/csv" },
+  { id: "builtin:contacts", tagName: "Contacts", condition: "csvHeader", field: null, pattern: "*mail*" },
+  { id: "builtin:invoices", tagName: "Invoices", condition: "keyword", field: null, pattern: "invoice" },
+];
+
+/**
+ * Checks the condition, field and pattern of a rule
+ * @returns An error message, or null if the rule is valid
+ */
+export function validateTagRule(rule: {
+  condition: unknown;
+  field?: unknown;
+  pattern: unknown;
+}): string | null {
+  if (!TAG_RULE_CONDITIONS.includes(rule.condition as TagRuleCondition)) {
+    return `condition must be one of: ${TAG_RULE_CONDITIONS.join(", ")}`;
+  }
+  if (rule.condition === "exif") {
+    if (!EXIF_RULE_FIELDS.includes(rule.field as string)) {
+      return `field must be one of: ${EXIF_RULE_FIELDS.join(", ")}`;
+    }
+  } else if (rule.field !== undefined && rule.field !== null) {
+    return "field only applies to exif rules";
+  }
+  if (
+    typeof rule.pattern !== "string" ||
+    rule.pattern.trim().length === 0 ||
+    rule.pattern.length > MAX_TAG_RULE_PATTERN_LENGTH
+  ) {
+    return `pattern must be 1 to ${MAX_TAG_RULE_PATTERN_LENGTH} characters`;
+  }
+  if (
+    rule.condition !== "keyword" &&
+    (collapseWildcards(rule.pattern).match(/\*/g) || []).length > MAX_TAG_RULE_WILDCARDS
+  ) {
+    return `pattern can have at most ${MAX_TAG_RULE_WILDCARDS} * wildcards`;
+  }
+  return null;
+}
+
+// "**" matches the same as "*"
+function collapseWildcards(pattern: string): string {
+  return pattern.replace(/\*{2,}/g, "*");
+}
+
+/**
+ * Matches a value against a wildcard pattern, ignoring case: * stands for any text, ? for one character.
+ * Only the last * seen is ever backtracked to, so this takes at most the value's length times the
+ * pattern's length steps, where a regular expression's backtracking grows exponentially with the stars.
+ */
+function matchesPattern(value: string, pattern: string): boolean {
+  const text = value.toLowerCase();
+  const glob = collapseWildcards(pattern.trim()).toLowerCase();
+
+  let t = 0;
+  let g = 0;
+  // The last * seen, and the text position from which it is next tried to stand for more
+  let star = -1;
+  let starText = 0;
+
+  while (t < text.length) {
+    if (g < glob.length && (glob[g] === "?" || (glob[g] !== "*" && glob[g] === text[t]))) {
+      t++;
+      g++;
+    } else if (g < glob.length && glob[g] === "*") {
+      star = g++;
+      starText = t;
+    } else if (star >= 0) {
+      // Let the last * take one more character and try again after it
+      g = star + 1;
+      t = ++starText;
+    } else {
+      return false;
+    }
+  }
+  while (g < glob.length && glob[g] === "*") g++;
+  return g === glob.length;
+}
+
+function getExifValue(file: Pick<File, "imageMetadata">, field: string): string | null {
+  const metadata = parseStoredImageMetadata(file.imageMetadata);
+  if (!metadata) return null;
+
+  if (field === "location") {
+    return metadata.location
+      ? `${metadata.location.latitude},${metadata.location.longitude}`
+      : null;
+  }
+  const value = metadata[field as "cameraMake" | "cameraModel" | "lensModel" | "takenAt"];
+  return value || null;
+}
+
+/**
+ * Splits a CSV line into fields, honoring quotes
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map((value) => value.trim());
+}
+
+async function readCsvHeaders(file: Pick<File, "filename" | "blobHash">): Promise<string[]> {
+  const { stream } = await openFileContent(file);
+  const [firstLine] = (await readStreamToBuffer(stream, MAX_CSV_HEADER_BYTES))
+    .toString("utf8")
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/);
+  return parseCsvLine(firstLine);
+}
+
+/**
+ * Evaluates rules against a file
+ * @returns The rules that match
+ */
+async function findMatchingRules(file: File, rules: AutoTagRule[]): Promise<AutoTagRule[]> {
+  let csvHeaders: string[] | null = null;
+  const matching: AutoTagRule[] = [];
+
+  for (const rule of rules) {
+    let matches = false;
+    switch (rule.condition) {
+      case "mimeType":
+        matches = matchesPattern(file.mimeType, rule.pattern);
+        break;
+      case "filename":
+        matches = matchesPattern(file.originalName, rule.pattern);
+        break;
+      case "exif": {
+        const value = rule.field ? getExifValue(file, rule.field) : null;
+        matches = value !== null && matchesPattern(value, rule.pattern);
+        break;
+      }
+      case "csvHeader":
+        if (file.mimeType === "text/csv") {
+          csvHeaders ??= await readCsvHeaders(file);
+          matches = csvHeaders.some((header) => matchesPattern(header, rule.pattern));
+        }
+        break;
+      case "keyword":
+        // Text files and recognized text in images are both indexed for search
+        matches = fileContentMatches(file.id, rule.pattern);
+        break;
+    }
+    if (matches) matching.push(rule);
+  }
+
+  return matching;
+}
+
+/**
+ * A user's enabled rules, followed by the built-in rules if they haven't turned them off
+ */
+async function getActiveRules(userId: string): Promise<AutoTagRule[]> {
+  const [userRules, settings] = await Promise.all([
+    db
+      .select({
+        id: tagRules.id,
+        tagName: tags.name,
+        condition: tagRules.condition,
+        field: tagRules.field,
+        pattern: tagRules.pattern,
+      })
+      .from(tagRules)
+      .innerJoin(tags, eq(tags.id, tagRules.tagId))
+      .where(and(eq(tagRules.userId, userId), eq(tagRules.enabled, true)))
+      .orderBy(asc(tagRules.createdAt)),
+    getUserSettings(userId),
+  ]);
+
+  return settings.builtInTagRules ? [...userRules, ...BUILT_IN_TAG_RULES] : userRules;
+}
+
+/**
+ * Applies the owner's rules to a file. Matching tags are added as auto-applied, so the owner can
+ * accept or reject them; tags the owner rejected for the file are not applied again. Auto-applied
+ * tags that no longer match, e.g. after a new version was uploaded, are removed.
+ * @returns Number of tags added
+ */
+export async function applyAutoTags(file: File, rules?: AutoTagRule[]): Promise<number> {
+  if (!file.uploadedBy || file.deletedAt) return 0;
+  const userId = file.uploadedBy;
+
+  const matching = await findMatchingRules(file, rules ?? (await getActiveRules(userId)));
+
+  // Tags of built-in rules are only created once they apply to a file
+  const matchedTags = new Map<string, string>();
+  for (const rule of matching) {
+    const tag = await findOrCreateTag(userId, rule.tagName);
+    if (!matchedTags.has(tag.id)) matchedTags.set(tag.id, rule.id);
+  }
+
+  const rejected = await db
+    .select({ tagId: autoTagRejections.tagId })
+    .from(autoTagRejections)
+    .where(eq(autoTagRejections.fileId, file.id));
+  for (const { tagId } of rejected) {
+    matchedTags.delete(tagId);
+  }
+
+  const now = new Date();
+  return db.transaction((tx) => {
+    tx.delete(fileTags)
+      .where(
+        and(
+          eq(fileTags.fileId, file.id),
+          eq(fileTags.autoApplied, true),
+          notInArray(fileTags.tagId, [...matchedTags.keys()]),
+        ),
+      )
+      .run();
+
+    if (matchedTags.size === 0) return 0;
+
+    // Tags the file already has, applied by hand or accepted, are left as they are
+    return tx
+      .insert(fileTags)
+      .values(
+        [...matchedTags].map(([tagId, ruleId]) => ({
+          fileId: file.id,
+          tagId,
+          autoApplied: true,
+          ruleId,
+          createdAt: now,
+        })),
+      )
+      .onConflictDoNothing()
+      .returning({ tagId: fileTags.tagId })
+      .all().length;
+  });
+}
+
+/**
+ * Applies the owner's rules to a file after its content changed. Missing tags don't make an
+ * upload fail, so failures are logged instead; the owner can re-run the rules later.
+ */
+export async function updateAutoTags(file: File): Promise<void> {
+  try {
+    await applyAutoTags(file);
+  } catch (error) {
+    fileActivityLogger.logActivity("auto_tagging", "AutoTagging", {
+      level: "warn",
+      userId: file.uploadedBy ?? undefined,
+      fileId: file.id,
+      error: error instanceof Error ? error.message : String(error),
+      details: {
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+}
+
+// Users whose files are being re-tagged, so a library isn't processed twice at once
+const rerunsInProgress = new Set<string>();
+
+/**
+ * Applies a user's rules to all their files, e.g. after they added a rule.
+ * Throws AutoTaggingInProgressError if a re-run for the user is already going on.
+ * @returns Number of files processed and tags added
+ */
+export async function rerunAutoTagging(
+  userId: string,
+): Promise<{ fileCount: number; addedCount: number }> {
+  if (rerunsInProgress.has(userId)) {
+    throw new AutoTaggingInProgressError();
+  }
+  rerunsInProgress.add(userId);
+
+  try {
+    const rules = await getActiveRules(userId);
+    let fileCount = 0;
+    let addedCount = 0;
+    let lastId = "";
+
+    for (;;) {
+      const batch = await db
+        .select()
+        .from(files)
+        .where(and(eq(files.uploadedBy, userId), isNull(files.deletedAt), gt(files.id, lastId)))
+        .orderBy(asc(files.id))
+        .limit(RERUN_BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      for (const file of batch) {
+        addedCount += await applyAutoTags(file, rules);
+        fileCount++;
+      }
+      lastId = batch[batch.length - 1].id;
+    }
+
+    return { fileCount, addedCount };
+  } finally {
+    rerunsInProgress.delete(userId);
+  }
+}
+
+/**
+ * Keeps an auto-applied tag on a file, as if the user had added it
+ * @returns Whether the file had the tag pending review
+ */
+export async function acceptAutoTag(
+  userId: string,
+  fileId: string,
+  tagId: string,
+): Promise<boolean> {
+  const accepted = await db
+    .update(fileTags)
+    .set({ autoApplied: false })
+    .where(
+      and(
+        eq(fileTags.fileId, fileId),
+        eq(fileTags.autoApplied, true),
+        inArray(
+          fileTags.tagId,
+          db.select({ id: tags.id }).from(tags).where(and(eq(tags.id, tagId), eq(tags.userId, userId))),
+        ),
+      ),
+    )
+    .returning({ tagId: fileTags.tagId });
+  return accepted.length > 0;
+}
+
+/**
+ * Takes an auto-applied tag off a file and keeps rules from applying it to the file again
+ * @returns Whether the file had the tag pending review
+ */
+export async function rejectAutoTag(
+  userId: string,
+  fileId: string,
+  tagId: string,
+): Promise<boolean> {
+  if (!(await getTag(userId, tagId))) return false;
+
+  return db.transaction((tx) => {
+    const removed = tx
+      .delete(fileTags)
+      .where(
+        and(
+          eq(fileTags.fileId, fileId),
+          eq(fileTags.tagId, tagId),
+          eq(fileTags.autoApplied, true),
+        ),
+      )
+      .returning({ tagId: fileTags.tagId })
+      .all();
+    if (removed.length === 0) return false;
+
+    tx.insert(autoTagRejections)
+      .values({ fileId, tagId, createdAt: new Date() })
+      .onConflictDoNothing()
+      .run();
+    return true;
+  });
+}
+
+function toTagRuleItem(rule: AutoTagRule, enabled: boolean, builtIn: boolean): TagRuleItem {
+  return {
+    id: rule.id,
+    tagName: rule.tagName,
+    condition: rule.condition,
+    ...(rule.field ? { field: rule.field } : {}),
+    pattern: rule.pattern,
+    enabled,
+    builtIn,
+  };
+}
+
+/**
+ * A user's rules, oldest first, followed by the built-in rules
+ */
+export async function getTagRules(userId: string): Promise<TagRuleItem[]> {
+  const [userRules, settings] = await Promise.all([
+    db
+      .select({ rule: tagRules, tagName: tags.name })
+      .from(tagRules)
+      .innerJoin(tags, eq(tags.id, tagRules.tagId))
+      .where(eq(tagRules.userId, userId))
+      .orderBy(asc(tagRules.createdAt)),
+    getUserSettings(userId),
+  ]);
+
+  return [
+    ...userRules.map(({ rule, tagName }) =>
+      toTagRuleItem({ ...rule, tagName }, rule.enabled, false),
+    ),
+    ...BUILT_IN_TAG_RULES.map((rule) => toTagRuleItem(rule, settings.builtInTagRules, true)),
+  ];
+}
+
+/**
+ * One of the user's own rules; built-in rules are never returned
+ */
+export async function getTagRule(userId: string, ruleId: string): Promise<TagRuleItem | null> {
+  const [row] = await db
+    .select({ rule: tagRules, tagName: tags.name })
+    .from(tagRules)
+    .innerJoin(tags, eq(tags.id, tagRules.tagId))
+    .where(and(eq(tagRules.id, ruleId), eq(tagRules.userId, userId)))
+    .limit(1);
+  return row ? toTagRuleItem({ ...row.rule, tagName: row.tagName }, row.rule.enabled, false) : null;
+}
+
+// A rule as created or updated by the user, validated with validateTagRule
+export interface TagRuleInput {
+  tagName: string;
+  condition: TagRuleCondition;
+  field?: string | null;
+  pattern: string;
+  enabled: boolean;
+}
+
+async function toTagRuleValues(userId: string, input: TagRuleInput) {
+  const tag = await findOrCreateTag(userId, input.tagName);
+  return {
+    tagId: tag.id,
+    condition: input.condition,
+    field: input.condition === "exif" ? (input.field ?? null) : null,
+    pattern:
+      input.condition === "keyword" ? input.pattern.trim() : collapseWildcards(input.pattern.trim()),
+    enabled: input.enabled,
+  };
+}
+
+/**
+ * Creates a rule, and its tag if the user has no tag with that name yet.
+ * The rule applies to new uploads; existing files are tagged by a re-run.
+ */
+export async function createTagRule(userId: string, input: TagRuleInput): Promise<TagRuleItem> {
+  const values = await toTagRuleValues(userId, input);
+  const now = new Date();
+  const [rule] = await db
+    .insert(tagRules)
+    .values({ id: randomUUID(), userId, ...values, createdAt: now, updatedAt: now })
+    .returning();
+  return (await getTagRule(userId, rule.id))!;
+}
+
+/**
+ * Replaces a rule, creating its tag if the user has no tag with that name yet
+ * @returns The updated rule, or null if the user has no such rule
+ */
+export async function updateTagRule(
+  userId: string,
+  ruleId: string,
+  input: TagRuleInput,
+): Promise<TagRuleItem | null> {
+  const values = await toTagRuleValues(userId, input);
+  const updated = await db
+    .update(tagRules)
+    .set({ ...values, updatedAt: new Date() })
+    .where(and(eq(tagRules.id, ruleId), eq(tagRules.userId, userId)))
+    .returning({ id: tagRules.id });
+  return updated.length > 0 ? getTagRule(userId, ruleId) : null;
+}
+
+/**
+ * Deletes a rule. Tags it applied stay on their files.
+ * @returns Whether the user had such a rule
+ */
+export async function deleteTagRule(userId: string, ruleId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(tagRules)
+    .where(and(eq(tagRules.id, ruleId), eq(tagRules.userId, userId)))
+    .returning({ id: tagRules.id });
+  return deleted.length > 0;
+}
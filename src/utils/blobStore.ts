@@ -0,0 +1,255 @@
+import { eq, sql } from "drizzle-orm";
+import { createReadStream } from "fs";
+import { pipeline, Readable } from "stream";
+import { db } from "@/app/auth/db";
+import { blobs, Blob, File } from "@/app/auth/schema";
+import {
+  BlobEncryption,
+  createBlobDecryptor,
+  createBlobEncryptor,
+} from "@/utils/encryption";
+import { deleteFile } from "@/utils/fileUtils";
+import { getStorage, StorageObjectNotFoundError } from "@/utils/storage";
+import { discardTempFile, ReceivedUpload } from "@/utils/uploadPipeline";
+
+// Blob objects live under this storage prefix, fanned out by the first hash bytes
+export const BLOB_KEY_PREFIX = "blobs/";
+
+/**
+ * Storage key for a blob, e.g. blobs/ab/cd/abcd1234...
+ */
+export function blobKey(sha256: string): string {
+  return `${BLOB_KEY_PREFIX}${sha256.slice(0, 2)}/${sha256.slice(2, 4)}/${sha256}`;
+}
+
+// Blob objects being written by this process, so identical uploads wait for them
+const blobWrites = new Map<string, Promise<Blob>>();
+
+// Whether a blob's object is completely written; plaintext blobs predate encryption at rest
+function isBlobWritten(blob: Blob): boolean {
+  return !blob.wrappedKey || !!blob.authTag;
+}
+
+/**
+ * Encrypts the upload into the blob's object, then stores the encryption parameters,
+ * which marks the blob as written
+ */
+async function writeBlobObject(upload: ReceivedUpload, blob: Blob): Promise<Blob> {
+  const { cipher, encryption, getAuthTag } = createBlobEncryptor();
+
+  // pipeline() forwards read errors to the cipher so the upload fails instead of hanging
+  const encrypted = pipeline(
+    createReadStream(upload.tempPath),
+    cipher,
+    () => {},
+  );
+  await getStorage().put(blob.storageKey, encrypted);
+
+  const [storedBlob] = await db
+    .update(blobs)
+    .set({ ...encryption, authTag: getAuthTag(), updatedAt: new Date() })
+    .where(eq(blobs.sha256, blob.sha256))
+    .returning();
+
+  return storedBlob;
+}
+
+/**
+ * Encrypts and stores a received upload as a content-addressed blob and takes a reference to it.
+ * If a blob with the same SHA-256 already exists the temp file is discarded
+ * and only the reference count goes up. While another upload of the same content is still
+ * writing the blob, this waits for it, and writes the blob itself if that upload failed.
+ */
+export async function storeBlob(upload: ReceivedUpload): Promise<Blob> {
+  const now = new Date();
+
+  // Take the reference first so a concurrent release cannot delete the blob
+  // between the existence check and the insert. The key is stored right away;
+  // the encryption parameters are completed once the object is written.
+  const [blob] = await db
+    .insert(blobs)
+    .values({
+      sha256: upload.sha256,
+      storageKey: blobKey(upload.sha256),
+      size: upload.size,
+      refCount: 1,
+      ...createBlobEncryptor().encryption,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: blobs.sha256,
+      set: { refCount: sql`${blobs.refCount} + 1`, updatedAt: now },
+    })
+    .returning();
+
+  try {
+    for (;;) {
+      const pending = blobWrites.get(blob.sha256);
+      if (pending) {
+        // Its failure is handled by its own upload; this one then writes the blob
+        await pending.catch(() => {});
+        continue;
+      }
+
+      if (blob.refCount > 1) {
+        const [current] = await db
+          .select()
+          .from(blobs)
+          .where(eq(blobs.sha256, blob.sha256))
+          .limit(1);
+        if (isBlobWritten(current)) return current;
+        // A write may have started while reading
+        if (blobWrites.has(blob.sha256)) continue;
+      }
+
+      // Nothing has written the blob, or its write failed or was interrupted
+      const write = writeBlobObject(upload, blob);
+      blobWrites.set(blob.sha256, write);
+      try {
+        return await write;
+      } finally {
+        blobWrites.delete(blob.sha256);
+      }
+    }
+  } catch (error) {
+    await releaseBlob(blob.sha256);
+    throw error;
+  } finally {
+    await discardTempFile(upload.tempPath);
+  }
+}
+
+/**
+ * Takes another reference to an existing blob
+ * @returns false if the blob no longer exists
+ */
+export async function acquireBlob(sha256: string): Promise<boolean> {
+  const [blob] = await db
+    .update(blobs)
+    .set({ refCount: sql`${blobs.refCount} + 1`, updatedAt: new Date() })
+    .where(eq(blobs.sha256, sha256))
+    .returning({ sha256: blobs.sha256 });
+
+  return !!blob;
+}
+
+/**
+ * Drops one reference to a blob, deleting the stored object with the last reference
+ */
+export async function releaseBlob(sha256: string): Promise<void> {
+  const [blob] = await db
+    .update(blobs)
+    .set({ refCount: sql`${blobs.refCount} - 1`, updatedAt: new Date() })
+    .where(eq(blobs.sha256, sha256))
+    .returning();
+
+  if (!blob || blob.refCount > 0) {
+    return;
+  }
+
+  await db.delete(blobs).where(eq(blobs.sha256, sha256));
+  await getStorage().delete(blob.storageKey);
+}
+
+/**
+ * Storage key holding a file's bytes; files from before content-addressed
+ * storage are still stored under their filename
+ */
+export function getFileStorageKey(
+  file: Pick<File, "filename" | "blobHash">,
+): string {
+  return file.blobHash ? blobKey(file.blobHash) : file.filename;
+}
+
+/**
+ * Opens a file's decrypted content for streaming.
+ * Throws StorageObjectNotFoundError if the stored object is missing.
+ */
+export async function openFileContent(
+  file: Pick<File, "filename" | "blobHash">,
+): Promise<{ stream: Readable; size: number }> {
+  const storage = getStorage();
+
+  if (!file.blobHash) {
+    const stats = await storage.stat(file.filename);
+    if (!stats) {
+      throw new StorageObjectNotFoundError(file.filename);
+    }
+    return { stream: await storage.getStream(file.filename), size: stats.size };
+  }
+
+  const [blob] = await db
+    .select()
+    .from(blobs)
+    .where(eq(blobs.sha256, file.blobHash))
+    .limit(1);
+
+  if (!blob) {
+    throw new StorageObjectNotFoundError(blobKey(file.blobHash));
+  }
+
+  // Plaintext blobs from before encryption at rest have no wrapped key
+  if (!blob.wrappedKey) {
+    return { stream: await storage.getStream(blob.storageKey), size: blob.size };
+  }
+
+  // A blob without an auth tag is still being written by its first upload
+  const encryption = getBlobEncryption(blob);
+  if (!encryption) {
+    throw new StorageObjectNotFoundError(blob.storageKey);
+  }
+
+  const stored = await storage.getStream(blob.storageKey);
+
+  // GCM ciphertext is the same length as the plaintext, so size stays accurate
+  const decrypted = pipeline(stored, createBlobDecryptor(encryption), () => {});
+  return { stream: decrypted, size: blob.size };
+}
+
+/**
+ * Reads a stream into memory. With maxBytes, reading stops and the stream is closed once that
+ * much was read, and only that much is returned.
+ */
+export async function readStreamToBuffer(
+  stream: Readable,
+  maxBytes = Number.POSITIVE_INFINITY,
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+    length += (chunk as Buffer).length;
+    if (length >= maxBytes) break;
+  }
+  stream.destroy();
+  return Buffer.concat(chunks).subarray(0, maxBytes);
+}
+
+/**
+ * Encryption parameters of a blob, or null for plaintext blobs and blobs still being written
+ */
+export function getBlobEncryption(blob: Blob): BlobEncryption | null {
+  if (!blob.encryptionKeyId || !blob.wrappedKey || !blob.iv || !blob.authTag) {
+    return null;
+  }
+  return {
+    encryptionKeyId: blob.encryptionKeyId,
+    wrappedKey: blob.wrappedKey,
+    iv: blob.iv,
+    authTag: blob.authTag,
+  };
+}
+
+/**
+ * Releases the content behind a deleted files row
+ */
+export async function releaseFileContent(
+  file: Pick<File, "filename" | "blobHash">,
+): Promise<void> {
+  if (file.blobHash) {
+    await releaseBlob(file.blobHash);
+  } else {
+    await deleteFile(file.filename);
+  }
+}
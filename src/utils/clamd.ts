@@ -0,0 +1,137 @@
+import net from "net";
+import { Readable } from "stream";
+import { AVAILABLE_SCAN_STATUSES, ScanStatus } from "@/types/file";
+
+export interface ClamdConfig {
+  host: string;
+  port: number;
+  timeoutMs: number;
+}
+
+export type ClamdScanResult =
+  | { infected: false }
+  | { infected: true; signature: string };
+
+export class ClamdError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ClamdError";
+  }
+}
+
+// clamd rejects INSTREAM chunks larger than StreamMaxLength; stay well below it
+const MAX_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Reads clamd connection settings from the environment
+ * @returns null when CLAMD_HOST is not set and scanning is disabled
+ */
+export function getClamdConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): ClamdConfig | null {
+  if (!env.CLAMD_HOST) return null;
+
+  return {
+    host: env.CLAMD_HOST,
+    port: Number(env.CLAMD_PORT) || 3310,
+    timeoutMs: (Number(env.CLAMD_TIMEOUT_SECONDS) || 60) * 1000,
+  };
+}
+
+/**
+ * Statuses of content that may be used: clean content, and unscanned content if the
+ * deployment allows it while no scanner is configured to scan it
+ */
+export function getUsableScanStatuses(): ScanStatus[] {
+  return getClamdConfig() ? ["clean"] : AVAILABLE_SCAN_STATUSES;
+}
+
+/**
+ * Parses a clamd reply such as "stream: OK" or "stream: Eicar-Signature FOUND"
+ */
+function parseReply(reply: string): ClamdScanResult {
+  if (reply.endsWith(" OK")) {
+    return { infected: false };
+  }
+
+  const found = /^stream: (.+) FOUND$/.exec(reply);
+  if (found) {
+    return { infected: true, signature: found[1] };
+  }
+
+  throw new ClamdError(reply ? `clamd: ${reply}` : "clamd closed the connection without a reply");
+}
+
+/**
+ * Scans a stream with clamd's INSTREAM command: the content is sent as
+ * length-prefixed chunks terminated by a zero-length chunk, and clamd replies
+ * once it has seen everything.
+ */
+export function scanStream(
+  source: Readable,
+  config: ClamdConfig,
+): Promise<ClamdScanResult> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host: config.host, port: config.port });
+    const replyChunks: Buffer[] = [];
+    let failure: Error | null = null;
+
+    socket.setTimeout(config.timeoutMs, () => {
+      socket.destroy(new ClamdError(`clamd did not reply within ${config.timeoutMs}ms`));
+    });
+
+    socket.on("data", (chunk: Buffer) => replyChunks.push(chunk));
+
+    socket.on("error", (error) => {
+      failure = error;
+    });
+
+    // clamd closes the connection after replying, including when it rejects the stream early
+    socket.on("close", () => {
+      source.destroy();
+      const reply = Buffer.concat(replyChunks).toString("utf8").replace(/\0/g, "").trim();
+
+      if (!reply && failure) {
+        reject(failure instanceof ClamdError ? failure : new ClamdError(failure.message));
+        return;
+      }
+
+      try {
+        resolve(parseReply(reply));
+      } catch (error) {
+        reject(error);
+      }
+    });
+
+    socket.on("connect", async () => {
+      const write = async (data: Buffer) => {
+        if (!socket.write(data)) {
+          await new Promise((done) => {
+            socket.once("drain", done);
+            socket.once("close", done);
+          });
+        }
+      };
+
+      try {
+        await write(Buffer.from("zINSTREAM\0"));
+
+        for await (const chunk of source) {
+          const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+          for (let offset = 0; offset < data.length; offset += MAX_CHUNK_SIZE) {
+            if (socket.destroyed) return;
+
+            const piece = data.subarray(offset, offset + MAX_CHUNK_SIZE);
+            const length = Buffer.alloc(4);
+            length.writeUInt32BE(piece.length);
+            await write(Buffer.concat([length, piece]));
+          }
+        }
+
+        await write(Buffer.alloc(4));
+      } catch (error) {
+        socket.destroy(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  });
+}
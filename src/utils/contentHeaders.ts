@@ -0,0 +1,42 @@
+// Types browsers display without running anything in them; every other type is always downloaded
+const INLINE_SAFE_TYPES = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "text/markdown",
+]);
+
+// Puts the response in a unique origin with scripts, forms and popups disabled
+const USER_CONTENT_CSP = "sandbox; default-src 'none'; img-src data:; style-src 'unsafe-inline'";
+
+/**
+ * Headers for serving user-uploaded content from the app's origin. Even content that gets
+ * past validation can't run as the signed-in user: it is sandboxed by CSP, never sniffed
+ * into another type, and types that can carry script (SVG, HTML, ...) are only served as downloads.
+ * PDFs are not sandboxed because browsers refuse to show sandboxed PDFs; their viewer
+ * doesn't run in the page's origin anyway.
+ */
+export function getUserContentHeaders(
+  mimeType: string | null | undefined,
+  filename: string,
+  disposition: "inline" | "attachment" = "attachment",
+): Record<string, string> {
+  const contentType = mimeType || "application/octet-stream";
+  const inline = disposition === "inline" && INLINE_SAFE_TYPES.has(contentType);
+
+  const headers: Record<string, string> = {
+    "Content-Type": contentType,
+    "X-Content-Type-Options": "nosniff",
+    "Content-Disposition": `${inline ? "inline" : "attachment"}; filename="${encodeURIComponent(filename)}"`,
+  };
+
+  if (contentType !== "application/pdf") {
+    headers["Content-Security-Policy"] = USER_CONTENT_CSP;
+  }
+
+  return headers;
+}
@@ -0,0 +1,89 @@
+import { promises as fs } from "fs";
+
+// Enough to get past an XML declaration, comments and a doctype to the root element of an SVG
+export const SNIFF_BYTES = 4096;
+
+/**
+ * What the content of a file looks like. Plain text, Markdown and CSV have no signature,
+ * so they all sniff as "text"; the extension decides between them.
+ */
+export type SniffedContentType =
+  | "image/jpeg"
+  | "image/png"
+  | "image/gif"
+  | "image/svg+xml"
+  | "text";
+
+const SIGNATURES: { mimeType: SniffedContentType; bytes: number[] }[] = [
+  { mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  {
+    mimeType: "image/png",
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  { mimeType: "image/gif", bytes: [...Buffer.from("GIF87a")] },
+  { mimeType: "image/gif", bytes: [...Buffer.from("GIF89a")] },
+];
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+
+/**
+ * Reads the first bytes of a file for sniffing
+ */
+export async function readFileHead(
+  filePath: string,
+  length: number = SNIFF_BYTES,
+): Promise<Buffer> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Text is anything without NUL bytes or control characters other than whitespace.
+ * Executables and other binaries contain both within the first few bytes.
+ */
+function isText(head: Buffer): boolean {
+  for (const byte of head) {
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d) {
+      return false;
+    }
+    if (byte === 0x7f) return false;
+  }
+  return true;
+}
+
+/**
+ * An SVG document's first element is <svg>, possibly after an XML declaration,
+ * comments, processing instructions and a doctype
+ */
+function isSvg(text: string): boolean {
+  const prolog = /^\s*(?:<\?[\s\S]*?\?>\s*|<!--[\s\S]*?-->\s*|<!DOCTYPE[^>[]*(?:\[[\s\S]*?\])?\s*>\s*)*/i;
+  const rest = text.replace(prolog, "");
+  return /^<svg[\s>/]/i.test(rest);
+}
+
+/**
+ * Detects the type of a file from its leading bytes
+ * @returns The detected type, or null for binary content that is not a supported image
+ */
+export function sniffContentType(head: Buffer): SniffedContentType | null {
+  for (const { mimeType, bytes } of SIGNATURES) {
+    if (head.length >= bytes.length && bytes.every((byte, i) => head[i] === byte)) {
+      return mimeType;
+    }
+  }
+
+  const body = head.subarray(0, UTF8_BOM.length).equals(UTF8_BOM)
+    ? head.subarray(UTF8_BOM.length)
+    : head;
+  if (!isText(body)) {
+    return null;
+  }
+
+  return isSvg(body.toString("utf8")) ? "image/svg+xml" : "text";
+}
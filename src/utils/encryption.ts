@@ -0,0 +1,193 @@
+import {
+  CipherGCM,
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  DecipherGCM,
+  randomBytes,
+} from "crypto";
+
+// Envelope encryption for stored blobs: each blob gets its own AES-256-GCM data key,
+// and only the data key wrapped with a master key is persisted next to the blob.
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+// Used outside production when STORAGE_MASTER_KEY is not set, mirroring the
+// BETTER_AUTH_SECRET fallback, so local setups work without extra configuration
+const DEVELOPMENT_KEY_ID = "development";
+
+/**
+ * Encryption parameters persisted for each blob (all binary values base64 encoded)
+ */
+export interface BlobEncryption {
+  encryptionKeyId: string;
+  wrappedKey: string;
+  iv: string;
+  authTag: string;
+}
+
+export interface MasterKeyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+export class MasterKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MasterKeyError";
+  }
+}
+
+function parseMasterKey(keyId: string, value: string): Buffer {
+  const key = Buffer.from(value.trim(), "base64");
+  if (key.length !== KEY_LENGTH) {
+    throw new MasterKeyError(
+      `Master key "${keyId}" must be ${KEY_LENGTH} bytes, base64 encoded (openssl rand -base64 32)`,
+    );
+  }
+  return key;
+}
+
+/**
+ * Loads master keys from the environment:
+ * - STORAGE_MASTER_KEY / STORAGE_MASTER_KEY_ID: key used to wrap new data keys
+ * - STORAGE_PREVIOUS_MASTER_KEYS: "id:base64key,..." still accepted for unwrapping during rotation
+ */
+export function loadMasterKeyring(
+  env: NodeJS.ProcessEnv = process.env,
+): MasterKeyring {
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (env.STORAGE_PREVIOUS_MASTER_KEYS || "").split(",")) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf(":");
+    if (separator <= 0) {
+      throw new MasterKeyError(
+        'STORAGE_PREVIOUS_MASTER_KEYS entries must look like "keyId:base64key"',
+      );
+    }
+    const keyId = entry.slice(0, separator).trim();
+    keys.set(keyId, parseMasterKey(keyId, entry.slice(separator + 1)));
+  }
+
+  if (env.NODE_ENV !== "production") {
+    const secret = env.BETTER_AUTH_SECRET || "fallback-secret-key";
+    keys.set(
+      DEVELOPMENT_KEY_ID,
+      createHash("sha256").update(`storage-master-key:${secret}`).digest(),
+    );
+  }
+
+  if (env.STORAGE_MASTER_KEY) {
+    const activeKeyId = env.STORAGE_MASTER_KEY_ID || "primary";
+    keys.set(activeKeyId, parseMasterKey(activeKeyId, env.STORAGE_MASTER_KEY));
+    return { activeKeyId, keys };
+  }
+
+  if (env.NODE_ENV === "production") {
+    throw new MasterKeyError("STORAGE_MASTER_KEY must be set in production");
+  }
+
+  return { activeKeyId: DEVELOPMENT_KEY_ID, keys };
+}
+
+let keyring: MasterKeyring | null = null;
+
+function getKeyring(): MasterKeyring {
+  if (!keyring) {
+    keyring = loadMasterKeyring();
+    if (keyring.activeKeyId === DEVELOPMENT_KEY_ID) {
+      console.warn(
+        "STORAGE_MASTER_KEY is not set, encrypting files with a development key",
+      );
+    }
+  }
+  return keyring;
+}
+
+/**
+ * Wraps a data key with a master key, returning base64(iv || authTag || ciphertext)
+ */
+export function wrapDataKey(
+  dataKey: Buffer,
+  ring: MasterKeyring = getKeyring(),
+): { encryptionKeyId: string; wrappedKey: string } {
+  const masterKey = ring.keys.get(ring.activeKeyId)!;
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, masterKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+  return {
+    encryptionKeyId: ring.activeKeyId,
+    wrappedKey: Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+      "base64",
+    ),
+  };
+}
+
+/**
+ * Recovers a data key wrapped by wrapDataKey
+ */
+export function unwrapDataKey(
+  wrappedKey: string,
+  encryptionKeyId: string,
+  ring: MasterKeyring = getKeyring(),
+): Buffer {
+  const masterKey = ring.keys.get(encryptionKeyId);
+  if (!masterKey) {
+    throw new MasterKeyError(`Master key "${encryptionKeyId}" is not configured`);
+  }
+
+  const data = Buffer.from(wrappedKey, "base64");
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    masterKey,
+    data.subarray(0, IV_LENGTH),
+  );
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+    decipher.final(),
+  ]);
+}
+
+/**
+ * Creates a cipher stream with a fresh data key.
+ * The wrapped key and IV are known up front, the auth tag only once the stream has ended.
+ */
+export function createBlobEncryptor(): {
+  cipher: CipherGCM;
+  encryption: Omit<BlobEncryption, "authTag">;
+  getAuthTag: () => string;
+} {
+  const dataKey = randomBytes(KEY_LENGTH);
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, dataKey, iv);
+
+  return {
+    cipher,
+    encryption: { ...wrapDataKey(dataKey), iv: iv.toString("base64") },
+    getAuthTag: () => cipher.getAuthTag().toString("base64"),
+  };
+}
+
+/**
+ * Creates a decipher stream for a stored blob.
+ * Tampered data is detected when the stream ends, which then errors.
+ */
+export function createBlobDecryptor(encryption: BlobEncryption): DecipherGCM {
+  const dataKey = unwrapDataKey(
+    encryption.wrappedKey,
+    encryption.encryptionKeyId,
+  );
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    dataKey,
+    Buffer.from(encryption.iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(encryption.authTag, "base64"));
+  return decipher;
+}
@@ -0,0 +1,291 @@
+import { and, asc, count, desc, eq, inArray, isNull, like, or, sql, SQL } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files, sharedFiles } from "@/app/auth/schema";
+import { FileItem, FileSortField, SearchFilters, SortOrder } from "@/types/file";
+import { toFileItem } from "@/utils/fileUtils";
+import { getFolderTreeIds } from "@/utils/folders";
+import { searchFileContents } from "@/utils/searchIndex";
+import {
+  FILE_TYPE_CATEGORIES,
+  getMimeTypesForExtension,
+  parseSearchQuery,
+  ParsedSearchQuery,
+} from "@/utils/searchQuery";
+import { hasTag } from "@/utils/tags";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Furthest time zones from UTC, in minutes
+export const MAX_TIME_ZONE_OFFSET = 14 * 60;
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+export interface FileQuery {
+  // Free text and filters, see parseSearchQuery
+  search?: string;
+  // Tag name, in addition to tag: filters in the search
+  tag?: string;
+  // A folder, or "root" for the top level. Searches include the folder's subfolders.
+  folderId?: string;
+  sort?: FileSortField;
+  order?: SortOrder;
+  // From nextCursor of the previous page
+  cursor?: string | null;
+  limit?: number;
+  // Minutes the user's time zone is behind UTC, as Date.getTimezoneOffset returns;
+  // days in date filters start at midnight there. UTC if absent.
+  timeZoneOffset?: number;
+}
+
+export interface FileQueryResult {
+  files: FileItem[];
+  total: number;
+  // Null on the last page
+  nextCursor: string | null;
+}
+
+// Position after the last file of a page: its sort value and ID, or its rank in a search
+type Cursor =
+  | { sort: Exclude<FileSortField, "relevance">; order: SortOrder; value: string | number; id: string }
+  | { sort: "relevance"; position: number; id: string };
+
+// Sort columns; uploadDate is compared as stored, in seconds
+const SORT_COLUMNS: Record<Exclude<FileSortField, "relevance">, SQL> = {
+  name: sql`${files.originalName} COLLATE NOCASE`,
+  date: sql`${files.uploadDate}`,
+  size: sql`${files.fileSize}`,
+  type: sql`${files.mimeType}`,
+};
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Reads a cursor, which must come from a query with the same sort
+ */
+function decodeCursor(encoded: string, sort: FileSortField, order: SortOrder): Cursor {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  const valid =
+    typeof cursor?.id === "string" &&
+    cursor.sort === sort &&
+    (cursor.sort === "relevance"
+      ? Number.isInteger(cursor.position) && cursor.position >= 0
+      : cursor.order === order &&
+        (typeof cursor.value === "number" || typeof cursor.value === "string"));
+  if (!valid) throw new InvalidCursorError();
+  return cursor;
+}
+
+function getSortValue(file: typeof files.$inferSelect, sort: Exclude<FileSortField, "relevance">) {
+  switch (sort) {
+    case "name":
+      return file.originalName;
+    case "date":
+      return Math.floor(file.uploadDate.getTime() / 1000);
+    case "size":
+      return file.fileSize;
+    case "type":
+      return file.mimeType;
+  }
+}
+
+// Matches text anywhere in the file name, taking % and _ literally
+function nameContains(text: string): SQL {
+  const pattern = `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+  return sql`${files.originalName} LIKE ${pattern} ESCAPE '\\'`;
+}
+
+function matchesType(type: string): SQL {
+  if (FILE_TYPE_CATEGORIES.includes(type)) return eq(files.fileType, type);
+  if (type.endsWith("/*")) return like(files.mimeType, `${type.slice(0, -1)}%`);
+  if (type.includes("/")) return eq(files.mimeType, type);
+  return inArray(files.mimeType, getMimeTypesForExtension(type));
+}
+
+// Start of a YYYY-MM-DD day in the user's time zone, in seconds as dates are stored
+function startOfDay(day: string, timeZoneOffset: number): number {
+  return (Date.parse(`${day}T00:00:00Z`) + timeZoneOffset * 60 * 1000) / 1000;
+}
+
+function sharedBetween(userId: string, filters: SearchFilters, timeZoneOffset: number): SQL {
+  return inArray(
+    files.id,
+    db
+      .select({ fileId: sharedFiles.fileId })
+      .from(sharedFiles)
+      .where(
+        and(
+          eq(sharedFiles.sharedBy, userId),
+          filters.sharedFrom
+            ? sql`${sharedFiles.createdAt} >= ${startOfDay(filters.sharedFrom, timeZoneOffset)}`
+            : undefined,
+          filters.sharedUntil
+            ? sql`${sharedFiles.createdAt} < ${startOfDay(filters.sharedUntil, timeZoneOffset) + DAY_MS / 1000}`
+            : undefined,
+        ),
+      ),
+  );
+}
+
+function matchesFilters(
+  userId: string,
+  filters: SearchFilters,
+  timeZoneOffset: number,
+): SQL | undefined {
+  return and(
+    filters.types.length > 0 ? or(...filters.types.map(matchesType)) : undefined,
+    filters.minSize !== undefined ? sql`${files.fileSize} >= ${filters.minSize}` : undefined,
+    filters.maxSize !== undefined ? sql`${files.fileSize} <= ${filters.maxSize}` : undefined,
+    filters.before
+      ? sql`${files.uploadDate} < ${startOfDay(filters.before, timeZoneOffset)}`
+      : undefined,
+    filters.after
+      ? sql`${files.uploadDate} >= ${startOfDay(filters.after, timeZoneOffset) + DAY_MS / 1000}`
+      : undefined,
+    ...filters.names.map(nameContains),
+    ...filters.tags.map((name) => hasTag(userId, name)),
+    filters.shared || filters.sharedFrom || filters.sharedUntil
+      ? sharedBetween(userId, filters, timeZoneOffset)
+      : undefined,
+  );
+}
+
+function matchesFolder(folderId: string | undefined, includeSubfolders: boolean): SQL | undefined {
+  if (!folderId) return undefined;
+  if (folderId === "root") return includeSubfolders ? undefined : isNull(files.folderId);
+  return includeSubfolders
+    ? inArray(files.folderId, getFolderTreeIds(folderId))
+    : eq(files.folderId, folderId);
+}
+
+/**
+ * A page of search results by relevance: files whose content matches first, best match first,
+ * then files only matching by name, newest first. The cursor holds the position of the last
+ * file, and the next page starts after wherever that file is now.
+ */
+async function getRankedPage(
+  filter: SQL,
+  contentIds: string[],
+  cursor: Cursor | null,
+  limit: number,
+): Promise<{ ids: string[]; nextCursor: string | null }> {
+  const matching = await db
+    .select({ id: files.id })
+    .from(files)
+    .where(filter)
+    .orderBy(desc(files.uploadDate), desc(files.id));
+
+  const matchingIds = new Set(matching.map((file) => file.id));
+  const contentIdSet = new Set(contentIds);
+  const rankedIds = [
+    ...contentIds.filter((id) => matchingIds.has(id)),
+    ...matching.map((file) => file.id).filter((id) => !contentIdSet.has(id)),
+  ];
+
+  let start = 0;
+  if (cursor?.sort === "relevance") {
+    const index = rankedIds.indexOf(cursor.id);
+    start = index >= 0 ? index + 1 : cursor.position;
+  }
+
+  const ids = rankedIds.slice(start, start + limit);
+  const hasMore = start + limit < rankedIds.length;
+  return {
+    ids,
+    nextCursor: hasMore
+      ? encodeCursor({ sort: "relevance", position: start + limit, id: ids[ids.length - 1] })
+      : null,
+  };
+}
+
+/**
+ * Lists or searches a user's files, never including other users' files or the trash.
+ * Pages are read with cursors, so files added or removed meanwhile don't shift later pages.
+ * Throws InvalidSearchQueryError for invalid filters and InvalidCursorError for invalid cursors.
+ */
+export async function queryUserFiles(userId: string, query: FileQuery): Promise<FileQueryResult> {
+  const parsed: ParsedSearchQuery | null = query.search ? parseSearchQuery(query.search) : null;
+  const text = parsed?.text || null;
+  const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  // Relevance needs text to rank by; other searches and listings default to newest first
+  const sort = query.sort === "relevance" && !text ? "date" : query.sort || (text ? "relevance" : "date");
+  const order = query.order || "desc";
+  const cursor = query.cursor ? decodeCursor(query.cursor, sort, order) : null;
+
+  const contentMatches = text ? searchFileContents(userId, text) : [];
+  const contentIds = contentMatches.map((match) => match.fileId);
+  const snippets = new Map(contentMatches.map((match) => [match.fileId, match.snippet]));
+
+  const filter = and(
+    eq(files.uploadedBy, userId),
+    isNull(files.deletedAt),
+    query.tag ? hasTag(userId, query.tag) : undefined,
+    matchesFolder(query.folderId, !!parsed),
+    parsed ? matchesFilters(userId, parsed.filters, query.timeZoneOffset ?? 0) : undefined,
+    text
+      ? or(
+          contentIds.length > 0 ? inArray(files.id, contentIds) : undefined,
+          nameContains(text),
+        )
+      : undefined,
+  )!;
+
+  const [{ total }] = await db.select({ total: count() }).from(files).where(filter);
+
+  let pageFiles: (typeof files.$inferSelect)[];
+  let nextCursor: string | null;
+
+  if (sort === "relevance") {
+    const page = await getRankedPage(filter, contentIds, cursor, limit);
+    const rows = page.ids.length > 0 ? await db.select().from(files).where(inArray(files.id, page.ids)) : [];
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+    pageFiles = page.ids.flatMap((id) => rowsById.get(id) ?? []);
+    nextCursor = page.nextCursor;
+  } else {
+    const column = SORT_COLUMNS[sort];
+    const direction = order === "asc" ? asc : desc;
+    const after =
+      cursor && cursor.sort !== "relevance"
+        ? order === "asc"
+          ? sql`(${column} > ${cursor.value} OR (${column} = ${cursor.value} AND ${files.id} > ${cursor.id}))`
+          : sql`(${column} < ${cursor.value} OR (${column} = ${cursor.value} AND ${files.id} < ${cursor.id}))`
+        : undefined;
+
+    // One extra row tells whether there is a next page; the ID breaks ties
+    const rows = await db
+      .select()
+      .from(files)
+      .where(and(filter, after))
+      .orderBy(direction(column), direction(files.id))
+      .limit(limit + 1);
+
+    pageFiles = rows.slice(0, limit);
+    const last = pageFiles[pageFiles.length - 1];
+    nextCursor =
+      rows.length > limit
+        ? encodeCursor({ sort, order, value: getSortValue(last, sort), id: last.id })
+        : null;
+  }
+
+  return {
+    files: pageFiles.map((file) => ({ ...toFileItem(file), searchSnippet: snippets.get(file.id) })),
+    total,
+    nextCursor,
+  };
+}
@@ -1,19 +1,30 @@
 import {
   SUPPORTED_FILE_TYPES,
+  SUPPORTED_FILE_EXTENSIONS,
   MAX_FILE_SIZE,
+  FileItem,
   FileValidationError,
+  SupportedFileType,
 } from "@/types/file";
+import type { File as FileRecord } from "@/app/auth/schema";
 import { randomUUID } from "crypto";
-import { promises as fs } from "fs";
 import path from "path";
+import { readFileHead, sniffContentType } from "@/utils/contentSniffing";
+import { getStorage } from "@/utils/storage";
+import { parseStoredImageMetadata } from "@/utils/imageMetadata";
+import type { ReceivedUpload } from "@/utils/uploadPipeline";
 
-export const UPLOAD_DIR = path.join(process.cwd(), "uploads");
+export type FileStreamValidationResult =
+  | { success: true; mimeType: SupportedFileType }
+  | { success: false; error: FileValidationError };
 
 /**
  * Validates a file based on size and type constraints
- * Note: This only validates the claimed file size - actual streaming validation happens in saveFile()
+ * Note: This only validates the claimed file size - actual streaming validation happens in validateFileStream()
  */
-export function validateFile(file: File): FileValidationError | null {
+export function validateFile(
+  file: Pick<File, "name" | "size" | "type">,
+): FileValidationError | null {
   // Check claimed file size (first line of defense)
   if (file.size > MAX_FILE_SIZE) {
     return {
@@ -36,43 +47,72 @@ export function validateFile(file: File): FileValidationError | null {
     };
   }
 
+  // The extension has to agree with the type, or the file could be served as something else
+  const extension = path.extname(file.name).toLowerCase();
+  if (!SUPPORTED_FILE_EXTENSIONS[file.type as SupportedFileType].includes(extension)) {
+    return {
+      type: "type",
+      message: `File extension "${extension || "(none)"}" does not match file type "${file.type}"`,
+      filename: file.name,
+    };
+  }
+
   return null;
 }
 
 /**
- * Server-side validation that actually streams and validates file content
+ * Server-side validation of an upload that has been streamed to a temp file.
+ * The size checked here is the number of bytes actually received, not the claimed size,
+ * and the content's signature has to match the declared type.
+ * @returns The detected MIME type, which is stored instead of the declared one
  */
 export async function validateFileStream(
-  file: File,
-): Promise<FileValidationError | null> {
-  // First do basic validation
-  const basicValidation = validateFile(file);
-  if (basicValidation) {
-    return basicValidation;
+  upload: ReceivedUpload,
+): Promise<FileStreamValidationResult> {
+  const validationError = validateFile({
+    name: upload.originalName,
+    size: upload.size,
+    type: upload.declaredMimeType,
+  });
+  if (validationError) {
+    return { success: false, error: validationError };
   }
 
-  // Then validate actual file size by streaming
-  const sizeValidation = await validateFileSize(file);
+  const declaredType = upload.declaredMimeType as SupportedFileType;
+  const detectedType = sniffContentType(await readFileHead(upload.tempPath));
 
-  if (!sizeValidation.valid) {
+  if (!detectedType) {
     return {
-      type: "size",
-      message: sizeValidation.error || "File size validation failed",
-      filename: file.name,
+      success: false,
+      error: {
+        type: "type",
+        message: "File content is not a supported file type",
+        filename: upload.originalName,
+      },
     };
   }
 
-  // Verify that claimed size matches actual size (detect spoofing)
-  if (Math.abs(file.size - sizeValidation.actualSize) > 1024) {
-    // Allow 1KB tolerance for headers/metadata
-    return {
-      type: "size",
-      message: `File size mismatch detected. Claimed: ${formatFileSize(file.size)}, Actual: ${formatFileSize(sizeValidation.actualSize)}. This may indicate file header spoofing.`,
-      filename: file.name,
-    };
+  // Text formats have no signature: any text is accepted for them, including SVG
+  // markup, and the extension (already matched to the declared type) decides which
+  if (declaredType.startsWith("text/")) {
+    if (detectedType === "text" || detectedType === "image/svg+xml") {
+      return {
+        success: true,
+        mimeType: declaredType === "text/x-markdown" ? "text/markdown" : declaredType,
+      };
+    }
+  } else if (detectedType === declaredType) {
+    return { success: true, mimeType: detectedType };
   }
 
-  return null;
+  return {
+    success: false,
+    error: {
+      type: "type",
+      message: `File content (${detectedType}) does not match its declared type "${declaredType}"`,
+      filename: upload.originalName,
+    },
+  };
 }
 
 /**
@@ -91,138 +131,18 @@ export function formatFileSize(bytes: number): string {
   if (bytes === 0) return "0 Bytes";
 
   const k = 1024;
-  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
   const i = Math.floor(Math.log(bytes) / Math.log(k));
 
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
 }
 
 /**
- * Ensures the upload directory exists
- */
-export async function ensureUploadDir(): Promise<void> {
-  try {
-    await fs.access(UPLOAD_DIR);
-  } catch {
-    await fs.mkdir(UPLOAD_DIR, { recursive: true });
-  }
-}
-
-/**
- * Validates file size by streaming and counting bytes to prevent spoofing
- */
-async function validateFileSize(
-  file: File,
-): Promise<{ valid: boolean; actualSize: number; error?: string }> {
-  const stream = file.stream();
-  const reader = stream.getReader();
-  let bytesRead = 0;
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-
-      if (done) break;
-
-      bytesRead += value.length;
-
-      // Check if we've exceeded the limit during streaming
-      if (bytesRead > MAX_FILE_SIZE) {
-        await reader.cancel();
-        return {
-          valid: false,
-          actualSize: bytesRead,
-          error: `File size exceeds maximum allowed (${formatFileSize(MAX_FILE_SIZE)}). Upload terminated at ${formatFileSize(bytesRead)}.`,
-        };
-      }
-    }
-
-    return { valid: true, actualSize: bytesRead };
-  } catch (error) {
-    console.error("Error validating file size:", error);
-    return {
-      valid: false,
-      actualSize: bytesRead,
-      error: "Failed to validate file size",
-    };
-  } finally {
-    reader.releaseLock();
-  }
-}
-
-/**
- * Saves a file to the upload directory with stream validation
- */
-export async function saveFile(file: File, filename: string): Promise<string> {
-  await ensureUploadDir();
-
-  // First, validate the actual file size by streaming
-  const sizeValidation = await validateFileSize(file);
-
-  if (!sizeValidation.valid) {
-    throw new Error(sizeValidation.error || "File size validation failed");
-  }
-
-  const filePath = path.join(UPLOAD_DIR, filename);
-
-  // Stream the file to disk with size monitoring
-  const stream = file.stream();
-  const reader = stream.getReader();
-  const chunks: Uint8Array[] = [];
-  let totalBytes = 0;
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-
-      if (done) break;
-
-      totalBytes += value.length;
-
-      // Double-check size limit during save (defense in depth)
-      if (totalBytes > MAX_FILE_SIZE) {
-        throw new Error(
-          `File size limit exceeded during save: ${formatFileSize(totalBytes)} > ${formatFileSize(MAX_FILE_SIZE)}`,
-        );
-      }
-
-      chunks.push(value);
-    }
-
-    // Combine all chunks and write to file
-    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-    const buffer = new Uint8Array(totalLength);
-    let offset = 0;
-
-    for (const chunk of chunks) {
-      buffer.set(chunk, offset);
-      offset += chunk.length;
-    }
-
-    await fs.writeFile(filePath, Buffer.from(buffer));
-
-    return filePath;
-  } catch (error) {
-    // Clean up partial file if it exists
-    try {
-      await fs.unlink(filePath);
-    } catch {
-      // Ignore cleanup errors
-    }
-    throw error;
-  } finally {
-    reader.releaseLock();
-  }
-}
-
-/**
- * Deletes a file from the upload directory
+ * Deletes a file from the configured storage backend
  */
 export async function deleteFile(filename: string): Promise<void> {
-  const filePath = path.join(UPLOAD_DIR, filename);
-
   try {
-    await fs.unlink(filePath);
+    await getStorage().delete(filename);
   } catch (deleteError) {
     // File might not exist, which is fine
     console.warn(`Failed to delete file ${filename}:`, deleteError);
@@ -236,6 +156,33 @@ export function getFileUrl(filename: string): string {
   return `/uploads/${filename}`;
 }
 
+/**
+ * Maps a files table row to the shape returned by the API
+ */
+export function toFileItem(file: FileRecord): FileItem {
+  return {
+    id: file.id,
+    filename: file.filename,
+    originalName: file.originalName,
+    fileSize: file.fileSize,
+    fileType: file.fileType,
+    mimeType: file.mimeType,
+    uploadDate: file.uploadDate,
+    uploadedBy: file.uploadedBy ?? undefined,
+    url: file.url ?? undefined,
+    thumbnailUrl: file.thumbnailUrl ?? undefined,
+    sha256: file.blobHash ?? undefined,
+    deletedAt: file.deletedAt ?? undefined,
+    version: file.currentVersion,
+    scanStatus: file.scanStatus,
+    scanResult: file.scanStatus === "infected" ? file.scanResult ?? undefined : undefined,
+    imageMetadata: parseStoredImageMetadata(file.imageMetadata),
+    ocrText: file.ocrText ?? undefined,
+    ocrConfidence: file.ocrConfidence ?? undefined,
+    folderId: file.folderId ?? undefined,
+  };
+}
+
 /**
  * Extracts file type category from MIME type
  */
@@ -0,0 +1,256 @@
+import { randomUUID } from "crypto";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files, File, fileVersions, FileVersion } from "@/app/auth/schema";
+import { FileVersionItem } from "@/types/file";
+import {
+  acquireBlob,
+  openFileContent,
+  releaseBlob,
+  storeBlob,
+} from "@/utils/blobStore";
+import { generateUniqueFilename, getFileUrl } from "@/utils/fileUtils";
+import { invalidateImageDerivatives } from "@/utils/imageDerivatives";
+import { updateSearchIndex } from "@/utils/searchIndex";
+import { updateAutoTags } from "@/utils/autoTagging";
+import { refreshStorageUsage } from "@/utils/storageQuota";
+import { releaseThumbnail } from "@/utils/thumbnails";
+import { writeStreamToTempFile } from "@/utils/uploadPipeline";
+import { queueFileScan } from "@/utils/virusScanner";
+
+/**
+ * The content of one version of a file, whether current (on the files row) or archived
+ */
+export type VersionContent = Pick<
+  FileVersion,
+  | "versionNumber"
+  | "filename"
+  | "originalName"
+  | "fileSize"
+  | "fileType"
+  | "mimeType"
+  | "blobHash"
+  | "uploadedBy"
+  | "scanStatus"
+  | "scannedAt"
+  | "imageMetadata"
+  | "createdAt"
+>;
+
+/**
+ * Content that replaces a file's current version. blobHash must already hold
+ * a reference taken for the files row.
+ */
+export type NewVersionContent = Pick<
+  File,
+  | "filename"
+  | "originalName"
+  | "fileSize"
+  | "fileType"
+  | "mimeType"
+  | "blobHash"
+  | "imageMetadata"
+>;
+
+export class FileVersionConflictError extends Error {
+  constructor() {
+    super("The file was changed or moved to the trash while saving a new version");
+    this.name = "FileVersionConflictError";
+  }
+}
+
+export function currentVersionOf(file: File): VersionContent {
+  return {
+    versionNumber: file.currentVersion,
+    filename: file.filename,
+    originalName: file.originalName,
+    fileSize: file.fileSize,
+    fileType: file.fileType,
+    mimeType: file.mimeType,
+    blobHash: file.blobHash,
+    uploadedBy: file.uploadedBy,
+    scanStatus: file.scanStatus,
+    scannedAt: file.scannedAt,
+    imageMetadata: file.imageMetadata,
+    createdAt: file.uploadDate,
+  };
+}
+
+export function toFileVersionItem(
+  version: VersionContent,
+  currentVersion: number,
+): FileVersionItem {
+  return {
+    versionNumber: version.versionNumber,
+    originalName: version.originalName,
+    fileSize: version.fileSize,
+    mimeType: version.mimeType,
+    sha256: version.blobHash ?? undefined,
+    uploadedBy: version.uploadedBy ?? undefined,
+    scanStatus: version.scanStatus,
+    createdAt: version.createdAt,
+    isCurrent: version.versionNumber === currentVersion,
+  };
+}
+
+/**
+ * Every version of a file, newest first
+ */
+export async function getFileVersions(file: File): Promise<VersionContent[]> {
+  const archived = await db
+    .select()
+    .from(fileVersions)
+    .where(eq(fileVersions.fileId, file.id))
+    .orderBy(desc(fileVersions.versionNumber));
+
+  return [currentVersionOf(file), ...archived];
+}
+
+/**
+ * A single version of a file, or null if it does not exist
+ */
+export async function getFileVersion(
+  file: File,
+  versionNumber: number,
+): Promise<VersionContent | null> {
+  if (versionNumber === file.currentVersion) {
+    return currentVersionOf(file);
+  }
+
+  const [version] = await db
+    .select()
+    .from(fileVersions)
+    .where(
+      and(
+        eq(fileVersions.fileId, file.id),
+        eq(fileVersions.versionNumber, versionNumber),
+      ),
+    )
+    .limit(1);
+
+  return version ?? null;
+}
+
+/**
+ * Makes new content the current version of a file and archives the previous one.
+ * The files row's blob reference moves to the archived version, so reference counts
+ * only change for the new content. Throws FileVersionConflictError if the file
+ * changed since it was read, so concurrent uploads cannot archive the same version twice.
+ */
+export function replaceFileContent(
+  file: File,
+  content: NewVersionContent,
+): File {
+  const now = new Date();
+
+  return db.transaction((tx) => {
+    const updated = tx
+      .update(files)
+      .set({
+        ...content,
+        url: getFileUrl(content.filename),
+        // The old thumbnail is released by the caller; the new one follows the scan
+        thumbnailUrl: null,
+        thumbnailBlobHash: null,
+        // New content is scanned before it can be downloaded
+        scanStatus: "pending",
+        scanResult: null,
+        scannedAt: null,
+        // Text in images is recognized again after the scan
+        ocrText: null,
+        ocrConfidence: null,
+        ocrCompletedAt: null,
+        uploadDate: now,
+        currentVersion: file.currentVersion + 1,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(files.id, file.id),
+          eq(files.currentVersion, file.currentVersion),
+          isNull(files.deletedAt),
+        ),
+      )
+      .returning()
+      .get();
+
+    if (!updated) {
+      throw new FileVersionConflictError();
+    }
+
+    tx.insert(fileVersions)
+      .values({ id: randomUUID(), fileId: file.id, ...currentVersionOf(file) })
+      .run();
+
+    return updated;
+  });
+}
+
+/**
+ * Takes a new reference to an archived version's content. Content from before
+ * content-addressed storage is copied into a blob so each version owns its reference.
+ */
+async function referenceVersionContent(version: VersionContent): Promise<string> {
+  if (version.blobHash && (await acquireBlob(version.blobHash))) {
+    return version.blobHash;
+  }
+
+  const { stream } = await openFileContent(version);
+  const copy = await writeStreamToTempFile(stream, Number.POSITIVE_INFINITY);
+  const blob = await storeBlob({
+    ...copy,
+    originalName: version.originalName,
+    declaredMimeType: version.mimeType,
+  });
+  return blob.sha256;
+}
+
+/**
+ * Rolls a file back by making an archived version's content the new current version.
+ * History is kept: the version being replaced is archived like any other.
+ * @returns The updated file, or null if the version does not exist
+ */
+export async function restoreFileVersion(
+  file: File,
+  versionNumber: number,
+): Promise<File | null> {
+  const version = await getFileVersion(file, versionNumber);
+  if (!version) {
+    return null;
+  }
+
+  const blobHash = await referenceVersionContent(version);
+  const filename = generateUniqueFilename(version.originalName);
+
+  let restoredFile: File;
+  try {
+    restoredFile = replaceFileContent(file, {
+      filename,
+      originalName: version.originalName,
+      fileSize: version.fileSize,
+      fileType: version.fileType,
+      mimeType: version.mimeType,
+      blobHash,
+      imageMetadata: version.imageMetadata,
+    });
+  } catch (error) {
+    await releaseBlob(blobHash);
+    throw error;
+  }
+
+  await releaseThumbnail(file);
+  await invalidateImageDerivatives(file.id);
+  await updateSearchIndex(restoredFile);
+  await updateAutoTags(restoredFile);
+  // Usage only changes here when legacy content was copied into a blob
+  if (file.uploadedBy) await refreshStorageUsage(file.uploadedBy);
+  queueFileScan(restoredFile.id);
+  return restoredFile;
+}
+
+/**
+ * Archived versions of a file, for releasing their content when the file is deleted
+ */
+export async function getArchivedVersions(fileId: string): Promise<FileVersion[]> {
+  return db.select().from(fileVersions).where(eq(fileVersions.fileId, fileId));
+}
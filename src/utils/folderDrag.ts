@@ -0,0 +1,31 @@
+import type React from "react";
+
+// Files and folders dragged onto a folder on the files page
+export interface DraggedItems {
+  fileIds: string[];
+  folderIds: string[];
+}
+
+// Only drags started on the files page carry this type, so dropped desktop files are ignored
+const DRAG_DATA_TYPE = "application/x-file-vault-items";
+
+export function setDraggedItems(e: React.DragEvent, items: DraggedItems): void {
+  e.dataTransfer.setData(DRAG_DATA_TYPE, JSON.stringify(items));
+  e.dataTransfer.effectAllowed = "move";
+}
+
+/**
+ * Whether a drag carries files or folders, which can be told before they are dropped
+ */
+export function hasDraggedItems(e: React.DragEvent): boolean {
+  return e.dataTransfer.types.includes(DRAG_DATA_TYPE);
+}
+
+export function getDraggedItems(e: React.DragEvent): DraggedItems | null {
+  try {
+    const items = JSON.parse(e.dataTransfer.getData(DRAG_DATA_TYPE));
+    return Array.isArray(items?.fileIds) && Array.isArray(items?.folderIds) ? items : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,250 @@
+import { randomUUID } from "crypto";
+import { and, asc, count, eq, inArray, isNull, ne, sql, SQL } from "drizzle-orm";
+import { db, sqlite } from "@/app/auth/db";
+import { files, folders, Folder } from "@/app/auth/schema";
+import { FolderItem } from "@/types/file";
+import { moveToTrash } from "@/utils/trash";
+
+export const MAX_FOLDER_NAME_LENGTH = 255;
+
+// Files one request can move at once
+export const MAX_MOVE_FILE_COUNT = 500;
+
+export class FolderNameConflictError extends Error {
+  constructor(name: string) {
+    super(`A folder named "${name}" already exists here`);
+    this.name = "FolderNameConflictError";
+  }
+}
+
+export class InvalidFolderMoveError extends Error {
+  constructor() {
+    super("A folder can't be moved into itself or one of its subfolders");
+    this.name = "InvalidFolderMoveError";
+  }
+}
+
+/**
+ * Cleans up a folder name: trims it and removes control characters
+ * @returns null if the name is empty, too long, not a string, contains a slash or is "." or ".."
+ */
+export function normalizeFolderName(name: unknown): string | null {
+  if (typeof name !== "string") return null;
+
+  const normalized = name.replace(/[\u0000-\u001F\u007F]/g, "").trim();
+  if (
+    normalized.length === 0 ||
+    normalized.length > MAX_FOLDER_NAME_LENGTH ||
+    /[/\\]/.test(normalized) ||
+    normalized === "." ||
+    normalized === ".."
+  ) {
+    return null;
+  }
+  return normalized;
+}
+
+export function toFolderItem(folder: Folder): FolderItem {
+  return {
+    id: folder.id,
+    name: folder.name,
+    parentId: folder.parentId,
+    createdAt: folder.createdAt,
+    updatedAt: folder.updatedAt,
+  };
+}
+
+function inParent(parentId: string | null): SQL {
+  return parentId ? eq(folders.parentId, parentId) : isNull(folders.parentId);
+}
+
+export async function getFolder(userId: string, folderId: string): Promise<Folder | null> {
+  const [folder] = await db
+    .select()
+    .from(folders)
+    .where(and(eq(folders.id, folderId), eq(folders.userId, userId)))
+    .limit(1);
+  return folder ?? null;
+}
+
+/**
+ * The folders directly inside a folder, or at the top level for null, by name
+ */
+export async function getSubfolders(userId: string, parentId: string | null): Promise<Folder[]> {
+  return db
+    .select()
+    .from(folders)
+    .where(and(eq(folders.userId, userId), inParent(parentId)))
+    .orderBy(asc(sql`${folders.name} COLLATE NOCASE`));
+}
+
+/**
+ * A folder and the folders above it, top-level folder first, for breadcrumbs
+ */
+export async function getFolderPath(userId: string, folderId: string): Promise<Folder[]> {
+  const path: Folder[] = [];
+  let next: string | null = folderId;
+
+  // The parent chain can't loop, as moves into a folder's own subtree are refused
+  while (next) {
+    const folder = await getFolder(userId, next);
+    if (!folder) break;
+    path.unshift(folder);
+    next = folder.parentId;
+  }
+  return path;
+}
+
+/**
+ * IDs of a folder and all folders below it
+ */
+export function getFolderTreeIds(folderId: string): string[] {
+  const rows = sqlite
+    .prepare(
+      `WITH RECURSIVE tree(id) AS (
+         SELECT ?
+         UNION
+         SELECT folders.id FROM folders JOIN tree ON folders.parentId = tree.id
+       )
+       SELECT id FROM tree`,
+    )
+    .all(folderId) as { id: string }[];
+  return rows.map((row) => row.id);
+}
+
+async function assertNameAvailable(
+  userId: string,
+  parentId: string | null,
+  name: string,
+  folderId?: string,
+): Promise<void> {
+  const [conflict] = await db
+    .select({ id: folders.id })
+    .from(folders)
+    .where(
+      and(
+        eq(folders.userId, userId),
+        inParent(parentId),
+        sql`${folders.name} = ${name} COLLATE NOCASE`,
+        folderId ? ne(folders.id, folderId) : undefined,
+      ),
+    )
+    .limit(1);
+  if (conflict) {
+    throw new FolderNameConflictError(name);
+  }
+}
+
+/**
+ * Creates a folder inside another of the user's folders, or at the top level for null.
+ * Throws FolderNameConflictError if the parent already has a folder with that name.
+ */
+export async function createFolder(
+  userId: string,
+  name: string,
+  parentId: string | null,
+): Promise<Folder> {
+  await assertNameAvailable(userId, parentId, name);
+
+  const now = new Date();
+  const [folder] = await db
+    .insert(folders)
+    .values({ id: randomUUID(), userId, parentId, name, createdAt: now, updatedAt: now })
+    .returning();
+  return folder;
+}
+
+/**
+ * Renames and/or moves a folder; a parentId of null moves it to the top level.
+ * The caller checks that the new parent is one of the user's folders.
+ * Throws InvalidFolderMoveError for moves into the folder's own subtree, and
+ * FolderNameConflictError if the destination already has a folder with the name.
+ * @returns The updated folder, or null if the user has no such folder
+ */
+export async function updateFolder(
+  userId: string,
+  folderId: string,
+  changes: { name?: string; parentId?: string | null },
+): Promise<Folder | null> {
+  const folder = await getFolder(userId, folderId);
+  if (!folder) return null;
+
+  const name = changes.name ?? folder.name;
+  const parentId = changes.parentId !== undefined ? changes.parentId : folder.parentId;
+
+  if (parentId && getFolderTreeIds(folderId).includes(parentId)) {
+    throw new InvalidFolderMoveError();
+  }
+  await assertNameAvailable(userId, parentId, name, folderId);
+
+  const [updated] = await db
+    .update(folders)
+    .set({ name, parentId, updatedAt: new Date() })
+    .where(and(eq(folders.id, folderId), eq(folders.userId, userId)))
+    .returning();
+  return updated ?? null;
+}
+
+/**
+ * What deleting a folder would affect: the folders below it and the files in all of them,
+ * not counting files already in the trash
+ */
+export async function getFolderContentCounts(
+  folderId: string,
+): Promise<{ folderCount: number; fileCount: number }> {
+  const treeIds = getFolderTreeIds(folderId);
+  const [{ fileCount }] = await db
+    .select({ fileCount: count() })
+    .from(files)
+    .where(and(inArray(files.folderId, treeIds), isNull(files.deletedAt)));
+  return { folderCount: treeIds.length - 1, fileCount };
+}
+
+/**
+ * Deletes a folder and the folders below it. Their files are moved to the trash, and are
+ * restored to the top level since their folder is gone.
+ * @returns Number of files moved to the trash, or null if the user has no such folder
+ */
+export async function deleteFolder(userId: string, folderId: string): Promise<number | null> {
+  if (!(await getFolder(userId, folderId))) return null;
+
+  const contained = await db
+    .select({ id: files.id })
+    .from(files)
+    .where(
+      and(
+        inArray(files.folderId, getFolderTreeIds(folderId)),
+        eq(files.uploadedBy, userId),
+        isNull(files.deletedAt),
+      ),
+    );
+
+  let trashedCount = 0;
+  for (const file of contained) {
+    if (await moveToTrash(file.id, userId)) trashedCount++;
+  }
+
+  // Subfolders are deleted by cascade; files lose their folderId
+  await db.delete(folders).where(and(eq(folders.id, folderId), eq(folders.userId, userId)));
+  return trashedCount;
+}
+
+/**
+ * Moves files into one of the user's folders, or to the top level for null.
+ * Files the user doesn't own, and trashed files, are ignored.
+ * @returns Number of files moved
+ */
+export async function moveFilesToFolder(
+  userId: string,
+  fileIds: string[],
+  folderId: string | null,
+): Promise<number> {
+  const moved = await db
+    .update(files)
+    .set({ folderId, updatedAt: new Date() })
+    .where(
+      and(inArray(files.id, fileIds), eq(files.uploadedBy, userId), isNull(files.deletedAt)),
+    )
+    .returning({ id: files.id });
+  return moved.length;
+}
@@ -0,0 +1,304 @@
+import { createHash, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+import { File } from "@/app/auth/schema";
+import { openFileContent, readStreamToBuffer } from "@/utils/blobStore";
+import {
+  BlobEncryption,
+  createBlobDecryptor,
+  createBlobEncryptor,
+} from "@/utils/encryption";
+import { sanitizeSvg } from "@/utils/svgSanitizer";
+
+// Derivatives are a cache: they can be deleted at any time and are regenerated on demand.
+// Like blobs, each one is encrypted with its own data key.
+export const IMAGE_CACHE_DIR = path.resolve(
+  process.env.IMAGE_CACHE_DIR || path.join(".next", "cache", "file-images"),
+);
+export const IMAGE_CACHE_MAX_BYTES =
+  (Number(process.env.IMAGE_CACHE_MAX_MB) || 512) * 1024 * 1024;
+
+export const MAX_IMAGE_DIMENSION = 4096;
+
+export const IMAGE_FITS = ["cover", "contain", "fill", "inside", "outside"] as const;
+export const IMAGE_FORMATS = ["webp", "png", "jpeg"] as const;
+
+export type ImageFit = (typeof IMAGE_FITS)[number];
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+export interface ImageTransform {
+  width: number | null;
+  height: number | null;
+  fit: ImageFit;
+  format: ImageFormat;
+}
+
+export type ImageTransformParseResult =
+  | { success: true; transform: ImageTransform }
+  | { success: false; error: string };
+
+const TRANSFORMABLE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/svg+xml"];
+
+/**
+ * Whether derivatives can be generated for a type
+ */
+export function supportsImageTransform(mimeType: string): boolean {
+  return TRANSFORMABLE_TYPES.includes(mimeType);
+}
+
+function parseDimension(value: string | null, name: string): number | null | string {
+  if (value === null || value === "") return null;
+  const dimension = Number(value);
+  if (!Number.isInteger(dimension) || dimension < 1 || dimension > MAX_IMAGE_DIMENSION) {
+    return `${name} must be a whole number between 1 and ${MAX_IMAGE_DIMENSION}`;
+  }
+  return dimension;
+}
+
+/**
+ * Reads w, h, fit and format from a query string
+ */
+export function parseImageTransform(
+  searchParams: URLSearchParams,
+): ImageTransformParseResult {
+  const width = parseDimension(searchParams.get("w"), "w");
+  if (typeof width === "string") return { success: false, error: width };
+
+  const height = parseDimension(searchParams.get("h"), "h");
+  if (typeof height === "string") return { success: false, error: height };
+
+  const fit = searchParams.get("fit") || "inside";
+  if (!(IMAGE_FITS as readonly string[]).includes(fit)) {
+    return { success: false, error: `fit must be one of ${IMAGE_FITS.join(", ")}` };
+  }
+
+  const format = searchParams.get("format") || "webp";
+  if (!(IMAGE_FORMATS as readonly string[]).includes(format)) {
+    return { success: false, error: `format must be one of ${IMAGE_FORMATS.join(", ")}` };
+  }
+
+  return {
+    success: true,
+    transform: { width, height, fit: fit as ImageFit, format: format as ImageFormat },
+  };
+}
+
+interface CacheEntry {
+  size: number;
+}
+
+// Least recently used first: Map keeps insertion order, and entries are re-inserted on use
+const cacheIndex = new Map<string, CacheEntry>();
+let cachedBytes = 0;
+let indexLoaded: Promise<void> | null = null;
+const renders = new Map<string, Promise<Buffer>>();
+
+// Encrypted cache entries: a JSON line with the encryption parameters, then the ciphertext
+const CACHE_ENTRY_EXTENSION = ".enc";
+
+function encryptCacheEntry(content: Buffer): Buffer {
+  const { cipher, encryption, getAuthTag } = createBlobEncryptor();
+  const ciphertext = Buffer.concat([cipher.update(content), cipher.final()]);
+  const header: BlobEncryption = { ...encryption, authTag: getAuthTag() };
+  return Buffer.concat([Buffer.from(`${JSON.stringify(header)}\n`), ciphertext]);
+}
+
+/**
+ * Throws if the entry is malformed, was tampered with or its master key is gone
+ */
+function decryptCacheEntry(entry: Buffer): Buffer {
+  const headerEnd = entry.indexOf(0x0a);
+  if (headerEnd === -1) {
+    throw new Error("Malformed image cache entry");
+  }
+  const header = JSON.parse(entry.subarray(0, headerEnd).toString("utf8")) as BlobEncryption;
+  const decipher = createBlobDecryptor(header);
+  return Buffer.concat([decipher.update(entry.subarray(headerEnd + 1)), decipher.final()]);
+}
+
+/**
+ * Builds the index from the derivatives already on disk, oldest first
+ */
+async function loadIndex(): Promise<void> {
+  const found: { filePath: string; size: number; mtimeMs: number }[] = [];
+
+  let directories: string[] = [];
+  try {
+    directories = await fs.readdir(IMAGE_CACHE_DIR);
+  } catch {
+    return;
+  }
+
+  for (const directory of directories) {
+    const directoryPath = path.join(IMAGE_CACHE_DIR, directory);
+    let entries: string[];
+    try {
+      entries = await fs.readdir(directoryPath);
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const filePath = path.join(directoryPath, entry);
+      if (!entry.endsWith(CACHE_ENTRY_EXTENSION)) {
+        // Plaintext derivatives from before the cache was encrypted, or partial writes
+        await fs.rm(filePath, { force: true });
+        continue;
+      }
+      try {
+        const stats = await fs.stat(filePath);
+        if (stats.isFile()) {
+          found.push({ filePath, size: stats.size, mtimeMs: stats.mtimeMs });
+        }
+      } catch {
+        // Removed while scanning
+      }
+    }
+  }
+
+  found.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const { filePath, size } of found) {
+    cacheIndex.set(filePath, { size });
+    cachedBytes += size;
+  }
+}
+
+function ensureIndex(): Promise<void> {
+  if (!indexLoaded) indexLoaded = loadIndex();
+  return indexLoaded;
+}
+
+function touch(filePath: string, entry: CacheEntry): void {
+  cacheIndex.delete(filePath);
+  cacheIndex.set(filePath, entry);
+}
+
+async function evictToFit(): Promise<void> {
+  for (const [filePath, entry] of cacheIndex) {
+    if (cachedBytes <= IMAGE_CACHE_MAX_BYTES) break;
+    cacheIndex.delete(filePath);
+    cachedBytes -= entry.size;
+    await fs.rm(filePath, { force: true });
+  }
+}
+
+function getFileCacheDir(fileId: string): string {
+  return path.join(IMAGE_CACHE_DIR, fileId);
+}
+
+/**
+ * Identifies a derivative of one version of a file's content, so a new version never hits
+ * the cache for the previous one even before it has been invalidated
+ */
+export function getDerivativeKey(
+  file: Pick<File, "filename" | "blobHash">,
+  transform: ImageTransform,
+): string {
+  return createHash("sha256")
+    .update(
+      [
+        file.blobHash ?? file.filename,
+        transform.width ?? "",
+        transform.height ?? "",
+        transform.fit,
+        transform.format,
+      ].join(":"),
+    )
+    .digest("hex");
+}
+
+async function renderDerivative(
+  file: Pick<File, "filename" | "blobHash" | "mimeType">,
+  transform: ImageTransform,
+): Promise<Buffer> {
+  const { stream } = await openFileContent(file);
+  let input = await readStreamToBuffer(stream);
+  if (file.mimeType === "image/svg+xml") {
+    // Files from before SVG sanitization are rendered from a sanitized copy too
+    input = Buffer.from(sanitizeSvg(input.toString("utf8")));
+  }
+
+  return sharp(input)
+    .rotate() // Apply EXIF orientation before it is stripped
+    .resize({
+      width: transform.width ?? undefined,
+      height: transform.height ?? undefined,
+      fit: transform.fit,
+      withoutEnlargement: true,
+    })
+    .toFormat(transform.format, { quality: 80 })
+    .toBuffer();
+}
+
+/**
+ * Returns a resized and converted copy of an image file, from the disk cache when possible.
+ * Concurrent requests for the same derivative share one render.
+ */
+export async function getImageDerivative(
+  file: Pick<File, "id" | "filename" | "blobHash" | "mimeType">,
+  transform: ImageTransform,
+): Promise<{ content: Buffer; key: string }> {
+  await ensureIndex();
+
+  const key = getDerivativeKey(file, transform);
+  const filePath = path.join(
+    getFileCacheDir(file.id),
+    `${key}.${transform.format}${CACHE_ENTRY_EXTENSION}`,
+  );
+
+  const cached = cacheIndex.get(filePath);
+  if (cached) {
+    try {
+      const content = decryptCacheEntry(await fs.readFile(filePath));
+      touch(filePath, cached);
+      return { content, key };
+    } catch {
+      // Deleted from disk behind the index's back, or unreadable: rendered again
+      cacheIndex.delete(filePath);
+      cachedBytes -= cached.size;
+      await fs.rm(filePath, { force: true });
+    }
+  }
+
+  let render = renders.get(filePath);
+  if (!render) {
+    render = (async () => {
+      const content = await renderDerivative(file, transform);
+      const entry = encryptCacheEntry(content);
+
+      // Written under a temporary name first so a crash never leaves a partial derivative
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.${randomUUID()}.tmp`;
+      await fs.writeFile(tempPath, entry);
+      await fs.rename(tempPath, filePath);
+
+      const previous = cacheIndex.get(filePath);
+      cachedBytes += entry.length - (previous?.size ?? 0);
+      touch(filePath, { size: entry.length });
+      await evictToFit();
+      return content;
+    })().finally(() => {
+      renders.delete(filePath);
+    });
+    renders.set(filePath, render);
+  }
+
+  return { content: await render, key };
+}
+
+/**
+ * Deletes every cached derivative of a file. Called when its content changes or it is deleted.
+ */
+export async function invalidateImageDerivatives(fileId: string): Promise<void> {
+  await ensureIndex();
+
+  const directory = getFileCacheDir(fileId) + path.sep;
+  for (const [filePath, entry] of cacheIndex) {
+    if (filePath.startsWith(directory)) {
+      cacheIndex.delete(filePath);
+      cachedBytes -= entry.size;
+    }
+  }
+
+  await fs.rm(getFileCacheDir(fileId), { recursive: true, force: true });
+}
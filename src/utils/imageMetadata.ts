@@ -0,0 +1,664 @@
+import { createReadStream, promises as fs } from "fs";
+import { Readable } from "stream";
+import sharp from "sharp";
+import { ExifStripping, ImageMetadata } from "@/types/file";
+import { readStreamToBuffer } from "@/utils/blobStore";
+
+export class ImageMetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageMetadataError";
+  }
+}
+
+// GIFs have no EXIF, and SVGs are rewritten by the sanitizer without any metadata
+const METADATA_TYPES = ["image/jpeg", "image/png"];
+
+// Image files are only read this far for their EXIF data, which JPEGs keep in front of the
+// image data and PNGs usually do too
+const IMAGE_HEADER_BYTES = 1024 * 1024;
+
+// Largest PNG eXIf chunk read into memory to remove its location
+const MAX_PNG_EXIF_BYTES = 1024 * 1024;
+
+/**
+ * Whether EXIF data is read from, and can be stripped from, a type
+ */
+export function supportsImageMetadata(mimeType: string): boolean {
+  return METADATA_TYPES.includes(mimeType);
+}
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8,
+};
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_LENS_MODEL = 0xa434;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  // Where the value is: inside the entry when it fits in 4 bytes, elsewhere in the data otherwise
+  valueOffset: number;
+  size: number;
+}
+
+/**
+ * Reads the TIFF structure EXIF data is stored in. Every read is bounds-checked,
+ * so truncated or malicious offsets raise ImageMetadataError.
+ */
+class TiffReader {
+  private readonly littleEndian: boolean;
+
+  constructor(readonly data: Buffer) {
+    const byteOrder = data.toString("latin1", 0, 2);
+    if (byteOrder !== "II" && byteOrder !== "MM") {
+      throw new ImageMetadataError("Invalid EXIF byte order");
+    }
+    this.littleEndian = byteOrder === "II";
+    if (this.uint16(2) !== 42) {
+      throw new ImageMetadataError("Invalid EXIF header");
+    }
+  }
+
+  private check(offset: number, length: number): void {
+    if (offset < 0 || offset + length > this.data.length) {
+      throw new ImageMetadataError("EXIF data is truncated");
+    }
+  }
+
+  uint16(offset: number): number {
+    this.check(offset, 2);
+    return this.littleEndian
+      ? this.data.readUInt16LE(offset)
+      : this.data.readUInt16BE(offset);
+  }
+
+  uint32(offset: number): number {
+    this.check(offset, 4);
+    return this.littleEndian
+      ? this.data.readUInt32LE(offset)
+      : this.data.readUInt32BE(offset);
+  }
+
+  get firstIfdOffset(): number {
+    return this.uint32(4);
+  }
+
+  readIfd(offset: number): IfdEntry[] {
+    const count = this.uint16(offset);
+    this.check(offset + 2, count * 12);
+
+    const entries: IfdEntry[] = [];
+    for (let index = 0; index < count; index++) {
+      const entryOffset = offset + 2 + index * 12;
+      const type = this.uint16(entryOffset + 2);
+      const valueCount = this.uint32(entryOffset + 4);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      entries.push({
+        tag: this.uint16(entryOffset),
+        type,
+        count: valueCount,
+        valueOffset: size <= 4 ? entryOffset + 8 : this.uint32(entryOffset + 8),
+        size,
+      });
+    }
+    return entries;
+  }
+
+  string(entry: IfdEntry): string | undefined {
+    if (entry.type !== 2) return undefined;
+    this.check(entry.valueOffset, entry.size);
+    const value = this.data
+      .toString("utf8", entry.valueOffset, entry.valueOffset + entry.size)
+      .split("\0")[0]
+      .trim();
+    return value || undefined;
+  }
+
+  number(entry: IfdEntry): number | undefined {
+    if (entry.type === 3) return this.uint16(entry.valueOffset);
+    if (entry.type === 4) return this.uint32(entry.valueOffset);
+    return undefined;
+  }
+
+  rationals(entry: IfdEntry): number[] | undefined {
+    if (entry.type !== 5) return undefined;
+    this.check(entry.valueOffset, entry.size);
+    const values: number[] = [];
+    for (let index = 0; index < entry.count; index++) {
+      const offset = entry.valueOffset + index * 8;
+      values.push(this.uint32(offset) / this.uint32(offset + 4));
+    }
+    return values;
+  }
+}
+
+type ExifDetails = Omit<ImageMetadata, "width" | "height">;
+
+function findEntry(entries: IfdEntry[], tag: number): IfdEntry | undefined {
+  return entries.find((entry) => entry.tag === tag);
+}
+
+/**
+ * Converts an EXIF date ("2024:05:01 14:03:22") to ISO 8601 without a time zone,
+ * since EXIF doesn't record which one the camera was set to
+ */
+function parseExifDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === "0000") return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
+}
+
+function parseCoordinate(
+  reader: TiffReader,
+  entries: IfdEntry[],
+  valueTag: number,
+  refTag: number,
+  limit: number,
+): number | undefined {
+  const value = findEntry(entries, valueTag);
+  const ref = findEntry(entries, refTag);
+  const parts = value && reader.rationals(value);
+  if (!parts || parts.length !== 3) return undefined;
+
+  const [degrees, minutes, seconds] = parts;
+  const coordinate = degrees + minutes / 60 + seconds / 3600;
+  if (!Number.isFinite(coordinate) || coordinate > limit) return undefined;
+
+  // Six decimals are about 10 cm, more than any camera records
+  const rounded = Math.round(coordinate * 1e6) / 1e6;
+  const direction = ref && reader.string(ref);
+  return direction === "S" || direction === "W" ? -rounded : rounded;
+}
+
+function parseExif(tiff: Buffer): ExifDetails {
+  const reader = new TiffReader(tiff);
+  const ifd0 = reader.readIfd(reader.firstIfdOffset);
+  const details: ExifDetails = {};
+
+  const read = (entries: IfdEntry[], tag: number) => {
+    const entry = findEntry(entries, tag);
+    return entry ? reader.string(entry) : undefined;
+  };
+
+  details.cameraMake = read(ifd0, TAG_MAKE);
+  details.cameraModel = read(ifd0, TAG_MODEL);
+
+  const orientationEntry = findEntry(ifd0, TAG_ORIENTATION);
+  const orientation = orientationEntry && reader.number(orientationEntry);
+  if (orientation && orientation >= 1 && orientation <= 8) {
+    details.orientation = orientation;
+  }
+
+  const exifPointer = findEntry(ifd0, TAG_EXIF_IFD);
+  const exifIfd = exifPointer ? reader.readIfd(reader.number(exifPointer) ?? 0) : [];
+  details.lensModel = read(exifIfd, TAG_LENS_MODEL);
+  details.takenAt =
+    parseExifDate(read(exifIfd, TAG_DATE_TIME_ORIGINAL)) ??
+    parseExifDate(read(ifd0, TAG_DATE_TIME));
+
+  const gpsPointer = findEntry(ifd0, TAG_GPS_IFD);
+  if (gpsPointer) {
+    const gpsIfd = reader.readIfd(reader.number(gpsPointer) ?? 0);
+    const latitude = parseCoordinate(reader, gpsIfd, TAG_GPS_LATITUDE, TAG_GPS_LATITUDE_REF, 90);
+    const longitude = parseCoordinate(reader, gpsIfd, TAG_GPS_LONGITUDE, TAG_GPS_LONGITUDE_REF, 180);
+    if (latitude !== undefined && longitude !== undefined) {
+      details.location = { latitude, longitude };
+    }
+  }
+
+  // Drop fields that were absent so the stored JSON stays small
+  return Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value !== undefined),
+  ) as ExifDetails;
+}
+
+/**
+ * Empties the GPS IFD of a copy of EXIF data, zeroing its entries and the values they point to.
+ * The data keeps its length, so no other offset has to change.
+ */
+function removeGpsIfd(tiff: Buffer): Buffer {
+  const copy = Buffer.from(tiff);
+  const reader = new TiffReader(copy);
+  const gpsPointer = findEntry(reader.readIfd(reader.firstIfdOffset), TAG_GPS_IFD);
+  if (!gpsPointer) return copy;
+
+  const gpsOffset = reader.number(gpsPointer) ?? 0;
+  const entries = reader.readIfd(gpsOffset);
+  for (const entry of entries) {
+    if (entry.size > 4) {
+      if (entry.valueOffset + entry.size > copy.length) {
+        throw new ImageMetadataError("EXIF data is truncated");
+      }
+      copy.fill(0, entry.valueOffset, entry.valueOffset + entry.size);
+    }
+  }
+  // An entry count of zero, followed by a zero "next IFD" offset
+  copy.fill(0, gpsOffset, Math.min(copy.length, gpsOffset + 2 + entries.length * 12 + 4));
+  return copy;
+}
+
+const EXIF_HEADER = Buffer.from("Exif\0\0", "latin1");
+
+interface JpegSegment {
+  marker: number;
+  // The whole segment, from its 0xFF marker to the end of its data
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits a JPEG into its metadata segments, up to the start of the compressed image data
+ */
+function readJpegSegments(data: Buffer): { segments: JpegSegment[]; imageStart: number } {
+  const segments: JpegSegment[] = [];
+  let position = 2; // After the start of image marker
+
+  while (position + 4 <= data.length) {
+    if (data[position] !== 0xff) {
+      throw new ImageMetadataError("Invalid JPEG segment");
+    }
+    const marker = data[position + 1];
+    if (marker === 0xff) {
+      position += 1; // Fill byte
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) {
+      // Start of scan or end of image: the rest is image data
+      return { segments, imageStart: position };
+    }
+
+    const end = position + 2 + data.readUInt16BE(position + 2);
+    if (end > data.length) {
+      throw new ImageMetadataError("JPEG segment is truncated");
+    }
+    segments.push({ marker, start: position, end });
+    position = end;
+  }
+
+  throw new ImageMetadataError("JPEG has no image data");
+}
+
+function isJpegExif(data: Buffer, segment: JpegSegment): boolean {
+  return (
+    segment.marker === 0xe1 &&
+    data.subarray(segment.start + 4, segment.start + 10).equals(EXIF_HEADER)
+  );
+}
+
+function findJpegExif(data: Buffer): Buffer | null {
+  const { segments } = readJpegSegments(data);
+  const segment = segments.find((candidate) => isJpegExif(data, candidate));
+  return segment ? data.subarray(segment.start + 10, segment.end) : null;
+}
+
+/**
+ * The start of a JPEG up to its image data, with EXIF location or all EXIF data removed.
+ * XMP (the other APP1 segment) and IPTC (APP13) can repeat the same data, so they are removed as well.
+ * @returns The stripped metadata, and where the image data starts in the original
+ */
+function stripJpegSegments(
+  data: Buffer,
+  stripping: ExifStripping,
+): { head: Buffer; imageStart: number } {
+  const { segments, imageStart } = readJpegSegments(data);
+  const parts: Buffer[] = [data.subarray(0, 2)];
+
+  for (const segment of segments) {
+    const bytes = data.subarray(segment.start, segment.end);
+    if (isJpegExif(data, segment)) {
+      if (stripping === "location") {
+        parts.push(bytes.subarray(0, 10), removeGpsIfd(bytes.subarray(10)));
+      }
+    } else if (segment.marker !== 0xe1 && segment.marker !== 0xed) {
+      parts.push(bytes);
+    }
+  }
+
+  return { head: Buffer.concat(parts), imageStart };
+}
+
+/**
+ * Removes EXIF location or all EXIF data from a JPEG without decoding it
+ */
+function stripJpeg(data: Buffer, stripping: ExifStripping): Buffer {
+  const { head, imageStart } = stripJpegSegments(data, stripping);
+  return Buffer.concat([head, data.subarray(imageStart)]);
+}
+
+const PNG_SIGNATURE_LENGTH = 8;
+
+interface PngChunk {
+  type: string;
+  start: number;
+  dataStart: number;
+  dataEnd: number;
+  // After the CRC
+  end: number;
+}
+
+/**
+ * Walks the chunks of a PNG; a truncated chunk only throws once it is reached
+ */
+function* readPngChunks(data: Buffer): Generator<PngChunk> {
+  let position = PNG_SIGNATURE_LENGTH;
+
+  while (position < data.length) {
+    if (position + 12 > data.length) {
+      throw new ImageMetadataError("PNG chunk is truncated");
+    }
+    const dataStart = position + 8;
+    const dataEnd = dataStart + data.readUInt32BE(position);
+    if (dataEnd + 4 > data.length) {
+      throw new ImageMetadataError("PNG chunk is truncated");
+    }
+    yield {
+      type: data.toString("latin1", position + 4, position + 8),
+      start: position,
+      dataStart,
+      dataEnd,
+      end: dataEnd + 4,
+    };
+    position = dataEnd + 4;
+  }
+}
+
+const PNG_TEXT_TYPES = ["tEXt", "zTXt", "iTXt"];
+// Enough of a text chunk's data to tell its keyword
+const PNG_KEYWORD_BYTES = 80;
+
+// Text chunks that carry XMP, or EXIF in the format ImageMagick used before eXIf existed
+function isPngMetadataText(type: string, chunkData: Buffer): boolean {
+  if (!PNG_TEXT_TYPES.includes(type)) return false;
+  const keyword = chunkData.toString("latin1", 0, Math.min(chunkData.length, PNG_KEYWORD_BYTES));
+  return keyword.startsWith("XML:com.adobe.xmp\0") || keyword.startsWith("Raw profile type");
+}
+
+function findPngExif(data: Buffer): Buffer | null {
+  for (const chunk of readPngChunks(data)) {
+    if (chunk.type === "eXIf") return data.subarray(chunk.dataStart, chunk.dataEnd);
+  }
+  return null;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * A whole eXIf chunk for EXIF data without its GPS IFD
+ */
+function writePngExifWithoutLocation(exif: Buffer): Buffer {
+  const typeAndData = Buffer.concat([Buffer.from("eXIf", "latin1"), removeGpsIfd(exif)]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(exif.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+function stripPng(data: Buffer, stripping: ExifStripping): Buffer {
+  const parts: Buffer[] = [data.subarray(0, PNG_SIGNATURE_LENGTH)];
+
+  for (const chunk of readPngChunks(data)) {
+    const chunkData = data.subarray(chunk.dataStart, chunk.dataEnd);
+    if (chunk.type === "eXIf") {
+      if (stripping === "location") {
+        parts.push(writePngExifWithoutLocation(chunkData));
+      }
+    } else if (!isPngMetadataText(chunk.type, chunkData)) {
+      parts.push(data.subarray(chunk.start, chunk.end));
+    }
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * EXIF details of a JPEG or PNG. Damaged EXIF data only costs the details, since the
+ * image itself may still be fine.
+ */
+function readExifDetails(content: Buffer, mimeType: string): ExifDetails {
+  try {
+    const exif = mimeType === "image/png" ? findPngExif(content) : findJpegExif(content);
+    return exif ? parseExif(exif) : {};
+  } catch (error) {
+    if (error instanceof ImageMetadataError) return {};
+    throw error;
+  }
+}
+
+/**
+ * Removes EXIF location or all EXIF data from a JPEG or PNG without re-encoding it.
+ * Throws ImageMetadataError for content whose structure can't be parsed, rather than
+ * letting anything through.
+ */
+export function stripImageMetadata(
+  content: Buffer,
+  mimeType: string,
+  stripping: ExifStripping,
+): Buffer {
+  if (stripping === "none" || !supportsImageMetadata(mimeType)) return content;
+  return mimeType === "image/png"
+    ? stripPng(content, stripping)
+    : stripJpeg(content, stripping);
+}
+
+/**
+ * Turns a JPEG or PNG upright according to its EXIF orientation, then strips its metadata.
+ * Only rotated images are re-encoded; the metadata they keep says they are upright.
+ * @returns The prepared content and the orientation it had
+ */
+export async function prepareImage(
+  content: Buffer,
+  mimeType: string,
+  stripping: ExifStripping,
+): Promise<{ content: Buffer; orientation?: number }> {
+  if (!supportsImageMetadata(mimeType)) return { content };
+
+  const { orientation } = readExifDetails(content, mimeType);
+
+  let prepared = content;
+  if (orientation && orientation !== 1) {
+    const image = sharp(content).rotate().keepMetadata();
+    prepared =
+      mimeType === "image/png"
+        ? await image.png().toBuffer()
+        : await image.jpeg({ quality: 92 }).toBuffer();
+  }
+
+  return { content: stripImageMetadata(prepared, mimeType, stripping), orientation };
+}
+
+/**
+ * Reads a stored image and prepares it for a public share, which never shows what the
+ * owner asked to strip, even for images stored before they changed the setting
+ */
+export async function prepareSharedImage(
+  stream: Readable,
+  mimeType: string,
+  stripping: ExifStripping,
+): Promise<Buffer> {
+  return (await prepareImage(await readStreamToBuffer(stream), mimeType, stripping)).content;
+}
+
+function readImageHeader(filePath: string): Promise<Buffer> {
+  return readStreamToBuffer(createReadStream(filePath), IMAGE_HEADER_BYTES);
+}
+
+/**
+ * Dimensions and EXIF details of a JPEG or PNG file. Only the start of the file is read.
+ */
+export async function readImageMetadata(
+  filePath: string,
+  mimeType: string,
+): Promise<ImageMetadata> {
+  const { width, height, autoOrient } = await sharp(filePath).metadata();
+  if (!width || !height) {
+    throw new ImageMetadataError("Image dimensions could not be read");
+  }
+
+  return {
+    width: autoOrient?.width ?? width,
+    height: autoOrient?.height ?? height,
+    ...readExifDetails(await readImageHeader(filePath), mimeType),
+  };
+}
+
+/**
+ * Streams an upright copy of a JPEG or PNG file, which sharp decodes from the file itself.
+ * The metadata it keeps says it is upright.
+ */
+export function rotateImageFile(filePath: string, mimeType: string): Readable {
+  const image = sharp(filePath).rotate().keepMetadata();
+  return mimeType === "image/png" ? image.png() : image.jpeg({ quality: 92 });
+}
+
+// Bytes of a stripped image file: new bytes, or a range copied from the original
+type ImageFilePart = Buffer | { start: number; end: number };
+
+function addFileRange(parts: ImageFilePart[], start: number, end: number): void {
+  const last = parts[parts.length - 1];
+  if (last && !Buffer.isBuffer(last) && last.end === start) {
+    last.end = end;
+  } else {
+    parts.push({ start, end });
+  }
+}
+
+async function* readImageFileParts(
+  filePath: string,
+  parts: ImageFilePart[],
+): AsyncGenerator<Buffer> {
+  for (const part of parts) {
+    if (Buffer.isBuffer(part)) {
+      yield part;
+    } else if (part.end > part.start) {
+      yield* createReadStream(filePath, { start: part.start, end: part.end - 1 });
+    }
+  }
+}
+
+/**
+ * JPEG metadata all comes before the image data, so only the header is parsed.
+ * Metadata that doesn't fit in it can't be stripped.
+ */
+async function planJpegFileStrip(
+  filePath: string,
+  size: number,
+  stripping: ExifStripping,
+): Promise<ImageFilePart[]> {
+  const { head, imageStart } = stripJpegSegments(await readImageHeader(filePath), stripping);
+  return [head, { start: imageStart, end: size }];
+}
+
+/**
+ * PNG metadata chunks can come anywhere, so every chunk header is read. Only the data of
+ * eXIf chunks whose location is removed is read into memory.
+ */
+async function planPngFileStrip(
+  filePath: string,
+  size: number,
+  stripping: ExifStripping,
+): Promise<ImageFilePart[]> {
+  const parts: ImageFilePart[] = [];
+  addFileRange(parts, 0, PNG_SIGNATURE_LENGTH);
+
+  const file = await fs.open(filePath, "r");
+  try {
+    const header = Buffer.alloc(8 + PNG_KEYWORD_BYTES);
+    let position = PNG_SIGNATURE_LENGTH;
+
+    while (position < size) {
+      if (position + 12 > size) {
+        throw new ImageMetadataError("PNG chunk is truncated");
+      }
+      await file.read(header, 0, header.length, position);
+      const length = header.readUInt32BE(0);
+      const type = header.toString("latin1", 4, 8);
+      const end = position + 12 + length;
+      if (end > size) {
+        throw new ImageMetadataError("PNG chunk is truncated");
+      }
+
+      if (type === "eXIf") {
+        if (stripping === "location") {
+          if (length > MAX_PNG_EXIF_BYTES) {
+            throw new ImageMetadataError("PNG EXIF data is too large");
+          }
+          const exif = Buffer.alloc(length);
+          await file.read(exif, 0, length, position + 8);
+          parts.push(writePngExifWithoutLocation(exif));
+        }
+      } else {
+        const keyword = header.subarray(8, 8 + Math.min(length, PNG_KEYWORD_BYTES));
+        if (!isPngMetadataText(type, keyword)) addFileRange(parts, position, end);
+      }
+      position = end;
+    }
+  } finally {
+    await file.close();
+  }
+
+  return parts;
+}
+
+/**
+ * Streams a JPEG or PNG file with EXIF location or all EXIF data removed, like
+ * stripImageMetadata, without reading the image into memory: only its metadata is parsed,
+ * and the image data is copied from the file.
+ */
+export async function stripImageFile(
+  filePath: string,
+  mimeType: string,
+  stripping: ExifStripping,
+): Promise<Readable> {
+  if (stripping === "none" || !supportsImageMetadata(mimeType)) {
+    return createReadStream(filePath);
+  }
+
+  const { size } = await fs.stat(filePath);
+  const parts =
+    mimeType === "image/png"
+      ? await planPngFileStrip(filePath, size, stripping)
+      : await planJpegFileStrip(filePath, size, stripping);
+  return Readable.from(readImageFileParts(filePath, parts));
+}
+
+/**
+ * Parses the imageMetadata column of a files or fileVersions row
+ */
+export function parseStoredImageMetadata(value: string | null): ImageMetadata | undefined {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as ImageMetadata;
+  } catch {
+    return undefined;
+  }
+}
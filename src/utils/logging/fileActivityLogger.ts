@@ -13,6 +13,13 @@ export type FileActivity =
   | "file_sort"
   | "file_filter"
   | "batch_operation"
+  | "storage_reconciliation"
+  | "trash_purge"
+  | "virus_scan"
+  | "thumbnail_generation"
+  | "search_indexing"
+  | "ocr"
+  | "auto_tagging"
   | "user_login"
   | "user_logout"
   | "user_signup"
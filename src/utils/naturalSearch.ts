@@ -0,0 +1,414 @@
+import {
+  getFilterTokens,
+  parseSearchQuery,
+  ParsedSearchQuery,
+  parseSize,
+  shiftDay,
+} from "@/utils/searchQuery";
+
+// A filter or the search text, shown as a chip the user can edit or remove
+export interface SearchChip {
+  // In the syntax parseSearchQuery reads, e.g. size:>1mb
+  token: string;
+  label: string;
+  // The free text, rather than a filter
+  isText: boolean;
+}
+
+interface Rule {
+  pattern: string;
+  toTokens: (groups: string[], today: Date) => string[];
+}
+
+const NUMBER = "(\\d+(?:\\.\\d+)?)";
+const UNIT = "(bytes?|b|kilobytes?|kb|k|megabytes?|mb|m|gigabytes?|gb|g)";
+const PERIOD = "(days?|weeks?|months?|years?)";
+const SHARED = "(?:that\\s+)?(?:i\\s+(?:have\\s+)?|i've\\s+)?shared(?:\\s+by\\s+me)?";
+
+// Words naming file types, mapped to type: filter values
+const TYPE_WORDS: Record<string, string> = {
+  png: "png",
+  pngs: "png",
+  jpg: "jpg",
+  jpgs: "jpg",
+  jpeg: "jpg",
+  jpegs: "jpg",
+  gif: "gif",
+  gifs: "gif",
+  svg: "svg",
+  svgs: "svg",
+  csv: "csv",
+  csvs: "csv",
+  txt: "txt",
+  markdown: "md",
+  pdf: "pdf",
+  pdfs: "pdf",
+  image: "image",
+  images: "image",
+  photo: "image",
+  photos: "image",
+  picture: "image",
+  pictures: "image",
+  pic: "image",
+  pics: "image",
+  document: "document",
+  documents: "document",
+  doc: "document",
+  docs: "document",
+  spreadsheet: "spreadsheet",
+  spreadsheets: "spreadsheet",
+  video: "video",
+  videos: "video",
+  audio: "audio",
+};
+
+// Too common to mean a type on their own, so only "text files" or "md files" are types
+const TYPE_FILE_WORDS: Record<string, string> = { text: "text", md: "md" };
+
+// Dropped from the text once a phrase was understood, as they would have to appear in the files
+const FILLER_WORDS = new Set([
+  "a",
+  "all",
+  "an",
+  "and",
+  "any",
+  "are",
+  "file",
+  "files",
+  "find",
+  "from",
+  "get",
+  "i",
+  "i've",
+  "in",
+  "is",
+  "list",
+  "me",
+  "my",
+  "of",
+  "show",
+  "some",
+  "that",
+  "the",
+  "uploaded",
+  "added",
+  "created",
+  "was",
+  "were",
+  "which",
+  "with",
+]);
+
+const TYPE_LABELS: Record<string, string> = {
+  image: "Images",
+  video: "Videos",
+  audio: "Audio",
+  pdf: "PDFs",
+  document: "Documents",
+  spreadsheet: "Spreadsheets",
+  text: "Text files",
+  other: "Other files",
+};
+
+function normalizeUnit(unit: string): string {
+  const letter = unit.toLowerCase()[0];
+  return letter === "k" ? "kb" : letter === "m" ? "mb" : letter === "g" ? "gb" : "b";
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function subtractPeriod(date: Date, amount: number, period: string): Date {
+  const result = new Date(date);
+  if (period.startsWith("day")) result.setDate(result.getDate() - amount);
+  if (period.startsWith("week")) result.setDate(result.getDate() - amount * 7);
+  if (period.startsWith("month")) result.setMonth(result.getMonth() - amount);
+  if (period.startsWith("year")) result.setFullYear(result.getFullYear() - amount);
+  return result;
+}
+
+// YYYY-MM-DD of a date in the user's time zone
+function toDay(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function fromDay(day: string): Date {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date);
+}
+
+// Filters for files uploaded from the start day up to, not including, the end day.
+// after: excludes the day itself, so it names the day before.
+function uploadedBetween(start: Date, end?: Date): string[] {
+  return [`after:${toDay(addDays(start, -1))}`, ...(end ? [`before:${toDay(end)}`] : [])];
+}
+
+function namedPeriod(name: string, today: Date): string[] {
+  const weekStart = addDays(today, -((today.getDay() + 6) % 7));
+  const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+  const yearStart = new Date(today.getFullYear(), 0, 1);
+
+  switch (name.replace(/\s+/g, " ")) {
+    case "today":
+      return uploadedBetween(today);
+    case "yesterday":
+      return uploadedBetween(addDays(today, -1), today);
+    case "this week":
+      return uploadedBetween(weekStart);
+    case "last week":
+      return uploadedBetween(addDays(weekStart, -7), weekStart);
+    case "this month":
+      return uploadedBetween(monthStart);
+    case "last month":
+      return uploadedBetween(new Date(today.getFullYear(), today.getMonth() - 1, 1), monthStart);
+    case "this year":
+      return uploadedBetween(yearStart);
+    default:
+      return uploadedBetween(new Date(today.getFullYear() - 1, 0, 1), yearStart);
+  }
+}
+
+// The same days as upload date filters, for when the files were shared
+function toSharedTokens(uploadTokens: string[]): string[] {
+  const { after, before } = parseSearchQuery(uploadTokens.join(" ")).filters;
+  const from = after && shiftDay(after, 1);
+  const until = before && shiftDay(before, -1);
+  if (from && until) return [from === until ? `shared:${from}` : `shared:${from}..${until}`];
+  return from ? [`shared:>=${from}`] : [`shared:<=${until}`];
+}
+
+// Phrases naming when files were uploaded
+const DATE_RULES: Rule[] = [
+  {
+    pattern: "(?:(?:from|since|in|during)\\s+)?(today|yesterday|(?:this|last)\\s+(?:week|month|year))",
+    toTokens: ([name], today) => namedPeriod(name.toLowerCase(), today),
+  },
+  {
+    pattern: `(?:(?:from|in|during)\\s+)?(?:the\\s+)?(?:last|past)\\s+(\\d+)\\s+${PERIOD}`,
+    toTokens: ([amount, period], today) =>
+      uploadedBetween(addDays(subtractPeriod(today, Number(amount), period.toLowerCase()), 1)),
+  },
+  {
+    pattern: `(\\d+)\\s+${PERIOD}\\s+ago`,
+    toTokens: ([amount, period], today) => {
+      const day = subtractPeriod(today, Number(amount), period.toLowerCase());
+      return uploadedBetween(day, addDays(day, 1));
+    },
+  },
+  {
+    pattern: `older\\s+than\\s+(\\d+)\\s+${PERIOD}`,
+    toTokens: ([amount, period], today) => [
+      `before:${toDay(subtractPeriod(today, Number(amount), period.toLowerCase()))}`,
+    ],
+  },
+  {
+    pattern: "(before|until|after|since|on)\\s+(\\d{4}-\\d{2}-\\d{2})",
+    toTokens: ([word, day]) => {
+      switch (word.toLowerCase()) {
+        case "before":
+        case "until":
+          return [`before:${day}`];
+        case "after":
+          return [`after:${day}`];
+        case "since":
+          return uploadedBetween(fromDay(day));
+        default:
+          return uploadedBetween(fromDay(day), addDays(fromDay(day), 1));
+      }
+    },
+  },
+  {
+    pattern: "(?:in|from|during)\\s+((?:19|20)\\d{2})",
+    toTokens: ([year]) =>
+      uploadedBetween(new Date(Number(year), 0, 1), new Date(Number(year) + 1, 0, 1)),
+  },
+];
+
+const typeWords = Object.keys(TYPE_WORDS).sort((a, b) => b.length - a.length);
+
+// Applied in order; each phrase must stand on its own, so "report.pdf" isn't a type
+const RULES: Rule[] = [
+  {
+    pattern: `between\\s+${NUMBER}\\s*${UNIT}?\\s+and\\s+${NUMBER}\\s*${UNIT}`,
+    toTokens: ([min, minUnit, max, maxUnit]) => [
+      `size:${min}${normalizeUnit(minUnit || maxUnit)}..${max}${normalizeUnit(maxUnit)}`,
+    ],
+  },
+  {
+    pattern: `((?:bigger|larger|greater|more)\\s+than|over|above|at\\s+least)\\s+${NUMBER}\\s*${UNIT}`,
+    toTokens: ([operator, size, unit]) => [
+      `size:${/least/i.test(operator) ? ">=" : ">"}${size}${normalizeUnit(unit)}`,
+    ],
+  },
+  {
+    pattern: `((?:smaller|less)\\s+than|under|below|at\\s+most)\\s+${NUMBER}\\s*${UNIT}`,
+    toTokens: ([operator, size, unit]) => [
+      `size:${/most/i.test(operator) ? "<=" : "<"}${size}${normalizeUnit(unit)}`,
+    ],
+  },
+  // A date right after "shared" is when the files were shared, as in "I shared yesterday"
+  ...DATE_RULES.map(
+    (rule): Rule => ({
+      pattern: `${SHARED}\\s+(?:${rule.pattern})`,
+      toTokens: (groups, today) => toSharedTokens(rule.toTokens(groups, today)),
+    }),
+  ),
+  ...DATE_RULES,
+  {
+    pattern: SHARED,
+    toTokens: () => ["is:shared"],
+  },
+  {
+    pattern: `(${Object.keys(TYPE_FILE_WORDS).join("|")})\\s+files?`,
+    toTokens: ([word]) => [`type:${TYPE_FILE_WORDS[word.toLowerCase()]}`],
+  },
+  {
+    pattern: `(${typeWords.join("|")})(?:\\s+files?)?`,
+    toTokens: ([word]) => [`type:${TYPE_WORDS[word.toLowerCase()]}`],
+  },
+];
+
+/**
+ * Turns a search typed in plain English into a structured search, without leaving the browser:
+ * "pngs from last week bigger than 1 MB" becomes type:png with a date range and size:>1mb.
+ * Filters already written as key:value and quoted phrases are kept as they are, so the result
+ * of formatSearchQuery reads back the same. Dates are days in the user's time zone, which the
+ * files API applies them in when given tzOffset; dates right after "shared" filter on when files
+ * were shared rather than uploaded.
+ * Throws InvalidSearchQueryError for invalid filters.
+ */
+export function interpretSearch(input: string, now: Date = new Date()): ParsedSearchQuery {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const filterTokens: string[] = [];
+  const protectedPattern = /[a-z]+:"[^"]*"?|[a-z]+:\S+|"[^"]*"?/gi;
+
+  // Only the text outside of filters and quotes is interpreted
+  const parts: { text: string; isProtected: boolean }[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = protectedPattern.exec(input))) {
+    parts.push({ text: input.slice(lastIndex, match.index), isProtected: false });
+    parts.push({ text: match[0], isProtected: true });
+    lastIndex = match.index + match[0].length;
+  }
+  parts.push({ text: input.slice(lastIndex), isProtected: false });
+
+  let understood = false;
+  for (const part of parts) {
+    if (part.isProtected) continue;
+    for (const rule of RULES) {
+      const pattern = new RegExp(`(^|\\s)(?:${rule.pattern})(?=\\s|$)`, "gi");
+      part.text = part.text.replace(pattern, (...args) => {
+        // The arguments after the match are the groups, then the offset and the whole string
+        const groups = args.slice(2, -2) as string[];
+        filterTokens.push(...rule.toTokens(groups, today));
+        understood = true;
+        return `${args[1]} `;
+      });
+    }
+  }
+
+  const words = parts.flatMap((part) =>
+    part.isProtected
+      ? [part.text]
+      : part.text
+          .split(/\s+/)
+          .filter((word) => word && !(understood && FILLER_WORDS.has(word.toLowerCase()))),
+  );
+  return parseSearchQuery([...words, ...filterTokens].join(" "));
+}
+
+function formatSizeLabel(size: string): string {
+  const bytes = parseSize(size);
+  if (bytes === null) return size;
+
+  for (const [unit, factor] of [
+    ["GB", 1024 * 1024 * 1024],
+    ["MB", 1024 * 1024],
+    ["KB", 1024],
+  ] as const) {
+    if (bytes >= factor) return `${parseFloat((bytes / factor).toFixed(2))} ${unit}`;
+  }
+  return `${bytes} bytes`;
+}
+
+function formatDayLabel(day: string): string {
+  return fromDay(day).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * How a filter token is shown on its chip, e.g. "Larger than 1 MB" for size:>1mb
+ */
+export function describeFilterToken(token: string): string {
+  const separator = token.indexOf(":");
+  const key = token.slice(0, separator);
+  const value = token.slice(separator + 1).replace(/^"|"$/g, "");
+
+  switch (key) {
+    case "type":
+      if (TYPE_LABELS[value]) return TYPE_LABELS[value];
+      return value.includes("/") ? value : `${value.toUpperCase()} files`;
+    case "size": {
+      const range = value.split("..");
+      if (range.length === 2) {
+        return `${formatSizeLabel(range[0])} to ${formatSizeLabel(range[1])}`;
+      }
+      const [, operator, size] = /^(>=|<=|>|<)?(.*)$/.exec(value)!;
+      const labels: Record<string, string> = {
+        ">": "Larger than",
+        ">=": "At least",
+        "<": "Smaller than",
+        "<=": "At most",
+      };
+      return `${labels[operator] ?? "Exactly"} ${formatSizeLabel(size)}`;
+    }
+    case "after":
+      return `Uploaded after ${formatDayLabel(value)}`;
+    case "before":
+      return `Uploaded before ${formatDayLabel(value)}`;
+    case "name":
+      return `Name contains "${value}"`;
+    case "tag":
+      return `Tagged ${value}`;
+    case "is":
+      return "Shared";
+    case "shared": {
+      const range = value.split("..");
+      if (range.length === 2) {
+        return `Shared ${formatDayLabel(range[0])} to ${formatDayLabel(range[1])}`;
+      }
+      const [, operator, day] = /^(>=|<=|>|<)?(.*)$/.exec(value)!;
+      const labels: Record<string, string> = {
+        ">": "Shared after",
+        ">=": "Shared since",
+        "<": "Shared before",
+        "<=": "Shared until",
+      };
+      return `${labels[operator] ?? "Shared on"} ${formatDayLabel(day)}`;
+    }
+    default:
+      return token;
+  }
+}
+
+/**
+ * The chips of a parsed search: the text, if any, then one chip per filter
+ */
+export function getSearchChips({ text, filters }: ParsedSearchQuery): SearchChip[] {
+  return [
+    ...(text ? [{ token: text, label: `"${text}"`, isText: true }] : []),
+    ...getFilterTokens(filters).map((token) => ({
+      token,
+      label: describeFilterToken(token),
+      isText: false,
+    })),
+  ];
+}
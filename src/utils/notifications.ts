@@ -0,0 +1,64 @@
+import { randomUUID } from "crypto";
+import { and, count, desc, eq, inArray, isNull } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { notifications, Notification, NewNotification } from "@/app/auth/schema";
+
+/**
+ * Adds an in-app notification for a user
+ */
+export async function notifyUser(
+  notification: Omit<NewNotification, "id" | "createdAt" | "readAt">,
+): Promise<Notification> {
+  const [created] = await db
+    .insert(notifications)
+    .values({ id: randomUUID(), createdAt: new Date(), ...notification })
+    .returning();
+
+  return created;
+}
+
+/**
+ * A user's most recent notifications, newest first, and how many are unread
+ */
+export async function getNotifications(
+  userId: string,
+  limit = 20,
+): Promise<{ notifications: Notification[]; unreadCount: number }> {
+  const [recent, [{ unreadCount }]] = await Promise.all([
+    db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit),
+    db
+      .select({ unreadCount: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt))),
+  ]);
+
+  return { notifications: recent, unreadCount };
+}
+
+/**
+ * Marks a user's notifications as read, all of them when no IDs are given
+ * @returns Number of notifications marked
+ */
+export async function markNotificationsRead(
+  userId: string,
+  ids?: string[],
+): Promise<number> {
+  const marked = await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(
+      and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined,
+      ),
+    )
+    .returning({ id: notifications.id });
+
+  return marked.length;
+}
@@ -0,0 +1,219 @@
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import path from "path";
+import sharp from "sharp";
+import { createWorker, OEM, Worker } from "tesseract.js";
+import { db } from "@/app/auth/db";
+import { files, File } from "@/app/auth/schema";
+import { openFileContent, readStreamToBuffer } from "@/utils/blobStore";
+import { getUsableScanStatuses } from "@/utils/clamd";
+import { fileActivityLogger } from "@/utils/logging";
+import { updateSearchIndex } from "@/utils/searchIndex";
+import { updateAutoTags } from "@/utils/autoTagging";
+
+// Trained data for the engine ships with the @tesseract.js-data/eng package, so nothing is downloaded
+const OCR_LANG_PATH =
+  process.env.OCR_LANG_PATH ||
+  path.join(process.cwd(), "node_modules", "@tesseract.js-data", "eng", "4.0.0_best_int");
+const OCR_LANGUAGE = process.env.OCR_LANGUAGE || "eng";
+
+const OCR_SWEEP_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+const OCR_SWEEP_BATCH_SIZE = 20;
+
+const OCR_TYPES = ["image/jpeg", "image/png", "image/gif"];
+
+// Larger images are scaled down first; text stays legible and recognition time stays bounded
+const MAX_OCR_DIMENSION = 2500;
+
+/**
+ * Whether text is recognized in files of a type
+ */
+export function supportsOcr(mimeType: string): boolean {
+  return OCR_TYPES.includes(mimeType);
+}
+
+// Starting the engine loads its trained data, so one worker is kept for all files
+let workerPromise: Promise<Worker> | null = null;
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker(OCR_LANGUAGE, OEM.LSTM_ONLY, {
+      langPath: OCR_LANG_PATH,
+      gzip: true,
+      cacheMethod: "none",
+    }).catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+// The worker recognizes one image at a time
+let recognitionQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Recognizes the text in an image
+ * @returns The text, and the mean confidence of its words from 0 to 100
+ */
+export async function recognizeText(
+  image: Buffer,
+): Promise<{ text: string; confidence: number }> {
+  const input = await sharp(image)
+    .rotate()
+    .resize(MAX_OCR_DIMENSION, MAX_OCR_DIMENSION, { fit: "inside", withoutEnlargement: true })
+    .greyscale()
+    .png()
+    .toBuffer();
+
+  const recognition = recognitionQueue.then(async () => {
+    const worker = await getWorker();
+    const { data } = await worker.recognize(input);
+    const text = data.text.replace(/[ \t]+\n/g, "\n").trim();
+    return { text, confidence: text ? Math.round(data.confidence * 10) / 10 : 0 };
+  });
+  recognitionQueue = recognition.catch(() => undefined);
+  return recognition;
+}
+
+/**
+ * Recognizes and stores the text in a file's current content, and adds it to the search index
+ * @returns The updated file, or null if the file has no text to recognize
+ * or its content changed in the meantime
+ */
+export async function extractImageText(fileId: string): Promise<File | null> {
+  const [file] = await db.select().from(files).where(eq(files.id, fileId)).limit(1);
+  if (
+    !file ||
+    file.ocrCompletedAt ||
+    !getUsableScanStatuses().includes(file.scanStatus) ||
+    !supportsOcr(file.mimeType)
+  ) {
+    return null;
+  }
+
+  const { stream } = await openFileContent(file);
+  const { text, confidence } = await recognizeText(await readStreamToBuffer(stream));
+
+  // Only store it if the text still matches the file's content
+  const [updated] = await db
+    .update(files)
+    .set({
+      ocrText: text,
+      ocrConfidence: confidence,
+      ocrCompletedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(files.id, file.id),
+        eq(files.filename, file.filename),
+        isNull(files.ocrCompletedAt),
+      ),
+    )
+    .returning();
+
+  if (!updated) {
+    return null;
+  }
+
+  await updateSearchIndex(updated);
+  // Keyword rules can match the recognized text
+  await updateAutoTags(updated);
+  return updated;
+}
+
+// Content that failed to be recognized, by file ID and filename, so the sweep doesn't retry it
+const failedRecognitions = new Set<string>();
+const recognitionsInProgress = new Set<string>();
+
+async function extractImageTextLogged(
+  file: Pick<File, "id" | "filename" | "uploadedBy">,
+): Promise<void> {
+  const key = `${file.id}:${file.filename}`;
+  if (recognitionsInProgress.has(key) || failedRecognitions.has(key)) return;
+  recognitionsInProgress.add(key);
+
+  try {
+    await extractImageText(file.id);
+  } catch (error) {
+    failedRecognitions.add(key);
+    fileActivityLogger.logActivity("ocr", "OCR", {
+      level: "warn",
+      userId: file.uploadedBy ?? undefined,
+      fileId: file.id,
+      error: error instanceof Error ? error.message : String(error),
+      details: {
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } finally {
+    recognitionsInProgress.delete(key);
+  }
+}
+
+/**
+ * Recognizes the text in a file in the background, once its content is scanned clean
+ */
+export function queueOcr(file: Pick<File, "id" | "filename" | "uploadedBy" | "mimeType">): void {
+  if (!supportsOcr(file.mimeType)) return;
+
+  extractImageTextLogged(file).catch((error) => {
+    console.error(`Text recognition for file ${file.id} failed:`, error);
+  });
+}
+
+/**
+ * Recognizes the text in clean images that haven't been processed yet, including
+ * images uploaded before OCR existed
+ * @returns Number of files processed
+ */
+export async function recognizeMissingText(): Promise<number> {
+  const candidates = await db
+    .select({ id: files.id, filename: files.filename, uploadedBy: files.uploadedBy })
+    .from(files)
+    .where(
+      and(
+        isNull(files.ocrCompletedAt),
+        isNull(files.deletedAt),
+        inArray(files.scanStatus, getUsableScanStatuses()),
+        inArray(files.mimeType, OCR_TYPES),
+      ),
+    )
+    .limit(OCR_SWEEP_BATCH_SIZE + failedRecognitions.size);
+
+  let processed = 0;
+  for (const file of candidates) {
+    if (failedRecognitions.has(`${file.id}:${file.filename}`)) continue;
+    if (processed >= OCR_SWEEP_BATCH_SIZE) break;
+    await extractImageTextLogged(file);
+    processed++;
+  }
+
+  return processed;
+}
+
+let recognizerStarted = false;
+
+/**
+ * Recognizes text in unprocessed images now and every few minutes. Called once from instrumentation.
+ */
+export function startTextRecognizer(): void {
+  if (recognizerStarted) return;
+  recognizerStarted = true;
+
+  let sweeping = false;
+  const sweep = () => {
+    if (sweeping) return;
+    sweeping = true;
+    recognizeMissingText()
+      .catch((error) => {
+        console.error("Failed to recognize text in images:", error);
+      })
+      .finally(() => {
+        sweeping = false;
+      });
+  };
+
+  sweep();
+  setInterval(sweep, OCR_SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,205 @@
+import { and, inArray, or, sql } from "drizzle-orm";
+import { db, sqlite } from "@/app/auth/db";
+import { files, File } from "@/app/auth/schema";
+import { SearchSnippetPart } from "@/types/file";
+import { openFileContent, readStreamToBuffer } from "@/utils/blobStore";
+import { fileActivityLogger } from "@/utils/logging";
+
+// Types whose content is indexed; the fileSearch table itself is created in setup.ts
+const SEARCHABLE_TYPES = ["text/plain", "text/markdown", "text/csv"];
+
+// Only the start of very large files is indexed
+const MAX_INDEXED_BYTES = 1024 * 1024;
+
+const INDEX_BACKFILL_BATCH_SIZE = 100;
+
+// Wrap matches in snippets. Control characters are removed from indexed text, so they can't clash.
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+/**
+ * Whether a type's content is indexed for search
+ */
+export function supportsContentSearch(mimeType: string): boolean {
+  return SEARCHABLE_TYPES.includes(mimeType);
+}
+
+async function readIndexableText(
+  file: Pick<File, "filename" | "blobHash">,
+): Promise<string> {
+  const { stream } = await openFileContent(file);
+  return (await readStreamToBuffer(stream, MAX_INDEXED_BYTES))
+    .toString("utf8")
+    .replace(/^\uFEFF/, "")
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, " ");
+}
+
+/**
+ * Indexes the current content of a file, or the text recognized in an image, replacing what
+ * was indexed for earlier content. Files without text are removed from the index.
+ * Deleted files are removed by a trigger.
+ */
+export async function indexFileContent(
+  file: Pick<File, "id" | "filename" | "blobHash" | "mimeType" | "ocrText">,
+): Promise<void> {
+  const content = supportsContentSearch(file.mimeType)
+    ? await readIndexableText(file)
+    : file.ocrText || null;
+
+  sqlite.transaction(() => {
+    sqlite.prepare("DELETE FROM fileSearch WHERE fileId = ?").run(file.id);
+    if (content !== null) {
+      sqlite
+        .prepare("INSERT INTO fileSearch (fileId, content) VALUES (?, ?)")
+        .run(file.id, content);
+    }
+  })();
+}
+
+/**
+ * Indexes a file after its content changed. A file missing from the index is only
+ * missing from search results, so failures are logged instead of failing the upload,
+ * and the file is picked up again on the next start.
+ */
+export async function updateSearchIndex(
+  file: Pick<File, "id" | "filename" | "blobHash" | "mimeType" | "ocrText" | "uploadedBy">,
+): Promise<void> {
+  try {
+    await indexFileContent(file);
+  } catch (error) {
+    fileActivityLogger.logActivity("search_indexing", "SearchIndex", {
+      level: "warn",
+      userId: file.uploadedBy ?? undefined,
+      fileId: file.id,
+      error: error instanceof Error ? error.message : String(error),
+      details: {
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+}
+
+/**
+ * Turns what a user typed into an FTS5 query: every word must appear, as a word or the
+ * start of one. Quoting each word keeps FTS5 operators and punctuation from being interpreted.
+ * @returns null if there is nothing to search for
+ */
+export function toContentSearchQuery(search: string): string | null {
+  const terms = search
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ""))
+    .filter((term) => /[a-z0-9\u00C0-\uFFFF]/i.test(term))
+    .slice(0, 10);
+
+  if (terms.length === 0) return null;
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+function toSnippetParts(snippet: string): SearchSnippetPart[] {
+  const parts: SearchSnippetPart[] = [];
+  for (const [index, segment] of snippet.split(MATCH_START).entries()) {
+    const [match, rest] = index === 0 ? [null, segment] : segment.split(MATCH_END);
+    if (match) parts.push({ text: match, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  }
+  return parts;
+}
+
+export interface ContentMatch {
+  fileId: string;
+  snippet: SearchSnippetPart[];
+}
+
+/**
+ * A user's files whose content matches a search, best match first
+ */
+export function searchFileContents(userId: string, search: string): ContentMatch[] {
+  const query = toContentSearchQuery(search);
+  if (!query) return [];
+
+  const rows = sqlite
+    .prepare(
+      `SELECT fileSearch.fileId AS fileId,
+              snippet(fileSearch, 1, ?, ?, '\u2026', 16) AS snippet
+       FROM fileSearch
+       JOIN files ON files.id = fileSearch.fileId
+       WHERE fileSearch MATCH ? AND files.uploadedBy = ? AND files.deletedAt IS NULL
+       ORDER BY bm25(fileSearch)`,
+    )
+    .all(MATCH_START, MATCH_END, query, userId) as { fileId: string; snippet: string }[];
+
+  return rows.map((row) => ({
+    fileId: row.fileId,
+    snippet: toSnippetParts(row.snippet),
+  }));
+}
+
+/**
+ * Whether the indexed content of a file contains every word of a search
+ */
+export function fileContentMatches(fileId: string, search: string): boolean {
+  const query = toContentSearchQuery(search);
+  if (!query) return false;
+
+  const row = sqlite
+    .prepare("SELECT 1 FROM fileSearch WHERE fileSearch MATCH ? AND fileId = ? LIMIT 1")
+    .get(query, fileId);
+  return row !== undefined;
+}
+
+/**
+ * Indexes files whose content isn't in the index yet, such as files uploaded before it existed
+ * @returns Number of files indexed
+ */
+export async function indexUnindexedFiles(): Promise<number> {
+  let indexed = 0;
+  const failed = new Set<string>();
+
+  for (;;) {
+    const batch = await db
+      .select()
+      .from(files)
+      .where(
+        and(
+          or(inArray(files.mimeType, SEARCHABLE_TYPES), sql`${files.ocrText} <> ''`),
+          sql`NOT EXISTS (SELECT 1 FROM fileSearch WHERE fileSearch.fileId = ${files.id})`,
+        ),
+      )
+      .limit(INDEX_BACKFILL_BATCH_SIZE + failed.size);
+
+    const pending = batch.filter((file) => !failed.has(file.id));
+    if (pending.length === 0) return indexed;
+
+    for (const file of pending) {
+      try {
+        await indexFileContent(file);
+        indexed++;
+      } catch (error) {
+        failed.add(file.id);
+        console.error(`Failed to index file ${file.id}:`, error);
+      }
+    }
+  }
+}
+
+let indexerStarted = false;
+
+/**
+ * Indexes what is missing from the search index once, at startup. Called from instrumentation;
+ * after that, uploads keep the index up to date.
+ */
+export function startSearchIndexer(): void {
+  if (indexerStarted) return;
+  indexerStarted = true;
+
+  indexUnindexedFiles()
+    .then((indexed) => {
+      if (indexed > 0) {
+        console.log(`Indexed the content of ${indexed} files for search`);
+      }
+    })
+    .catch((error) => {
+      console.error("Failed to index files for search:", error);
+    });
+}
@@ -0,0 +1,276 @@
+import { SearchFilters, SUPPORTED_FILE_EXTENSIONS, SupportedFileType } from "@/types/file";
+
+// The categories getFileTypeCategory assigns, which type: filters accept
+export const FILE_TYPE_CATEGORIES = [
+  "image",
+  "video",
+  "audio",
+  "pdf",
+  "document",
+  "spreadsheet",
+  "text",
+  "other",
+];
+
+export const SEARCH_FILTER_KEYS = ["type", "size", "before", "after", "name", "tag", "is", "shared"];
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+export class InvalidSearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidSearchQueryError";
+  }
+}
+
+export interface ParsedSearchQuery {
+  // What is left after taking out the filters, matched against names and content
+  text: string;
+  filters: SearchFilters;
+}
+
+/**
+ * Parses a size such as 1.5mb or 300kb; units are powers of 1024, and plain numbers are bytes
+ * @returns The size in bytes, or null if it isn't a size
+ */
+export function parseSize(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)(b|kb|mb|gb)?$/i.exec(value);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[(match[2] || "b").toLowerCase()]);
+}
+
+// Writes a size with the largest unit that divides it, e.g. 1536kb
+function formatSize(bytes: number): string {
+  for (const unit of ["gb", "mb", "kb"]) {
+    if (bytes > 0 && bytes % SIZE_UNITS[unit] === 0) return `${bytes / SIZE_UNITS[unit]}${unit}`;
+  }
+  return `${bytes}b`;
+}
+
+function isRoundSize(bytes: number): boolean {
+  return bytes > 0 && bytes % SIZE_UNITS.kb === 0;
+}
+
+/**
+ * The supported MIME types that use a file extension, with or without the dot
+ */
+export function getMimeTypesForExtension(extension: string): string[] {
+  const normalized = `.${extension.replace(/^\./, "").toLowerCase()}`;
+  return (Object.keys(SUPPORTED_FILE_EXTENSIONS) as SupportedFileType[]).filter((mimeType) =>
+    SUPPORTED_FILE_EXTENSIONS[mimeType].includes(normalized),
+  );
+}
+
+function isKnownType(type: string): boolean {
+  return (
+    FILE_TYPE_CATEGORIES.includes(type) ||
+    /^[a-z]+\/(\*|[a-z0-9.+-]+)$/.test(type) ||
+    getMimeTypesForExtension(type).length > 0
+  );
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  // Rejects days that roll over into the next month, such as 2026-02-30
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+// The day a number of days after a YYYY-MM-DD day
+export function shiftDay(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+function applySharedFilter(filters: SearchFilters, value: string): void {
+  const range = value.split("..");
+  const [, operator, day] = /^(>=|<=|>|<)?(.*)$/.exec(value)!;
+  if (range.length === 2 ? !range.every(isValidDate) : !isValidDate(day)) {
+    throw new InvalidSearchQueryError(
+      `Invalid share date "${value}", e.g. shared:2026-01-31 or shared:>=2026-01-01`,
+    );
+  }
+
+  // Bounds are kept as inclusive days, and repeated bounds narrow the range
+  let from: string | undefined;
+  let until: string | undefined;
+  if (range.length === 2) {
+    [from, until] = range;
+  } else {
+    if (operator !== "<" && operator !== "<=") from = operator === ">" ? shiftDay(day, 1) : day;
+    if (operator !== ">" && operator !== ">=") until = operator === "<" ? shiftDay(day, -1) : day;
+  }
+  if (from && (!filters.sharedFrom || from > filters.sharedFrom)) filters.sharedFrom = from;
+  if (until && (!filters.sharedUntil || until < filters.sharedUntil)) filters.sharedUntil = until;
+}
+
+function applySizeFilter(filters: SearchFilters, value: string): void {
+  const range = value.split("..");
+  if (range.length === 2) {
+    const min = parseSize(range[0]);
+    const max = parseSize(range[1]);
+    if (min === null || max === null) {
+      throw new InvalidSearchQueryError(`Invalid size range "${value}"`);
+    }
+    filters.minSize = Math.max(filters.minSize ?? 0, min);
+    filters.maxSize = Math.min(filters.maxSize ?? Infinity, max);
+    return;
+  }
+
+  const [, operator, amount] = /^(>=|<=|>|<|=)?(.*)$/.exec(value)!;
+  const size = parseSize(amount);
+  if (size === null) {
+    throw new InvalidSearchQueryError(`Invalid size "${value}", e.g. size:>1mb or size:1mb..5mb`);
+  }
+
+  // Bounds are kept inclusive, and repeated bounds narrow the range
+  if (operator === ">" || operator === ">=" || !operator || operator === "=") {
+    filters.minSize = Math.max(filters.minSize ?? 0, operator === ">" ? size + 1 : size);
+  }
+  if (operator === "<" || operator === "<=" || !operator || operator === "=") {
+    filters.maxSize = Math.min(filters.maxSize ?? Infinity, operator === "<" ? size - 1 : size);
+  }
+}
+
+/**
+ * Splits a search into free text and filters written as key:value, with double quotes around
+ * values or phrases that contain spaces:
+ *
+ *   type:image size:>1mb before:2026-01-01 after:2025-06-30 name:"report" tag:Invoices is:shared
+ *   shared:2026-01-31 shared:>=2026-01-01 shared:2026-01-01..2026-01-31
+ *
+ * Repeated type filters match any of the types; other repeated filters must all match.
+ * Words with an unknown key, such as "note:draft", stay part of the text.
+ * Throws InvalidSearchQueryError for filters with invalid values.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const filters: SearchFilters = { types: [], names: [], tags: [] };
+  const text: string[] = [];
+  const tokenPattern = /([a-z]+):(?:"([^"]*)"?|(\S*))|"([^"]*)"?|(\S+)/gi;
+
+  let token: RegExpExecArray | null;
+  while ((token = tokenPattern.exec(query))) {
+    const [whole, rawKey, quotedValue, plainValue, phrase, word] = token;
+    const key = rawKey?.toLowerCase();
+
+    if (!key || !SEARCH_FILTER_KEYS.includes(key)) {
+      const term = phrase ?? word ?? whole;
+      if (term.trim()) text.push(term.trim());
+      continue;
+    }
+
+    const value = (quotedValue ?? plainValue ?? "").trim();
+    if (!value) {
+      throw new InvalidSearchQueryError(`The ${key}: filter needs a value`);
+    }
+
+    switch (key) {
+      case "type": {
+        const type = value.toLowerCase();
+        if (!isKnownType(type)) {
+          throw new InvalidSearchQueryError(`Unknown file type "${value}"`);
+        }
+        filters.types.push(type);
+        break;
+      }
+      case "size":
+        applySizeFilter(filters, value);
+        break;
+      case "before":
+      case "after":
+        if (!isValidDate(value)) {
+          throw new InvalidSearchQueryError(`Invalid date "${value}", expected YYYY-MM-DD`);
+        }
+        // The narrower of repeated dates wins
+        if (key === "before" && (!filters.before || value < filters.before)) {
+          filters.before = value;
+        }
+        if (key === "after" && (!filters.after || value > filters.after)) {
+          filters.after = value;
+        }
+        break;
+      case "name":
+        filters.names.push(value);
+        break;
+      case "tag":
+        filters.tags.push(value);
+        break;
+      case "is":
+        if (value.toLowerCase() !== "shared") {
+          throw new InvalidSearchQueryError(`Unknown filter "is:${value}", expected is:shared`);
+        }
+        filters.shared = true;
+        break;
+      case "shared":
+        applySharedFilter(filters, value);
+        break;
+    }
+  }
+
+  return { text: text.join(" "), filters };
+}
+
+function quoteValue(value: string): string {
+  return /[\s"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+}
+
+/**
+ * Writes filters in the syntax parseSearchQuery reads, one key:value token per filter
+ */
+export function getFilterTokens(filters: SearchFilters): string[] {
+  const tokens = filters.types.map((type) => `type:${type}`);
+
+  const { minSize, maxSize } = filters;
+  if (minSize !== undefined && minSize === maxSize) {
+    tokens.push(`size:${formatSize(minSize)}`);
+  } else if (minSize !== undefined && maxSize !== undefined) {
+    tokens.push(`size:${formatSize(minSize)}..${formatSize(maxSize)}`);
+  } else {
+    // Prefer size:>1mb over size:>=1048577
+    if (minSize !== undefined) {
+      tokens.push(
+        !isRoundSize(minSize) && isRoundSize(minSize - 1)
+          ? `size:>${formatSize(minSize - 1)}`
+          : `size:>=${formatSize(minSize)}`,
+      );
+    }
+    if (maxSize !== undefined) {
+      tokens.push(
+        !isRoundSize(maxSize) && isRoundSize(maxSize + 1)
+          ? `size:<${formatSize(maxSize + 1)}`
+          : `size:<=${formatSize(maxSize)}`,
+      );
+    }
+  }
+
+  if (filters.after) tokens.push(`after:${filters.after}`);
+  if (filters.before) tokens.push(`before:${filters.before}`);
+  tokens.push(...filters.names.map((name) => `name:${quoteValue(name)}`));
+  tokens.push(...filters.tags.map((tag) => `tag:${quoteValue(tag)}`));
+  if (filters.shared) tokens.push("is:shared");
+
+  const { sharedFrom, sharedUntil } = filters;
+  if (sharedFrom && sharedFrom === sharedUntil) {
+    tokens.push(`shared:${sharedFrom}`);
+  } else if (sharedFrom && sharedUntil) {
+    tokens.push(`shared:${sharedFrom}..${sharedUntil}`);
+  } else if (sharedFrom) {
+    tokens.push(`shared:>=${sharedFrom}`);
+  } else if (sharedUntil) {
+    tokens.push(`shared:<=${sharedUntil}`);
+  }
+  return tokens;
+}
+
+/**
+ * Writes a parsed search back as a query: the text, then the filters
+ */
+export function formatSearchQuery({ text, filters }: ParsedSearchQuery): string {
+  return [text, ...getFilterTokens(filters)].filter(Boolean).join(" ");
+}
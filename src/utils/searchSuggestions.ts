@@ -0,0 +1,200 @@
+import { and, desc, eq, isNull, sql, SQL } from "drizzle-orm";
+import { db, sqlite } from "@/app/auth/db";
+import { files, searchHistory } from "@/app/auth/schema";
+import { SearchSuggestion } from "@/types/file";
+import { describeFilterToken } from "@/utils/naturalSearch";
+import { FILE_TYPE_CATEGORIES, SEARCH_FILTER_KEYS } from "@/utils/searchQuery";
+import { getUserTags } from "@/utils/tags";
+
+// Suggestions of each kind returned at most
+export const MAX_SUGGESTIONS_PER_KIND = 5;
+
+// Searches kept per user; older ones are forgotten
+const MAX_SEARCH_HISTORY = 50;
+
+// Searches typed on the way to a longer one, which replaces them if run this soon after
+const TYPING_WINDOW_MS = 60 * 1000;
+
+const FILTER_KEY_LABELS: Record<string, string> = {
+  type: "File type, e.g. type:image or type:pdf",
+  size: "File size, e.g. size:>1mb or size:1mb..5mb",
+  before: "Uploaded before a date, e.g. before:2026-01-01",
+  after: "Uploaded after a date, e.g. after:2026-01-01",
+  name: "Part of the file name",
+  tag: "Files with a tag",
+  is: "Only files you shared, is:shared",
+  shared: "Shared on or between days, e.g. shared:2026-01-31 or shared:>=2026-01-01",
+};
+
+// Values offered after a filter key; tags come from the user's own tags
+const FILTER_VALUES: Record<string, string[]> = {
+  type: FILE_TYPE_CATEGORIES,
+  size: [">1mb", ">10mb", ">100mb", "<100kb", "1mb..10mb"],
+  is: ["shared"],
+};
+
+// Matches text at the start of a column, ignoring case and taking % and _ literally
+function startsWith(column: SQL, text: string): SQL {
+  const pattern = `${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+  return sql`${column} LIKE ${pattern} ESCAPE '\\'`;
+}
+
+/**
+ * Remembers a search the user ran, for suggestions. Searches run while typing it, such as
+ * "budg" just before "budget", are replaced by it, and only the most recent ones are kept.
+ */
+export function recordSearchQuery(userId: string, query: string, now: Date = new Date()): void {
+  const searchedAt = Math.floor(now.getTime() / 1000);
+
+  sqlite.transaction(() => {
+    sqlite
+      .prepare(
+        `DELETE FROM searchHistory
+         WHERE userId = ? AND query <> ? AND lastSearchedAt >= ? AND searchCount = 1
+           AND substr(?, 1, length(query)) = query`,
+      )
+      .run(userId, query, searchedAt - TYPING_WINDOW_MS / 1000, query);
+
+    sqlite
+      .prepare(
+        `INSERT INTO searchHistory (userId, query, searchCount, lastSearchedAt)
+         VALUES (?, ?, 1, ?)
+         ON CONFLICT (userId, query)
+         DO UPDATE SET searchCount = searchCount + 1, lastSearchedAt = excluded.lastSearchedAt`,
+      )
+      .run(userId, query, searchedAt);
+
+    sqlite
+      .prepare(
+        `DELETE FROM searchHistory
+         WHERE userId = ? AND query NOT IN (
+           SELECT query FROM searchHistory WHERE userId = ?
+           ORDER BY lastSearchedAt DESC LIMIT ?
+         )`,
+      )
+      .run(userId, userId, MAX_SEARCH_HISTORY);
+  })();
+}
+
+/**
+ * The user's recent searches starting with what they typed, most recent first;
+ * the most recent searches when nothing is typed yet
+ */
+export async function getRecentSearches(userId: string, prefix: string): Promise<string[]> {
+  const rows = await db
+    .select({ query: searchHistory.query })
+    .from(searchHistory)
+    .where(
+      and(
+        eq(searchHistory.userId, userId),
+        prefix ? startsWith(sql`${searchHistory.query}`, prefix) : undefined,
+        prefix ? sql`${searchHistory.query} <> ${prefix}` : undefined,
+      ),
+    )
+    .orderBy(desc(searchHistory.lastSearchedAt))
+    .limit(MAX_SUGGESTIONS_PER_KIND);
+  return rows.map((row) => row.query);
+}
+
+/**
+ * The user's files whose names start with what they typed, newest first; trashed files excluded
+ */
+export async function getFileNameSuggestions(
+  userId: string,
+  prefix: string,
+): Promise<SearchSuggestion[]> {
+  if (!prefix) return [];
+
+  const rows = await db
+    .select({ id: files.id, originalName: files.originalName })
+    .from(files)
+    .where(
+      and(
+        eq(files.uploadedBy, userId),
+        isNull(files.deletedAt),
+        startsWith(sql`${files.originalName}`, prefix),
+      ),
+    )
+    .orderBy(desc(files.uploadDate))
+    .limit(MAX_SUGGESTIONS_PER_KIND);
+
+  return rows.map((row) => ({
+    type: "file",
+    value: row.originalName,
+    label: row.originalName,
+    fileId: row.id,
+  }));
+}
+
+/**
+ * Completions for the word being typed at the end of a search: filter keys it starts, such as
+ * "ty" to "type:", or values for the filter it starts, such as "type:im" to "type:image"
+ */
+export async function getFilterSuggestions(
+  userId: string,
+  query: string,
+): Promise<SearchSuggestion[]> {
+  const [, before, word] = /^(.*?)(\S*)$/.exec(query)!;
+  // Nothing to complete after a space, or inside a quoted phrase
+  if (!word || (before.match(/"/g) || []).length % 2 === 1) return [];
+
+  const separator = word.indexOf(":");
+  if (separator < 0) {
+    if (word.includes('"')) return [];
+    const typed = word.toLowerCase();
+    return SEARCH_FILTER_KEYS.filter((key) => key.startsWith(typed))
+      .slice(0, MAX_SUGGESTIONS_PER_KIND)
+      .map((key) => ({
+        type: "filter",
+        value: `${before}${key}:`,
+        label: FILTER_KEY_LABELS[key],
+        token: `${key}:`,
+      }));
+  }
+
+  const key = word.slice(0, separator).toLowerCase();
+  const typed = word.slice(separator + 1).replace(/^"/, "").toLowerCase();
+  if (!SEARCH_FILTER_KEYS.includes(key)) return [];
+
+  const values =
+    key === "tag"
+      ? (await getUserTags(userId)).map((tag) =>
+          /[\s"]/.test(tag.name) ? `"${tag.name.replace(/"/g, "")}"` : tag.name,
+        )
+      : FILTER_VALUES[key] ?? [];
+
+  return values
+    .filter((value) => {
+      const unquoted = value.replace(/^"|"$/g, "").toLowerCase();
+      return unquoted.startsWith(typed) && unquoted !== typed;
+    })
+    .slice(0, MAX_SUGGESTIONS_PER_KIND)
+    .map((value) => ({
+      type: "filter",
+      value: `${before}${key}:${value}`,
+      label: describeFilterToken(`${key}:${value}`),
+      token: `${key}:${value}`,
+    }));
+}
+
+/**
+ * Everything suggested for what the user typed so far: filter completions, then matching
+ * recent searches, then files whose names start with it
+ */
+export async function getSearchSuggestions(
+  userId: string,
+  query: string,
+): Promise<SearchSuggestion[]> {
+  const prefix = query.trimStart();
+  const [filters, recent, fileNames] = await Promise.all([
+    getFilterSuggestions(userId, prefix),
+    getRecentSearches(userId, prefix.trim()),
+    getFileNameSuggestions(userId, prefix.trim()),
+  ]);
+
+  return [
+    ...filters,
+    ...recent.map((search): SearchSuggestion => ({ type: "recent", value: search, label: search })),
+    ...fileNames,
+  ];
+}
@@ -0,0 +1,74 @@
+import path from "path";
+import { Readable } from "stream";
+import { LocalDiskStorage } from "./localDiskStorage";
+import { S3Storage } from "./s3Storage";
+import type { StorageBackend, StorageDriver } from "./types";
+
+export { LocalDiskStorage } from "./localDiskStorage";
+export { S3Storage, type S3StorageConfig } from "./s3Storage";
+export {
+  StorageObjectNotFoundError,
+  type PutObjectOptions,
+  type StorageBackend,
+  type StorageDriver,
+  type StorageObjectInfo,
+} from "./types";
+
+// Root directory used by the local driver
+export const LOCAL_STORAGE_DIR = path.resolve(
+  process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), "uploads"),
+);
+
+let storageInstance: StorageBackend | null = null;
+
+/**
+ * Creates a storage backend from environment configuration
+ *
+ * STORAGE_DRIVER=local (default) uses LOCAL_STORAGE_DIR.
+ * STORAGE_DRIVER=s3 uses S3_BUCKET, S3_REGION, S3_ENDPOINT,
+ * S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_FORCE_PATH_STYLE and S3_PREFIX.
+ */
+export function createStorageFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): StorageBackend {
+  const driver = (env.STORAGE_DRIVER || "local") as StorageDriver;
+
+  switch (driver) {
+    case "local":
+      return new LocalDiskStorage(LOCAL_STORAGE_DIR);
+    case "s3":
+      if (!env.S3_BUCKET) {
+        throw new Error("S3_BUCKET is required when STORAGE_DRIVER=s3");
+      }
+      return new S3Storage({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION || "us-east-1",
+        endpoint: env.S3_ENDPOINT,
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        // MinIO and most self-hosted stand-ins need path-style addressing
+        forcePathStyle:
+          env.S3_FORCE_PATH_STYLE === "true" || !!env.S3_ENDPOINT,
+        prefix: env.S3_PREFIX,
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+}
+
+/**
+ * Returns the configured storage backend (created once per process)
+ */
+export function getStorage(): StorageBackend {
+  if (!storageInstance) {
+    storageInstance = createStorageFromEnv();
+  }
+  return storageInstance;
+}
+
+/**
+ * Converts a Node.js stream from a storage backend into a web stream for Response bodies
+ */
+export function toWebStream(stream: Readable): ReadableStream<Uint8Array> {
+  return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+}
@@ -0,0 +1,154 @@
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import { randomUUID } from "crypto";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  StorageBackend,
+  StorageObjectInfo,
+  StorageObjectNotFoundError,
+} from "./types";
+
+/**
+ * Stores objects as plain files below a root directory on the local disk
+ */
+export class LocalDiskStorage implements StorageBackend {
+  readonly driver = "local" as const;
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /**
+   * Resolves a key to an absolute path, rejecting keys that escape the root
+   */
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+
+    if (
+      !key ||
+      path.isAbsolute(key) ||
+      !filePath.startsWith(this.rootDir + path.sep)
+    ) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+
+  async put(key: string, body: Readable | Buffer): Promise<StorageObjectInfo> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write to a sibling temp file first so readers never see partial objects
+    const tempPath = `${filePath}.${randomUUID()}.partial`;
+
+    try {
+      if (Buffer.isBuffer(body)) {
+        await fs.writeFile(tempPath, body);
+      } else {
+        await pipeline(body, createWriteStream(tempPath));
+      }
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => {
+        // Ignore cleanup errors
+      });
+      throw error;
+    }
+
+    const stats = await fs.stat(filePath);
+    return { key, size: stats.size, lastModified: stats.mtime };
+  }
+
+  async putFile(key: string, sourcePath: string): Promise<StorageObjectInfo> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    try {
+      // Atomic when the source lives on the same filesystem
+      await fs.rename(sourcePath, filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+        throw error;
+      }
+      await this.put(key, createReadStream(sourcePath));
+      await fs.unlink(sourcePath);
+    }
+
+    const stats = await fs.stat(filePath);
+    return { key, size: stats.size, lastModified: stats.mtime };
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    const filePath = this.resolveKey(key);
+
+    try {
+      await fs.access(filePath);
+    } catch {
+      throw new StorageObjectNotFoundError(key);
+    }
+
+    return createReadStream(filePath);
+  }
+
+  async stat(key: string): Promise<StorageObjectInfo | null> {
+    const filePath = this.resolveKey(key);
+
+    try {
+      const stats = await fs.stat(filePath);
+      if (!stats.isFile()) return null;
+      return { key, size: stats.size, lastModified: stats.mtime };
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolveKey(key);
+
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+
+  async *list(prefix = ""): AsyncIterable<StorageObjectInfo> {
+    yield* this.walk(this.rootDir, prefix);
+  }
+
+  private async *walk(
+    dir: string,
+    prefix: string,
+  ): AsyncIterable<StorageObjectInfo> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      const key = path.relative(this.rootDir, entryPath).split(path.sep).join("/");
+
+      if (entry.isDirectory()) {
+        // Only descend into directories that can contain matching keys
+        if (prefix.startsWith(`${key}/`) || key.startsWith(prefix)) {
+          yield* this.walk(entryPath, prefix);
+        }
+      } else if (
+        entry.isFile() &&
+        key.startsWith(prefix) &&
+        !entry.name.endsWith(".partial")
+      ) {
+        const stats = await fs.stat(entryPath);
+        yield { key, size: stats.size, lastModified: stats.mtime };
+      }
+    }
+  }
+}
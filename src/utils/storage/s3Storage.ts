@@ -0,0 +1,192 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  S3Client,
+  S3ServiceException,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { createReadStream } from "fs";
+import { Readable } from "stream";
+import {
+  PutObjectOptions,
+  StorageBackend,
+  StorageObjectInfo,
+  StorageObjectNotFoundError,
+} from "./types";
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+  prefix?: string;
+}
+
+/**
+ * Stores objects in an S3-compatible bucket (AWS S3, MinIO, R2, ...)
+ */
+export class S3Storage implements StorageBackend {
+  readonly driver = "s3" as const;
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+
+  constructor(config: S3StorageConfig) {
+    this.bucket = config.bucket;
+    this.prefix = config.prefix ? config.prefix.replace(/\/+$/, "") + "/" : "";
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials:
+        config.accessKeyId && config.secretAccessKey
+          ? {
+              accessKeyId: config.accessKeyId,
+              secretAccessKey: config.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  private toObjectKey(key: string): string {
+    if (!key || key.startsWith("/") || key.split("/").includes("..")) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return `${this.prefix}${key}`;
+  }
+
+  private fromObjectKey(objectKey: string): string {
+    return objectKey.slice(this.prefix.length);
+  }
+
+  async put(
+    key: string,
+    body: Readable | Buffer,
+    options: PutObjectOptions = {},
+  ): Promise<StorageObjectInfo> {
+    // lib-storage switches to multipart uploads for large streams, so the
+    // body never has to be fully buffered in memory
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: this.toObjectKey(key),
+        Body: body,
+        ContentType: options.contentType,
+      },
+    });
+
+    await upload.done();
+
+    const info = await this.stat(key);
+    if (!info) {
+      throw new Error(`Object ${key} missing after upload`);
+    }
+    return info;
+  }
+
+  async putFile(
+    key: string,
+    sourcePath: string,
+    options: PutObjectOptions = {},
+  ): Promise<StorageObjectInfo> {
+    return this.put(key, createReadStream(sourcePath), options);
+  }
+
+  async getStream(key: string): Promise<Readable> {
+    try {
+      const result = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: this.toObjectKey(key),
+        }),
+      );
+
+      if (!result.Body) {
+        throw new StorageObjectNotFoundError(key);
+      }
+
+      return result.Body as Readable;
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new StorageObjectNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async stat(key: string): Promise<StorageObjectInfo | null> {
+    try {
+      const result = await this.client.send(
+        new HeadObjectCommand({
+          Bucket: this.bucket,
+          Key: this.toObjectKey(key),
+        }),
+      );
+
+      return {
+        key,
+        size: result.ContentLength ?? 0,
+        lastModified: result.LastModified ?? new Date(0),
+        contentType: result.ContentType,
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 DeleteObject is idempotent, missing keys succeed
+    await this.client.send(
+      new DeleteObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toObjectKey(key),
+      }),
+    );
+  }
+
+  async *list(prefix = ""): AsyncIterable<StorageObjectInfo> {
+    let continuationToken: string | undefined;
+
+    do {
+      const result = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: `${this.prefix}${prefix}`,
+          ContinuationToken: continuationToken,
+        }),
+      );
+
+      for (const object of result.Contents ?? []) {
+        if (!object.Key) continue;
+        yield {
+          key: this.fromObjectKey(object.Key),
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0),
+        };
+      }
+
+      continuationToken = result.IsTruncated
+        ? result.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  if (error instanceof S3ServiceException) {
+    return (
+      error.name === "NoSuchKey" ||
+      error.name === "NotFound" ||
+      error.$metadata?.httpStatusCode === 404
+    );
+  }
+  return false;
+}
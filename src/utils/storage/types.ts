@@ -0,0 +1,71 @@
+import type { Readable } from "stream";
+
+export type StorageDriver = "local" | "s3";
+
+export interface StorageObjectInfo {
+  key: string;
+  size: number;
+  lastModified: Date;
+  contentType?: string;
+}
+
+export interface PutObjectOptions {
+  contentType?: string;
+  contentLength?: number;
+}
+
+/**
+ * Common interface implemented by every storage driver.
+ * Keys are forward-slash separated paths relative to the storage root.
+ */
+export interface StorageBackend {
+  readonly driver: StorageDriver;
+
+  /**
+   * Stores an object, replacing any existing object with the same key
+   */
+  put(
+    key: string,
+    body: Readable | Buffer,
+    options?: PutObjectOptions,
+  ): Promise<StorageObjectInfo>;
+
+  /**
+   * Stores the contents of a local file under the given key.
+   * The source file may be moved into place (local driver), so callers
+   * must treat it as consumed afterwards.
+   */
+  putFile(
+    key: string,
+    sourcePath: string,
+    options?: PutObjectOptions,
+  ): Promise<StorageObjectInfo>;
+
+  /**
+   * Opens a read stream for an object.
+   * Throws StorageObjectNotFoundError if the object does not exist.
+   */
+  getStream(key: string): Promise<Readable>;
+
+  /**
+   * Returns object metadata, or null if the object does not exist
+   */
+  stat(key: string): Promise<StorageObjectInfo | null>;
+
+  /**
+   * Deletes an object. Deleting a missing object is not an error.
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Lists all objects whose key starts with the given prefix
+   */
+  list(prefix?: string): AsyncIterable<StorageObjectInfo>;
+}
+
+export class StorageObjectNotFoundError extends Error {
+  constructor(public readonly key: string) {
+    super(`Storage object not found: ${key}`);
+    this.name = "StorageObjectNotFoundError";
+  }
+}
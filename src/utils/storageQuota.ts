@@ -0,0 +1,178 @@
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import {
+  blobs,
+  files,
+  fileVersions,
+  storageUsage,
+  StorageUsage,
+} from "@/app/auth/schema";
+import { FileValidationError, StorageUsageSummary } from "@/types/file";
+import { formatFileSize } from "@/utils/fileUtils";
+
+export type StoragePlan = StorageUsage["plan"];
+
+const GB = 1024 * 1024 * 1024;
+
+// Matches the tiers on the pricing page. A null quota is unlimited.
+export const STORAGE_PLANS: Record<
+  StoragePlan,
+  { name: string; quotaBytes: number | null }
+> = {
+  starter: { name: "Starter", quotaBytes: 5 * GB },
+  professional: { name: "Professional", quotaBytes: 1024 * GB },
+  enterprise: { name: "Enterprise", quotaBytes: null },
+};
+
+export function isStoragePlan(value: unknown): value is StoragePlan {
+  return typeof value === "string" && value in STORAGE_PLANS;
+}
+
+export function toStorageUsageSummary(usage: StorageUsage): StorageUsageSummary {
+  const { name, quotaBytes } = STORAGE_PLANS[usage.plan];
+  return {
+    plan: usage.plan,
+    planName: name,
+    usedBytes: usage.usedBytes,
+    quotaBytes,
+    availableBytes:
+      quotaBytes === null ? null : Math.max(0, quotaBytes - usage.usedBytes),
+  };
+}
+
+/**
+ * Bytes a user stores. Content is counted once per distinct blob however many of their
+ * files or versions share it, so re-uploading identical content is free. Trashed files
+ * count until they are permanently deleted.
+ */
+export async function calculateStorageUsage(userId: string): Promise<number> {
+  const [currentBlobs, archivedBlobs] = await Promise.all([
+    db
+      .selectDistinct({ sha256: blobs.sha256, size: blobs.size })
+      .from(files)
+      .innerJoin(blobs, eq(blobs.sha256, files.blobHash))
+      .where(eq(files.uploadedBy, userId)),
+    db
+      .selectDistinct({ sha256: blobs.sha256, size: blobs.size })
+      .from(fileVersions)
+      .innerJoin(files, eq(files.id, fileVersions.fileId))
+      .innerJoin(blobs, eq(blobs.sha256, fileVersions.blobHash))
+      .where(eq(files.uploadedBy, userId)),
+  ]);
+
+  const blobSizes = new Map<string, number>();
+  for (const blob of [...currentBlobs, ...archivedBlobs]) {
+    blobSizes.set(blob.sha256, blob.size);
+  }
+
+  // Content stored before content-addressed storage has no blob to share
+  const [[legacyCurrent], [legacyArchived]] = await Promise.all([
+    db
+      .select({ bytes: sql<number>`coalesce(sum(${files.fileSize}), 0)` })
+      .from(files)
+      .where(and(eq(files.uploadedBy, userId), isNull(files.blobHash))),
+    db
+      .select({ bytes: sql<number>`coalesce(sum(${fileVersions.fileSize}), 0)` })
+      .from(fileVersions)
+      .innerJoin(files, eq(files.id, fileVersions.fileId))
+      .where(and(eq(files.uploadedBy, userId), isNull(fileVersions.blobHash))),
+  ]);
+
+  let usedBytes = legacyCurrent.bytes + legacyArchived.bytes;
+  for (const size of blobSizes.values()) {
+    usedBytes += size;
+  }
+  return usedBytes;
+}
+
+/**
+ * Recalculates a user's usage counter. Called after anything that adds or removes content.
+ */
+export async function refreshStorageUsage(userId: string): Promise<StorageUsage> {
+  const usedBytes = await calculateStorageUsage(userId);
+  const now = new Date();
+
+  const [usage] = await db
+    .insert(storageUsage)
+    .values({ userId, usedBytes, updatedAt: now })
+    .onConflictDoUpdate({
+      target: storageUsage.userId,
+      set: { usedBytes, updatedAt: now },
+    })
+    .returning();
+
+  return usage;
+}
+
+/**
+ * A user's plan and usage, created on first access for users who have not uploaded yet
+ */
+export async function getStorageUsage(userId: string): Promise<StorageUsage> {
+  const [usage] = await db
+    .select()
+    .from(storageUsage)
+    .where(eq(storageUsage.userId, userId))
+    .limit(1);
+
+  return usage ?? refreshStorageUsage(userId);
+}
+
+export async function setStoragePlan(
+  userId: string,
+  plan: StoragePlan,
+): Promise<StorageUsage> {
+  await getStorageUsage(userId);
+
+  const [usage] = await db
+    .update(storageUsage)
+    .set({ plan, updatedAt: new Date() })
+    .where(eq(storageUsage.userId, userId))
+    .returning();
+
+  return usage;
+}
+
+async function referencesBlob(userId: string, sha256: string): Promise<boolean> {
+  const [current] = await db
+    .select({ id: files.id })
+    .from(files)
+    .where(and(eq(files.uploadedBy, userId), eq(files.blobHash, sha256)))
+    .limit(1);
+  if (current) return true;
+
+  const [archived] = await db
+    .select({ id: fileVersions.id })
+    .from(fileVersions)
+    .innerJoin(files, eq(files.id, fileVersions.fileId))
+    .where(
+      and(eq(files.uploadedBy, userId), eq(fileVersions.blobHash, sha256)),
+    )
+    .limit(1);
+  return !!archived;
+}
+
+/**
+ * Checks that storing a file would keep the user within their plan's quota.
+ * When the hash is known, content the user already stores costs nothing.
+ * @returns A "quota" validation error, or null if the file fits
+ */
+export async function checkStorageQuota(
+  userId: string,
+  file: { originalName: string; size: number; sha256?: string },
+): Promise<FileValidationError | null> {
+  const usage = await getStorageUsage(userId);
+  const { quotaBytes } = STORAGE_PLANS[usage.plan];
+  if (quotaBytes === null) return null;
+
+  if (file.sha256 && (await referencesBlob(userId, file.sha256))) {
+    return null;
+  }
+
+  if (usage.usedBytes + file.size <= quotaBytes) return null;
+
+  return {
+    type: "quota",
+    message: `Storage quota exceeded: ${formatFileSize(usage.usedBytes)} of ${formatFileSize(quotaBytes)} used, ${formatFileSize(Math.max(0, quotaBytes - usage.usedBytes))} available on the ${STORAGE_PLANS[usage.plan].name} plan`,
+    filename: file.originalName,
+  };
+}
@@ -0,0 +1,476 @@
+import { randomUUID } from "crypto";
+import { and, count, desc, eq, isNotNull, isNull, or } from "drizzle-orm";
+import { promises as fs } from "fs";
+import path from "path";
+import { db } from "@/app/auth/db";
+import {
+  blobs,
+  files,
+  fileVersions,
+  storageReconciliationRuns,
+  StorageReconciliationRun,
+  uploadSessions,
+} from "@/app/auth/schema";
+import { BLOB_KEY_PREFIX } from "@/utils/blobStore";
+import { fileActivityLogger } from "@/utils/logging";
+import { getStorage } from "@/utils/storage";
+import { discardTempFile, UPLOAD_TMP_DIR } from "@/utils/uploadPipeline";
+
+// Objects and blobs younger than this are never deleted, so uploads that are
+// still being written (object stored, row not yet committed) are left alone
+export const STORAGE_GC_GRACE_PERIOD_MS =
+  (Number(process.env.STORAGE_GC_GRACE_HOURS) || 24) * 60 * 60 * 1000; // 24 hours default
+
+export const STORAGE_GC_INTERVAL_MS =
+  (Number(process.env.STORAGE_GC_INTERVAL_HOURS) || 24) * 60 * 60 * 1000; // daily default
+
+// Detailed lists in a stored report are capped, the summary always has full counts
+const MAX_REPORTED_ITEMS = 200;
+
+export type ReconciliationAction = "deleted" | "pending";
+
+export interface OrphanedObject {
+  key: string;
+  size: number;
+  lastModified: string;
+  // deleted: removed in this run; pending: within the grace period or dry run
+  action: ReconciliationAction;
+}
+
+export interface MissingObject {
+  key: string;
+  sha256?: string;
+  fileIds: string[];
+}
+
+export interface UnreferencedBlob {
+  sha256: string;
+  size: number;
+  action: ReconciliationAction;
+}
+
+export interface RefCountCorrection {
+  sha256: string;
+  from: number;
+  to: number;
+}
+
+export interface ReconciliationSummary {
+  scannedObjects: number;
+  orphanedObjects: number;
+  orphanedBytes: number;
+  missingObjects: number;
+  unreferencedBlobs: number;
+  refCountsCorrected: number;
+  deletedObjects: number;
+  deletedBytes: number;
+  staleTempFilesDeleted: number;
+  errors: number;
+}
+
+export interface ReconciliationReport {
+  orphanedObjects: OrphanedObject[];
+  missingObjects: MissingObject[];
+  unreferencedBlobs: UnreferencedBlob[];
+  refCountCorrections: RefCountCorrection[];
+  errors: string[];
+}
+
+export interface ReconcileOptions {
+  dryRun?: boolean;
+  trigger?: StorageReconciliationRun["trigger"];
+  triggeredBy?: string;
+}
+
+export class ReconciliationInProgressError extends Error {
+  constructor() {
+    super("A storage reconciliation is already running");
+    this.name = "ReconciliationInProgressError";
+  }
+}
+
+let activeRun: Promise<StorageReconciliationRun> | null = null;
+
+function pushCapped<T>(list: T[], item: T): void {
+  if (list.length < MAX_REPORTED_ITEMS) list.push(item);
+}
+
+/**
+ * Compares storage with the database and garbage-collects what nothing refers to:
+ * - corrects blob reference counts (rows removed by user deletion cascades never released their blobs)
+ * - deletes unreferenced blobs and orphaned objects older than the grace period
+ * - reports objects the database refers to that are missing from storage
+ * - removes stale temp files left behind by crashed uploads
+ * Every run is recorded in storageReconciliationRuns.
+ */
+export function reconcileStorage(
+  options: ReconcileOptions = {},
+): Promise<StorageReconciliationRun> {
+  if (activeRun) {
+    return Promise.reject(new ReconciliationInProgressError());
+  }
+
+  activeRun = runReconciliation(options).finally(() => {
+    activeRun = null;
+  });
+  return activeRun;
+}
+
+export function isReconciliationRunning(): boolean {
+  return activeRun !== null;
+}
+
+async function runReconciliation({
+  dryRun = false,
+  trigger = "manual",
+  triggeredBy,
+}: ReconcileOptions): Promise<StorageReconciliationRun> {
+  const [run] = await db
+    .insert(storageReconciliationRuns)
+    .values({
+      id: randomUUID(),
+      trigger,
+      triggeredBy,
+      dryRun,
+      status: "running",
+      startedAt: new Date(),
+    })
+    .returning();
+
+  fileActivityLogger.logActivity("storage_reconciliation", "StorageReconciler", {
+    level: "info",
+    userId: triggeredBy,
+    details: {
+      phase: "started",
+      runId: run.id,
+      trigger,
+      dryRun,
+      timestamp: new Date().toISOString(),
+    },
+  });
+
+  try {
+    const { summary, report } = await reconcile(dryRun);
+
+    const [completedRun] = await db
+      .update(storageReconciliationRuns)
+      .set({
+        status: "completed",
+        summary: JSON.stringify(summary),
+        report: JSON.stringify(report),
+        finishedAt: new Date(),
+      })
+      .where(eq(storageReconciliationRuns.id, run.id))
+      .returning();
+
+    fileActivityLogger.logActivity("storage_reconciliation", "StorageReconciler", {
+      level: summary.missingObjects > 0 || summary.errors > 0 ? "warn" : "info",
+      userId: triggeredBy,
+      details: {
+        phase: "completed",
+        runId: run.id,
+        ...summary,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return completedRun;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    const [failedRun] = await db
+      .update(storageReconciliationRuns)
+      .set({ status: "failed", error: message, finishedAt: new Date() })
+      .where(eq(storageReconciliationRuns.id, run.id))
+      .returning();
+
+    fileActivityLogger.logActivity("storage_reconciliation", "StorageReconciler", {
+      level: "error",
+      userId: triggeredBy,
+      error: message,
+      details: {
+        phase: "failed",
+        runId: run.id,
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    return failedRun;
+  }
+}
+
+/**
+ * Number of references each blob should have, derived from the files and
+ * archived fileVersions rows that point at it, as content or as a thumbnail
+ */
+async function countBlobReferences(): Promise<Map<string, number>> {
+  const references = new Map<string, number>();
+
+  for (const column of [files.blobHash, fileVersions.blobHash, files.thumbnailBlobHash]) {
+    const rows = await db
+      .select({ blobHash: column, references: count() })
+      .from(column.table)
+      .where(isNotNull(column))
+      .groupBy(column);
+
+    for (const row of rows) {
+      references.set(
+        row.blobHash!,
+        (references.get(row.blobHash!) ?? 0) + row.references,
+      );
+    }
+  }
+
+  return references;
+}
+
+async function reconcile(
+  dryRun: boolean,
+): Promise<{ summary: ReconciliationSummary; report: ReconciliationReport }> {
+  const storage = getStorage();
+  const cutoff = new Date(Date.now() - STORAGE_GC_GRACE_PERIOD_MS);
+
+  const summary: ReconciliationSummary = {
+    scannedObjects: 0,
+    orphanedObjects: 0,
+    orphanedBytes: 0,
+    missingObjects: 0,
+    unreferencedBlobs: 0,
+    refCountsCorrected: 0,
+    deletedObjects: 0,
+    deletedBytes: 0,
+    staleTempFilesDeleted: 0,
+    errors: 0,
+  };
+  const report: ReconciliationReport = {
+    orphanedObjects: [],
+    missingObjects: [],
+    unreferencedBlobs: [],
+    refCountCorrections: [],
+    errors: [],
+  };
+
+  const recordError = (message: string) => {
+    summary.errors++;
+    pushCapped(report.errors, message);
+  };
+
+  // 1. Bring reference counts in line with the rows that actually exist.
+  //    Recently touched blobs are skipped, an upload may be between taking
+  //    its reference and inserting its files row.
+  const references = await countBlobReferences();
+  const blobRows = await db.select().from(blobs);
+
+  for (const blob of blobRows) {
+    const expected = references.get(blob.sha256) ?? 0;
+    if (blob.refCount === expected || blob.updatedAt > cutoff) continue;
+
+    summary.refCountsCorrected++;
+    pushCapped(report.refCountCorrections, {
+      sha256: blob.sha256,
+      from: blob.refCount,
+      to: expected,
+    });
+
+    if (!dryRun) {
+      // Only apply if nothing changed the count since it was read
+      await db
+        .update(blobs)
+        .set({ refCount: expected, updatedAt: new Date() })
+        .where(and(eq(blobs.sha256, blob.sha256), eq(blobs.refCount, blob.refCount)));
+    }
+    blob.refCount = expected;
+  }
+
+  // 2. Delete blobs nothing refers to
+  const liveBlobs = new Map(blobRows.map((blob) => [blob.storageKey, blob]));
+
+  for (const blob of blobRows) {
+    if (blob.refCount > 0) continue;
+
+    summary.unreferencedBlobs++;
+    const deletable = !dryRun && blob.updatedAt <= cutoff;
+    pushCapped(report.unreferencedBlobs, {
+      sha256: blob.sha256,
+      size: blob.size,
+      action: deletable ? "deleted" : "pending",
+    });
+
+    if (!deletable) continue;
+
+    try {
+      const [deleted] = await db
+        .delete(blobs)
+        .where(and(eq(blobs.sha256, blob.sha256), eq(blobs.refCount, 0)))
+        .returning();
+      if (!deleted) continue;
+
+      liveBlobs.delete(blob.storageKey);
+      await storage.delete(blob.storageKey);
+      summary.deletedObjects++;
+      summary.deletedBytes += blob.size;
+    } catch (error) {
+      recordError(`Failed to delete blob ${blob.sha256}: ${String(error)}`);
+    }
+  }
+
+  // 3. Walk storage looking for objects nothing refers to
+  const legacyFiles = [
+    ...(await db
+      .select({ id: files.id, filename: files.filename })
+      .from(files)
+      .where(isNull(files.blobHash))),
+    ...(await db
+      .select({ id: fileVersions.fileId, filename: fileVersions.filename })
+      .from(fileVersions)
+      .where(isNull(fileVersions.blobHash))),
+  ];
+  const legacyKeys = new Map<string, string[]>();
+  for (const file of legacyFiles) {
+    legacyKeys.set(file.filename, [...(legacyKeys.get(file.filename) ?? []), file.id]);
+  }
+
+  const seenKeys = new Set<string>();
+
+  for await (const object of storage.list()) {
+    // Dot-prefixed directories (temp files) are not content
+    if (object.key.split("/").some((segment) => segment.startsWith("."))) {
+      continue;
+    }
+
+    summary.scannedObjects++;
+
+    const referenced = object.key.startsWith(BLOB_KEY_PREFIX)
+      ? liveBlobs.has(object.key)
+      : legacyKeys.has(object.key);
+
+    if (referenced) {
+      seenKeys.add(object.key);
+      continue;
+    }
+
+    summary.orphanedObjects++;
+    summary.orphanedBytes += object.size;
+    const deletable = !dryRun && object.lastModified <= cutoff;
+
+    pushCapped(report.orphanedObjects, {
+      key: object.key,
+      size: object.size,
+      lastModified: object.lastModified.toISOString(),
+      action: deletable ? "deleted" : "pending",
+    });
+
+    if (!deletable) continue;
+
+    try {
+      await storage.delete(object.key);
+      summary.deletedObjects++;
+      summary.deletedBytes += object.size;
+    } catch (error) {
+      recordError(`Failed to delete orphaned object ${object.key}: ${String(error)}`);
+    }
+  }
+
+  // 4. Report referenced content that is missing from storage
+  for (const blob of liveBlobs.values()) {
+    // Encrypted blobs without an auth tag are still being written
+    if (seenKeys.has(blob.storageKey) || (blob.wrappedKey && !blob.authTag)) {
+      continue;
+    }
+
+    const referencingFiles = [
+      ...(await db
+        .select({ id: files.id })
+        .from(files)
+        .where(
+          or(eq(files.blobHash, blob.sha256), eq(files.thumbnailBlobHash, blob.sha256)),
+        )),
+      ...(await db
+        .selectDistinct({ id: fileVersions.fileId })
+        .from(fileVersions)
+        .where(eq(fileVersions.blobHash, blob.sha256))),
+    ];
+
+    summary.missingObjects++;
+    pushCapped(report.missingObjects, {
+      key: blob.storageKey,
+      sha256: blob.sha256,
+      fileIds: [...new Set(referencingFiles.map((file) => file.id))],
+    });
+  }
+
+  for (const [key, fileIds] of legacyKeys) {
+    if (seenKeys.has(key)) continue;
+    summary.missingObjects++;
+    pushCapped(report.missingObjects, { key, fileIds });
+  }
+
+  // 5. Remove temp files abandoned by crashed uploads
+  if (!dryRun) {
+    summary.staleTempFilesDeleted = await removeStaleTempFiles(cutoff);
+  }
+
+  return { summary, report };
+}
+
+async function removeStaleTempFiles(cutoff: Date): Promise<number> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(UPLOAD_TMP_DIR);
+  } catch {
+    return 0;
+  }
+
+  const activeSessions = await db
+    .select({ tempPath: uploadSessions.tempPath })
+    .from(uploadSessions);
+  const activeTempPaths = new Set(activeSessions.map((row) => row.tempPath));
+
+  let removed = 0;
+  for (const entry of entries) {
+    const tempPath = path.join(UPLOAD_TMP_DIR, entry);
+    if (activeTempPaths.has(tempPath)) continue;
+
+    try {
+      const stats = await fs.stat(tempPath);
+      if (!stats.isFile() || stats.mtime > cutoff) continue;
+      await discardTempFile(tempPath);
+      removed++;
+    } catch {
+      // Removed concurrently
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Most recent runs, newest first
+ */
+export async function getRecentReconciliationRuns(
+  limit = 10,
+): Promise<StorageReconciliationRun[]> {
+  return db
+    .select()
+    .from(storageReconciliationRuns)
+    .orderBy(desc(storageReconciliationRuns.startedAt))
+    .limit(limit);
+}
+
+let schedulerStarted = false;
+
+/**
+ * Runs the reconciliation job every STORAGE_GC_INTERVAL_HOURS. Called once from instrumentation.
+ */
+export function startStorageReconciler(): void {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+
+  setInterval(() => {
+    reconcileStorage({ trigger: "scheduled" }).catch((error) => {
+      if (!(error instanceof ReconciliationInProgressError)) {
+        console.error("Scheduled storage reconciliation failed:", error);
+      }
+    });
+  }, STORAGE_GC_INTERVAL_MS);
+}
@@ -0,0 +1,336 @@
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+const XLINK_NAMESPACE = "http://www.w3.org/1999/xlink";
+
+export class SvgSanitizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SvgSanitizationError";
+  }
+}
+
+// Largest SVG accepted, since the sanitizer holds the whole document in memory
+export const MAX_SVG_SIZE = 10 * 1024 * 1024;
+
+// Everything else, including script, foreignObject and any prefixed element, is removed with its content
+const ALLOWED_ELEMENTS = new Set([
+  "svg", "g", "defs", "symbol", "use", "switch", "a", "title", "desc", "style",
+  "path", "rect", "circle", "ellipse", "line", "polyline", "polygon",
+  "text", "tspan", "textPath", "image", "marker", "pattern", "clipPath", "mask",
+  "linearGradient", "radialGradient", "stop",
+  "filter", "feBlend", "feColorMatrix", "feComponentTransfer", "feComposite",
+  "feConvolveMatrix", "feDiffuseLighting", "feDisplacementMap", "feDistantLight",
+  "feDropShadow", "feFlood", "feFuncA", "feFuncB", "feFuncG", "feFuncR",
+  "feGaussianBlur", "feImage", "feMerge", "feMergeNode", "feMorphology", "feOffset",
+  "fePointLight", "feSpecularLighting", "feSpotLight", "feTile", "feTurbulence",
+  "animate", "animateMotion", "animateTransform", "mpath", "set",
+]);
+
+const ANIMATION_ELEMENTS = new Set(["animate", "animateMotion", "animateTransform", "set"]);
+
+// Elements that may embed a raster image as a data: URI instead of referencing an element
+const IMAGE_ELEMENTS = new Set(["image", "feImage"]);
+const DATA_IMAGE_PATTERN = /^data:image\/(png|jpeg|gif|webp);base64,[a-z0-9+/=\s]*$/i;
+
+const ALLOWED_PREFIXED_ATTRIBUTES = new Set(["xlink:href", "xml:space", "xml:lang"]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const codePoint =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      try {
+        return String.fromCodePoint(codePoint);
+      } catch {
+        throw new SvgSanitizationError(`Invalid character reference ${entity}`);
+      }
+    }
+
+    const decoded = NAMED_ENTITIES[code];
+    if (decoded === undefined) {
+      // Custom entities come from a DTD, which is never kept
+      throw new SvgSanitizationError(`Undefined entity ${entity}`);
+    }
+    return decoded;
+  });
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, "&quot;");
+}
+
+// Control characters and whitespace are ignored inside URL schemes by browsers ("java\tscript:")
+function normalizeForCheck(value: string): string {
+  return value.replace(/[\u0000- ]/g, "").toLowerCase();
+}
+
+/**
+ * Whether a value references anything other than an element in the same document
+ */
+function hasExternalUrl(value: string): boolean {
+  for (const match of value.matchAll(/url\s*\(\s*(['"]?)\s*([^'")]*)/gi)) {
+    if (!match[2].startsWith("#")) return true;
+  }
+  return false;
+}
+
+/**
+ * Removes imports and external url() references from CSS
+ * @returns The sanitized CSS, or null if it can't be made safe
+ */
+function sanitizeCss(css: string): string | null {
+  const withoutComments = css.replace(/\/\*[\s\S]*?\*\//g, "");
+  const normalized = normalizeForCheck(withoutComments);
+
+  // Escapes can spell out any of the checks below, so CSS that uses them is not kept
+  if (
+    withoutComments.includes("\\") ||
+    normalized.includes("expression(") ||
+    normalized.includes("javascript:") ||
+    normalized.includes("-moz-binding") ||
+    normalized.includes("behavior:") ||
+    normalized.includes("image-set(")
+  ) {
+    return null;
+  }
+
+  return withoutComments
+    .replace(/@import[^;]*(;|$)/gi, "")
+    .replace(/url\s*\(\s*(['"]?)([^'")]*)\1\s*\)/gi, (url, _quote, target: string) =>
+      target.trim().startsWith("#") ? url : "none",
+    );
+}
+
+/**
+ * Returns the attribute as it should be written out, or null to drop it
+ */
+function sanitizeAttribute(
+  element: string,
+  name: string,
+  rawValue: string,
+): string | null {
+  const value = decodeEntities(rawValue);
+  const lowerName = name.toLowerCase();
+
+  // Namespaces are declared on the root element by the sanitizer itself
+  if (lowerName === "xmlns" || lowerName.startsWith("xmlns:")) return null;
+  if (name.includes(":") && !ALLOWED_PREFIXED_ATTRIBUTES.has(name)) return null;
+  if (lowerName.startsWith("on")) return null;
+
+  if (name === "href" || name === "xlink:href") {
+    if (value.trim().startsWith("#")) return value;
+    if (IMAGE_ELEMENTS.has(element) && DATA_IMAGE_PATTERN.test(value.trim())) return value;
+    return null;
+  }
+
+  if (lowerName === "style") {
+    return sanitizeCss(value);
+  }
+
+  const normalized = normalizeForCheck(value);
+  if (
+    normalized.includes("javascript:") ||
+    normalized.includes("vbscript:") ||
+    hasExternalUrl(value)
+  ) {
+    return null;
+  }
+
+  return value;
+}
+
+interface OpenElement {
+  name: string;
+  dropped: boolean;
+  styleText?: string[];
+  outputIndex: number;
+}
+
+const ELEMENT_NAME = /<([A-Za-z_][\w.:-]*)/y;
+const END_TAG = /<\/([A-Za-z_][\w.:-]*)\s*>/y;
+const ATTRIBUTE = /([A-Za-z_][\w.:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+const WHITESPACE = /\s*/y;
+
+function matchAt(pattern: RegExp, input: string, position: number) {
+  pattern.lastIndex = position;
+  return pattern.exec(input);
+}
+
+function indexOrThrow(input: string, search: string, from: number, what: string): number {
+  const index = input.indexOf(search, from);
+  if (index === -1) {
+    throw new SvgSanitizationError(`Unterminated ${what}`);
+  }
+  return index;
+}
+
+/**
+ * Rewrites an SVG document keeping only allowlisted elements and attributes.
+ * Scripts, foreignObject, event handlers, external references (href, url() and CSS imports),
+ * comments, processing instructions and the DTD are removed, so the result can't run code
+ * or make requests when rendered. Malformed documents are rejected instead of repaired.
+ */
+export function sanitizeSvg(input: string): string {
+  const source = input.replace(/^\uFEFF/, "");
+  const output: string[] = [];
+  const stack: OpenElement[] = [];
+  let rootSeen = false;
+  let position = 0;
+
+  const appendText = (text: string) => {
+    const parent = stack[stack.length - 1];
+    if (!parent) {
+      if (text.trim()) {
+        throw new SvgSanitizationError("Text outside the root element");
+      }
+      return;
+    }
+    if (parent.dropped) return;
+    if (parent.styleText) {
+      parent.styleText.push(text);
+    } else {
+      output.push(escapeText(text));
+    }
+  };
+
+  while (position < source.length) {
+    if (source.startsWith("<!--", position)) {
+      position = indexOrThrow(source, "-->", position + 4, "comment") + 3;
+    } else if (source.startsWith("<![CDATA[", position)) {
+      const end = indexOrThrow(source, "]]>", position + 9, "CDATA section");
+      appendText(source.slice(position + 9, end));
+      position = end + 3;
+    } else if (source.startsWith("<!", position)) {
+      // DOCTYPE, including an internal subset that may declare entities
+      const bracket = source.indexOf("[", position);
+      const close = indexOrThrow(source, ">", position, "declaration");
+      const subsetEnd =
+        bracket !== -1 && bracket < close
+          ? indexOrThrow(source, "]", bracket, "declaration")
+          : position;
+      position = indexOrThrow(source, ">", subsetEnd, "declaration") + 1;
+    } else if (source.startsWith("<?", position)) {
+      position = indexOrThrow(source, "?>", position + 2, "processing instruction") + 2;
+    } else if (source.startsWith("</", position)) {
+      const match = matchAt(END_TAG, source, position);
+      const element = stack.pop();
+      if (!match || !element || match[1] !== element.name) {
+        throw new SvgSanitizationError("Mismatched end tag");
+      }
+      position = END_TAG.lastIndex;
+
+      if (element.styleText) {
+        const css = sanitizeCss(element.styleText.join(""));
+        if (css === null) {
+          output.length = element.outputIndex;
+        } else {
+          output.push(escapeText(css), "</style>");
+        }
+      } else if (!element.dropped) {
+        output.push(`</${element.name}>`);
+      }
+    } else if (source[position] === "<") {
+      const match = matchAt(ELEMENT_NAME, source, position);
+      if (!match) {
+        throw new SvgSanitizationError("Invalid markup");
+      }
+      const name = match[1];
+      position = ELEMENT_NAME.lastIndex;
+
+      const attributes: [string, string][] = [];
+      let selfClosing = false;
+      for (;;) {
+        position = matchAt(WHITESPACE, source, position) ? WHITESPACE.lastIndex : position;
+        if (source.startsWith("/>", position)) {
+          selfClosing = true;
+          position += 2;
+          break;
+        }
+        if (source[position] === ">") {
+          position += 1;
+          break;
+        }
+        const attribute = matchAt(ATTRIBUTE, source, position);
+        if (!attribute) {
+          throw new SvgSanitizationError(`Invalid attribute on <${name}>`);
+        }
+        attributes.push([attribute[1], attribute[2] ?? attribute[3]]);
+        position = ATTRIBUTE.lastIndex;
+      }
+
+      const isRoot = !rootSeen;
+      if (isRoot) {
+        if (name !== "svg") {
+          throw new SvgSanitizationError("The root element is not <svg>");
+        }
+        rootSeen = true;
+      } else if (stack.length === 0) {
+        throw new SvgSanitizationError("More than one root element");
+      }
+
+      const parent = stack[stack.length - 1];
+      let dropped =
+        !!parent?.dropped || !!parent?.styleText || !ALLOWED_ELEMENTS.has(name);
+
+      if (!dropped && ANIMATION_ELEMENTS.has(name)) {
+        // Animating href or an event handler would bring back what the attribute checks removed
+        const target = attributes.find(([attribute]) => attribute === "attributeName");
+        const targetName = target ? decodeEntities(target[1]).trim().toLowerCase() : "";
+        if (targetName.endsWith("href") || targetName.startsWith("on")) {
+          dropped = true;
+        }
+      }
+
+      const outputIndex = output.length;
+      if (!dropped) {
+        let tag = `<${name}`;
+        if (isRoot) {
+          tag += ` xmlns="${SVG_NAMESPACE}" xmlns:xlink="${XLINK_NAMESPACE}"`;
+        }
+        for (const [attribute, rawValue] of attributes) {
+          const value = sanitizeAttribute(name, attribute, rawValue);
+          if (value !== null) {
+            tag += ` ${attribute}="${escapeAttribute(value)}"`;
+          }
+        }
+        output.push(selfClosing ? `${tag}/>` : `${tag}>`);
+      }
+
+      if (!selfClosing) {
+        stack.push({
+          name,
+          dropped,
+          outputIndex,
+          styleText: !dropped && name === "style" ? [] : undefined,
+        });
+      }
+    } else {
+      const next = source.indexOf("<", position);
+      const end = next === -1 ? source.length : next;
+      appendText(decodeEntities(source.slice(position, end)));
+      position = end;
+    }
+  }
+
+  if (!rootSeen) {
+    throw new SvgSanitizationError("No <svg> element found");
+  }
+  if (stack.length > 0) {
+    throw new SvgSanitizationError(`Unclosed <${stack[stack.length - 1].name}> element`);
+  }
+
+  return output.join("");
+}
@@ -0,0 +1,254 @@
+import { randomUUID } from "crypto";
+import { and, asc, count, eq, inArray, isNull, ne, sql, SQL } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files, fileTags, tags, Tag } from "@/app/auth/schema";
+import { FileItem, TagItem, TagSummary } from "@/types/file";
+
+export const MAX_TAG_NAME_LENGTH = 50;
+
+// Files and tags one request can tag or untag at once
+export const MAX_BULK_TAG_ITEMS = 500;
+
+export class TagNameConflictError extends Error {
+  constructor(name: string) {
+    super(`A tag named "${name}" already exists`);
+    this.name = "TagNameConflictError";
+  }
+}
+
+/**
+ * Cleans up a tag name: trims it and collapses whitespace
+ * @returns null if the name is empty, too long or not a string
+ */
+export function normalizeTagName(name: unknown): string | null {
+  if (typeof name !== "string") return null;
+
+  const normalized = name.replace(/[\u0000-\u001F\u007F]/g, "").replace(/\s+/g, " ").trim();
+  if (normalized.length === 0 || normalized.length > MAX_TAG_NAME_LENGTH) return null;
+  return normalized;
+}
+
+/**
+ * Whether a value is a list of IDs a bulk tag request accepts
+ */
+export function isIdList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.length <= MAX_BULK_TAG_ITEMS &&
+    value.every((id) => typeof id === "string")
+  );
+}
+
+function toTagItem(tag: Pick<Tag, "id" | "name">): TagItem {
+  return { id: tag.id, name: tag.name };
+}
+
+function nameMatches(name: string): SQL {
+  return sql`${tags.name} = ${name} COLLATE NOCASE`;
+}
+
+/**
+ * A user's tags, by name, with the number of files that have each of them
+ */
+export async function getUserTags(userId: string): Promise<TagSummary[]> {
+  return db
+    .select({
+      id: tags.id,
+      name: tags.name,
+      createdAt: tags.createdAt,
+      fileCount: count(files.id),
+    })
+    .from(tags)
+    .leftJoin(fileTags, eq(fileTags.tagId, tags.id))
+    .leftJoin(files, and(eq(files.id, fileTags.fileId), isNull(files.deletedAt)))
+    .where(eq(tags.userId, userId))
+    .groupBy(tags.id)
+    .orderBy(asc(sql`${tags.name} COLLATE NOCASE`));
+}
+
+export async function getTag(userId: string, tagId: string): Promise<Tag | null> {
+  const [tag] = await db
+    .select()
+    .from(tags)
+    .where(and(eq(tags.id, tagId), eq(tags.userId, userId)))
+    .limit(1);
+  return tag ?? null;
+}
+
+/**
+ * Finds a user's tag by name, ignoring case
+ */
+export async function findTagByName(userId: string, name: string): Promise<Tag | null> {
+  const [tag] = await db
+    .select()
+    .from(tags)
+    .where(and(eq(tags.userId, userId), nameMatches(name)))
+    .limit(1);
+  return tag ?? null;
+}
+
+/**
+ * Creates a tag. Throws TagNameConflictError if the user already has a tag with that name.
+ */
+export async function createTag(userId: string, name: string): Promise<Tag> {
+  if (await findTagByName(userId, name)) {
+    throw new TagNameConflictError(name);
+  }
+
+  const now = new Date();
+  const [tag] = await db
+    .insert(tags)
+    .values({ id: randomUUID(), userId, name, createdAt: now, updatedAt: now })
+    .returning();
+  return tag;
+}
+
+/**
+ * A user's tag with the given name, created if they don't have one yet
+ */
+export async function findOrCreateTag(userId: string, name: string): Promise<Tag> {
+  return (await findTagByName(userId, name)) ?? createTag(userId, name);
+}
+
+/**
+ * Renames a tag. Throws TagNameConflictError if another of the user's tags has that name.
+ * @returns The renamed tag, or null if the user has no such tag
+ */
+export async function renameTag(
+  userId: string,
+  tagId: string,
+  name: string,
+): Promise<Tag | null> {
+  const [conflict] = await db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(and(eq(tags.userId, userId), nameMatches(name), ne(tags.id, tagId)))
+    .limit(1);
+  if (conflict) {
+    throw new TagNameConflictError(name);
+  }
+
+  const [tag] = await db
+    .update(tags)
+    .set({ name, updatedAt: new Date() })
+    .where(and(eq(tags.id, tagId), eq(tags.userId, userId)))
+    .returning();
+  return tag ?? null;
+}
+
+/**
+ * Deletes a tag and removes it from all files
+ * @returns Whether the user had such a tag
+ */
+export async function deleteTag(userId: string, tagId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(tags)
+    .where(and(eq(tags.id, tagId), eq(tags.userId, userId)))
+    .returning({ id: tags.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Puts tags on files. Files and tags the user doesn't own are ignored, as are files in the trash.
+ * @returns Number of tags added; tags a file already had are not counted
+ */
+export async function addTagsToFiles(
+  userId: string,
+  fileIds: string[],
+  tagIds: string[],
+): Promise<number> {
+  const [ownedFiles, ownedTags] = await Promise.all([
+    db
+      .select({ id: files.id })
+      .from(files)
+      .where(
+        and(inArray(files.id, fileIds), eq(files.uploadedBy, userId), isNull(files.deletedAt)),
+      ),
+    db
+      .select({ id: tags.id })
+      .from(tags)
+      .where(and(inArray(tags.id, tagIds), eq(tags.userId, userId))),
+  ]);
+  if (ownedFiles.length === 0 || ownedTags.length === 0) return 0;
+
+  const now = new Date();
+  const added = await db
+    .insert(fileTags)
+    .values(
+      ownedFiles.flatMap((file) =>
+        ownedTags.map((tag) => ({ fileId: file.id, tagId: tag.id, createdAt: now })),
+      ),
+    )
+    .onConflictDoNothing()
+    .returning({ fileId: fileTags.fileId });
+  return added.length;
+}
+
+/**
+ * Takes tags off files. Tags the user doesn't own are ignored.
+ * @returns Number of tags removed
+ */
+export async function removeTagsFromFiles(
+  userId: string,
+  fileIds: string[],
+  tagIds: string[],
+): Promise<number> {
+  const ownedTagIds = db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(and(inArray(tags.id, tagIds), eq(tags.userId, userId)));
+
+  const removed = await db
+    .delete(fileTags)
+    .where(and(inArray(fileTags.fileId, fileIds), inArray(fileTags.tagId, ownedTagIds)))
+    .returning({ fileId: fileTags.fileId });
+  return removed.length;
+}
+
+/**
+ * The tags on each of the given files, by name
+ */
+export async function getFileTags(fileIds: string[]): Promise<Map<string, TagItem[]>> {
+  const tagsByFile = new Map<string, TagItem[]>(fileIds.map((id) => [id, []]));
+  if (fileIds.length === 0) return tagsByFile;
+
+  const rows = await db
+    .select({
+      fileId: fileTags.fileId,
+      id: tags.id,
+      name: tags.name,
+      autoApplied: fileTags.autoApplied,
+    })
+    .from(fileTags)
+    .innerJoin(tags, eq(tags.id, fileTags.tagId))
+    .where(inArray(fileTags.fileId, fileIds))
+    .orderBy(asc(sql`${tags.name} COLLATE NOCASE`));
+
+  for (const row of rows) {
+    tagsByFile.get(row.fileId)?.push({ ...toTagItem(row), autoApplied: row.autoApplied });
+  }
+  return tagsByFile;
+}
+
+/**
+ * Adds each file's tags to API file items
+ */
+export async function withTags(items: FileItem[]): Promise<FileItem[]> {
+  const tagsByFile = await getFileTags(items.map((item) => item.id));
+  return items.map((item) => ({ ...item, tags: tagsByFile.get(item.id) ?? [] }));
+}
+
+/**
+ * Condition matching files that have the user's tag with the given name, ignoring case
+ */
+export function hasTag(userId: string, name: string): SQL {
+  return inArray(
+    files.id,
+    db
+      .select({ fileId: fileTags.fileId })
+      .from(fileTags)
+      .innerJoin(tags, eq(tags.id, fileTags.tagId))
+      .where(and(eq(tags.userId, userId), nameMatches(name))),
+  );
+}
@@ -0,0 +1,258 @@
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { Readable } from "stream";
+import sharp from "sharp";
+import { db } from "@/app/auth/db";
+import { files, File } from "@/app/auth/schema";
+import {
+  openFileContent,
+  readStreamToBuffer,
+  releaseBlob,
+  storeBlob,
+} from "@/utils/blobStore";
+import { getUsableScanStatuses } from "@/utils/clamd";
+import { fileActivityLogger } from "@/utils/logging";
+import { sanitizeSvg } from "@/utils/svgSanitizer";
+import { writeStreamToTempFile } from "@/utils/uploadPipeline";
+
+// Thumbnails fit in a square of this size, and are never larger than the original image
+export const THUMBNAIL_SIZE = 256;
+export const THUMBNAIL_MIME_TYPE = "image/webp";
+
+const THUMBNAIL_SWEEP_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+const THUMBNAIL_SWEEP_BATCH_SIZE = 50;
+
+const IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/svg+xml"];
+const TEXT_TYPES = ["text/plain", "text/markdown", "text/csv"];
+
+// How much of a text file is drawn: the first lines, cut to a width that stays legible
+const TEXT_PREVIEW_BYTES = 4096;
+const TEXT_PREVIEW_LINES = 14;
+const TEXT_PREVIEW_COLUMNS = 36;
+
+/**
+ * Whether thumbnails can be generated for a type
+ */
+export function supportsThumbnail(mimeType: string): boolean {
+  return IMAGE_TYPES.includes(mimeType) || TEXT_TYPES.includes(mimeType);
+}
+
+/**
+ * URL of a file's thumbnail. The hash makes it change with the thumbnail, so it can be cached forever.
+ */
+function getThumbnailUrl(fileId: string, thumbnailBlobHash: string): string {
+  return `/api/files/${fileId}/thumbnail?v=${thumbnailBlobHash.slice(0, 12)}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Draws the first lines of a text file as a page, as an SVG for sharp to rasterize
+ */
+function renderTextPreview(text: string): Buffer {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .slice(0, TEXT_PREVIEW_LINES)
+    .map((line) => line.replace(/\t/g, "  ").slice(0, TEXT_PREVIEW_COLUMNS));
+
+  const textElements = lines
+    .map(
+      (line, index) =>
+        `<text x="16" y="${28 + index * 16}" xml:space="preserve">${escapeXml(line)}</text>`,
+    )
+    .join("");
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${THUMBNAIL_SIZE}" height="${THUMBNAIL_SIZE}">` +
+      `<rect width="100%" height="100%" fill="#ffffff"/>` +
+      `<g font-family="monospace" font-size="11" fill="#1f2937">${textElements}</g>` +
+      `</svg>`,
+  );
+}
+
+/**
+ * Renders a thumbnail of a file's current content as WebP
+ */
+async function renderThumbnail(
+  file: Pick<File, "filename" | "blobHash" | "mimeType">,
+): Promise<Buffer> {
+  const { stream } = await openFileContent(file);
+
+  let input: Buffer;
+  if (TEXT_TYPES.includes(file.mimeType)) {
+    // Cutting mid-character only garbles the last line
+    input = renderTextPreview((await readStreamToBuffer(stream, TEXT_PREVIEW_BYTES)).toString("utf8"));
+  } else if (file.mimeType === "image/svg+xml") {
+    // Files from before SVG sanitization are rendered from a sanitized copy too
+    input = Buffer.from(sanitizeSvg((await readStreamToBuffer(stream)).toString("utf8")));
+  } else {
+    input = await readStreamToBuffer(stream);
+  }
+
+  return sharp(input)
+    .rotate() // Apply EXIF orientation before it is stripped
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+}
+
+/**
+ * Generates and stores the thumbnail of a file's current content.
+ * Thumbnails are stored as blobs like any other content.
+ * @returns The updated file, or null if the file has no thumbnail to generate
+ * or its content changed in the meantime
+ */
+export async function generateThumbnail(fileId: string): Promise<File | null> {
+  const [file] = await db.select().from(files).where(eq(files.id, fileId)).limit(1);
+  if (
+    !file ||
+    file.thumbnailBlobHash ||
+    !getUsableScanStatuses().includes(file.scanStatus) ||
+    !supportsThumbnail(file.mimeType)
+  ) {
+    return null;
+  }
+
+  const thumbnail = await renderThumbnail(file);
+  const temp = await writeStreamToTempFile(Readable.from([thumbnail]));
+  const blob = await storeBlob({
+    ...temp,
+    originalName: "thumbnail.webp",
+    declaredMimeType: THUMBNAIL_MIME_TYPE,
+  });
+
+  // Only attach it if the thumbnail still matches the file's content
+  const [updated] = await db
+    .update(files)
+    .set({
+      thumbnailBlobHash: blob.sha256,
+      thumbnailUrl: getThumbnailUrl(file.id, blob.sha256),
+    })
+    .where(
+      and(
+        eq(files.id, file.id),
+        eq(files.filename, file.filename),
+        isNull(files.thumbnailBlobHash),
+      ),
+    )
+    .returning();
+
+  if (!updated) {
+    await releaseBlob(blob.sha256);
+    return null;
+  }
+
+  return updated;
+}
+
+/**
+ * Releases the thumbnail of content that was replaced or deleted
+ */
+export async function releaseThumbnail(
+  file: Pick<File, "thumbnailBlobHash">,
+): Promise<void> {
+  if (file.thumbnailBlobHash) {
+    await releaseBlob(file.thumbnailBlobHash);
+  }
+}
+
+// Content that failed to render, by file ID and filename, so the sweep doesn't retry it
+const failedThumbnails = new Set<string>();
+const thumbnailsInProgress = new Set<string>();
+
+async function generateThumbnailLogged(
+  file: Pick<File, "id" | "filename" | "uploadedBy">,
+): Promise<void> {
+  const key = `${file.id}:${file.filename}`;
+  if (thumbnailsInProgress.has(key) || failedThumbnails.has(key)) return;
+  thumbnailsInProgress.add(key);
+
+  try {
+    await generateThumbnail(file.id);
+  } catch (error) {
+    failedThumbnails.add(key);
+    fileActivityLogger.logActivity("thumbnail_generation", "Thumbnails", {
+      level: "warn",
+      userId: file.uploadedBy ?? undefined,
+      fileId: file.id,
+      error: error instanceof Error ? error.message : String(error),
+      details: {
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      },
+    });
+  } finally {
+    thumbnailsInProgress.delete(key);
+  }
+}
+
+/**
+ * Generates a file's thumbnail in the background, once its content is scanned clean
+ */
+export function queueThumbnail(file: Pick<File, "id" | "filename" | "uploadedBy">): void {
+  generateThumbnailLogged(file).catch((error) => {
+    console.error(`Thumbnail generation for file ${file.id} failed:`, error);
+  });
+}
+
+/**
+ * Generates thumbnails for clean files that don't have one yet, including
+ * files uploaded before thumbnails existed
+ * @returns Number of files processed
+ */
+export async function generateMissingThumbnails(): Promise<number> {
+  const candidates = await db
+    .select({ id: files.id, filename: files.filename, uploadedBy: files.uploadedBy })
+    .from(files)
+    .where(
+      and(
+        isNull(files.thumbnailBlobHash),
+        isNull(files.deletedAt),
+        inArray(files.scanStatus, getUsableScanStatuses()),
+        inArray(files.mimeType, [...IMAGE_TYPES, ...TEXT_TYPES]),
+      ),
+    )
+    .limit(THUMBNAIL_SWEEP_BATCH_SIZE + failedThumbnails.size);
+
+  let processed = 0;
+  for (const file of candidates) {
+    if (failedThumbnails.has(`${file.id}:${file.filename}`)) continue;
+    if (processed >= THUMBNAIL_SWEEP_BATCH_SIZE) break;
+    await generateThumbnailLogged(file);
+    processed++;
+  }
+
+  return processed;
+}
+
+let generatorStarted = false;
+
+/**
+ * Fills in missing thumbnails now and every few minutes. Called once from instrumentation.
+ */
+export function startThumbnailGenerator(): void {
+  if (generatorStarted) return;
+  generatorStarted = true;
+
+  let sweeping = false;
+  const sweep = () => {
+    if (sweeping) return;
+    sweeping = true;
+    generateMissingThumbnails()
+      .catch((error) => {
+        console.error("Failed to generate missing thumbnails:", error);
+      })
+      .finally(() => {
+        sweeping = false;
+      });
+  };
+
+  sweep();
+  setInterval(sweep, THUMBNAIL_SWEEP_INTERVAL_MS);
+}
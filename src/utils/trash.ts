@@ -0,0 +1,196 @@
+import { and, desc, eq, isNotNull, isNull, lte } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files, File } from "@/app/auth/schema";
+import { FileItem } from "@/types/file";
+import { releaseFileContent } from "@/utils/blobStore";
+import { toFileItem } from "@/utils/fileUtils";
+import { invalidateImageDerivatives } from "@/utils/imageDerivatives";
+import { getArchivedVersions } from "@/utils/fileVersions";
+import { fileActivityLogger } from "@/utils/logging";
+import { refreshStorageUsage } from "@/utils/storageQuota";
+import { releaseThumbnail } from "@/utils/thumbnails";
+
+// How long files stay in the trash before they are permanently deleted
+export const TRASH_RETENTION_MS =
+  (Number(process.env.TRASH_RETENTION_DAYS) || 30) * 24 * 60 * 60 * 1000; // 30 days default
+
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+/**
+ * When a trashed file will be purged
+ */
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_MS);
+}
+
+/**
+ * Maps a trashed files row to the shape returned by the API, including when it will be purged
+ */
+export function toTrashItem(file: File): FileItem {
+  return {
+    ...toFileItem(file),
+    purgeAt: getPurgeDate(file.deletedAt!),
+  };
+}
+
+/**
+ * Soft-deletes a file. Its content and shares are kept, but shares stop
+ * resolving until the file is restored.
+ * @returns The trashed file, or null if the user has no such file outside the trash
+ */
+export async function moveToTrash(
+  fileId: string,
+  userId: string,
+): Promise<File | null> {
+  const now = new Date();
+  const [file] = await db
+    .update(files)
+    .set({ deletedAt: now, updatedAt: now })
+    .where(
+      and(
+        eq(files.id, fileId),
+        eq(files.uploadedBy, userId),
+        isNull(files.deletedAt),
+      ),
+    )
+    .returning();
+
+  if (file) {
+    // Derivatives are cheap to regenerate if the file is restored
+    await invalidateImageDerivatives(file.id);
+  }
+
+  return file ?? null;
+}
+
+/**
+ * @returns The restored file, or null if the user has no such file in the trash
+ */
+export async function restoreFromTrash(
+  fileId: string,
+  userId: string,
+): Promise<File | null> {
+  const [file] = await db
+    .update(files)
+    .set({ deletedAt: null, updatedAt: new Date() })
+    .where(
+      and(
+        eq(files.id, fileId),
+        eq(files.uploadedBy, userId),
+        isNotNull(files.deletedAt),
+      ),
+    )
+    .returning();
+
+  return file ?? null;
+}
+
+/**
+ * Files in a user's trash, most recently deleted first
+ */
+export async function getTrashedFiles(userId: string): Promise<File[]> {
+  return db
+    .select()
+    .from(files)
+    .where(and(eq(files.uploadedBy, userId), isNotNull(files.deletedAt)))
+    .orderBy(desc(files.deletedAt));
+}
+
+/**
+ * Deletes a trashed file's row, along with its archived versions, and releases their content.
+ * Failing to release only leaves an orphan for the storage reconciler.
+ * @returns false if the file was restored or deleted in the meantime
+ */
+export async function permanentlyDeleteFile(file: File): Promise<boolean> {
+  // Trashed files cannot get new versions, so this list stays complete
+  const versions = await getArchivedVersions(file.id);
+
+  const [deleted] = await db
+    .delete(files)
+    .where(and(eq(files.id, file.id), isNotNull(files.deletedAt)))
+    .returning({ id: files.id });
+
+  if (!deleted) return false;
+
+  try {
+    for (const content of [file, ...versions]) {
+      await releaseFileContent(content);
+    }
+    await releaseThumbnail(file);
+    await invalidateImageDerivatives(file.id);
+  } catch (error) {
+    fileActivityLogger.logActivity("trash_purge", "Trash", {
+      level: "warn",
+      userId: file.uploadedBy ?? undefined,
+      fileId: file.id,
+      error: error instanceof Error ? error.message : String(error),
+      details: {
+        error: "Failed to release file content, left for reconciliation",
+        blobHash: file.blobHash,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  if (file.uploadedBy) await refreshStorageUsage(file.uploadedBy);
+  return true;
+}
+
+/**
+ * Permanently deletes everything in a user's trash
+ * @returns Number of files deleted
+ */
+export async function emptyTrash(userId: string): Promise<number> {
+  let deletedCount = 0;
+  for (const file of await getTrashedFiles(userId)) {
+    if (await permanentlyDeleteFile(file)) deletedCount++;
+  }
+  return deletedCount;
+}
+
+/**
+ * Permanently deletes files that have been in the trash longer than TRASH_RETENTION_DAYS
+ * @returns Number of files purged
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const expired = await db
+    .select()
+    .from(files)
+    .where(lte(files.deletedAt, new Date(Date.now() - TRASH_RETENTION_MS)));
+
+  let purgedCount = 0;
+  for (const file of expired) {
+    if (!(await permanentlyDeleteFile(file))) continue;
+    purgedCount++;
+
+    fileActivityLogger.logActivity("trash_purge", "Trash", {
+      level: "info",
+      userId: file.uploadedBy ?? undefined,
+      fileId: file.id,
+      fileName: file.originalName,
+      details: {
+        reason: "retention_expired",
+        deletedAt: file.deletedAt?.toISOString(),
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  return purgedCount;
+}
+
+let purgerStarted = false;
+
+/**
+ * Purges expired trash every hour. Called once from instrumentation.
+ */
+export function startTrashPurger(): void {
+  if (purgerStarted) return;
+  purgerStarted = true;
+
+  setInterval(() => {
+    purgeExpiredTrash().catch((error) => {
+      console.error("Failed to purge expired trash:", error);
+    });
+  }, TRASH_PURGE_INTERVAL_MS);
+}
@@ -0,0 +1,290 @@
+import { RateLimitInfo } from "@/types/file";
+
+// Minimal browser client for the tus endpoint in /api/files/tus
+const TUS_VERSION = "1.0.0";
+const DEFAULT_ENDPOINT = "/api/files/tus";
+const DEFAULT_CHUNK_SIZE = 1024 * 1024; // 1MB, small enough that a dropped chunk is cheap to resend
+const DEFAULT_RETRY_DELAYS = [1000, 3000, 5000, 10000, 20000, 30000];
+const STORAGE_KEY_PREFIX = "tus::";
+
+export interface ResumableUploadOptions {
+  endpoint?: string;
+  chunkSize?: number;
+  // Delay before each consecutive retry; the upload fails once these run out
+  retryDelays?: number[];
+  // Folder the file is created in; the top level if absent
+  folderId?: string;
+  onProgress?: (bytesSent: number, bytesTotal: number) => void;
+  onRetry?: (attempt: number, delay: number, error: unknown) => void;
+  onRateLimit?: (rateLimit: RateLimitInfo) => void;
+}
+
+export class ResumableUploadError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = "ResumableUploadError";
+  }
+}
+
+/**
+ * Uploads a file in chunks, resuming from the server's offset after network failures.
+ * The upload URL is remembered in localStorage, so selecting the same file again
+ * after a reload continues where the previous attempt stopped.
+ * @returns ID of the files record created once the last chunk arrives
+ */
+export async function resumableUpload(
+  file: File,
+  options: ResumableUploadOptions = {},
+): Promise<string> {
+  const {
+    endpoint = DEFAULT_ENDPOINT,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    retryDelays = DEFAULT_RETRY_DELAYS,
+  } = options;
+
+  const fingerprint = getFingerprint(file, options.folderId);
+  let uploadUrl = getStoredUploadUrl(fingerprint);
+  let offset: number | null = null;
+  let attempt = 0;
+
+  while (true) {
+    try {
+      // Ask the server how much it already has before sending anything
+      if (uploadUrl && offset === null) {
+        const status = await getUploadStatus(uploadUrl);
+
+        if (!status) {
+          // Expired or terminated on the server, start again
+          forgetUploadUrl(fingerprint);
+          uploadUrl = null;
+        } else if (status.fileId) {
+          forgetUploadUrl(fingerprint);
+          options.onProgress?.(file.size, file.size);
+          return status.fileId;
+        } else {
+          offset = status.offset;
+        }
+      }
+
+      if (!uploadUrl) {
+        uploadUrl = await createUpload(endpoint, file, options.folderId, options.onRateLimit);
+        storeUploadUrl(fingerprint, uploadUrl);
+        offset = 0;
+      }
+
+      const chunkStart: number = offset ?? 0;
+      options.onProgress?.(chunkStart, file.size);
+
+      const response = await fetch(uploadUrl, {
+        method: "PATCH",
+        headers: {
+          "Tus-Resumable": TUS_VERSION,
+          "Upload-Offset": chunkStart.toString(),
+          "Content-Type": "application/offset+octet-stream",
+        },
+        body: file.slice(chunkStart, chunkStart + chunkSize),
+      });
+
+      if (response.status === 404 || response.status === 409) {
+        // Lost the upload or out of sync with the server, re-check the offset
+        offset = null;
+        if (response.status === 404) {
+          forgetUploadUrl(fingerprint);
+          uploadUrl = null;
+        }
+        throw new ResumableUploadError("Upload out of sync", response.status);
+      }
+
+      if (!response.ok) {
+        const message = await readError(response, "Upload failed");
+        if (
+          (response.status < 500 && response.status !== 423) ||
+          response.status === 507
+        ) {
+          // The server rejected the file itself, retrying will not help
+          forgetUploadUrl(fingerprint);
+        }
+        throw new ResumableUploadError(message, response.status);
+      }
+
+      offset = Number(response.headers.get("Upload-Offset"));
+      attempt = 0;
+      options.onProgress?.(offset, file.size);
+
+      const fileId = response.headers.get("X-File-Id");
+      if (fileId) {
+        forgetUploadUrl(fingerprint);
+        return fileId;
+      }
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= retryDelays.length) {
+        throw error;
+      }
+
+      const delay = retryDelays[attempt++];
+      options.onRetry?.(attempt, delay, error);
+      await waitBeforeRetry(delay);
+
+      // Whatever happened to the last chunk, the server's offset is authoritative
+      offset = null;
+    }
+  }
+}
+
+async function createUpload(
+  endpoint: string,
+  file: File,
+  folderId: string | undefined,
+  onRateLimit?: (rateLimit: RateLimitInfo) => void,
+): Promise<string> {
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Tus-Resumable": TUS_VERSION,
+      "Upload-Length": file.size.toString(),
+      "Upload-Metadata": [
+        `filename ${encodeMetadataValue(file.name)}`,
+        `filetype ${encodeMetadataValue(file.type)}`,
+        ...(folderId ? [`folderId ${encodeMetadataValue(folderId)}`] : []),
+      ].join(","),
+    },
+  });
+
+  const rateLimit = readRateLimit(response);
+  if (rateLimit) {
+    onRateLimit?.(rateLimit);
+  }
+
+  const location = response.headers.get("Location");
+  if (response.status !== 201 || !location) {
+    throw new ResumableUploadError(
+      await readError(response, "Failed to start upload"),
+      response.status,
+    );
+  }
+
+  return new URL(location, window.location.href).toString();
+}
+
+async function getUploadStatus(
+  uploadUrl: string,
+): Promise<{ offset: number; fileId: string | null } | null> {
+  const response = await fetch(uploadUrl, {
+    method: "HEAD",
+    headers: { "Tus-Resumable": TUS_VERSION },
+  });
+
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new ResumableUploadError(
+      "Failed to check upload status",
+      response.status,
+    );
+  }
+
+  return {
+    offset: Number(response.headers.get("Upload-Offset")),
+    fileId: response.headers.get("X-File-Id"),
+  };
+}
+
+/**
+ * Network failures, server errors and sync problems are worth retrying, client errors
+ * and running out of storage quota (507) are not
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ResumableUploadError) {
+    return (
+      error.status === undefined ||
+      (error.status >= 500 && error.status !== 507) ||
+      error.status === 404 ||
+      error.status === 409 ||
+      error.status === 423
+    );
+  }
+  // fetch rejects with a TypeError when the connection fails
+  return error instanceof TypeError;
+}
+
+/**
+ * Waits for the retry delay, then for the browser to come back online
+ */
+async function waitBeforeRetry(delay: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, delay));
+
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    await new Promise((resolve) =>
+      window.addEventListener("online", resolve, { once: true }),
+    );
+  }
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const result = await response.json();
+    return result.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function readRateLimit(response: Response): RateLimitInfo | null {
+  const total = response.headers.get("X-RateLimit-Limit");
+  const remaining = response.headers.get("X-RateLimit-Remaining");
+  const reset = response.headers.get("X-RateLimit-Reset");
+
+  if (!total || !remaining || !reset) return null;
+
+  return {
+    total: Number(total),
+    remaining: Number(remaining),
+    resetTime: Number(reset) * 1000,
+  };
+}
+
+function encodeMetadataValue(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+// The same file uploaded to another folder is a separate upload
+function getFingerprint(file: File, folderId?: string): string {
+  const fingerprint = `${STORAGE_KEY_PREFIX}${file.name}::${file.type}::${file.size}::${file.lastModified}`;
+  return folderId ? `${fingerprint}::${folderId}` : fingerprint;
+}
+
+// localStorage can be unavailable (private browsing, storage quota), in which
+// case uploads still retry within the page but cannot resume after a reload
+function getStoredUploadUrl(fingerprint: string): string | null {
+  try {
+    return window.localStorage.getItem(fingerprint);
+  } catch {
+    return null;
+  }
+}
+
+function storeUploadUrl(fingerprint: string, uploadUrl: string): void {
+  try {
+    window.localStorage.setItem(fingerprint, uploadUrl);
+  } catch {
+    // Resume after reload is best effort
+  }
+}
+
+function forgetUploadUrl(fingerprint: string): void {
+  try {
+    window.localStorage.removeItem(fingerprint);
+  } catch {
+    // Resume after reload is best effort
+  }
+}
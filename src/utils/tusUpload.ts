@@ -0,0 +1,208 @@
+import { randomUUID } from "crypto";
+import { and, eq, lt } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { uploadSessions, UploadSession } from "@/app/auth/schema";
+import { MAX_FILE_SIZE } from "@/types/file";
+import { createTempFile, discardTempFile } from "@/utils/uploadPipeline";
+
+// Server side of the tus resumable upload protocol (https://tus.io/protocols/resumable-upload)
+export const TUS_VERSION = "1.0.0";
+export const TUS_EXTENSIONS = "creation,expiration,termination";
+export const TUS_ENDPOINT = "/api/files/tus";
+
+// Uploads that receive no data for this long are treated as abandoned
+export const TUS_UPLOAD_EXPIRY_MS =
+  (Number(process.env.TUS_UPLOAD_EXPIRY_HOURS) || 24) * 60 * 60 * 1000; // 24 hours default
+
+/**
+ * Headers every tus response must carry
+ */
+export function tusHeaders(
+  extra: Record<string, string> = {},
+): Record<string, string> {
+  return {
+    "Tus-Resumable": TUS_VERSION,
+    "Cache-Control": "no-store",
+    ...extra,
+  };
+}
+
+/**
+ * Headers advertising server capabilities, returned from OPTIONS
+ */
+export function tusCapabilityHeaders(): Record<string, string> {
+  return tusHeaders({
+    "Tus-Version": TUS_VERSION,
+    "Tus-Extension": TUS_EXTENSIONS,
+    "Tus-Max-Size": MAX_FILE_SIZE.toString(),
+  });
+}
+
+/**
+ * Checks the Tus-Resumable header matches the protocol version we implement
+ */
+export function isSupportedTusVersion(request: Request): boolean {
+  return request.headers.get("tus-resumable") === TUS_VERSION;
+}
+
+/**
+ * Parses an Upload-Metadata header ("key base64value,key2 base64value2")
+ */
+export function parseUploadMetadata(
+  header: string | null,
+): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) return metadata;
+
+  for (const pair of header.split(",")) {
+    const [key, value] = pair.trim().split(" ");
+    if (!key) continue;
+    metadata[key] = value ? Buffer.from(value, "base64").toString("utf8") : "";
+  }
+
+  return metadata;
+}
+
+/**
+ * Parses a non-negative integer header such as Upload-Length or Upload-Offset
+ */
+export function parseOffsetHeader(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+/**
+ * Starts a new resumable upload backed by an empty temp file
+ */
+export async function createUploadSession(params: {
+  userId: string;
+  originalName: string;
+  mimeType: string;
+  uploadLength: number;
+  folderId: string | null;
+}): Promise<UploadSession> {
+  const tempPath = await createTempFile();
+  const now = new Date();
+
+  const [uploadSession] = await db
+    .insert(uploadSessions)
+    .values({
+      id: randomUUID(),
+      userId: params.userId,
+      originalName: params.originalName,
+      mimeType: params.mimeType,
+      uploadLength: params.uploadLength,
+      uploadOffset: 0,
+      folderId: params.folderId,
+      tempPath,
+      expiresAt: new Date(now.getTime() + TUS_UPLOAD_EXPIRY_MS),
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  return uploadSession;
+}
+
+/**
+ * Looks up an upload owned by the given user, ignoring expired uploads
+ */
+export async function getUploadSession(
+  id: string,
+  userId: string,
+): Promise<UploadSession | null> {
+  const [uploadSession] = await db
+    .select()
+    .from(uploadSessions)
+    .where(and(eq(uploadSessions.id, id), eq(uploadSessions.userId, userId)))
+    .limit(1);
+
+  if (!uploadSession || uploadSession.expiresAt < new Date()) {
+    return null;
+  }
+
+  return uploadSession;
+}
+
+/**
+ * Stores the new offset and pushes the expiry back, since the client is still active
+ */
+export async function recordUploadProgress(
+  id: string,
+  uploadOffset: number,
+): Promise<Date> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + TUS_UPLOAD_EXPIRY_MS);
+
+  await db
+    .update(uploadSessions)
+    .set({ uploadOffset, expiresAt, updatedAt: now })
+    .where(eq(uploadSessions.id, id));
+
+  return expiresAt;
+}
+
+/**
+ * Links a finished upload to the files record it produced.
+ * The session is kept until it expires so a client that lost the final
+ * response can still discover the file with HEAD.
+ */
+export async function completeUploadSession(
+  id: string,
+  fileId: string,
+): Promise<void> {
+  await db
+    .update(uploadSessions)
+    .set({ fileId, updatedAt: new Date() })
+    .where(eq(uploadSessions.id, id));
+}
+
+/**
+ * Terminates an upload, removing its temp file and session row
+ */
+export async function deleteUploadSession(
+  uploadSession: UploadSession,
+): Promise<void> {
+  await discardTempFile(uploadSession.tempPath);
+  await db.delete(uploadSessions).where(eq(uploadSessions.id, uploadSession.id));
+}
+
+/**
+ * Removes every upload past its expiry along with any temp data
+ * @returns Number of uploads removed
+ */
+export async function expireUploadSessions(): Promise<number> {
+  const expired = await db
+    .select()
+    .from(uploadSessions)
+    .where(lt(uploadSessions.expiresAt, new Date()));
+
+  for (const uploadSession of expired) {
+    await deleteUploadSession(uploadSession);
+  }
+
+  return expired.length;
+}
+
+// Uploads currently receiving a PATCH, so two requests never append to one file at once
+const activeUploads = new Set<string>();
+
+export function lockUpload(id: string): boolean {
+  if (activeUploads.has(id)) return false;
+  activeUploads.add(id);
+  return true;
+}
+
+export function unlockUpload(id: string): void {
+  activeUploads.delete(id);
+}
+
+// Clean up abandoned uploads every 15 minutes
+setInterval(
+  () => {
+    expireUploadSessions().catch((error) => {
+      console.error("Failed to expire abandoned uploads:", error);
+    });
+  },
+  15 * 60 * 1000,
+);
@@ -0,0 +1,302 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import { Readable } from "stream";
+import { db } from "@/app/auth/db";
+import { files, File } from "@/app/auth/schema";
+import { FileValidationError, ImageMetadata } from "@/types/file";
+import {
+  formatFileSize,
+  generateUniqueFilename,
+  getFileTypeCategory,
+  getFileUrl,
+  validateFileStream,
+} from "@/utils/fileUtils";
+import {
+  discardTempFile,
+  ReceivedUpload,
+  writeStreamToTempFile,
+} from "@/utils/uploadPipeline";
+import { releaseBlob, storeBlob } from "@/utils/blobStore";
+import { replaceFileContent } from "@/utils/fileVersions";
+import { checkStorageQuota, refreshStorageUsage } from "@/utils/storageQuota";
+import { queueFileScan } from "@/utils/virusScanner";
+import { MAX_SVG_SIZE, sanitizeSvg, SvgSanitizationError } from "@/utils/svgSanitizer";
+import { releaseThumbnail } from "@/utils/thumbnails";
+import { invalidateImageDerivatives } from "@/utils/imageDerivatives";
+import {
+  readImageMetadata,
+  rotateImageFile,
+  stripImageFile,
+  supportsImageMetadata,
+} from "@/utils/imageMetadata";
+import { getUserSettings } from "@/utils/userSettings";
+import { updateSearchIndex } from "@/utils/searchIndex";
+import { updateAutoTags } from "@/utils/autoTagging";
+
+export type FinalizeUploadResult =
+  | { success: true; file: File }
+  | { success: false; error: FileValidationError };
+
+type SanitizeUploadResult =
+  | { success: true; upload: ReceivedUpload; imageMetadata: ImageMetadata | null }
+  | { success: false; error: FileValidationError };
+
+/**
+ * Replaces the temp file with new content, so the new bytes are what gets hashed, stored and served.
+ * The new content may be larger than the upload was; the quota check comes afterwards.
+ */
+async function replaceUploadContent(
+  upload: ReceivedUpload,
+  content: Readable,
+): Promise<ReceivedUpload> {
+  const { tempPath, size, sha256 } = await writeStreamToTempFile(
+    content,
+    Number.POSITIVE_INFINITY,
+  );
+  await discardTempFile(upload.tempPath);
+  return { ...upload, tempPath, size, sha256 };
+}
+
+/**
+ * Turns an uploaded JPEG or PNG upright, strips EXIF data if the owner asked for their
+ * stored copies to be stripped, and reads its metadata. Images whose structure can't be
+ * parsed are stored as received, unless they had to be stripped.
+ * The image is only read into memory when it has to be rotated; otherwise only its metadata is.
+ */
+async function prepareUploadedImage(
+  upload: ReceivedUpload,
+  mimeType: string,
+  ownerId: string | null,
+): Promise<SanitizeUploadResult> {
+  const settings = ownerId ? await getUserSettings(ownerId) : null;
+  const stripping = settings?.stripStoredExif ? settings.exifStripping : "none";
+
+  let prepared = upload;
+  try {
+    const original = await readImageMetadata(upload.tempPath, mimeType);
+    const { orientation } = original;
+    if (orientation && orientation !== 1) {
+      prepared = await replaceUploadContent(
+        prepared,
+        rotateImageFile(prepared.tempPath, mimeType),
+      );
+    }
+    if (stripping !== "none") {
+      prepared = await replaceUploadContent(
+        prepared,
+        await stripImageFile(prepared.tempPath, mimeType, stripping),
+      );
+    }
+
+    // Read again once changed, so it only describes what is left
+    const metadata =
+      prepared === upload ? original : await readImageMetadata(prepared.tempPath, mimeType);
+    if (orientation) metadata.orientation = orientation;
+
+    return { success: true, upload: prepared, imageMetadata: metadata };
+  } catch (error) {
+    if (stripping === "none") {
+      return { success: true, upload: prepared, imageMetadata: null };
+    }
+    // The caller discards the upload it passed in, which a rotation already replaced
+    if (prepared !== upload) await discardTempFile(prepared.tempPath);
+    return {
+      success: false,
+      error: {
+        type: "type",
+        message: `Image metadata could not be removed: ${error instanceof Error ? error.message : String(error)}`,
+        filename: upload.originalName,
+      },
+    };
+  }
+}
+
+/**
+ * Rewrites an uploaded SVG without scripts, event handlers or external references,
+ * and prepares uploaded JPEG and PNG images (see prepareUploadedImage).
+ * Other types are returned unchanged.
+ */
+async function sanitizeUploadContent(
+  upload: ReceivedUpload,
+  mimeType: string,
+  ownerId: string | null,
+): Promise<SanitizeUploadResult> {
+  if (supportsImageMetadata(mimeType)) {
+    return prepareUploadedImage(upload, mimeType, ownerId);
+  }
+  if (mimeType !== "image/svg+xml") {
+    return { success: true, upload, imageMetadata: null };
+  }
+
+  if (upload.size > MAX_SVG_SIZE) {
+    return {
+      success: false,
+      error: {
+        type: "size",
+        message: `SVG files must be at most ${formatFileSize(MAX_SVG_SIZE)}`,
+        filename: upload.originalName,
+      },
+    };
+  }
+
+  let sanitized: Buffer;
+  try {
+    const svg = await fs.readFile(upload.tempPath, "utf8");
+    sanitized = Buffer.from(sanitizeSvg(svg), "utf8");
+  } catch (error) {
+    if (error instanceof SvgSanitizationError) {
+      return {
+        success: false,
+        error: {
+          type: "type",
+          message: `SVG file could not be parsed: ${error.message}`,
+          filename: upload.originalName,
+        },
+      };
+    }
+    throw error;
+  }
+
+  return {
+    success: true,
+    upload: await replaceUploadContent(upload, Readable.from([sanitized])),
+    imageMetadata: null,
+  };
+}
+
+/**
+ * Validates a fully received upload, stores it as a blob and creates its files record.
+ * Shared by the multipart and resumable upload endpoints so both produce identical records.
+ * The record gets the MIME type detected from the content, not the one the client declared.
+ * SVGs are sanitized and JPEG and PNG images turned upright before anything is stored.
+ * The temp file is always consumed, whether or not validation passes.
+ * Uploads over the user's storage quota fail with a "quota" error.
+ * The file is created in folderId, which the caller checked belongs to the user, or at the top level.
+ */
+export async function finalizeUpload(
+  upload: ReceivedUpload,
+  userId: string,
+  folderId: string | null = null,
+): Promise<FinalizeUploadResult> {
+  const validation = await validateFileStream(upload);
+  if (!validation.success) {
+    await discardTempFile(upload.tempPath);
+    return validation;
+  }
+
+  const sanitized = await sanitizeUploadContent(upload, validation.mimeType, userId);
+  if (!sanitized.success) {
+    await discardTempFile(upload.tempPath);
+    return sanitized;
+  }
+  upload = sanitized.upload;
+
+  const quotaError = await checkStorageQuota(userId, upload);
+  if (quotaError) {
+    await discardTempFile(upload.tempPath);
+    return { success: false, error: quotaError };
+  }
+
+  // Store the bytes by content hash; identical content is only kept once.
+  // The unique filename is still what the file is addressed by in URLs.
+  const blob = await storeBlob(upload);
+  const filename = generateUniqueFilename(upload.originalName);
+
+  let insertedFile: File;
+  try {
+    const now = new Date();
+    [insertedFile] = await db
+      .insert(files)
+      .values({
+        id: randomUUID(),
+        filename,
+        originalName: upload.originalName,
+        fileSize: upload.size,
+        fileType: getFileTypeCategory(validation.mimeType),
+        mimeType: validation.mimeType,
+        uploadDate: now,
+        url: getFileUrl(filename),
+        createdAt: now,
+        updatedAt: now,
+        uploadedBy: userId,
+        blobHash: blob.sha256,
+        imageMetadata: sanitized.imageMetadata && JSON.stringify(sanitized.imageMetadata),
+        folderId,
+      })
+      .returning();
+  } catch (error) {
+    // Don't leave a reference behind for a record that was never created
+    await releaseBlob(blob.sha256);
+    throw error;
+  }
+
+  await refreshStorageUsage(userId);
+  await updateSearchIndex(insertedFile);
+  await updateAutoTags(insertedFile);
+  // The file stays unavailable for download until the scan marks it clean
+  queueFileScan(insertedFile.id);
+  return { success: true, file: insertedFile };
+}
+
+/**
+ * Validates a fully received upload and makes it the new current version of an existing file.
+ * The file keeps its ID, so existing share links follow the new content.
+ * Throws FileVersionConflictError if the file changed or was trashed meanwhile.
+ */
+export async function finalizeVersionUpload(
+  upload: ReceivedUpload,
+  file: File,
+): Promise<FinalizeUploadResult> {
+  const validation = await validateFileStream(upload);
+  if (!validation.success) {
+    await discardTempFile(upload.tempPath);
+    return validation;
+  }
+
+  const sanitized = await sanitizeUploadContent(
+    upload,
+    validation.mimeType,
+    file.uploadedBy,
+  );
+  if (!sanitized.success) {
+    await discardTempFile(upload.tempPath);
+    return sanitized;
+  }
+  upload = sanitized.upload;
+
+  // Earlier versions keep counting towards the owner's usage
+  const quotaError = file.uploadedBy
+    ? await checkStorageQuota(file.uploadedBy, upload)
+    : null;
+  if (quotaError) {
+    await discardTempFile(upload.tempPath);
+    return { success: false, error: quotaError };
+  }
+
+  const blob = await storeBlob(upload);
+  const filename = generateUniqueFilename(upload.originalName);
+
+  let updatedFile: File;
+  try {
+    updatedFile = replaceFileContent(file, {
+      filename,
+      originalName: upload.originalName,
+      fileSize: upload.size,
+      fileType: getFileTypeCategory(validation.mimeType),
+      mimeType: validation.mimeType,
+      blobHash: blob.sha256,
+      imageMetadata: sanitized.imageMetadata && JSON.stringify(sanitized.imageMetadata),
+    });
+  } catch (error) {
+    await releaseBlob(blob.sha256);
+    throw error;
+  }
+
+  await releaseThumbnail(file);
+  await invalidateImageDerivatives(file.id);
+  await updateSearchIndex(updatedFile);
+  await updateAutoTags(updatedFile);
+  if (file.uploadedBy) await refreshStorageUsage(file.uploadedBy);
+  queueFileScan(updatedFile.id);
+  return { success: true, file: updatedFile };
+}
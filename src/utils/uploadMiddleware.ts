@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { MAX_FILE_SIZE } from "@/types/file";
+import { MAX_FILE_SIZE, MAX_ZIP_UPLOAD_SIZE, MULTIPART_OVERHEAD_ALLOWANCE } from "@/types/file";
 
 /**
  * Middleware to validate file upload size before processing
  * This provides an early defense against oversized uploads
  */
 export async function validateUploadSize(request: NextRequest): Promise<NextResponse | null> {
-  // Only apply to file upload endpoints
-  const isFileUpload = request.url.includes('/api/files') && request.method === 'POST';
+  // Only apply to file upload endpoints (multipart POSTs and resumable upload chunks)
+  const isFileUpload =
+    request.url.includes('/api/files') &&
+    (request.method === 'POST' || request.method === 'PATCH');
 
   if (!isFileUpload) {
     return null; // Continue to next middleware
@@ -30,14 +32,15 @@ export async function validateUploadSize(request: NextRequest): Promise<NextResp
     }
 
     // Add some buffer for form data overhead (multipart boundaries, headers, etc.)
-    // FormData typically adds 200-500 bytes of overhead
-    const maxAllowedSize = MAX_FILE_SIZE + 1024; // 1KB buffer
+    // FormData typically adds 200-500 bytes of overhead, plus any extra form fields
+    const maxFileSize = isZipExtraction(request) ? MAX_ZIP_UPLOAD_SIZE : MAX_FILE_SIZE;
+    const maxAllowedSize = maxFileSize + MULTIPART_OVERHEAD_ALLOWANCE;
 
     if (size > maxAllowedSize) {
       return NextResponse.json(
         {
           success: false,
-          error: `Request size (${formatBytes(size)}) exceeds maximum allowed (${formatBytes(MAX_FILE_SIZE)})`
+          error: `Request size (${formatBytes(size)}) exceeds maximum allowed (${formatBytes(maxFileSize)})`
         },
         {
           status: 413, // Payload Too Large
@@ -55,6 +58,17 @@ export async function validateUploadSize(request: NextRequest): Promise<NextResp
   return null; // Continue to next middleware
 }
 
+/**
+ * ZIP uploads to be extracted have a larger limit; the route counts the bytes it receives against it
+ */
+function isZipExtraction(request: NextRequest): boolean {
+  return (
+    request.method === 'POST' &&
+    request.nextUrl.pathname === '/api/files' &&
+    request.nextUrl.searchParams.get('extract') === 'true'
+  );
+}
+
 /**
  * Middleware wrapper that can be used to abort large uploads early
  */
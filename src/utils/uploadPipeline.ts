@@ -0,0 +1,230 @@
+import Busboy from "busboy";
+import { createHash, Hash, randomUUID } from "crypto";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import path from "path";
+import { Readable, Transform, TransformCallback } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { MAX_FILE_SIZE } from "@/types/file";
+import { formatFileSize } from "@/utils/fileUtils";
+import { LOCAL_STORAGE_DIR } from "@/utils/storage";
+
+// Temp files live next to the local storage root by default so the final
+// rename into place stays on the same filesystem
+export const UPLOAD_TMP_DIR = path.resolve(
+  process.env.UPLOAD_TMP_DIR || path.join(LOCAL_STORAGE_DIR, ".tmp"),
+);
+
+/**
+ * A file that has been fully streamed to a temp file, measured and hashed
+ */
+export interface ReceivedUpload {
+  tempPath: string;
+  originalName: string;
+  declaredMimeType: string;
+  size: number;
+  sha256: string;
+}
+
+export interface MultipartUpload {
+  upload: ReceivedUpload | null;
+  fields: Record<string, string>;
+}
+
+export class UploadTooLargeError extends Error {
+  constructor(public readonly limit: number) {
+    super(`File size exceeds maximum allowed (${formatFileSize(limit)})`);
+    this.name = "UploadTooLargeError";
+  }
+}
+
+/**
+ * Pass-through stream that counts and hashes bytes, failing once the limit is exceeded
+ */
+class UploadMeter extends Transform {
+  bytes = 0;
+  private hash: Hash = createHash("sha256");
+
+  constructor(private maxBytes: number) {
+    super();
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback,
+  ): void {
+    this.bytes += chunk.length;
+
+    if (this.bytes > this.maxBytes) {
+      callback(new UploadTooLargeError(this.maxBytes));
+      return;
+    }
+
+    this.hash.update(chunk);
+    callback(null, chunk);
+  }
+
+  digest(): string {
+    return this.hash.digest("hex");
+  }
+}
+
+/**
+ * Streams a source into a new temp file while counting bytes and computing its SHA-256.
+ * The temp file is removed if the stream fails or exceeds maxBytes.
+ */
+export async function writeStreamToTempFile(
+  source: Readable,
+  maxBytes: number = MAX_FILE_SIZE,
+): Promise<{ tempPath: string; size: number; sha256: string }> {
+  await fs.mkdir(UPLOAD_TMP_DIR, { recursive: true });
+
+  const tempPath = path.join(UPLOAD_TMP_DIR, `${randomUUID()}.upload`);
+  const meter = new UploadMeter(maxBytes);
+
+  try {
+    await pipeline(source, meter, createWriteStream(tempPath, { flags: "wx" }));
+  } catch (error) {
+    await discardTempFile(tempPath);
+    throw error;
+  }
+
+  return { tempPath, size: meter.bytes, sha256: meter.digest() };
+}
+
+/**
+ * Creates an empty temp file that chunks can later be appended to
+ */
+export async function createTempFile(): Promise<string> {
+  await fs.mkdir(UPLOAD_TMP_DIR, { recursive: true });
+
+  const tempPath = path.join(UPLOAD_TMP_DIR, `${randomUUID()}.upload`);
+  await fs.writeFile(tempPath, "", { flag: "wx" });
+  return tempPath;
+}
+
+/**
+ * Appends a source stream to an existing temp file, failing once more than maxBytes arrive.
+ * Bytes written before a failure are kept so an interrupted chunk can be resumed,
+ * so callers should re-read the file size rather than trust a partial count.
+ */
+export async function appendStreamToTempFile(
+  tempPath: string,
+  source: Readable,
+  maxBytes: number,
+): Promise<number> {
+  const meter = new UploadMeter(maxBytes);
+  await pipeline(source, meter, createWriteStream(tempPath, { flags: "a" }));
+  return meter.bytes;
+}
+
+/**
+ * Returns the current size of a temp file, or 0 if it does not exist
+ */
+export async function getTempFileSize(tempPath: string): Promise<number> {
+  try {
+    return (await fs.stat(tempPath)).size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Computes the SHA-256 of a temp file assembled from several chunks
+ */
+export async function hashTempFile(tempPath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(tempPath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Parses a multipart/form-data request body as a stream.
+ * The file field is written straight to a temp file, never buffered in memory.
+ */
+export function receiveMultipartUpload(
+  request: Request,
+  fileField = "file",
+  maxBytes: number = MAX_FILE_SIZE,
+): Promise<MultipartUpload> {
+  const contentType = request.headers.get("content-type") || "";
+
+  if (!request.body || !contentType.startsWith("multipart/form-data")) {
+    return Promise.resolve({ upload: null, fields: {} });
+  }
+
+  return new Promise((resolve, reject) => {
+    const fields: Record<string, string> = {};
+    let filePromise: Promise<ReceivedUpload> | null = null;
+    let settled = false;
+
+    const source = Readable.fromWeb(request.body as NodeReadableStream);
+    const busboy = Busboy({
+      headers: { "content-type": contentType },
+      limits: { files: 1, fields: 50 },
+    });
+
+    const fail = (error: unknown) => {
+      if (settled) return;
+      settled = true;
+      source.unpipe(busboy);
+      source.destroy();
+      // Make sure a partially written temp file does not linger
+      filePromise
+        ?.then((upload) => discardTempFile(upload.tempPath))
+        .catch(() => {});
+      reject(error);
+    };
+
+    busboy.on("field", (name, value) => {
+      fields[name] = value;
+    });
+
+    busboy.on("file", (name, stream, info) => {
+      if (name !== fileField || filePromise) {
+        stream.resume();
+        return;
+      }
+
+      filePromise = writeStreamToTempFile(stream, maxBytes).then((result) => ({
+        ...result,
+        originalName: info.filename,
+        declaredMimeType: info.mimeType,
+      }));
+      filePromise.catch(fail);
+    });
+
+    busboy.on("error", fail);
+    source.on("error", fail);
+
+    busboy.on("close", async () => {
+      try {
+        const upload = filePromise ? await filePromise : null;
+        if (settled) {
+          if (upload) await discardTempFile(upload.tempPath);
+          return;
+        }
+        settled = true;
+        resolve({ upload, fields });
+      } catch (error) {
+        fail(error);
+      }
+    });
+
+    source.pipe(busboy);
+  });
+}
+
+/**
+ * Removes a temp file, ignoring files that are already gone
+ */
+export async function discardTempFile(tempPath: string): Promise<void> {
+  try {
+    await fs.unlink(tempPath);
+  } catch {
+    // Already moved or cleaned up
+  }
+}
@@ -0,0 +1,60 @@
+import { eq } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { userSettings, UserSettings } from "@/app/auth/schema";
+import { ExifStripping, UserSettingsSummary } from "@/types/file";
+
+export const EXIF_STRIPPING_OPTIONS: ExifStripping[] = ["none", "location", "all"];
+
+export function isExifStripping(value: unknown): value is ExifStripping {
+  return (
+    typeof value === "string" &&
+    (EXIF_STRIPPING_OPTIONS as string[]).includes(value)
+  );
+}
+
+export function toUserSettingsSummary(settings: UserSettings): UserSettingsSummary {
+  return {
+    exifStripping: settings.exifStripping,
+    stripStoredExif: settings.stripStoredExif,
+    builtInTagRules: settings.builtInTagRules,
+  };
+}
+
+/**
+ * A user's settings, created with the defaults on first access
+ */
+export async function getUserSettings(userId: string): Promise<UserSettings> {
+  const [settings] = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.userId, userId))
+    .limit(1);
+  if (settings) return settings;
+
+  const [created] = await db
+    .insert(userSettings)
+    .values({ userId, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: userSettings.userId,
+      // Lost a race with another request creating them: keep what it stored
+      set: { userId },
+    })
+    .returning();
+
+  return created;
+}
+
+export async function updateUserSettings(
+  userId: string,
+  changes: Partial<UserSettingsSummary>,
+): Promise<UserSettings> {
+  await getUserSettings(userId);
+
+  const [settings] = await db
+    .update(userSettings)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(userSettings.userId, userId))
+    .returning();
+
+  return settings;
+}
@@ -0,0 +1,289 @@
+import { and, eq, inArray, isNull, lte, or, SQL } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files, File, fileVersions, FileVersion } from "@/app/auth/schema";
+import { ALLOW_UNSCANNED_DOWNLOADS, ScanStatus } from "@/types/file";
+import { openFileContent } from "@/utils/blobStore";
+import { getClamdConfig, getUsableScanStatuses, scanStream } from "@/utils/clamd";
+import { fileActivityLogger } from "@/utils/logging";
+import { notifyUser } from "@/utils/notifications";
+import { queueOcr } from "@/utils/ocr";
+import { queueThumbnail } from "@/utils/thumbnails";
+
+// How often pending scans are picked up, including files uploaded while clamd was down
+const SCAN_SWEEP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+// Failed scans are retried once this long has passed
+const SCAN_RETRY_DELAY_MS = 15 * 60 * 1000; // 15 minutes
+const SCAN_SWEEP_BATCH_SIZE = 100;
+
+type ScanOutcome = { status: Exclude<ScanStatus, "pending">; result: string | null };
+
+/**
+ * Whether a file's content may be downloaded or shared
+ * @returns The status code and error to respond with, or null for clean files
+ */
+export function getScanBlock(
+  scanStatus: ScanStatus,
+): { status: number; error: string } | null {
+  if (getUsableScanStatuses().includes(scanStatus)) return null;
+
+  switch (scanStatus) {
+    case "infected":
+      return {
+        status: 403,
+        error: "This file is quarantined because a virus was detected",
+      };
+    default:
+      // Without a scanner, unscanned content stays unavailable unless the deployment opts in
+      if (scanStatus === "unscanned" && !getClamdConfig()) {
+        return {
+          status: 423,
+          error: "This file can't be downloaded until it has been scanned for viruses",
+        };
+      }
+      // Pending, failed and unscanned content is scanned by the sweep, so the file may become available
+      return {
+        status: 423,
+        error: "This file is still being scanned for viruses, try again shortly",
+      };
+  }
+}
+
+/**
+ * Scans one piece of content. Without clamd configured content is left unscanned,
+ * and scanned by the sweep once clamd is configured.
+ */
+async function scanContent(
+  content: Pick<File, "filename" | "blobHash">,
+): Promise<ScanOutcome> {
+  const config = getClamdConfig();
+  if (!config) {
+    return { status: "unscanned", result: null };
+  }
+
+  try {
+    const { stream } = await openFileContent(content);
+    const result = await scanStream(stream, config);
+    return result.infected
+      ? { status: "infected", result: result.signature }
+      : { status: "clean", result: null };
+  } catch (error) {
+    return {
+      status: "error",
+      result: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Records a scan result on the file and any archived version holding the same content.
+ * Content is identified by its unique filename, so a result for content that was
+ * replaced during the scan still lands on the archived version.
+ */
+async function recordScanResult(
+  fileId: string,
+  filename: string,
+  outcome: ScanOutcome,
+): Promise<void> {
+  const scannedAt = outcome.status === "unscanned" ? null : new Date();
+
+  await db
+    .update(files)
+    .set({
+      scanStatus: outcome.status,
+      scanResult: outcome.result,
+      scannedAt,
+    })
+    .where(and(eq(files.id, fileId), eq(files.filename, filename)));
+
+  await db
+    .update(fileVersions)
+    .set({ scanStatus: outcome.status, scannedAt })
+    .where(and(eq(fileVersions.fileId, fileId), eq(fileVersions.filename, filename)));
+}
+
+async function reportInfection(
+  file: Pick<File, "id" | "uploadedBy" | "originalName">,
+  signature: string,
+  versionNumber?: number,
+): Promise<void> {
+  const name = versionNumber
+    ? `Version ${versionNumber} of "${file.originalName}"`
+    : `"${file.originalName}"`;
+
+  fileActivityLogger.logActivity("virus_scan", "VirusScanner", {
+    level: "warn",
+    userId: file.uploadedBy ?? undefined,
+    fileId: file.id,
+    fileName: file.originalName,
+    details: {
+      result: "infected",
+      signature,
+      versionNumber,
+      timestamp: new Date().toISOString(),
+    },
+  });
+
+  if (file.uploadedBy) {
+    await notifyUser({
+      userId: file.uploadedBy,
+      type: "file_infected",
+      title: "File quarantined",
+      message: `${name} contains ${signature} and has been quarantined. It can no longer be downloaded or shared.`,
+      fileId: file.id,
+    });
+  }
+}
+
+/**
+ * Scans a file's current content and records the result
+ * @returns The new scan status, or null if the file no longer exists
+ */
+export async function scanFile(fileId: string): Promise<ScanStatus | null> {
+  const [file] = await db.select().from(files).where(eq(files.id, fileId)).limit(1);
+  if (!file) return null;
+
+  const outcome = await scanContent(file);
+  await recordScanResult(file.id, file.filename, outcome);
+
+  if (getUsableScanStatuses().includes(outcome.status)) {
+    // Content is only processed further once it is known to be safe, or can't be scanned
+    queueThumbnail(file);
+    queueOcr(file);
+  } else if (outcome.status === "infected") {
+    await reportInfection(file, outcome.result!);
+  } else if (outcome.status === "error") {
+    fileActivityLogger.logActivity("virus_scan", "VirusScanner", {
+      level: "error",
+      userId: file.uploadedBy ?? undefined,
+      fileId: file.id,
+      error: outcome.result ?? undefined,
+      details: {
+        result: "error",
+        error: outcome.result,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  return outcome.status;
+}
+
+async function scanArchivedVersion(version: FileVersion): Promise<void> {
+  const outcome = await scanContent(version);
+  await recordScanResult(version.fileId, version.filename, outcome);
+
+  if (outcome.status === "infected") {
+    const [file] = await db
+      .select()
+      .from(files)
+      .where(eq(files.id, version.fileId))
+      .limit(1);
+    if (file) {
+      await reportInfection(file, outcome.result!, version.versionNumber);
+    }
+  }
+}
+
+const scansInProgress = new Set<string>();
+
+/**
+ * Scans a file in the background right after upload. Failures are left
+ * for the periodic sweep to retry.
+ */
+export function queueFileScan(fileId: string): void {
+  if (scansInProgress.has(fileId)) return;
+  scansInProgress.add(fileId);
+
+  scanFile(fileId)
+    .catch((error) => {
+      console.error(`Virus scan of file ${fileId} failed:`, error);
+    })
+    .finally(() => {
+      scansInProgress.delete(fileId);
+    });
+}
+
+// Content to scan: pending, failed a while ago, or stored unscanned if a scanner is now configured
+function needsScan(table: typeof files | typeof fileVersions): SQL {
+  const retryBefore = new Date(Date.now() - SCAN_RETRY_DELAY_MS);
+  return or(
+    inArray(table.scanStatus, getClamdConfig() ? ["pending", "unscanned"] : ["pending"]),
+    and(
+      eq(table.scanStatus, "error"),
+      or(isNull(table.scannedAt), lte(table.scannedAt, retryBefore)),
+    ),
+  )!;
+}
+
+/**
+ * Scans files and archived versions that are still pending, or whose last scan failed
+ * @returns Number of items scanned
+ */
+export async function scanPendingFiles(): Promise<number> {
+  const pendingFiles = await db
+    .select({ id: files.id })
+    .from(files)
+    .where(needsScan(files))
+    .limit(SCAN_SWEEP_BATCH_SIZE);
+
+  let scanned = 0;
+  for (const { id } of pendingFiles) {
+    if (scansInProgress.has(id)) continue;
+    scansInProgress.add(id);
+    try {
+      await scanFile(id);
+      scanned++;
+    } finally {
+      scansInProgress.delete(id);
+    }
+  }
+
+  // Versions archived before their scan finished have a result recorded by filename,
+  // so only versions from before scanning existed, or whose scan failed, are left
+  const pendingVersions = await db
+    .select()
+    .from(fileVersions)
+    .where(needsScan(fileVersions))
+    .limit(SCAN_SWEEP_BATCH_SIZE);
+
+  for (const version of pendingVersions) {
+    await scanArchivedVersion(version);
+    scanned++;
+  }
+
+  return scanned;
+}
+
+let scannerStarted = false;
+
+/**
+ * Sweeps pending scans now and every few minutes. Called once from instrumentation.
+ */
+export function startVirusScanner(): void {
+  if (scannerStarted) return;
+  scannerStarted = true;
+
+  if (!getClamdConfig()) {
+    console.warn(
+      ALLOW_UNSCANNED_DOWNLOADS
+        ? "CLAMD_HOST is not set and NEXT_PUBLIC_ALLOW_UNSCANNED_DOWNLOADS is on: unscanned uploads can be downloaded and shared"
+        : "CLAMD_HOST is not set, uploads are stored unscanned and can't be downloaded until it is",
+    );
+  }
+
+  let sweeping = false;
+  const sweep = () => {
+    if (sweeping) return;
+    sweeping = true;
+    scanPendingFiles()
+      .catch((error) => {
+        console.error("Failed to scan pending files:", error);
+      })
+      .finally(() => {
+        sweeping = false;
+      });
+  };
+
+  sweep();
+  setInterval(sweep, SCAN_SWEEP_INTERVAL_MS);
+}
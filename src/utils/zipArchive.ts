@@ -0,0 +1,222 @@
+import archiver, { Archiver } from "archiver";
+import { Readable } from "stream";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { db } from "@/app/auth/db";
+import { files, folders, File, Folder } from "@/app/auth/schema";
+import { openFileContent } from "@/utils/blobStore";
+import { getFolderTreeIds } from "@/utils/folders";
+import { fileActivityLogger } from "@/utils/logging";
+import { getScanBlock } from "@/utils/virusScanner";
+
+// Files one ZIP can hold, whether selected or in a folder
+export const MAX_ZIP_FILE_COUNT = 1000;
+
+// Already compressed, so stored as they are instead of compressed again
+const COMPRESSED_TYPES = ["image/jpeg", "image/png", "image/gif"];
+
+// Lists the files that were left out, when some were
+const NOT_INCLUDED_ENTRY_NAME = "NOT_INCLUDED.txt";
+
+export interface ZipEntry {
+  file: File;
+  // Folders between the downloaded folder and the file, e.g. "Taxes/2026"; empty at the top
+  folderPath: string;
+}
+
+/**
+ * Makes a file or folder name safe to use as a path segment when the ZIP is extracted on any
+ * system: no slashes, control characters or characters Windows refuses, and never "." or ".."
+ */
+export function toZipPathSegment(name: string): string {
+  const segment = name
+    .replace(/[\u0000-\u001F\u007F]/g, "")
+    .replace(/[/\\:*?"<>|]/g, "_")
+    .trim()
+    // Windows drops trailing dots and spaces
+    .replace(/[. ]+$/, "");
+  return segment || "_";
+}
+
+/**
+ * Adds " (1)", " (2)", ... before the extension until the path is unused. Paths are compared
+ * ignoring case, as they would clash on case-insensitive file systems.
+ */
+function claimUniquePath(used: Set<string>, folderPath: string, name: string): string {
+  const prefix = folderPath ? `${folderPath}/` : "";
+  const dot = name.lastIndexOf(".");
+  const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+
+  let path = `${prefix}${name}`;
+  for (let copy = 1; used.has(path.toLowerCase()); copy++) {
+    path = `${prefix}${base} (${copy})${extension}`;
+  }
+  used.add(path.toLowerCase());
+  return path;
+}
+
+/**
+ * Entry names for files, in order: safe, and unique even where files share a name or a
+ * name only becomes equal to another once made safe. Folder paths are claimed first, so no
+ * file takes the name of a folder.
+ */
+export function getZipEntryNames(entries: ZipEntry[], reserved: string[] = []): string[] {
+  const used = new Set(reserved.map((name) => name.toLowerCase()));
+  for (const { folderPath } of entries) {
+    const segments = folderPath ? folderPath.split("/") : [];
+    segments.forEach((_, index) => used.add(segments.slice(0, index + 1).join("/").toLowerCase()));
+  }
+  return entries.map(({ file, folderPath }) =>
+    claimUniquePath(used, folderPath, toZipPathSegment(file.originalName)),
+  );
+}
+
+/**
+ * The selected files the user owns and hasn't trashed, in the order they were selected
+ */
+export async function getSelectedZipEntries(userId: string, fileIds: string[]): Promise<ZipEntry[]> {
+  const rows = await db
+    .select()
+    .from(files)
+    .where(and(inArray(files.id, fileIds), eq(files.uploadedBy, userId), isNull(files.deletedAt)));
+
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+  return [...new Set(fileIds)].flatMap((id) => {
+    const file = rowsById.get(id);
+    return file ? [{ file, folderPath: "" }] : [];
+  });
+}
+
+/**
+ * The files in a folder and its subfolders, excluding the trash, with their path below the
+ * folder. The caller checks that the folder is the user's.
+ */
+export async function getFolderZipEntries(userId: string, folderId: string): Promise<ZipEntry[]> {
+  const treeIds = getFolderTreeIds(folderId);
+  const treeFolders = await db
+    .select()
+    .from(folders)
+    .where(and(inArray(folders.id, treeIds), eq(folders.userId, userId)));
+  const foldersById = new Map(treeFolders.map((folder) => [folder.id, folder]));
+
+  const paths = new Map<string, string>([[folderId, ""]]);
+  const getPath = (folder: Folder): string => {
+    const known = paths.get(folder.id);
+    if (known !== undefined) return known;
+    const parent = folder.parentId ? foldersById.get(folder.parentId) : undefined;
+    const parentPath = parent ? getPath(parent) : "";
+    const path = parentPath
+      ? `${parentPath}/${toZipPathSegment(folder.name)}`
+      : toZipPathSegment(folder.name);
+    paths.set(folder.id, path);
+    return path;
+  };
+
+  const rows = await db
+    .select()
+    .from(files)
+    .where(
+      and(inArray(files.folderId, treeIds), eq(files.uploadedBy, userId), isNull(files.deletedAt)),
+    );
+
+  return rows
+    .map((file) => ({ file, folderPath: getPath(foldersById.get(file.folderId!)!) }))
+    .sort(
+      (a, b) =>
+        a.folderPath.localeCompare(b.folderPath) ||
+        a.file.originalName.localeCompare(b.file.originalName),
+    );
+}
+
+// Resolves once the archive has written the entry being added, or has stopped
+function entryWritten(archive: Archiver): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      archive.off("entry", done);
+      archive.off("close", done);
+      archive.off("error", done);
+      resolve();
+    };
+    archive.on("entry", done);
+    archive.on("close", done);
+    archive.on("error", done);
+  });
+}
+
+/**
+ * Adds files one at a time, so only one is open and nothing is buffered beyond what the
+ * reader hasn't taken yet. Files blocked by the virus scan or missing from storage are
+ * left out and listed in NOT_INCLUDED.txt.
+ */
+async function appendEntries(archive: Archiver, entries: ZipEntry[], userId: string): Promise<void> {
+  const names = getZipEntryNames(entries, [NOT_INCLUDED_ENTRY_NAME]);
+  const notIncluded: string[] = [];
+
+  for (const [index, { file }] of entries.entries()) {
+    // The download was cancelled
+    if (archive.destroyed) return;
+
+    const scanBlock = getScanBlock(file.scanStatus);
+    if (scanBlock) {
+      notIncluded.push(`${names[index]}: ${scanBlock.error}`);
+      continue;
+    }
+
+    let stream: Readable;
+    try {
+      ({ stream } = await openFileContent(file));
+    } catch (error) {
+      console.error(`Failed to read file ${file.id} for a ZIP download:`, error);
+      notIncluded.push(`${names[index]}: File not found in storage`);
+      continue;
+    }
+
+    if (archive.destroyed) {
+      stream.destroy();
+      return;
+    }
+    const written = entryWritten(archive);
+    archive.append(stream, {
+      name: names[index],
+      date: file.uploadDate,
+      store: COMPRESSED_TYPES.includes(file.mimeType),
+    });
+    await written;
+  }
+
+  if (archive.destroyed) return;
+  if (notIncluded.length > 0) {
+    archive.append(`These files were not included:\r\n\r\n${notIncluded.join("\r\n")}\r\n`, {
+      name: NOT_INCLUDED_ENTRY_NAME,
+    });
+  }
+  await archive.finalize();
+
+  fileActivityLogger.logActivity("file_download", "ZipArchive", {
+    userId,
+    details: {
+      type: "zip-download",
+      fileCount: entries.length - notIncluded.length,
+      notIncludedCount: notIncluded.length,
+      timestamp: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * A ZIP of the files, produced while it is read. Errors while producing it end the stream
+ * with that error, so an incomplete download fails instead of looking complete.
+ */
+export function createZipStream(entries: ZipEntry[], userId: string): Readable {
+  const archive = archiver("zip", { zlib: { level: 6 } });
+
+  archive.on("warning", (error) => {
+    console.warn("ZIP archive warning:", error);
+  });
+
+  appendEntries(archive, entries, userId).catch((error) => {
+    console.error("Failed to create ZIP archive:", error);
+    archive.destroy(error instanceof Error ? error : new Error(String(error)));
+  });
+
+  return archive;
+}
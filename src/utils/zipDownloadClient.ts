@@ -0,0 +1,60 @@
+// What to put in a ZIP: selected files, or a folder with its subfolders
+export type ZipDownloadTarget = { fileIds: string[] } | { folderId: string };
+
+// Receives the response, so errors don't replace the page
+const DOWNLOAD_FRAME_NAME = "zip-download-frame";
+
+function getDownloadFrame(): HTMLIFrameElement {
+  const existing = document.querySelector<HTMLIFrameElement>(
+    `iframe[name="${DOWNLOAD_FRAME_NAME}"]`,
+  );
+  if (existing) return existing;
+
+  const frame = document.createElement("iframe");
+  frame.name = DOWNLOAD_FRAME_NAME;
+  frame.style.display = "none";
+  document.body.appendChild(frame);
+  return frame;
+}
+
+/**
+ * Downloads files as a ZIP by posting a form, so the browser saves the archive as it is
+ * streamed instead of holding it in memory. Downloads don't load the frame the form targets;
+ * errors do, and are passed to onError.
+ */
+export function downloadAsZip(
+  target: ZipDownloadTarget,
+  onError?: (message: string) => void,
+): void {
+  const frame = getDownloadFrame();
+  frame.onload = () => {
+    try {
+      const data = JSON.parse(frame.contentDocument?.body?.textContent || "");
+      if (data && !data.success) onError?.(data.error || "Failed to download files");
+    } catch {
+      // Not an error response
+    }
+  };
+
+  const form = document.createElement("form");
+  form.method = "POST";
+  form.action = "/api/files/download";
+  form.target = DOWNLOAD_FRAME_NAME;
+  form.style.display = "none";
+
+  const values: [string, string][] =
+    "fileIds" in target
+      ? target.fileIds.map((id) => ["fileIds", id])
+      : [["folderId", target.folderId]];
+  for (const [name, value] of values) {
+    const input = document.createElement("input");
+    input.type = "hidden";
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  }
+
+  document.body.appendChild(form);
+  form.submit();
+  document.body.removeChild(form);
+}
@@ -0,0 +1,443 @@
+import { createReadStream, promises as fs } from "fs";
+import { Readable, Transform, TransformCallback } from "stream";
+import { createInflateRaw, crc32 } from "zlib";
+import {
+  MAX_FILE_SIZE,
+  SUPPORTED_FILE_EXTENSIONS,
+  SupportedFileType,
+  ZIP_MIME_TYPES,
+  ZipEntryResult,
+} from "@/types/file";
+import { toFileItem } from "@/utils/fileUtils";
+import {
+  createFolder,
+  FolderNameConflictError,
+  getSubfolders,
+  normalizeFolderName,
+} from "@/utils/folders";
+import { finalizeUpload } from "@/utils/uploadFinalizer";
+import {
+  discardTempFile,
+  ReceivedUpload,
+  UploadTooLargeError,
+  writeStreamToTempFile,
+} from "@/utils/uploadPipeline";
+
+// Zip bomb limits, checked against the central directory before anything is extracted
+export const MAX_ZIP_ENTRY_COUNT = 1000;
+export const MAX_ZIP_EXPANDED_SIZE = 50 * MAX_FILE_SIZE;
+export const MAX_ZIP_COMPRESSION_RATIO = 100;
+
+// A few KB of repeated text compresses beyond any sensible ratio, so small entries are exempt
+const RATIO_CHECK_MIN_SIZE = 1024 * 1024;
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+const UNIX_FILE_TYPE_MASK = 0o170000;
+const UNIX_SYMLINK = 0o120000;
+
+// Created by operating systems rather than by the user; skipped instead of reported as failures
+const SYSTEM_FILE_NAMES = [".DS_Store", "Thumbs.db", "desktop.ini"];
+const SYSTEM_FOLDER_NAMES = ["__MACOSX"];
+
+export class InvalidZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidZipError";
+  }
+}
+
+export class ZipLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipLimitError";
+  }
+}
+
+interface CentralDirectoryEntry {
+  name: string;
+  flags: number;
+  method: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  isSymlink: boolean;
+}
+
+/**
+ * Whether an upload is a ZIP archive, going by its name or declared type
+ */
+export function isZipUpload(upload: Pick<ReceivedUpload, "originalName" | "declaredMimeType">): boolean {
+  return (
+    upload.originalName.toLowerCase().endsWith(".zip") ||
+    ZIP_MIME_TYPES.includes(upload.declaredMimeType)
+  );
+}
+
+// Names are UTF-8 when flagged, and in practice often without the flag; anything else is CP437,
+// read as Latin-1 since only its ASCII range is common
+function decodeEntryName(bytes: Buffer, flags: number): string {
+  if (flags & FLAG_UTF8) return bytes.toString("utf8");
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return bytes.toString("latin1");
+  }
+}
+
+async function readAt(handle: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Reads the list of entries at the end of the archive, refusing archives over the zip bomb
+ * limits by what they declare; extraction then holds every entry to its declared size.
+ * ZIP64 and split archives are not supported.
+ */
+async function readCentralDirectory(
+  handle: fs.FileHandle,
+  archiveSize: number,
+): Promise<CentralDirectoryEntry[]> {
+  const tailSize = Math.min(archiveSize, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_SIZE);
+  const tailStart = archiveSize - tailSize;
+  const tail = await readAt(handle, tailStart, tailSize);
+
+  // The record is followed only by its comment, so search backwards for one that ends the file
+  let end = -1;
+  for (let index = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; index >= 0; index--) {
+    if (
+      tail.readUInt32LE(index) === END_OF_CENTRAL_DIRECTORY_SIGNATURE &&
+      index + END_OF_CENTRAL_DIRECTORY_SIZE + tail.readUInt16LE(index + 20) === tail.length
+    ) {
+      end = index;
+      break;
+    }
+  }
+  if (end < 0) throw new InvalidZipError("The file is not a ZIP archive");
+
+  const diskNumber = tail.readUInt16LE(end + 4);
+  const directoryDisk = tail.readUInt16LE(end + 6);
+  const entryCount = tail.readUInt16LE(end + 10);
+  const directorySize = tail.readUInt32LE(end + 12);
+  const directoryOffset = tail.readUInt32LE(end + 16);
+
+  if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+    throw new InvalidZipError("ZIP64 archives are not supported");
+  }
+  if (diskNumber !== 0 || directoryDisk !== 0) {
+    throw new InvalidZipError("Split ZIP archives are not supported");
+  }
+  if (entryCount > MAX_ZIP_ENTRY_COUNT) {
+    throw new ZipLimitError(
+      `The archive has ${entryCount} entries; at most ${MAX_ZIP_ENTRY_COUNT} can be extracted`,
+    );
+  }
+  if (directoryOffset + directorySize > tailStart + end) {
+    throw new InvalidZipError("The ZIP archive is damaged");
+  }
+
+  const directory = await readAt(handle, directoryOffset, directorySize);
+  const entries: CentralDirectoryEntry[] = [];
+  let position = 0;
+
+  for (let index = 0; index < entryCount; index++) {
+    if (
+      position + CENTRAL_HEADER_SIZE > directory.length ||
+      directory.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE
+    ) {
+      throw new InvalidZipError("The ZIP archive is damaged");
+    }
+
+    const madeBy = directory.readUInt16LE(position + 4) >> 8;
+    const flags = directory.readUInt16LE(position + 8);
+    const nameLength = directory.readUInt16LE(position + 28);
+    const extraLength = directory.readUInt16LE(position + 30);
+    const commentLength = directory.readUInt16LE(position + 32);
+    const unixMode = directory.readUInt32LE(position + 38) >>> 16;
+    const nameStart = position + CENTRAL_HEADER_SIZE;
+
+    if (nameStart + nameLength > directory.length) {
+      throw new InvalidZipError("The ZIP archive is damaged");
+    }
+
+    entries.push({
+      name: decodeEntryName(directory.subarray(nameStart, nameStart + nameLength), flags),
+      flags,
+      method: directory.readUInt16LE(position + 10),
+      crc32: directory.readUInt32LE(position + 16),
+      compressedSize: directory.readUInt32LE(position + 20),
+      uncompressedSize: directory.readUInt32LE(position + 24),
+      localHeaderOffset: directory.readUInt32LE(position + 42),
+      // Only archives made on Unix (3) keep file modes
+      isSymlink: madeBy === 3 && (unixMode & UNIX_FILE_TYPE_MASK) === UNIX_SYMLINK,
+    });
+    position = nameStart + nameLength + extraLength + commentLength;
+  }
+
+  const expandedSize = entries.reduce((total, entry) => total + entry.uncompressedSize, 0);
+  if (expandedSize > MAX_ZIP_EXPANDED_SIZE) {
+    throw new ZipLimitError(
+      `The archive expands to more than ${Math.round(MAX_ZIP_EXPANDED_SIZE / (1024 * 1024))}MB`,
+    );
+  }
+  const bomb = entries.find(
+    (entry) =>
+      entry.uncompressedSize >= RATIO_CHECK_MIN_SIZE &&
+      entry.uncompressedSize > Math.max(entry.compressedSize, 1) * MAX_ZIP_COMPRESSION_RATIO,
+  );
+  if (bomb) {
+    throw new ZipLimitError(
+      `"${bomb.name}" is compressed more than ${MAX_ZIP_COMPRESSION_RATIO} times, which is not extracted`,
+    );
+  }
+
+  return entries;
+}
+
+/**
+ * The folders and name of an entry's path, or null if the path could point outside the
+ * folder it is extracted to: absolute paths, drive letters and ".." segments.
+ * Backslashes, which some Windows tools write, count as separators.
+ */
+export function getZipEntrySegments(name: string): string[] | null {
+  const path = name.replace(/\\/g, "/");
+  if (path.startsWith("/") || /^[a-z]:/i.test(path)) return null;
+
+  const segments = path.split("/").filter((segment) => segment !== "" && segment !== ".");
+  return segments.includes("..") ? null : segments;
+}
+
+// Declared type of an entry, from its extension like the browser does for uploads
+function getDeclaredMimeType(fileName: string): SupportedFileType | null {
+  const dot = fileName.lastIndexOf(".");
+  const extension = dot > 0 ? fileName.slice(dot).toLowerCase() : "";
+  const types = Object.keys(SUPPORTED_FILE_EXTENSIONS) as SupportedFileType[];
+  return types.find((type) => SUPPORTED_FILE_EXTENSIONS[type].includes(extension)) ?? null;
+}
+
+/**
+ * Pass-through stream that computes the CRC-32 of what passes through
+ */
+class Crc32Meter extends Transform {
+  value = 0;
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.value = crc32(chunk, this.value);
+    callback(null, chunk);
+  }
+}
+
+/**
+ * Decompresses an entry into a temp file, holding it to the size and checksum the archive
+ * declares, so a lying header can't make it expand further than the limits allowed for
+ */
+async function extractEntryToTempFile(
+  handle: fs.FileHandle,
+  archivePath: string,
+  archiveSize: number,
+  entry: CentralDirectoryEntry,
+): Promise<{ tempPath: string; size: number; sha256: string }> {
+  const header = await readAt(handle, entry.localHeaderOffset, LOCAL_HEADER_SIZE);
+  if (header.length < LOCAL_HEADER_SIZE || header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new InvalidZipError("The entry is damaged");
+  }
+
+  const dataStart =
+    entry.localHeaderOffset + LOCAL_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+  if (dataStart + entry.compressedSize > archiveSize) {
+    throw new InvalidZipError("The entry is damaged");
+  }
+
+  const raw: Readable =
+    entry.compressedSize > 0
+      ? createReadStream(archivePath, { start: dataStart, end: dataStart + entry.compressedSize - 1 })
+      : Readable.from([]);
+  let content = raw;
+  if (entry.method === METHOD_DEFLATED) {
+    const inflate = createInflateRaw();
+    raw.on("error", (error) => inflate.destroy(error));
+    content = raw.pipe(inflate);
+  }
+  const meter = new Crc32Meter();
+  content.on("error", (error) => meter.destroy(error));
+
+  let extracted: { tempPath: string; size: number; sha256: string };
+  try {
+    extracted = await writeStreamToTempFile(content.pipe(meter), entry.uncompressedSize);
+  } catch (error) {
+    raw.destroy();
+    if (error instanceof UploadTooLargeError) {
+      throw new InvalidZipError("The entry is larger than the archive says");
+    }
+    throw new InvalidZipError("The entry is damaged");
+  }
+
+  if (extracted.size !== entry.uncompressedSize || meter.value !== entry.crc32) {
+    await discardTempFile(extracted.tempPath);
+    throw new InvalidZipError("The entry is damaged: its checksum does not match");
+  }
+  return extracted;
+}
+
+/**
+ * Finds or creates the folders of a path below the folder the archive is extracted to,
+ * reusing folders that already have the name
+ * @returns The innermost folder, or null for the extraction folder's top level
+ */
+async function ensureFolderPath(
+  userId: string,
+  rootFolderId: string | null,
+  segments: string[],
+  created: Map<string, string | null>,
+): Promise<string | null> {
+  let parentId = rootFolderId;
+
+  for (let index = 0; index < segments.length; index++) {
+    const key = segments.slice(0, index + 1).join("/").toLowerCase();
+    const known = created.get(key);
+    if (known !== undefined) {
+      parentId = known;
+      continue;
+    }
+
+    const name = normalizeFolderName(segments[index]);
+    if (!name) throw new InvalidZipError(`"${segments[index]}" is not a valid folder name`);
+
+    const findExisting = async () =>
+      (await getSubfolders(userId, parentId)).find(
+        (folder) => folder.name.toLowerCase() === name.toLowerCase(),
+      );
+
+    let folder = await findExisting();
+    if (!folder) {
+      try {
+        folder = await createFolder(userId, name, parentId);
+      } catch (error) {
+        // Created by another request meanwhile
+        if (!(error instanceof FolderNameConflictError)) throw error;
+        folder = await findExisting();
+        if (!folder) throw error;
+      }
+    }
+
+    created.set(key, folder.id);
+    parentId = folder.id;
+  }
+  return parentId;
+}
+
+/**
+ * Extracts an uploaded ZIP archive into a folder, or the top level for null, recreating its
+ * folders. Each file goes through the same validation as a single upload (see finalizeUpload)
+ * and becomes its own files record; entries that fail don't stop the others.
+ * Throws InvalidZipError if the archive can't be read and ZipLimitError if it is over the zip
+ * bomb limits, before anything is created. The archive's temp file is always removed.
+ * Directory entries become folders and aren't listed in the result.
+ */
+export async function extractZipUpload(
+  upload: ReceivedUpload,
+  userId: string,
+  folderId: string | null,
+): Promise<ZipEntryResult[]> {
+  const handle = await fs.open(upload.tempPath, "r");
+
+  try {
+    const entries = await readCentralDirectory(handle, upload.size);
+    const folders = new Map<string, string | null>();
+    const results: ZipEntryResult[] = [];
+
+    for (const entry of entries) {
+      const segments = getZipEntrySegments(entry.name);
+      const isDirectory = entry.name.endsWith("/") || entry.name.endsWith("\\");
+
+      if (!segments) {
+        results.push({
+          path: entry.name,
+          status: "failed",
+          error: "The path points outside the folder it is extracted to",
+        });
+        continue;
+      }
+      if (segments.length === 0) continue;
+
+      if (
+        SYSTEM_FOLDER_NAMES.includes(segments[0]) ||
+        (!isDirectory && SYSTEM_FILE_NAMES.includes(segments[segments.length - 1]))
+      ) {
+        if (!isDirectory) {
+          results.push({ path: entry.name, status: "skipped", error: "System file" });
+        }
+        continue;
+      }
+
+      try {
+        if (isDirectory) {
+          await ensureFolderPath(userId, folderId, segments, folders);
+          continue;
+        }
+
+        const fileName = segments[segments.length - 1].replace(/[\u0000-\u001F\u007F]/g, "");
+        const declaredMimeType = getDeclaredMimeType(fileName);
+
+        let error: string | null = null;
+        if (entry.isSymlink) error = "Symbolic links are not extracted";
+        else if (entry.flags & FLAG_ENCRYPTED) error = "Encrypted entries are not supported";
+        else if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED) {
+          error = `Compression method ${entry.method} is not supported`;
+        } else if (!declaredMimeType) error = "File type is not supported";
+        else if (entry.uncompressedSize > MAX_FILE_SIZE) {
+          error = `File size exceeds maximum allowed size (${Math.round(MAX_FILE_SIZE / (1024 * 1024))}MB)`;
+        }
+        if (error) {
+          results.push({ path: entry.name, status: "failed", error });
+          continue;
+        }
+
+        const targetFolderId = await ensureFolderPath(
+          userId,
+          folderId,
+          segments.slice(0, -1),
+          folders,
+        );
+        const extracted = await extractEntryToTempFile(
+          handle,
+          upload.tempPath,
+          upload.size,
+          entry,
+        );
+
+        const result = await finalizeUpload(
+          { ...extracted, originalName: fileName, declaredMimeType: declaredMimeType! },
+          userId,
+          targetFolderId,
+        );
+        results.push(
+          result.success
+            ? { path: entry.name, status: "created", file: toFileItem(result.file) }
+            : { path: entry.name, status: "failed", error: result.error.message },
+        );
+      } catch (error) {
+        if (!(error instanceof InvalidZipError)) throw error;
+        results.push({ path: entry.name, status: "failed", error: error.message });
+      }
+    }
+
+    return results;
+  } finally {
+    await handle.close();
+    await discardTempFile(upload.tempPath);
+  }
+}
@@ -0,0 +1,45 @@
+import { ZIP_MIME_TYPES, ZipUploadResponse } from "@/types/file";
+
+export interface ZipUploadOptions {
+  // Folder the archive is extracted to; the top level if absent
+  folderId?: string;
+  onProgress?: (bytesSent: number, bytesTotal: number) => void;
+}
+
+/**
+ * Whether a file chosen for upload is a ZIP archive, which is extracted rather than stored
+ */
+export function isZipFile(file: Pick<File, "name" | "type">): boolean {
+  return file.name.toLowerCase().endsWith(".zip") || ZIP_MIME_TYPES.includes(file.type);
+}
+
+/**
+ * Uploads a ZIP archive to be extracted on the server. XMLHttpRequest rather than fetch,
+ * as only it reports upload progress.
+ * @returns The per-entry report, or the error for archives that weren't extracted
+ */
+export function uploadZipForExtraction(
+  file: File,
+  options: ZipUploadOptions = {},
+): Promise<ZipUploadResponse> {
+  const form = new FormData();
+  if (options.folderId) form.append("folderId", options.folderId);
+  form.append("file", file);
+
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open("POST", "/api/files?extract=true");
+    request.responseType = "json";
+
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) options.onProgress?.(event.loaded, event.total);
+    };
+    request.onload = () => {
+      const response = request.response as ZipUploadResponse | null;
+      resolve(response ?? { success: false, error: `Upload failed (${request.status})` });
+    };
+    request.onerror = () => reject(new Error("Upload failed: network error"));
+
+    request.send(form);
+  });
+}
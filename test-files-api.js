@@ -148,6 +148,81 @@ const testFileServing = async (fileUrl) => {
   }
 };
 
+// Malicious SVGs that must come back without anything that can run or load
+const MALICIOUS_SVG_FIXTURES = {
+  'script-element.svg':
+    '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(document.cookie)</script><rect width="10" height="10"/></svg>',
+  'event-handler.svg':
+    '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"><circle r="5" onmouseover="alert(1)"/></svg>',
+  'javascript-link.svg':
+    '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"><a xlink:href="&#106;avascript:alert(1)"><text>click</text></a></svg>',
+  'foreign-object.svg':
+    '<svg xmlns="http://www.w3.org/2000/svg"><foreignObject><body xmlns="http://www.w3.org/1999/xhtml"><img src="x" onerror="alert(1)"/></body></foreignObject></svg>',
+  'external-references.svg':
+    '<svg xmlns="http://www.w3.org/2000/svg"><style>@import url(https://evil.example/x.css); rect { fill: url(https://evil.example/p.svg#a) }</style><image href="https://evil.example/track.png"/><use href="https://evil.example/sprite.svg#icon"/></svg>',
+  'animated-href.svg':
+    '<svg xmlns="http://www.w3.org/2000/svg"><a><set attributeName="href" to="javascript:alert(1)"/><text>click</text></a></svg>',
+};
+
+const FORBIDDEN_SVG_PATTERNS = [
+  /<script/i,
+  /\son\w+\s*=/i,
+  /javascript:/i,
+  /foreignObject/i,
+  /@import/i,
+  /https?:\/\/evil\.example/i,
+];
+
+// Test SVG sanitization and sandboxed serving
+const testSvgSanitization = async () => {
+  console.log('🧪 Testing SVG sanitization...');
+
+  const FormData = require('form-data');
+  let passed = 0;
+
+  for (const [name, svg] of Object.entries(MALICIOUS_SVG_FIXTURES)) {
+    try {
+      const form = new FormData();
+      form.append('file', Buffer.from(svg), { filename: name, contentType: 'image/svg+xml' });
+
+      const uploadResponse = await fetch(`${API_BASE_URL}/api/files`, {
+        method: 'POST',
+        body: form,
+        headers: form.getHeaders()
+      });
+      const result = await uploadResponse.json();
+
+      if (!uploadResponse.ok || !result.success) {
+        console.error(`❌ ${name}: upload failed:`, result.error || uploadResponse.status);
+        continue;
+      }
+
+      const response = await fetch(`${API_BASE_URL}${result.file.url}`);
+      const served = await response.text();
+      const csp = response.headers.get('content-security-policy') || '';
+      const disposition = response.headers.get('content-disposition') || '';
+      const leftovers = FORBIDDEN_SVG_PATTERNS.filter((pattern) => pattern.test(served));
+
+      if (response.status === 423) {
+        console.log(`⏭️  ${name}: still being scanned for viruses`);
+      } else if (leftovers.length > 0) {
+        console.error(`❌ ${name}: served content still matches ${leftovers.join(', ')}`);
+      } else if (!csp.includes('sandbox') || !disposition.startsWith('attachment')) {
+        console.error(`❌ ${name}: served without sandbox CSP or as inline (${csp} / ${disposition})`);
+      } else {
+        console.log(`✅ ${name}: sanitized and served as a sandboxed attachment`);
+        passed++;
+      }
+
+      await fetch(`${API_BASE_URL}/api/files/${result.file.id}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error(`❌ ${name}: error:`, error.message);
+    }
+  }
+
+  console.log(`📄 ${passed}/${Object.keys(MALICIOUS_SVG_FIXTURES).length} SVG fixtures passed`);
+};
+
 // Test file deletion
 const testFileDelete = async (fileId) => {
   if (!fileId) {
@@ -210,6 +285,9 @@ const runTests = async () => {
   console.log('');
   await testFileDelete(uploadedFileId);
 
+  console.log('');
+  await testSvgSanitization();
+
   // Cleanup
   if (fs.existsSync(TEST_FILE_PATH)) {
     fs.unlinkSync(TEST_FILE_PATH);